@@ -5,6 +5,9 @@ from fastapi.middleware.cors import CORSMiddleware
 from fastapi.responses import JSONResponse, Response
 from typing import List, Optional, Dict, Any, Literal
 import json
+import re
+import subprocess
+from urllib.parse import quote, unquote
 from datetime import datetime
 from pydantic import BaseModel, Field
 import google.generativeai as genai
@@ -12,6 +15,7 @@ import asyncio
 
 # Configure logging
 from api.logging_config import setup_logging
+from api.local_repos import is_registered_local_repo
 
 setup_logging()
 logger = logging.getLogger(__name__)
@@ -37,6 +41,66 @@ def get_adalflow_default_root_path():
     return os.path.expanduser(os.path.join("~", ".adalflow"))
 
 # --- Pydantic Models ---
+class PageGenerationInfo(BaseModel):
+    """
+    Model for how and from which source a wiki page was generated.
+    """
+    generatedAt: str
+    provider: str
+    model: str
+    commitSha: Optional[str] = None
+    promptHash: str
+    instructions: Optional[str] = None # Additional instructions the page was regenerated with
+
+class CitationIssue(BaseModel):
+    """
+    Model for a source citation of a wiki page that points to a missing file or lines.
+    """
+    text: str
+    href: str
+    filePath: str
+    startLine: Optional[int] = None
+    endLine: Optional[int] = None
+    problem: str # 'missingFile' or 'invalidLines'
+    lineCount: Optional[int] = None # Number of lines of the cited file
+
+class CitationCheck(BaseModel):
+    """
+    Model for the result of verifying the source citations of a wiki page.
+    """
+    checkedAt: str
+    total: int
+    valid: int
+    issues: List[CitationIssue]
+
+class IdentifierCheck(BaseModel):
+    """
+    Model for the result of looking up the code identifiers of a wiki page in its source files.
+    """
+    checkedAt: str
+    total: int
+    unverified: List[str]
+
+class PageValidationStats(BaseModel):
+    """
+    Model for the statistics of checking a wiki page against the rules of the page prompt.
+    """
+    hasSummaryBlock: bool
+    sourceFileCount: int
+    hasMermaidDiagrams: bool
+    usesNewSyntax: bool
+    hasProperCitations: bool
+    hasTitle: bool
+
+class PageValidation(BaseModel):
+    """
+    Model for the result of checking a wiki page against the rules of the page prompt.
+    """
+    passed: bool
+    errors: List[str]
+    warnings: List[str]
+    stats: PageValidationStats
+
 class WikiPage(BaseModel):
     """
     Model for a wiki page.
@@ -47,6 +111,16 @@ class WikiPage(BaseModel):
     filePaths: List[str]
     importance: str # Should ideally be Literal['high', 'medium', 'low']
     relatedPages: List[str]
+    parentId: Optional[str] = None # Section of the page in the navigation tree
+    isSection: Optional[bool] = None
+    children: Optional[List[str]] = None
+    generation: Optional[PageGenerationInfo] = None
+    editedAt: Optional[str] = None # Last edit in the browser
+    locked: Optional[bool] = None # Kept when the wiki is generated again
+    lockedSections: Optional[List[str]] = None # Headings of the sections kept when the page is generated again
+    citationCheck: Optional[CitationCheck] = None # Result of verifying the source citations
+    identifierCheck: Optional[IdentifierCheck] = None # Code identifiers not found in the source files
+    validation: Optional[PageValidation] = None # Result of checking the content against the page prompt
 
 class ProcessedProjectEntry(BaseModel):
     id: str  # Filename
@@ -56,6 +130,7 @@ class ProcessedProjectEntry(BaseModel):
     repo_type: str # Renamed from type to repo_type for clarity with existing models
     submittedAt: int # Timestamp
     language: str # Extracted from filename
+    ref: Optional[str] = None # Branch, tag or commit, when not the default branch
 
 class RepoInfo(BaseModel):
     owner: str
@@ -64,6 +139,7 @@ class RepoInfo(BaseModel):
     token: Optional[str] = None
     localPath: Optional[str] = None
     repoUrl: Optional[str] = None
+    ref: Optional[str] = None
 
 
 class WikiSection(BaseModel):
@@ -97,6 +173,10 @@ class WikiCacheData(BaseModel):
     repo: Optional[RepoInfo] = None
     provider: Optional[str] = None
     model: Optional[str] = None
+    commit_sha: Optional[str] = None
+    branch: Optional[str] = None
+    complete: bool = True  # False while pages of the wiki are still missing
+    version: int = 1  # Format of the cache entry, see migrate_wiki_cache
 
 class WikiCacheRequest(BaseModel):
     """
@@ -108,6 +188,17 @@ class WikiCacheRequest(BaseModel):
     generated_pages: Dict[str, WikiPage]
     provider: str
     model: str
+    commit_sha: Optional[str] = None
+    branch: Optional[str] = None
+    complete: bool = True
+
+class WikiCachePageRequest(BaseModel):
+    """
+    Model for the request body when adding a generated page to a wiki cache.
+    """
+    repo: RepoInfo
+    language: str
+    page: WikiPage
 
 class WikiExportRequest(BaseModel):
     """
@@ -133,6 +224,7 @@ class Provider(BaseModel):
     name: str = Field(..., description="Display name for the provider")
     models: List[Model] = Field(..., description="List of available models for this provider")
     supportsCustomModel: Optional[bool] = Field(False, description="Whether this provider supports custom models")
+    maxConcurrency: Optional[int] = Field(1, description="Maximum number of wiki pages generated in parallel with this provider")
 
 class ModelConfig(BaseModel):
     """
@@ -196,6 +288,7 @@ async def get_model_config():
                     id=provider_id,
                     name=f"{provider_id.capitalize()}",
                     supportsCustomModel=provider_config.get("supportsCustomModel", False),
+                    maxConcurrency=provider_config.get("maxConcurrency", 1),
                     models=models
                 )
             )
@@ -272,6 +365,17 @@ async def export_wiki(request: WikiExportRequest):
         logger.error(error_msg)
         raise HTTPException(status_code=500, detail=error_msg)
 
+def get_local_repo_head(path: str) -> Optional[str]:
+    """Return the commit SHA of HEAD for a local git repository, or None if it is not a git repository."""
+    try:
+        result = subprocess.run(
+            ["git", "-C", path, "rev-parse", "HEAD"],
+            capture_output=True, text=True, check=True
+        )
+        return result.stdout.strip() or None
+    except (subprocess.CalledProcessError, FileNotFoundError):
+        return None
+
 @app.get("/local_repo/structure")
 async def get_local_repo_structure(path: str = Query(None, description="Path to local repository")):
     """Return the file tree and README content for a local repository."""
@@ -311,7 +415,7 @@ async def get_local_repo_structure(path: str = Query(None, description="Path to
                         readme_content = ""
 
         file_tree_str = '\n'.join(sorted(file_tree_lines))
-        return {"file_tree": file_tree_str, "readme": readme_content}
+        return {"file_tree": file_tree_str, "readme": readme_content, "commit_sha": get_local_repo_head(path)}
     except Exception as e:
         logger.error(f"Error processing local repository: {str(e)}")
         return JSONResponse(
@@ -319,6 +423,114 @@ async def get_local_repo_structure(path: str = Query(None, description="Path to
             content={"error": f"Error processing local repository: {str(e)}"}
         )
 
+@app.get("/local_repo/diff")
+async def get_local_repo_diff(
+    path: str = Query(..., description="Path to local repository"),
+    base: str = Query(..., description="Commit SHA to compare from"),
+    head: str = Query("HEAD", description="Commit SHA to compare to")
+):
+    """
+    Return the files changed between two commits of a local git repository.
+    Only repositories the backend has processed are compared.
+    """
+    if not os.path.isdir(path):
+        return JSONResponse(
+            status_code=404,
+            content={"error": f"Directory not found: {path}"}
+        )
+    if not is_registered_local_repo(path):
+        return JSONResponse(
+            status_code=403,
+            content={"error": f"Not a processed local repository: {path}"}
+        )
+
+    # Only accept commit SHAs so the values can't be interpreted as git options
+    for ref in (base, head):
+        if ref != "HEAD" and not re.fullmatch(r"[0-9a-fA-F]{4,64}", ref):
+            return JSONResponse(
+                status_code=400,
+                content={"error": f"Invalid commit SHA: {ref}"}
+            )
+
+    try:
+        result = subprocess.run(
+            ["git", "-C", path, "diff", "--name-status", "-M", base, head],
+            capture_output=True, text=True, check=True
+        )
+    except (subprocess.CalledProcessError, FileNotFoundError) as e:
+        details = e.stderr.strip() if isinstance(e, subprocess.CalledProcessError) else str(e)
+        logger.error(f"Error comparing {base} with {head} in {path}: {details}")
+        return JSONResponse(
+            status_code=400,
+            content={"error": f"Could not compare {base} with {head}: {details}"}
+        )
+
+    statuses = {"A": "added", "D": "removed", "R": "renamed"}
+    files = []
+    for line in result.stdout.splitlines():
+        parts = line.split("\t")
+        if len(parts) < 2:
+            continue
+        status = statuses.get(parts[0][0], "modified")
+        if status == "renamed" and len(parts) >= 3:
+            files.append({"path": parts[2], "status": status, "previous_path": parts[1]})
+        else:
+            files.append({"path": parts[1], "status": status})
+
+    return {"files": files}
+
+# Files larger than this are not shown in the source viewer
+MAX_LOCAL_FILE_SIZE = 2 * 1024 * 1024
+
+@app.get("/local_repo/file")
+async def get_local_repo_file(
+    path: str = Query(..., description="Path to local repository"),
+    file_path: str = Query(..., description="Path of the file within the repository")
+):
+    """
+    Return the content of a file of a local repository, e.g. for showing cited source code.
+    Only repositories the backend has processed are served, and hidden files such as .env never are.
+    """
+    if not is_registered_local_repo(path):
+        return JSONResponse(
+            status_code=403,
+            content={"error": f"Not a processed local repository: {path}"}
+        )
+    if any(part.startswith(".") for part in re.split(r"[\\/]", file_path) if part):
+        return JSONResponse(
+            status_code=403,
+            content={"error": f"Hidden files are not served: {file_path}"}
+        )
+
+    # Only serve files inside the repository, also when the file path contains ".." or symlinks
+    repo_root = os.path.realpath(path)
+    full_path = os.path.realpath(os.path.join(repo_root, file_path))
+    if os.path.commonpath([repo_root, full_path]) != repo_root:
+        return JSONResponse(
+            status_code=400,
+            content={"error": f"File is outside of the repository: {file_path}"}
+        )
+    if not os.path.isfile(full_path):
+        return JSONResponse(
+            status_code=404,
+            content={"error": f"File not found: {file_path}"}
+        )
+    if os.path.getsize(full_path) > MAX_LOCAL_FILE_SIZE:
+        return JSONResponse(
+            status_code=413,
+            content={"error": f"File is too large to show: {file_path}"}
+        )
+
+    try:
+        with open(full_path, 'r', encoding='utf-8', errors='replace') as f:
+            return {"content": f.read()}
+    except Exception as e:
+        logger.error(f"Error reading {file_path} in {path}: {str(e)}")
+        return JSONResponse(
+            status_code=500,
+            content={"error": f"Error reading file: {str(e)}"}
+        )
+
 def generate_markdown_export(repo_url: str, pages: List[WikiPage]) -> str:
     """
     Generate Markdown export of wiki pages.
@@ -405,19 +617,59 @@ app.add_websocket_route("/ws/chat", handle_websocket_chat)
 WIKI_CACHE_DIR = os.path.join(get_adalflow_default_root_path(), "wikicache")
 os.makedirs(WIKI_CACHE_DIR, exist_ok=True)
 
-def get_wiki_cache_path(owner: str, repo: str, repo_type: str, language: str) -> str:
-    """Generates the file path for a given wiki cache."""
-    filename = f"deepwiki_cache_{repo_type}_{owner}_{repo}_{language}.json"
+def get_wiki_cache_path(owner: str, repo: str, repo_type: str, language: str, ref: Optional[str] = None) -> str:
+    """Generates the file path for a given wiki cache. Wikis of a ref other than the default branch are kept apart."""
+    repo_name = f"{repo}@{quote(ref, safe='')}" if ref else repo
+    filename = f"deepwiki_cache_{repo_type}_{owner}_{repo_name}_{language}.json"
     return os.path.join(WIKI_CACHE_DIR, filename)
 
-async def read_wiki_cache(owner: str, repo: str, repo_type: str, language: str) -> Optional[WikiCacheData]:
-    """Reads wiki cache data from the file system."""
-    cache_path = get_wiki_cache_path(owner, repo, repo_type, language)
+# Version 2 stores the section of every page, so the navigation tree is restored exactly
+WIKI_CACHE_VERSION = 2
+
+def migrate_wiki_cache(data: dict) -> bool:
+    """
+    Brings a cache entry written by an older version up to date, in place.
+    Returns whether the entry was changed.
+    """
+    if data.get("version", 1) >= WIKI_CACHE_VERSION:
+        return False
+
+    # Version 1 dropped the section of every page; it is restored from the sections listing the page.
+    # Wikis stored without sections stay without them and are shown as a flat list of pages.
+    structure = data.get("wiki_structure") or {}
+    sections = structure.get("sections") or []
+    structure["sections"] = sections
+    if not structure.get("rootSections"):
+        subsection_ids = {sub_id for section in sections for sub_id in (section.get("subsections") or [])}
+        structure["rootSections"] = [section["id"] for section in sections if section["id"] not in subsection_ids]
+
+    section_of_page = {}
+    for section in sections:
+        for page_id in section.get("pages") or []:
+            section_of_page.setdefault(page_id, section["id"])
+    pages = list(structure.get("pages") or []) + list((data.get("generated_pages") or {}).values())
+    for page in pages:
+        if not page.get("parentId") and page.get("id") in section_of_page:
+            page["parentId"] = section_of_page[page["id"]]
+
+    data["version"] = WIKI_CACHE_VERSION
+    return True
+
+async def read_wiki_cache(owner: str, repo: str, repo_type: str, language: str, ref: Optional[str] = None) -> Optional[WikiCacheData]:
+    """Reads wiki cache data from the file system, migrating entries of older versions."""
+    cache_path = get_wiki_cache_path(owner, repo, repo_type, language, ref)
     if os.path.exists(cache_path):
         try:
             with open(cache_path, 'r', encoding='utf-8') as f:
                 data = json.load(f)
-                return WikiCacheData(**data)
+            if migrate_wiki_cache(data):
+                logger.info(f"Migrated wiki cache {cache_path} to version {WIKI_CACHE_VERSION}")
+                try:
+                    with open(cache_path, 'w', encoding='utf-8') as f:
+                        json.dump(data, f, indent=2)
+                except IOError as e:
+                    logger.warning(f"Could not store migrated wiki cache {cache_path}: {e}")
+            return WikiCacheData(**data)
         except Exception as e:
             logger.error(f"Error reading wiki cache from {cache_path}: {e}")
             return None
@@ -425,7 +677,7 @@ async def read_wiki_cache(owner: str, repo: str, repo_type: str, language: str)
 
 async def save_wiki_cache(data: WikiCacheRequest) -> bool:
     """Saves wiki cache data to the file system."""
-    cache_path = get_wiki_cache_path(data.repo.owner, data.repo.repo, data.repo.type, data.language)
+    cache_path = get_wiki_cache_path(data.repo.owner, data.repo.repo, data.repo.type, data.language, data.repo.ref)
     logger.info(f"Attempting to save wiki cache. Path: {cache_path}")
     try:
         payload = WikiCacheData(
@@ -433,7 +685,11 @@ async def save_wiki_cache(data: WikiCacheRequest) -> bool:
             generated_pages=data.generated_pages,
             repo=data.repo,
             provider=data.provider,
-            model=data.model
+            model=data.model,
+            commit_sha=data.commit_sha,
+            branch=data.branch,
+            complete=data.complete,
+            version=WIKI_CACHE_VERSION
         )
         # Log size of data to be cached for debugging (avoid logging full content if large)
         try:
@@ -456,6 +712,21 @@ async def save_wiki_cache(data: WikiCacheRequest) -> bool:
         logger.error(f"Unexpected error saving wiki cache to {cache_path}: {e}", exc_info=True)
         return False
 
+async def save_wiki_cache_page(data: WikiCachePageRequest) -> bool:
+    """Adds a generated page to an existing wiki cache, so an interrupted generation keeps the pages that finished."""
+    cache_path = get_wiki_cache_path(data.repo.owner, data.repo.repo, data.repo.type, data.language, data.repo.ref)
+    try:
+        with open(cache_path, 'r', encoding='utf-8') as f:
+            cached = json.load(f)
+        cached.setdefault("generated_pages", {})[data.page.id] = data.page.model_dump()
+        with open(cache_path, 'w', encoding='utf-8') as f:
+            json.dump(cached, f, indent=2)
+        logger.info(f"Saved page {data.page.id} to wiki cache {cache_path}")
+        return True
+    except Exception as e:
+        logger.error(f"Error saving page {data.page.id} to wiki cache {cache_path}: {e}", exc_info=True)
+        return False
+
 # --- Wiki Cache API Endpoints ---
 
 @app.get("/api/wiki_cache", response_model=Optional[WikiCacheData])
@@ -463,7 +734,8 @@ async def get_cached_wiki(
     owner: str = Query(..., description="Repository owner"),
     repo: str = Query(..., description="Repository name"),
     repo_type: str = Query(..., description="Repository type (e.g., github, gitlab)"),
-    language: str = Query(..., description="Language of the wiki content")
+    language: str = Query(..., description="Language of the wiki content"),
+    ref: Optional[str] = Query(None, description="Branch, tag or commit, when not the default branch")
 ):
     """
     Retrieves cached wiki data (structure and generated pages) for a repository.
@@ -474,7 +746,7 @@ async def get_cached_wiki(
         language = configs["lang_config"]["default"]
 
     logger.info(f"Attempting to retrieve wiki cache for {owner}/{repo} ({repo_type}), lang: {language}")
-    cached_data = await read_wiki_cache(owner, repo, repo_type, language)
+    cached_data = await read_wiki_cache(owner, repo, repo_type, language, ref)
     if cached_data:
         return cached_data
     else:
@@ -501,12 +773,34 @@ async def store_wiki_cache(request_data: WikiCacheRequest):
     else:
         raise HTTPException(status_code=500, detail="Failed to save wiki cache")
 
+@app.put("/api/wiki_cache/page")
+async def store_wiki_cache_page(request_data: WikiCachePageRequest):
+    """
+    Adds a single generated page to a wiki cache stored before, e.g. while the other pages are still generated.
+    """
+    # Language validation
+    supported_langs = configs["lang_config"]["supported_languages"]
+
+    if not supported_langs.__contains__(request_data.language):
+        request_data.language = configs["lang_config"]["default"]
+
+    cache_path = get_wiki_cache_path(request_data.repo.owner, request_data.repo.repo, request_data.repo.type, request_data.language, request_data.repo.ref)
+    if not os.path.exists(cache_path):
+        raise HTTPException(status_code=404, detail="Wiki cache not found")
+
+    success = await save_wiki_cache_page(request_data)
+    if success:
+        return {"message": "Wiki page saved successfully"}
+    else:
+        raise HTTPException(status_code=500, detail="Failed to save wiki page")
+
 @app.delete("/api/wiki_cache")
 async def delete_wiki_cache(
     owner: str = Query(..., description="Repository owner"),
     repo: str = Query(..., description="Repository name"),
     repo_type: str = Query(..., description="Repository type (e.g., github, gitlab)"),
     language: str = Query(..., description="Language of the wiki content"),
+    ref: Optional[str] = Query(None, description="Branch, tag or commit, when not the default branch"),
     authorization_code: Optional[str] = Query(None, description="Authorization code")
 ):
     """
@@ -523,7 +817,7 @@ async def delete_wiki_cache(
             raise HTTPException(status_code=401, detail="Authorization code is invalid")
 
     logger.info(f"Attempting to delete wiki cache for {owner}/{repo} ({repo_type}), lang: {language}")
-    cache_path = get_wiki_cache_path(owner, repo, repo_type, language)
+    cache_path = get_wiki_cache_path(owner, repo, repo_type, language, ref)
 
     if os.path.exists(cache_path):
         try:
@@ -578,7 +872,7 @@ async def root():
 async def get_processed_projects():
     """
     Lists all processed projects found in the wiki cache directory.
-    Projects are identified by files named like: deepwiki_cache_{repo_type}_{owner}_{repo}_{language}.json
+    Projects are identified by files named like: deepwiki_cache_{repo_type}_{owner}_{repo}[@{ref}]_{language}.json
     """
     project_entries: List[ProcessedProjectEntry] = []
     # WIKI_CACHE_DIR is already defined globally in the file
@@ -606,6 +900,11 @@ async def get_processed_projects():
                         owner = parts[1]
                         language = parts[-1] # language is the last part
                         repo = "_".join(parts[2:-1]) # repo can contain underscores
+                        # Wikis of a ref other than the default branch carry the URL-encoded ref
+                        ref = None
+                        if "@" in repo:
+                            repo, encoded_ref = repo.rsplit("@", 1)
+                            ref = unquote(encoded_ref)
 
                         project_entries.append(
                             ProcessedProjectEntry(
@@ -615,7 +914,8 @@ async def get_processed_projects():
                                 name=f"{owner}/{repo}",
                                 repo_type=repo_type,
                                 submittedAt=int(stats.st_mtime * 1000), # Convert to milliseconds
-                                language=language
+                                language=language,
+                                ref=ref
                             )
                         )
                     else:
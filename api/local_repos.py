@@ -0,0 +1,50 @@
+"""
+Registry of the local repositories the backend has processed.
+
+Files of local repositories are only served from the roots listed here, so the file endpoint
+cannot be used to read arbitrary files of the backend host.
+"""
+import json
+import logging
+import os
+import threading
+
+logger = logging.getLogger(__name__)
+
+_lock = threading.Lock()
+
+
+def get_registry_path() -> str:
+    return os.path.join(os.path.expanduser(os.path.join("~", ".adalflow")), "local_repos.json")
+
+
+def _read_roots() -> list:
+    try:
+        with open(get_registry_path(), "r", encoding="utf-8") as f:
+            roots = json.load(f)
+        return roots if isinstance(roots, list) else []
+    except FileNotFoundError:
+        return []
+    except (IOError, ValueError) as e:
+        logger.warning(f"Could not read the local repository registry: {e}")
+        return []
+
+
+def register_local_repo(path: str) -> None:
+    """Records a local repository once it has been processed."""
+    root = os.path.realpath(path)
+    with _lock:
+        roots = _read_roots()
+        if root in roots:
+            return
+        roots.append(root)
+        registry_path = get_registry_path()
+        os.makedirs(os.path.dirname(registry_path), exist_ok=True)
+        with open(registry_path, "w", encoding="utf-8") as f:
+            json.dump(roots, f, indent=2)
+    logger.info(f"Registered local repository {root}")
+
+
+def is_registered_local_repo(path: str) -> bool:
+    """Whether the path is the root of a local repository the backend has processed."""
+    return os.path.realpath(path) in _read_roots()
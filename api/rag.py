@@ -343,7 +343,7 @@ IMPORTANT FORMATTING RULES:
 
     def prepare_retriever(self, repo_url_or_path: str, type: str = "github", access_token: str = None,
                       excluded_dirs: List[str] = None, excluded_files: List[str] = None,
-                      included_dirs: List[str] = None, included_files: List[str] = None):
+                      included_dirs: List[str] = None, included_files: List[str] = None, ref: str = None):
         """
         Prepare the retriever for a repository.
         Will load database from local storage if available.
@@ -355,6 +355,7 @@ IMPORTANT FORMATTING RULES:
             excluded_files: Optional list of file patterns to exclude from processing
             included_dirs: Optional list of directories to include exclusively
             included_files: Optional list of file patterns to include exclusively
+            ref: Optional branch, tag or commit to read instead of the default branch
         """
         self.initialize_db_manager()
         self.repo_url_or_path = repo_url_or_path
@@ -366,7 +367,8 @@ IMPORTANT FORMATTING RULES:
             excluded_dirs=excluded_dirs,
             excluded_files=excluded_files,
             included_dirs=included_dirs,
-            included_files=included_files
+            included_files=included_files,
+            ref=ref
         )
         logger.info(f"Loaded {len(self.transformed_docs)} documents for retrieval")
 
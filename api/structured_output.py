@@ -0,0 +1,45 @@
+"""
+Structured output support for chat completion requests.
+
+Requests may carry a JSON Schema the response has to match. Providers that support structured
+output are asked to enforce it (or at least to return JSON); all other providers rely on the
+prompt, which describes the schema as well.
+"""
+
+from typing import Any, Dict
+
+# Providers whose API kwargs accept a structured output setting
+STRUCTURED_OUTPUT_PROVIDERS = ("ollama", "openrouter", "openai", "azure", "dashscope")
+
+
+def apply_response_schema(provider: str, api_kwargs: Dict[str, Any], schema: Dict[str, Any]) -> None:
+    """
+    Adds the structured output setting for a JSON Schema to the API kwargs of a provider.
+
+    Args:
+        provider: Model provider, one of STRUCTURED_OUTPUT_PROVIDERS
+        api_kwargs: API kwargs created by the provider's client, updated in place
+        schema: JSON Schema the response has to match
+    """
+    if provider in ("openai", "azure", "openrouter"):
+        api_kwargs["response_format"] = {
+            "type": "json_schema",
+            "json_schema": {
+                "name": schema.get("title", "response"),
+                "schema": schema,
+                "strict": True
+            }
+        }
+    elif provider == "dashscope":
+        # DashScope only offers a JSON mode without schema enforcement
+        api_kwargs["response_format"] = {"type": "json_object"}
+    elif provider == "ollama":
+        api_kwargs["format"] = schema
+
+
+def google_generation_config(schema: Dict[str, Any]) -> Dict[str, Any]:
+    """
+    Returns the generation config enabling JSON responses for Google models.
+    Gemini only accepts an OpenAPI subset of JSON Schema, so the schema itself is left to the prompt.
+    """
+    return {"response_mime_type": "application/json"} if schema else {}
@@ -0,0 +1,60 @@
+"""
+Tests for migrating wiki cache entries written by older versions.
+Run with: pytest api/test_wiki_cache_migration.py
+"""
+import copy
+
+from api.api import WIKI_CACHE_VERSION, migrate_wiki_cache
+
+
+def page(page_id, parent_id=None):
+    data = {"id": page_id, "title": page_id, "content": "", "filePaths": [], "importance": "medium", "relatedPages": []}
+    if parent_id:
+        data["parentId"] = parent_id
+    return data
+
+
+def v1_entry(sections=None):
+    structure = {"id": "wiki", "title": "Wiki", "description": "", "pages": [page("overview"), page("api"), page("cli")]}
+    if sections is not None:
+        structure["sections"] = sections
+    return {
+        "wiki_structure": structure,
+        "generated_pages": {"overview": {**page("overview"), "content": "# Overview"}},
+        "repo": {"owner": "o", "repo": "r", "type": "github"},
+    }
+
+
+def test_restores_sections_of_pages():
+    data = v1_entry([
+        {"id": "intro", "title": "Intro", "pages": ["overview"], "subsections": ["reference"]},
+        {"id": "reference", "title": "Reference", "pages": ["api", "cli"]},
+    ])
+
+    assert migrate_wiki_cache(data) is True
+
+    structure = data["wiki_structure"]
+    assert data["version"] == WIKI_CACHE_VERSION
+    assert structure["rootSections"] == ["intro"]
+    assert [p.get("parentId") for p in structure["pages"]] == ["intro", "reference", "reference"]
+    assert data["generated_pages"]["overview"]["parentId"] == "intro"
+
+
+def test_keeps_wikis_without_sections_flat():
+    data = v1_entry()
+
+    assert migrate_wiki_cache(data) is True
+
+    structure = data["wiki_structure"]
+    assert structure["sections"] == []
+    assert structure["rootSections"] == []
+    assert all("parentId" not in p for p in structure["pages"])
+
+
+def test_migrates_an_entry_once():
+    data = v1_entry([{"id": "intro", "title": "Intro", "pages": ["overview", "api", "cli"]}])
+    migrate_wiki_cache(data)
+    migrated = copy.deepcopy(data)
+
+    assert migrate_wiki_cache(data) is False
+    assert data == migrated
@@ -16,6 +16,7 @@ from api.openrouter_client import OpenRouterClient
 from api.azureai_client import AzureAIClient
 from api.dashscope_client import DashscopeClient
 from api.rag import RAG
+from api.structured_output import STRUCTURED_OUTPUT_PROVIDERS, apply_response_schema, google_generation_config
 
 # Configure logging
 from api.logging_config import setup_logging
@@ -38,6 +39,7 @@ class ChatCompletionRequest(BaseModel):
     filePath: Optional[str] = Field(None, description="Optional path to a file in the repository to include in the prompt")
     token: Optional[str] = Field(None, description="Personal access token for private repositories")
     type: Optional[str] = Field("github", description="Type of repository (e.g., 'github', 'gitlab', 'bitbucket')")
+    ref: Optional[str] = Field(None, description="Branch, tag or commit to read instead of the default branch")
 
     # model parameters
     provider: str = Field("google", description="Model provider (google, openai, openrouter, ollama, azure)")
@@ -48,6 +50,7 @@ class ChatCompletionRequest(BaseModel):
     excluded_files: Optional[str] = Field(None, description="Comma-separated list of file patterns to exclude from processing")
     included_dirs: Optional[str] = Field(None, description="Comma-separated list of directories to include exclusively")
     included_files: Optional[str] = Field(None, description="Comma-separated list of file patterns to include exclusively")
+    response_schema: Optional[Dict[str, Any]] = Field(None, description="JSON Schema the response has to match, enforced by providers that support structured output")
 
 async def handle_websocket_chat(websocket: WebSocket):
     """
@@ -95,7 +98,7 @@ async def handle_websocket_chat(websocket: WebSocket):
                 included_files = [unquote(file_pattern) for file_pattern in request.included_files.split('\n') if file_pattern.strip()]
                 logger.info(f"Using custom included files: {included_files}")
 
-            request_rag.prepare_retriever(request.repo_url, request.type, request.token, excluded_dirs, excluded_files, included_dirs, included_files)
+            request_rag.prepare_retriever(request.repo_url, request.type, request.token, excluded_dirs, excluded_files, included_dirs, included_files, request.ref)
             logger.info(f"Retriever prepared for {request.repo_url}")
         except ValueError as e:
             if "No valid documents with embeddings found" in str(e):
@@ -535,10 +538,15 @@ This file contains...
                 generation_config={
                     "temperature": model_config["temperature"],
                     "top_p": model_config["top_p"],
-                    "top_k": model_config["top_k"]
+                    "top_k": model_config["top_k"],
+                    **google_generation_config(request.response_schema)
                 }
             )
 
+        # Ask providers that support structured output to return JSON matching the requested schema
+        if request.response_schema and request.provider in STRUCTURED_OUTPUT_PROVIDERS:
+            apply_response_schema(request.provider, api_kwargs, request.response_schema)
+
         # Process the response based on the provider
         try:
             if request.provider == "ollama":
@@ -51,6 +51,14 @@ const nextConfig: NextConfig = {
         source: '/local_repo/structure',
         destination: `${TARGET_SERVER_BASE_URL}/local_repo/structure`,
       },
+      {
+        source: '/local_repo/diff',
+        destination: `${TARGET_SERVER_BASE_URL}/local_repo/diff`,
+      },
+      {
+        source: '/local_repo/file',
+        destination: `${TARGET_SERVER_BASE_URL}/local_repo/file`,
+      },
       {
         source: '/api/auth/status',
         destination: `${TARGET_SERVER_BASE_URL}/auth/status`,
@@ -0,0 +1,327 @@
+'use client';
+
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useParams, useRouter, useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import { FaArrowLeft, FaArrowRight, FaExchangeAlt, FaFileImport } from 'react-icons/fa';
+import ThemeToggle from '@/components/theme-toggle';
+import MarkdownDiff from '@/components/MarkdownDiff';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { RepoInfo } from '@/types/repoinfo';
+import { fetchWikiCache } from '@/utils/wiki/wikiCache';
+import {
+  ComparableWiki,
+  compareWikis,
+  PageChangeStatus,
+  PageComparison,
+  parseWikiJsonExport,
+  WikiComparison
+} from '@/utils/wiki/wikiCompare';
+
+// Removed pages may share their id with a page of the newer wiki
+const pageKey = (page: PageComparison): string => `${page.status}:${page.id}`;
+
+const STATUS_STYLES: Record<PageChangeStatus, string> = {
+  added: 'bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-300',
+  removed: 'bg-red-100 dark:bg-red-900/30 text-red-800 dark:text-red-300',
+  changed: 'bg-amber-100 dark:bg-amber-900/30 text-amber-800 dark:text-amber-300',
+  unchanged: 'bg-[var(--background)] text-[var(--muted)]'
+};
+
+export default function ComparePage() {
+  // Get route parameters and search params
+  const params = useParams();
+  const searchParams = useSearchParams();
+  const router = useRouter();
+
+  const owner = params.owner as string;
+  const repo = params.repo as string;
+
+  const token = searchParams.get('token') || '';
+  const repoType = searchParams.get('type') || 'github';
+  const localPath = searchParams.get('local_path') ? decodeURIComponent(searchParams.get('local_path') || '') : undefined;
+  const repoUrl = searchParams.get('repo_url') ? decodeURIComponent(searchParams.get('repo_url') || '') : undefined;
+  const language = searchParams.get('language') || 'en';
+  // Refs of the two wikis; an empty ref is the wiki of the default branch
+  const baseParam = searchParams.get('base') || '';
+  const headParam = searchParams.get('head') ?? searchParams.get('ref') ?? '';
+
+  const { messages } = useLanguage();
+
+  const repoInfo = useMemo<RepoInfo>(() => ({
+    owner,
+    repo,
+    type: repoType,
+    token: token || null,
+    localPath: localPath || null,
+    repoUrl: repoUrl || null
+  }), [owner, repo, repoType, token, localPath, repoUrl]);
+
+  const [baseRef, setBaseRef] = useState(baseParam);
+  const [headRef, setHeadRef] = useState(headParam);
+  // A JSON export used instead of the cached wiki of the base ref, e.g. an earlier generation
+  const [baseExport, setBaseExport] = useState<{ name: string; wiki: ComparableWiki } | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [comparison, setComparison] = useState<WikiComparison | null>(null);
+  const [selectedPageKey, setSelectedPageKey] = useState<string | null>(null);
+  const [showUnchanged, setShowUnchanged] = useState(false);
+
+  const loadWiki = useCallback(async (ref: string): Promise<ComparableWiki> => {
+    const cachedData = await fetchWikiCache({ ...repoInfo, ref: ref || null }, language);
+    if (!cachedData) {
+      throw new Error((messages.compare?.noWiki || 'No wiki has been generated for {ref}.')
+        .replace('{ref}', ref || (messages.compare?.defaultBranch || 'the default branch')));
+    }
+    return { structure: cachedData.wiki_structure, pages: cachedData.generated_pages };
+  }, [repoInfo, language, messages.compare]);
+
+  const runComparison = useCallback(async (base: string, head: string) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const [baseWiki, headWiki] = await Promise.all([
+        baseExport ? Promise.resolve(baseExport.wiki) : loadWiki(base),
+        loadWiki(head)
+      ]);
+      const result = compareWikis(baseWiki, headWiki);
+      setComparison(result);
+      const firstPage = result.pages.find(page => page.status !== 'unchanged') ?? result.pages[0];
+      setSelectedPageKey(firstPage ? pageKey(firstPage) : null);
+    } catch (err) {
+      console.error('Error comparing wikis:', err);
+      setComparison(null);
+      setError(err instanceof Error ? err.message : 'An unknown error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [baseExport, loadWiki]);
+
+  const handleCompare = (e: React.FormEvent) => {
+    e.preventDefault();
+    // Keep the refs in the URL so a comparison can be shared
+    const query = new URLSearchParams(searchParams.toString());
+    query.delete('ref');
+    query.set('base', baseRef.trim());
+    query.set('head', headRef.trim());
+    router.replace(`/${owner}/${repo}/compare?${query.toString()}`);
+    runComparison(baseRef.trim(), headRef.trim());
+  };
+
+  const handleExportUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    try {
+      setBaseExport({ name: file.name, wiki: parseWikiJsonExport(await file.text()) });
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unknown error occurred');
+    }
+    e.target.value = '';
+  };
+
+  // Compare right away when the URL names both wikis
+  const comparedOnLoadRef = useRef(false);
+  useEffect(() => {
+    if (!comparedOnLoadRef.current && searchParams.has('base')) {
+      comparedOnLoadRef.current = true;
+      runComparison(baseParam, headParam);
+    }
+  }, [searchParams, baseParam, headParam, runComparison]);
+
+  const visiblePages = comparison?.pages.filter(page => showUnchanged || page.status !== 'unchanged') ?? [];
+  const selectedPage = comparison?.pages.find(page => pageKey(page) === selectedPageKey);
+
+  const statusLabel = (status: PageChangeStatus): string =>
+    messages.compare?.[status] || status.charAt(0).toUpperCase() + status.slice(1);
+
+  // Query of the wiki page, which goes back to the wiki of the head ref
+  const wikiQuery = new URLSearchParams(searchParams.toString());
+  wikiQuery.delete('base');
+  wikiQuery.delete('head');
+  if (headParam) {
+    wikiQuery.set('ref', headParam);
+  }
+
+  return (
+    <div className="min-h-screen flex flex-col bg-[var(--background)]">
+      {/* Header */}
+      <header className="sticky top-0 z-10 bg-[var(--card-bg)] border-b border-[var(--border-color)] shadow-sm">
+        <div className="container mx-auto px-4 py-3 flex items-center justify-between">
+          <div className="flex items-center space-x-4">
+            <Link
+              href={`/${owner}/${repo}?${wikiQuery.toString()}`}
+              className="flex items-center text-[var(--foreground)] hover:text-[var(--accent-primary)] transition-colors"
+            >
+              <FaArrowLeft className="mr-2" />
+              <span>{messages.compare?.backToWiki || 'Back to Wiki'}</span>
+            </Link>
+            <h1 className="text-xl font-bold text-[var(--accent-primary)]">
+              {messages.compare?.title || 'Compare Wikis'}: {repo}
+            </h1>
+          </div>
+          <ThemeToggle />
+        </div>
+      </header>
+
+      <main className="flex-1 container mx-auto px-4 py-6">
+        {/* Versions to compare */}
+        <form
+          onSubmit={handleCompare}
+          className="bg-[var(--card-bg)] border border-[var(--border-color)] rounded-lg shadow-sm p-4 mb-6 flex flex-wrap items-end gap-4"
+        >
+          <div className="flex-1 min-w-[200px]">
+            <label htmlFor="base-ref" className="block text-xs font-medium text-[var(--foreground)] mb-1.5">
+              {messages.compare?.baseRef || 'Base (older)'}
+            </label>
+            {baseExport ? (
+              <div className="flex items-center gap-2 text-sm text-[var(--foreground)] font-mono">
+                <FaFileImport className="text-[var(--muted)]" />
+                <span className="truncate">{baseExport.name}</span>
+                <button
+                  type="button"
+                  onClick={() => setBaseExport(null)}
+                  className="text-xs text-[var(--accent-primary)] hover:underline"
+                >
+                  {messages.compare?.useCachedWiki || 'Use a ref instead'}
+                </button>
+              </div>
+            ) : (
+              <input
+                id="base-ref"
+                type="text"
+                value={baseRef}
+                onChange={(e) => setBaseRef(e.target.value)}
+                placeholder={messages.form?.gitRefPlaceholder || 'Default branch'}
+                className="input-japanese block w-full px-3 py-2 text-sm rounded-md bg-transparent text-[var(--foreground)] focus:outline-none focus:border-[var(--accent-primary)] font-mono"
+              />
+            )}
+          </div>
+          <FaArrowRight className="mb-3 text-[var(--muted)]" />
+          <div className="flex-1 min-w-[200px]">
+            <label htmlFor="head-ref" className="block text-xs font-medium text-[var(--foreground)] mb-1.5">
+              {messages.compare?.headRef || 'Head (newer)'}
+            </label>
+            <input
+              id="head-ref"
+              type="text"
+              value={headRef}
+              onChange={(e) => setHeadRef(e.target.value)}
+              placeholder={messages.form?.gitRefPlaceholder || 'Default branch'}
+              className="input-japanese block w-full px-3 py-2 text-sm rounded-md bg-transparent text-[var(--foreground)] focus:outline-none focus:border-[var(--accent-primary)] font-mono"
+            />
+          </div>
+          <div className="flex items-center gap-2">
+            <label
+              className="flex items-center text-xs px-3 py-2 bg-[var(--background)] text-[var(--foreground)] rounded-md hover:bg-[var(--background)]/80 border border-[var(--border-color)] transition-colors cursor-pointer"
+              title={messages.compare?.uploadExportHint || 'Compare against a wiki exported as JSON, e.g. an earlier generation'}
+            >
+              <FaFileImport className="mr-2" />
+              {messages.compare?.uploadExport || 'Base from JSON export'}
+              <input type="file" accept=".json,application/json" onChange={handleExportUpload} className="hidden" />
+            </label>
+            <button
+              type="submit"
+              disabled={isLoading}
+              className="btn-japanese flex items-center text-xs px-3 py-2 rounded-md disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <FaExchangeAlt className="mr-2" />
+              {messages.compare?.compare || 'Compare'}
+            </button>
+          </div>
+        </form>
+
+        {isLoading ? (
+          <div className="flex flex-col items-center justify-center p-8">
+            <div className="w-12 h-12 border-4 border-[var(--accent-primary)]/30 border-t-[var(--accent-primary)] rounded-full animate-spin mb-4"></div>
+            <p className="text-[var(--foreground)]">{messages.compare?.loading || 'Loading both wikis...'}</p>
+          </div>
+        ) : error ? (
+          <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-md p-4 mb-6">
+            <h3 className="text-red-800 dark:text-red-400 font-medium mb-2">{messages.common?.error || 'Error'}</h3>
+            <p className="text-red-700 dark:text-red-300">{error}</p>
+          </div>
+        ) : comparison && (
+          <>
+            {/* Structure changes */}
+            <div className="bg-[var(--card-bg)] border border-[var(--border-color)] rounded-lg shadow-sm p-4 mb-6 text-sm text-[var(--foreground)]">
+              <h2 className="font-semibold mb-3 font-serif">{messages.compare?.structureChanges || 'Structure changes'}</h2>
+              <div className="flex flex-wrap gap-2 mb-3 text-xs">
+                <span className={`px-2 py-0.5 rounded-full ${STATUS_STYLES.added}`}>{statusLabel('added')}: {comparison.added.length}</span>
+                <span className={`px-2 py-0.5 rounded-full ${STATUS_STYLES.removed}`}>{statusLabel('removed')}: {comparison.removed.length}</span>
+                <span className={`px-2 py-0.5 rounded-full ${STATUS_STYLES.changed}`}>{statusLabel('changed')}: {comparison.changed.length}</span>
+                <span className={`px-2 py-0.5 rounded-full ${STATUS_STYLES.unchanged} border border-[var(--border-color)]`}>
+                  {messages.compare?.moved || 'Moved'}: {comparison.moved.length}
+                </span>
+              </div>
+              {comparison.moved.length > 0 && (
+                <ul className="text-xs text-[var(--muted)] space-y-1">
+                  {comparison.moved.map(page => (
+                    <li key={page.id}>
+                      <span className="text-[var(--foreground)]">{page.title}</span>: {page.moved?.from} → {page.moved?.to}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            <div className="flex flex-col lg:flex-row gap-6">
+              {/* Pages */}
+              <div className="lg:w-[300px] flex-shrink-0">
+                <label className="flex items-center gap-2 text-xs text-[var(--muted)] mb-3">
+                  <input
+                    type="checkbox"
+                    checked={showUnchanged}
+                    onChange={(e) => setShowUnchanged(e.target.checked)}
+                  />
+                  {messages.compare?.showUnchanged || 'Show unchanged pages'}
+                </label>
+                {visiblePages.length === 0 ? (
+                  <p className="text-sm text-[var(--muted)]">{messages.compare?.noChanges || 'The two wikis are identical.'}</p>
+                ) : (
+                  <ul className="space-y-1">
+                    {visiblePages.map(page => (
+                      <li key={pageKey(page)}>
+                        <button
+                          onClick={() => setSelectedPageKey(pageKey(page))}
+                          className={`w-full flex items-center justify-between gap-2 text-left text-sm px-3 py-2 rounded-md transition-colors ${
+                            pageKey(page) === selectedPageKey
+                              ? 'bg-[var(--accent-primary)]/10 text-[var(--accent-primary)]'
+                              : 'text-[var(--foreground)] hover:bg-[var(--background)]/80'
+                          }`}
+                        >
+                          <span className="truncate">{page.title}</span>
+                          <span className={`text-xs px-2 py-0.5 rounded-full flex-shrink-0 ${STATUS_STYLES[page.status]}`}>
+                            {statusLabel(page.status)}
+                          </span>
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+
+              {/* Rendered diff of the selected page */}
+              {selectedPage && (
+                <div className="flex-1 min-w-0 bg-[var(--card-bg)] border border-[var(--border-color)] rounded-lg shadow-sm p-6">
+                  <h3 className="text-xl font-bold text-[var(--foreground)] mb-2 break-words font-serif">
+                    {selectedPage.basePage && selectedPage.headPage && selectedPage.basePage.title !== selectedPage.headPage.title && (
+                      <span className="line-through text-[var(--muted)] mr-2">{selectedPage.basePage.title}</span>
+                    )}
+                    {selectedPage.title}
+                  </h3>
+                  {selectedPage.moved && (
+                    <p className="text-xs text-[var(--muted)] mb-4">
+                      {messages.compare?.moved || 'Moved'}: {selectedPage.moved.from} → {selectedPage.moved.to}
+                    </p>
+                  )}
+                  <MarkdownDiff blocks={selectedPage.blocks} />
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
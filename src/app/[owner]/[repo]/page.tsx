@@ -2,49 +2,57 @@
 'use client';
 
 import Ask from '@/components/Ask';
-import Markdown from '@/components/Markdown';
+import CitationCheckSummary from '@/components/CitationCheckSummary';
+import FilePathCorrections from '@/components/FilePathCorrections';
+import IdentifierCheckSummary from '@/components/IdentifierCheckSummary';
+import Markdown, { MarkdownLink } from '@/components/Markdown';
+import MarkdownDiff from '@/components/MarkdownDiff';
+import { validateMermaidChart } from '@/components/Mermaid';
 import ModelSelectionModal from '@/components/ModelSelectionModal';
+import PageProvenance from '@/components/PageProvenance';
+import PageQualityBadge from '@/components/PageQualityBadge';
+import RegeneratePageModal from '@/components/RegeneratePageModal';
 import ThemeToggle from '@/components/theme-toggle';
+import WikiPageEditor from '@/components/WikiPageEditor';
+import WikiStructureEditor from '@/components/WikiStructureEditor';
 import WikiTreeView from '@/components/WikiTreeView';
+import BrokenLinksReport from '@/components/BrokenLinksReport';
+import CitationLink from '@/components/CitationLink';
+import SourceViewer from '@/components/SourceViewer';
 import { useLanguage } from '@/contexts/LanguageContext';
-import { RepoInfo } from '@/types/repoinfo';
-import getRepoUrl from '@/utils/getRepoUrl';
-import { extractUrlDomain, extractUrlPath } from '@/utils/urlDecoder';
+import { RepoInfo, RepositoryPlatform } from '@/types/repoinfo';
+import { CitationCheck } from '@/types/wiki/citationcheck';
+import { IdentifierCheck } from '@/types/wiki/identifiercheck';
+import { WikiJobSnapshot } from '@/types/wiki/wikijob';
+import { WikiPage } from '@/types/wiki/wikipage';
+import { WikiStructure } from '@/types/wiki/wikistructure';
+import { ModelSelection } from '@/utils/chatStream';
+import { createRepositoryProvider } from '@/utils/repository/createRepositoryProvider';
+import { SourceFileReader } from '@/utils/repository/sourceFileReader';
+import { fetchRepositoryStructure as fetchRepositoryFiles } from '@/utils/repositoryStructure';
+import { FilePathCorrection } from '@/utils/wiki/filePathValidator';
+import { applyStructureToPages } from '@/utils/wiki/structureEditor';
+import { WikiStructureFormat } from '@/utils/wiki/structureSchema';
+import { applyLockedContent, collectLockedPages, hasLockedContent } from '@/utils/wiki/lockedContent';
+import { findMissingPages, saveWikiCache, saveWikiCachePage, WikiCacheMetadata } from '@/utils/wiki/wikiCache';
+import { CitationContext, parseCitation, SourceCitation } from '@/utils/wiki/citations';
+import { findCitationIssue, verifyCitations } from '@/utils/wiki/citationVerifier';
+import { groundIdentifiers, isUnverifiedShare } from '@/utils/wiki/identifierGrounding';
+import { replaceMermaidDiagram } from '@/utils/wiki/mermaidRepair';
+import { findNewerCommit } from '@/utils/wiki/incrementalUpdate';
+import { getPageErrorContent, PAGE_LOADING_CONTENT } from '@/utils/wiki/pagePlaceholders';
+import { validateWikiContent } from '@/utils/wiki/pageValidator';
+import { findBrokenLinks, resolvePageLink } from '@/utils/wiki/linkResolver';
+import { findPageBySlug, getPageSlugs } from '@/utils/wiki/pageLinks';
+import { diffMarkdown } from '@/utils/wiki/wikiCompare';
+import { requestWikiExport } from '@/utils/wiki/wikiExport';
+import { EmbeddingConfigurationError, fetchProviderConcurrency, WikiGenerator } from '@/utils/wiki/wikiGenerator';
+import { cancelWikiJob, followWikiJob, startWikiJob, updateWikiJobPage } from '@/utils/wiki/wikiJobClient';
+import { applyWikiJobEvent } from '@/utils/wiki/wikiJobState';
 import Link from 'next/link';
-import { generatePromptContent } from '@/utils/promptTemplate';
 import { useParams, useSearchParams } from 'next/navigation';
 import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
-import { FaBitbucket, FaBookOpen, FaComments, FaDownload, FaExclamationTriangle, FaFileExport, FaFolder, FaGithub, FaGitlab, FaHome, FaSync, FaTimes } from 'react-icons/fa';
-// Define the WikiSection and WikiStructure types directly in this file
-// since the imported types don't have the sections and rootSections properties
-interface WikiSection {
-  id: string;
-  title: string;
-  pages: string[];
-  subsections?: string[];
-}
-
-interface WikiPage {
-  id: string;
-  title: string;
-  content: string;
-  filePaths: string[];
-  importance: 'high' | 'medium' | 'low';
-  relatedPages: string[];
-  parentId?: string;
-  isSection?: boolean;
-  children?: string[];
-}
-
-interface WikiStructure {
-  id: string;
-  title: string;
-  description: string;
-  pages: WikiPage[];
-  sections: WikiSection[];
-  rootSections: string[];
-}
-
+import { FaArrowUp, FaBitbucket, FaBookOpen, FaCodeBranch, FaComments, FaDownload, FaEdit, FaExchangeAlt, FaExclamationTriangle, FaFileExport, FaFolder, FaGithub, FaGitlab, FaHome, FaLock, FaPlay, FaRedo, FaSitemap, FaSync, FaTimes } from 'react-icons/fa';
 // Add CSS styles for wiki with Japanese aesthetic
 const wikiStyles = `
   .prose code {
@@ -88,93 +96,26 @@ const wikiStyles = `
   }
 `;
 
-// Helper function to generate cache key for localStorage
-const getCacheKey = (owner: string, repo: string, repoType: string, language: string, isComprehensive: boolean = true): string => {
-  return `deepwiki_cache_${repoType}_${owner}_${repo}_${language}_${isComprehensive ? 'comprehensive' : 'concise'}`;
-};
-
-// Helper function to add tokens and other parameters to request body
-const addTokensToRequestBody = (
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  requestBody: Record<string, any>,
-  token: string,
-  repoType: string,
-  provider: string = '',
-  model: string = '',
-  isCustomModel: boolean = false,
-  customModel: string = '',
-  language: string = 'en',
-  excludedDirs?: string,
-  excludedFiles?: string,
-  includedDirs?: string,
-  includedFiles?: string
-): void => {
-  if (token !== '') {
-    requestBody.token = token;
-  }
-
-  // Add provider-based model selection parameters
-  requestBody.provider = provider;
-  requestBody.model = model;
-  if (isCustomModel && customModel) {
-    requestBody.custom_model = customModel;
-  }
-
-  requestBody.language = language;
-
-  // Add file filter parameters if provided
-  if (excludedDirs) {
-    requestBody.excluded_dirs = excludedDirs;
-  }
-  if (excludedFiles) {
-    requestBody.excluded_files = excludedFiles;
-  }
-  if (includedDirs) {
-    requestBody.included_dirs = includedDirs;
-  }
-  if (includedFiles) {
-    requestBody.included_files = includedFiles;
-  }
-
-};
-
-const createGithubHeaders = (githubToken: string): HeadersInit => {
-  const headers: HeadersInit = {
-    'Accept': 'application/vnd.github.v3+json'
-  };
-
-  if (githubToken) {
-    headers['Authorization'] = `Bearer ${githubToken}`;
-  }
-
-  return headers;
-};
-
-const createGitlabHeaders = (gitlabToken: string): HeadersInit => {
-  const headers: HeadersInit = {
-    'Content-Type': 'application/json',
-  };
-
-  if (gitlabToken) {
-    headers['PRIVATE-TOKEN'] = gitlabToken;
-  }
+// A page regenerated on its own, shown as a diff until it is accepted or rejected
+interface PageRegeneration {
+  pageId: string;
+  status: 'generating' | 'review';
+  /** The regenerated page, once it is ready for review */
+  page?: WikiPage;
+  error?: string;
+}
 
-  return headers;
+// Helper function to generate cache key for localStorage
+const getCacheKey = (owner: string, repo: string, repoType: string, language: string, isComprehensive: boolean = true, ref?: string | null): string => {
+  return `deepwiki_cache_${repoType}_${owner}_${repo}${ref ? `@${ref}` : ''}_${language}_${isComprehensive ? 'comprehensive' : 'concise'}`;
 };
 
-const createBitbucketHeaders = (bitbucketToken: string): HeadersInit => {
-  const headers: HeadersInit = {
-    'Content-Type': 'application/json',
-  };
-
-  if (bitbucketToken) {
-    headers['Authorization'] = `Bearer ${bitbucketToken}`;
-  }
-
-  return headers;
+// Page and heading the URL links to, e.g. ?page=authentication-flow#token-refresh
+const readPageLink = (): { slug: string | null; anchor: string } => {
+  const url = new URL(window.location.href);
+  return { slug: url.searchParams.get('page'), anchor: decodeURIComponent(url.hash.slice(1)) };
 };
 
-
 export default function RepoWikiPage() {
   // Get route parameters and search params
   const params = useParams();
@@ -193,13 +134,19 @@ export default function RepoWikiPage() {
   const isCustomModelParam = searchParams.get('is_custom_model') === 'true';
   const customModelParam = searchParams.get('custom_model') || '';
   const language = searchParams.get('language') || 'en';
+  // Branch, tag or commit to document instead of the default branch
+  const ref = searchParams.get('ref') || '';
   const repoType = repoUrl?.includes('bitbucket.org')
     ? 'bitbucket'
     : repoUrl?.includes('gitlab.com')
       ? 'gitlab'
       : repoUrl?.includes('github.com')
         ? 'github'
-        : searchParams.get('type') || 'github';
+        : repoUrl?.includes('dev.azure.com') || repoUrl?.includes('.visualstudio.com')
+          ? 'azure'
+          : repoUrl?.includes('codeberg.org') || repoUrl?.includes('gitea.') || repoUrl?.includes('forgejo.')
+            ? 'gitea'
+            : searchParams.get('type') || 'github';
 
   // Import language context for translations
   const { messages } = useLanguage();
@@ -211,8 +158,9 @@ export default function RepoWikiPage() {
     type: repoType,
     token: token || null,
     localPath: localPath || null,
-    repoUrl: repoUrl || null
-  }), [owner, repo, repoType, localPath, repoUrl, token]);
+    repoUrl: repoUrl || null,
+    ref: ref || null
+  }), [owner, repo, repoType, localPath, repoUrl, token, ref]);
 
   // State variables
   const [isLoading, setIsLoading] = useState(true);
@@ -224,6 +172,10 @@ export default function RepoWikiPage() {
   const [currentPageId, setCurrentPageId] = useState<string | undefined>();
   const [generatedPages, setGeneratedPages] = useState<Record<string, WikiPage>>({});
   const [pagesInProgress, setPagesInProgress] = useState(new Set<string>());
+  const [queuedPageIds, setQueuedPageIds] = useState<string[]>([]);
+  const [pageRetries, setPageRetries] = useState<Record<string, number>>({});
+  // File paths of the pages that did not exist in the repository and were corrected
+  const [filePathCorrections, setFilePathCorrections] = useState<FilePathCorrection[]>([]);
   const [isExporting, setIsExporting] = useState(false);
   const [exportError, setExportError] = useState<string | null>(null);
   const [originalMarkdown, setOriginalMarkdown] = useState<Record<string, string>>({});
@@ -237,6 +189,12 @@ export default function RepoWikiPage() {
   const [selectedModelState, setSelectedModelState] = useState(modelParam);
   const [isCustomSelectedModelState, setIsCustomSelectedModelState] = useState(isCustomModelParam);
   const [customSelectedModelState, setCustomSelectedModelState] = useState(customModelParam);
+  const modelSelection = useMemo<ModelSelection>(() => ({
+    provider: selectedProviderState,
+    model: selectedModelState,
+    isCustomModel: isCustomSelectedModelState,
+    customModel: customSelectedModelState
+  }), [selectedProviderState, selectedModelState, isCustomSelectedModelState, customSelectedModelState]);
   const [showModelOptions, setShowModelOptions] = useState(false); // Controls whether to show model options
   const excludedDirs = searchParams.get('excluded_dirs') || '';
   const excludedFiles = searchParams.get('excluded_files') || '';
@@ -251,14 +209,46 @@ export default function RepoWikiPage() {
   // Wiki type state - default to comprehensive view
   const isComprehensiveParam = searchParams.get('comprehensive') !== 'false';
   const [isComprehensiveView, setIsComprehensiveView] = useState(isComprehensiveParam);
-  // Using useRef for activeContentRequests to maintain a single instance across renders
-  // This map tracks which pages are currently being processed to prevent duplicate requests
-  // Note: In a multi-threaded environment, additional synchronization would be needed,
-  // but in React's single-threaded model, this is safe as long as we set the flag before any async operations
-  const activeContentRequests = useRef(new Map<string, boolean>()).current;
-  const [structureRequestInProgress, setStructureRequestInProgress] = useState(false);
+  // Format the wiki structure is requested in; json uses structured output where the provider supports it
+  const structureFormat: WikiStructureFormat = searchParams.get('structure_format') === 'json' ? 'json' : 'xml';
+  // Generate pages that fail validation once more
+  const retryInvalidPages = searchParams.get('retry_invalid') === 'true';
+  // Share of unverified code identifiers above which a page is generated once more; invalid values use the default
+  const maxUnverifiedParam = searchParams.get('max_unverified');
+  const maxUnverifiedIdentifiers = maxUnverifiedParam?.trim() && isUnverifiedShare(Number(maxUnverifiedParam))
+    ? Number(maxUnverifiedParam)
+    : undefined;
+  // The generator refreshing changed pages in the browser, kept so a refresh can cancel it
+  const wikiGeneratorRef = useRef<WikiGenerator | null>(null);
+  // The server job generating the wiki, while the page follows it
+  const jobIdRef = useRef<string | null>(null);
+  const jobStateRef = useRef<WikiJobSnapshot | null>(null);
+  const stopFollowingJobRef = useRef<(() => void) | null>(null);
   // Create a flag to track if data was loaded from cache to prevent immediate re-save
   const cacheLoadedSuccessfully = useRef(false);
+  // Whether pages of the wiki are still missing from the cache
+  const [isPartialWiki, setIsPartialWiki] = useState(false);
+  // Set when a partially generated wiki was loaded from the cache, to generate its missing pages
+  const [resumePending, setResumePending] = useState(false);
+  // Page open in the editor
+  const [editingPageId, setEditingPageId] = useState<string | null>(null);
+  // Pages with locked content, carried over from a refreshed wiki into the next generation
+  const lockedPagesRef = useRef<WikiPage[]>([]);
+  // Page the regeneration dialog is open for, and the running or finished regeneration of a page
+  const [regenerateDialogPageId, setRegenerateDialogPageId] = useState<string | null>(null);
+  const [pageRegeneration, setPageRegeneration] = useState<PageRegeneration | null>(null);
+  const pageGeneratorRef = useRef<WikiGenerator | null>(null);
+  // Whether the navigation tree is shown as the structure editor
+  const [isEditingStructure, setIsEditingStructure] = useState(false);
+  const [structureSaveError, setStructureSaveError] = useState<string | null>(null);
+  // Latest wiki, for saving it once a page added to the structure is generated
+  const wikiRef = useRef<{ structure?: WikiStructure; pages: Record<string, WikiPage> }>({ pages: {} });
+  // Heading the URL links to, scrolled to once its page is shown
+  const pendingAnchorRef = useRef<string | null>(null);
+  // Source file shown in the source viewer
+  const [openCitation, setOpenCitation] = useState<SourceCitation | null>(null);
+  // Repairs of diagrams that fail to render, by page and diagram, so that each diagram is repaired once
+  const diagramRepairsRef = useRef(new Map<string, Promise<boolean>>());
 
   // Create a flag to ensure the effect only runs once
   const effectRan = React.useRef(false);
@@ -274,52 +264,78 @@ export default function RepoWikiPage() {
 
   // Default branch state
   const defaultBranch = useRef<string>('main');
+  // Commit the wiki was generated from, used to refresh only the pages affected by later changes
+  const [commitSha, setCommitSha] = useState<string | undefined>(undefined);
+  // Commit the branch currently points to, to warn when the wiki is out of date
+  const [latestCommitSha, setLatestCommitSha] = useState<string | undefined>(undefined);
+  const [refreshNotice, setRefreshNotice] = useState<string | null>(null);
 
   // Helper function to generate proper repository file URLs
   const generateFileUrl = useCallback((filePath: string): string => {
-    if (effectiveRepoInfo.type === 'local') {
-      // For local repositories, we can't generate web URLs
-      return filePath;
-    }
-
-    const repoUrl = effectiveRepoInfo.repoUrl;
-    if (!repoUrl) {
-      return filePath;
-    }
-
-    try {
-      const url = new URL(repoUrl);
-      const hostname = url.hostname;
-      
-      if (hostname === 'github.com' || hostname.includes('github')) {
-        // GitHub URL format: https://github.com/owner/repo/blob/branch/path
-        return `${repoUrl}/blob/${defaultBranch.current}/${filePath}`;
-      } else if (hostname === 'gitlab.com' || hostname.includes('gitlab')) {
-        // GitLab URL format: https://gitlab.com/owner/repo/-/blob/branch/path
-        return `${repoUrl}/-/blob/${defaultBranch.current}/${filePath}`;
-      } else if (hostname === 'bitbucket.org' || hostname.includes('bitbucket')) {
-        // Bitbucket URL format: https://bitbucket.org/owner/repo/src/branch/path
-        return `${repoUrl}/src/${defaultBranch.current}/${filePath}`;
-      }
-    } catch (error) {
-      console.warn('Error generating file URL:', error);
-    }
-
-    // Fallback to just the file path
-    return filePath;
-  }, [effectiveRepoInfo, defaultBranch.current]);
+    const provider = createRepositoryProvider(effectiveRepoInfo, currentToken);
+    return provider ? provider.fileUrl(defaultBranch.current, filePath) : filePath;
+  }, [effectiveRepoInfo, currentToken]);
 
   // Memoize repo info to avoid triggering updates in callbacks
 
   // Add useEffect to handle scroll reset
   useEffect(() => {
-    // Scroll to top when currentPageId changes
+    // Scroll to top when currentPageId changes, unless the page is opened at a heading
     const wikiContent = document.getElementById('wiki-content');
-    if (wikiContent) {
+    if (wikiContent && !pendingAnchorRef.current) {
       wikiContent.scrollTo({ top: 0, behavior: 'smooth' });
     }
   }, [currentPageId]);
 
+  // Scroll to the linked heading once the content of its page is rendered
+  const currentPageContent = currentPageId ? generatedPages[currentPageId]?.content : undefined;
+  useEffect(() => {
+    const heading = pendingAnchorRef.current && currentPageContent ? document.getElementById(pendingAnchorRef.current) : null;
+    if (heading) {
+      heading.scrollIntoView();
+      pendingAnchorRef.current = null;
+    }
+  }, [currentPageId, currentPageContent]);
+
+  // Keep the page query parameter in line with the selected page, e.g. after a page was renamed
+  useEffect(() => {
+    const slug = currentPageId && wikiStructure ? getPageSlugs(wikiStructure.pages).get(currentPageId) : undefined;
+    const url = new URL(window.location.href);
+    if (slug && url.searchParams.get('page') !== slug) {
+      url.searchParams.set('page', slug);
+      url.hash = '';
+      window.history.replaceState({}, '', url.toString());
+    }
+  }, [currentPageId, wikiStructure]);
+
+  // Open the linked heading, and follow the browser's back and forward buttons between pages
+  useEffect(() => {
+    pendingAnchorRef.current = readPageLink().anchor || null;
+
+    const handlePopState = () => {
+      const { slug, anchor } = readPageLink();
+      const structure = wikiRef.current.structure;
+      const page = structure && slug ? findPageBySlug(structure.pages, slug) : undefined;
+      if (page) {
+        pendingAnchorRef.current = anchor || null;
+        setCurrentPageId(page.id);
+      }
+    };
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  // Keep the selected page if it is still part of the wiki, else open the linked page or the first one
+  const selectPageOf = useCallback((structure: WikiStructure) => {
+    setCurrentPageId(prev => {
+      if (prev && structure.pages.some(p => p.id === prev)) {
+        return prev;
+      }
+      const { slug } = readPageLink();
+      return (slug ? findPageBySlug(structure.pages, slug)?.id : undefined) ?? structure.pages[0]?.id;
+    });
+  }, []);
+
   // close the modal when escape is pressed
   useEffect(() => {
     const handleEsc = (event: KeyboardEvent) => {
@@ -361,1015 +377,198 @@ export default function RepoWikiPage() {
     fetchAuthStatus();
   }, []);
 
-  // Generate content for a wiki page
-  const generatePageContent = useCallback(async (page: WikiPage, owner: string, repo: string) => {
-    return new Promise<void>(async (resolve) => {
-      try {
-        // Skip if content already exists
-        if (generatedPages[page.id]?.content) {
-          resolve();
-          return;
-        }
-
-        // Skip if this page is already being processed
-        // Use a synchronized pattern to avoid race conditions
-        if (activeContentRequests.get(page.id)) {
-          console.log(`Page ${page.id} (${page.title}) is already being processed, skipping duplicate call`);
-          resolve();
-          return;
-        }
-
-        // Mark this page as being processed immediately to prevent race conditions
-        // This ensures that if multiple calls happen nearly simultaneously, only one proceeds
-        activeContentRequests.set(page.id, true);
-
-        // Validate repo info
-        if (!owner || !repo) {
-          throw new Error('Invalid repository information. Owner and repo name are required.');
-        }
-
-        // Mark page as in progress
-        setPagesInProgress(prev => new Set(prev).add(page.id));
-        // Don't set loading message for individual pages during queue processing
-
-        const filePaths = page.filePaths;
+  // Fields stored with the wiki in the server cache
+  const getCacheMetadata = useCallback((sourceCommitSha?: string): WikiCacheMetadata => ({
+    repo: effectiveRepoInfo,
+    language: language,
+    comprehensive: isComprehensiveView,
+    provider: selectedProviderState,
+    model: selectedModelState,
+    commit_sha: sourceCommitSha,
+    branch: defaultBranch.current
+  }), [effectiveRepoInfo, language, isComprehensiveView, selectedProviderState, selectedModelState]);
+
+  // Create a generation engine that reports its progress to the page state
+  const createWikiGenerator = useCallback(async (sourceCommitSha?: string, model: ModelSelection = modelSelection): Promise<WikiGenerator> => {
+    const markPageDone = (pageId: string) => {
+      setPagesInProgress(prev => {
+        const next = new Set(prev);
+        next.delete(pageId);
+        return next;
+      });
+    };
 
-        // Store the initially generated content BEFORE rendering/potential modification
-        setGeneratedPages(prev => ({
-          ...prev,
-          [page.id]: { ...page, content: 'Loading...' } // Placeholder
-        }));
+    const concurrency = await fetchProviderConcurrency(model.provider);
+    const provider = createRepositoryProvider(effectiveRepoInfo, currentToken);
+
+    const generator = new WikiGenerator({
+      repoInfo: effectiveRepoInfo,
+      token: currentToken,
+      model,
+      filters: {
+        excludedDirs: modelExcludedDirs,
+        excludedFiles: modelExcludedFiles,
+        includedDirs: modelIncludedDirs,
+        includedFiles: modelIncludedFiles
+      },
+      language,
+      isComprehensive: isComprehensiveView,
+      structureFormat,
+      generateFileUrl,
+      concurrency,
+      commitSha: sourceCommitSha,
+      sourceFiles: provider ? new SourceFileReader(provider, sourceCommitSha ?? defaultBranch.current) : undefined,
+      retryInvalidPages,
+      maxUnverifiedIdentifiers
+    }, {
+      onStructureStart: () => {
+        setLoadingMessage(messages.loading?.determiningStructure || 'Determining wiki structure...');
+        setFilePathCorrections([]);
+      },
+      onFilePathCorrections: setFilePathCorrections,
+      onStructure: (structure) => {
+        setWikiStructure(structure);
+        selectPageOf(structure);
+      },
+      onPagesScheduled: (pages) => {
+        // Mark all scheduled pages as in progress
+        setPagesInProgress(new Set(pages.map(p => p.id)));
+      },
+      onPageStart: (page) => {
+        // Placeholder until the content arrives
+        setGeneratedPages(prev => ({ ...prev, [page.id]: { ...page, content: PAGE_LOADING_CONTENT } }));
         setOriginalMarkdown(prev => ({ ...prev, [page.id]: '' })); // Clear previous original
-
-        // Make API call to generate page content
-        console.log(`Starting content generation for page: ${page.title}`);
-
-        // Get repository URL
-        const repoUrl = getRepoUrl(effectiveRepoInfo);
-
-        // Create the prompt content - simplified to avoid message dialogs
-        const promptContent = generatePromptContent(page.title, filePaths, language, generateFileUrl);
-
-        // Prepare request body
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        const requestBody: Record<string, any> = {
-          repo_url: repoUrl,
-          type: effectiveRepoInfo.type,
-          messages: [{
-            role: 'user',
-            content: promptContent
-          }]
-        };
-
-        // Add tokens if available
-        addTokensToRequestBody(requestBody, currentToken, effectiveRepoInfo.type, selectedProviderState, selectedModelState, isCustomSelectedModelState, customSelectedModelState, language, modelExcludedDirs, modelExcludedFiles, modelIncludedDirs, modelIncludedFiles);
-
-        // Use WebSocket for communication
-        let content = '';
-
-        try {
-          // Create WebSocket URL from the server base URL
-          const serverBaseUrl = process.env.SERVER_BASE_URL || 'http://localhost:8001';
-          const wsBaseUrl = serverBaseUrl.replace(/^http/, 'ws')? serverBaseUrl.replace(/^https/, 'wss'): serverBaseUrl.replace(/^http/, 'ws');
-          const wsUrl = `${wsBaseUrl}/ws/chat`;
-
-          // Create a new WebSocket connection
-          const ws = new WebSocket(wsUrl);
-
-          // Create a promise that resolves when the WebSocket connection is complete
-          await new Promise<void>((resolve, reject) => {
-            // Set up event handlers
-            ws.onopen = () => {
-              console.log(`WebSocket connection established for page: ${page.title}`);
-              // Send the request as JSON
-              ws.send(JSON.stringify(requestBody));
-              resolve();
-            };
-
-            ws.onerror = (error) => {
-              console.error('WebSocket error:', error);
-              reject(new Error('WebSocket connection failed'));
-            };
-
-            // If the connection doesn't open within 5 seconds, fall back to HTTP
-            const timeout = setTimeout(() => {
-              reject(new Error('WebSocket connection timeout'));
-            }, 5000);
-
-            // Clear the timeout if the connection opens successfully
-            ws.onopen = () => {
-              clearTimeout(timeout);
-              console.log(`WebSocket connection established for page: ${page.title}`);
-              // Send the request as JSON
-              ws.send(JSON.stringify(requestBody));
-              resolve();
-            };
-          });
-
-          // Create a promise that resolves when the WebSocket response is complete
-          await new Promise<void>((resolve, reject) => {
-            // Handle incoming messages
-            ws.onmessage = (event) => {
-              content += event.data;
-            };
-
-            // Handle WebSocket close
-            ws.onclose = () => {
-              console.log(`WebSocket connection closed for page: ${page.title}`);
-              resolve();
-            };
-
-            // Handle WebSocket errors
-            ws.onerror = (error) => {
-              console.error('WebSocket error during message reception:', error);
-              reject(new Error('WebSocket error during message reception'));
-            };
-          });
-        } catch (wsError) {
-          console.error('WebSocket error, falling back to HTTP:', wsError);
-
-          // Fall back to HTTP if WebSocket fails
-          const response = await fetch(`/api/chat/stream`, {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify(requestBody)
-          });
-
-          if (!response.ok) {
-            const errorText = await response.text().catch(() => 'No error details available');
-            console.error(`API error (${response.status}): ${errorText}`);
-            throw new Error(`Error generating page content: ${response.status} - ${response.statusText}`);
-          }
-
-          // Process the response
-          content = '';
-          const reader = response.body?.getReader();
-          const decoder = new TextDecoder();
-
-          if (!reader) {
-            throw new Error('Failed to get response reader');
-          }
-
-          try {
-            while (true) {
-              const { done, value } = await reader.read();
-              if (done) break;
-              content += decoder.decode(value, { stream: true });
-            }
-            // Ensure final decoding
-            content += decoder.decode();
-          } catch (readError) {
-            console.error('Error reading stream:', readError);
-            throw new Error('Error processing response stream');
-          }
-        }
-
-        // Clean up markdown delimiters
-        content = content.replace(/^```markdown\s*/i, '').replace(/```\s*$/i, '');
-
-        console.log(`Received content for ${page.title}, length: ${content.length} characters`);
-
-        // Store the FINAL generated content
-        const updatedPage = { ...page, content };
-        setGeneratedPages(prev => ({ ...prev, [page.id]: updatedPage }));
+      },
+      onPageComplete: (page) => {
+        setGeneratedPages(prev => ({ ...prev, [page.id]: page }));
         // Store this as the original for potential mermaid retries
-        setOriginalMarkdown(prev => ({ ...prev, [page.id]: content }));
-
-        resolve();
-      } catch (err) {
-        console.error(`Error generating content for page ${page.id}:`, err);
-        const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+        setOriginalMarkdown(prev => ({ ...prev, [page.id]: page.content }));
+        markPageDone(page.id);
+      },
+      onPageError: (page, error) => {
         // Update page state to show error
         setGeneratedPages(prev => ({
           ...prev,
-          [page.id]: { ...page, content: `Error generating content: ${errorMessage}` }
+          [page.id]: { ...page, content: getPageErrorContent(error.message) }
         }));
         setError(`Failed to generate content for ${page.title}.`);
-        resolve(); // Resolve even on error to unblock queue
-      } finally {
-        // Clear the processing flag for this page
-        // This must happen in the finally block to ensure the flag is cleared
-        // even if an error occurs during processing
-        activeContentRequests.delete(page.id);
-
-        // Mark page as done
-        setPagesInProgress(prev => {
-          const next = new Set(prev);
-          next.delete(page.id);
-          return next;
-        });
-        setLoadingMessage(undefined); // Clear specific loading message
-      }
+        markPageDone(page.id);
+      },
+      onPageRetry: (page, attempt) => {
+        setPageRetries(prev => ({ ...prev, [page.id]: attempt }));
+      },
+      onPageCancelled: (page) => {
+        setGeneratedPages(prev => ({ ...prev, [page.id]: page }));
+        markPageDone(page.id);
+      },
+      onQueueChange: setQueuedPageIds
     });
-  }, [generatedPages, currentToken, effectiveRepoInfo, selectedProviderState, selectedModelState, isCustomSelectedModelState, customSelectedModelState, modelExcludedDirs, modelExcludedFiles, language, activeContentRequests, generateFileUrl]);
-
-  // Determine the wiki structure from repository data
-  const determineWikiStructure = useCallback(async (fileTree: string, readme: string, owner: string, repo: string) => {
-    if (!owner || !repo) {
-      setError('Invalid repository information. Owner and repo name are required.');
-      setIsLoading(false);
-      setEmbeddingError(false); // Reset embedding error state
-      return;
+    wikiGeneratorRef.current = generator;
+    return generator;
+  }, [currentToken, effectiveRepoInfo, modelSelection, modelExcludedDirs, modelExcludedFiles, modelIncludedDirs, modelIncludedFiles, language, messages.loading, isComprehensiveView, structureFormat, retryInvalidPages, maxUnverifiedIdentifiers, generateFileUrl, selectPageOf]);
+
+  // Mirror the state of the server job generating the wiki in the page
+  const syncJobState = useCallback((job: WikiJobSnapshot) => {
+    jobStateRef.current = job;
+    if (job.structure) {
+      const structure = job.structure;
+      setWikiStructure(structure);
+      selectPageOf(structure);
     }
-
-    // Skip if structure request is already in progress
-    if (structureRequestInProgress) {
-      console.log('Wiki structure determination already in progress, skipping duplicate call');
-      return;
+    setGeneratedPages(job.pages);
+    setPagesInProgress(new Set(job.pagesInProgress));
+    setQueuedPageIds(job.queuedPageIds);
+    setPageRetries(job.pageRetries);
+    setFilePathCorrections(job.filePathCorrections);
+    setCommitSha(job.commitSha);
+    if (job.branch) {
+      // Store the ref for the file links of the generated pages
+      defaultBranch.current = job.branch;
     }
-
-    try {
-      setStructureRequestInProgress(true);
+    if (job.stage === 'fetchingStructure') {
+      setLoadingMessage(messages.loading?.fetchingStructure || 'Fetching repository structure...');
+    } else if (job.stage === 'determiningStructure') {
       setLoadingMessage(messages.loading?.determiningStructure || 'Determining wiki structure...');
+    }
 
-      // Get repository URL
-      const repoUrl = getRepoUrl(effectiveRepoInfo);
-
-      // Prepare request body
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const requestBody: Record<string, any> = {
-        repo_url: repoUrl,
-        type: effectiveRepoInfo.type,
-        messages: [{
-          role: 'user',
-          content: `Analyze this GitHub repository ${owner}/${repo} and create a wiki structure for it.
-
-1. The complete file tree of the project:
-<file_tree>
-${fileTree}
-</file_tree>
-
-2. The README file of the project:
-<readme>
-${readme}
-</readme>
-
-I want to create a wiki for this repository. Determine the most logical structure for a wiki based on the repository's content.
-
-IMPORTANT: The wiki content will be generated in ${language === 'en' ? 'English' :
-            language === 'ja' ? 'Japanese (日本語)' :
-            language === 'zh' ? 'Mandarin Chinese (中文)' :
-            language === 'zh-tw' ? 'Traditional Chinese (繁體中文)' :
-            language === 'es' ? 'Spanish (Español)' :
-            language === 'kr' ? 'Korean (한국어)' :
-            language === 'vi' ? 'Vietnamese (Tiếng Việt)' :
-            language === "pt-br" ? "Brazilian Portuguese (Português Brasileiro)" :
-            language === "fr" ? "Français (French)" :
-            language === "ru" ? "Русский (Russian)" :
-            'Korean (한국어)'} language.
-
-When designing the wiki structure, include pages that would benefit from visual diagrams, such as:
-- Architecture overviews
-- Data flow descriptions
-- Component relationships
-- Process workflows
-- State machines
-- Class hierarchies
-
-${isComprehensiveView ? `
-Create a structured wiki with the following main sections:
-- Overview (general information about the project)
-- System Architecture (how the system is designed)
-- Core Features (key functionality)
-- Data Management/Flow: If applicable, how data is stored, processed, accessed, and managed (e.g., database schema, data pipelines, state management).
-- Frontend Components (UI elements, if applicable.)
-- Backend Systems (server-side components)
-- Model Integration (AI model connections)
-- Deployment/Infrastructure (how to deploy, what's the infrastructure like)
-- Extensibility and Customization: If the project architecture supports it, explain how to extend or customize its functionality (e.g., plugins, theming, custom modules, hooks).
-
-Each section should contain relevant pages. For example, the "Frontend Components" section might include pages for "Home Page", "Repository Wiki Page", "Ask Component", etc.
-
-Return your analysis in the following XML format:
-
-<wiki_structure>
-  <title>[Overall title for the wiki]</title>
-  <description>[Brief description of the repository]</description>
-  <sections>
-    <section id="section-1">
-      <title>[Section title]</title>
-      <pages>
-        <page_ref>page-1</page_ref>
-        <page_ref>page-2</page_ref>
-      </pages>
-      <subsections>
-        <section_ref>section-2</section_ref>
-      </subsections>
-    </section>
-    <!-- More sections as needed -->
-  </sections>
-  <pages>
-    <page id="page-1">
-      <title>[Page title]</title>
-      <description>[Brief description of what this page will cover]</description>
-      <importance>high|medium|low</importance>
-      <relevant_files>
-        <file_path>[Path to a relevant file]</file_path>
-        <!-- More file paths as needed -->
-      </relevant_files>
-      <related_pages>
-        <related>page-2</related>
-        <!-- More related page IDs as needed -->
-      </related_pages>
-      <parent_section>section-1</parent_section>
-    </page>
-    <!-- More pages as needed -->
-  </pages>
-</wiki_structure>
-` : `
-Return your analysis in the following XML format:
-
-<wiki_structure>
-  <title>[Overall title for the wiki]</title>
-  <description>[Brief description of the repository]</description>
-  <pages>
-    <page id="page-1">
-      <title>[Page title]</title>
-      <description>[Brief description of what this page will cover]</description>
-      <importance>high|medium|low</importance>
-      <relevant_files>
-        <file_path>[Path to a relevant file]</file_path>
-        <!-- More file paths as needed -->
-      </relevant_files>
-      <related_pages>
-        <related>page-2</related>
-        <!-- More related page IDs as needed -->
-      </related_pages>
-    </page>
-    <!-- More pages as needed -->
-  </pages>
-</wiki_structure>
-`}
-
-IMPORTANT FORMATTING INSTRUCTIONS:
-- Return ONLY the valid XML structure specified above
-- DO NOT wrap the XML in markdown code blocks (no \`\`\` or \`\`\`xml)
-- DO NOT include any explanation text before or after the XML
-- Ensure the XML is properly formatted and valid
-- Start directly with <wiki_structure> and end with </wiki_structure>
-
-IMPORTANT:
-1. Create ${isComprehensiveView ? '8-12' : '4-6'} pages that would make a ${isComprehensiveView ? 'comprehensive' : 'concise'} wiki for this repository
-2. Each page should focus on a specific aspect of the codebase (e.g., architecture, key features, setup)
-3. The relevant_files should be actual files from the repository that would be used to generate that page
-4. Return ONLY valid XML with the structure specified above, with no markdown code block delimiters`
-        }]
-      };
-
-      // Add tokens if available
-      addTokensToRequestBody(requestBody, currentToken, effectiveRepoInfo.type, selectedProviderState, selectedModelState, isCustomSelectedModelState, customSelectedModelState, language, modelExcludedDirs, modelExcludedFiles, modelIncludedDirs, modelIncludedFiles);
-
-      // Use WebSocket for communication
-      let responseText = '';
-
-      try {
-        // Create WebSocket URL from the server base URL
-        const serverBaseUrl = process.env.SERVER_BASE_URL || 'http://localhost:8001';
-        const wsBaseUrl = serverBaseUrl.replace(/^http/, 'ws')? serverBaseUrl.replace(/^https/, 'wss'): serverBaseUrl.replace(/^http/, 'ws');
-        const wsUrl = `${wsBaseUrl}/ws/chat`;
-
-        // Create a new WebSocket connection
-        const ws = new WebSocket(wsUrl);
-
-        // Create a promise that resolves when the WebSocket connection is complete
-        await new Promise<void>((resolve, reject) => {
-          // Set up event handlers
-          ws.onopen = () => {
-            console.log('WebSocket connection established for wiki structure');
-            // Send the request as JSON
-            ws.send(JSON.stringify(requestBody));
-            resolve();
-          };
-
-          ws.onerror = (error) => {
-            console.error('WebSocket error:', error);
-            reject(new Error('WebSocket connection failed'));
-          };
-
-          // If the connection doesn't open within 5 seconds, fall back to HTTP
-          const timeout = setTimeout(() => {
-            reject(new Error('WebSocket connection timeout'));
-          }, 5000);
-
-          // Clear the timeout if the connection opens successfully
-          ws.onopen = () => {
-            clearTimeout(timeout);
-            console.log('WebSocket connection established for wiki structure');
-            // Send the request as JSON
-            ws.send(JSON.stringify(requestBody));
-            resolve();
-          };
-        });
-
-        // Create a promise that resolves when the WebSocket response is complete
-        await new Promise<void>((resolve, reject) => {
-          // Handle incoming messages
-          ws.onmessage = (event) => {
-            responseText += event.data;
-          };
-
-          // Handle WebSocket close
-          ws.onclose = () => {
-            console.log('WebSocket connection closed for wiki structure');
-            resolve();
-          };
-
-          // Handle WebSocket errors
-          ws.onerror = (error) => {
-            console.error('WebSocket error during message reception:', error);
-            reject(new Error('WebSocket error during message reception'));
-          };
-        });
-      } catch (wsError) {
-        console.error('WebSocket error, falling back to HTTP:', wsError);
-
-        // Fall back to HTTP if WebSocket fails
-        const response = await fetch(`/api/chat/stream`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify(requestBody)
-        });
-
-        if (!response.ok) {
-          throw new Error(`Error determining wiki structure: ${response.status}`);
-        }
-
-        // Process the response
-        responseText = '';
-        const reader = response.body?.getReader();
-        const decoder = new TextDecoder();
-
-        if (!reader) {
-          throw new Error('Failed to get response reader');
-        }
-
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
-          responseText += decoder.decode(value, { stream: true });
-        }
-      }
-
-      if(responseText.includes('Error preparing retriever: Environment variable OPENAI_API_KEY must be set')) {
-         setEmbeddingError(true);
-         throw new Error('OPENAI_API_KEY environment variable is not set. Please configure your OpenAI API key.');
-       }
-
-       if(responseText.includes('Ollama model') && responseText.includes('not found')) {
-         setEmbeddingError(true);
-         throw new Error('The specified Ollama embedding model was not found. Please ensure the model is installed locally or select a different embedding model in the configuration.');
-       }
-
-        // Clean up markdown delimiters
-      responseText = responseText.replace(/^```(?:xml)?\s*/i, '').replace(/```\s*$/i, '');
-
-      // Extract wiki structure from response
-      const xmlMatch = responseText.match(/<wiki_structure>[\s\S]*?<\/wiki_structure>/m);
-      if (!xmlMatch) {
-        throw new Error('No valid XML found in response');
-      }
-
-      let xmlText = xmlMatch[0];
-      xmlText = xmlText.replace(/[\x00-\x08\x0B\x0C\x0E-\x1F\x7F]/g, '');
-      // Try parsing with DOMParser
-      const parser = new DOMParser();
-      const xmlDoc = parser.parseFromString(xmlText, "text/xml");
-
-      // Check for parsing errors
-      const parseError = xmlDoc.querySelector('parsererror');
-      if (parseError) {
-        // Log the first few elements to see what was parsed
-        const elements = xmlDoc.querySelectorAll('*');
-        if (elements.length > 0) {
-          console.log('First 5 element names:',
-            Array.from(elements).slice(0, 5).map(el => el.nodeName).join(', '));
-        }
-
-        // We'll continue anyway since the XML might still be usable
-      }
-
-      // Extract wiki structure
-      let title = '';
-      let description = '';
-      let pages: WikiPage[] = [];
-
-      // Try using DOM parsing first
-      const titleEl = xmlDoc.querySelector('title');
-      const descriptionEl = xmlDoc.querySelector('description');
-      const pagesEls = xmlDoc.querySelectorAll('page');
-
-      title = titleEl ? titleEl.textContent || '' : '';
-      description = descriptionEl ? descriptionEl.textContent || '' : '';
-
-      // Parse pages using DOM
-      pages = [];
-
-      if (parseError && (!pagesEls || pagesEls.length === 0)) {
-        console.warn('DOM parsing failed, trying regex fallback');
-      }
-
-      pagesEls.forEach(pageEl => {
-        const id = pageEl.getAttribute('id') || `page-${pages.length + 1}`;
-        const titleEl = pageEl.querySelector('title');
-        const importanceEl = pageEl.querySelector('importance');
-        const filePathEls = pageEl.querySelectorAll('file_path');
-        const relatedEls = pageEl.querySelectorAll('related');
-
-        const title = titleEl ? titleEl.textContent || '' : '';
-        const importance = importanceEl ?
-          (importanceEl.textContent === 'high' ? 'high' :
-            importanceEl.textContent === 'medium' ? 'medium' : 'low') : 'medium';
-
-        const filePaths: string[] = [];
-        filePathEls.forEach(el => {
-          if (el.textContent) filePaths.push(el.textContent);
-        });
-
-        const relatedPages: string[] = [];
-        relatedEls.forEach(el => {
-          if (el.textContent) relatedPages.push(el.textContent);
-        });
-
-        pages.push({
-          id,
-          title,
-          content: '', // Will be generated later
-          filePaths,
-          importance,
-          relatedPages
-        });
-      });
-
-      // Extract sections if they exist in the XML
-      const sections: WikiSection[] = [];
-      const rootSections: string[] = [];
-
-      // Try to parse sections if we're in comprehensive view
-      if (isComprehensiveView) {
-        const sectionsEls = xmlDoc.querySelectorAll('section');
-
-        if (sectionsEls && sectionsEls.length > 0) {
-          // Process sections
-          sectionsEls.forEach(sectionEl => {
-            const id = sectionEl.getAttribute('id') || `section-${sections.length + 1}`;
-            const titleEl = sectionEl.querySelector('title');
-            const pageRefEls = sectionEl.querySelectorAll('page_ref');
-            const sectionRefEls = sectionEl.querySelectorAll('section_ref');
-
-            const title = titleEl ? titleEl.textContent || '' : '';
-            const pages: string[] = [];
-            const subsections: string[] = [];
-
-            pageRefEls.forEach(el => {
-              if (el.textContent) pages.push(el.textContent);
-            });
-
-            sectionRefEls.forEach(el => {
-              if (el.textContent) subsections.push(el.textContent);
-            });
-
-            sections.push({
-              id,
-              title,
-              pages,
-              subsections: subsections.length > 0 ? subsections : undefined
-            });
-
-            // Check if this is a root section (not referenced by any other section)
-            let isReferenced = false;
-            sectionsEls.forEach(otherSection => {
-              const otherSectionRefs = otherSection.querySelectorAll('section_ref');
-              otherSectionRefs.forEach(ref => {
-                if (ref.textContent === id) {
-                  isReferenced = true;
-                }
-              });
-            });
-
-            if (!isReferenced) {
-              rootSections.push(id);
-            }
-          });
-        }
-      }
-
-      // Create wiki structure
-      const wikiStructure: WikiStructure = {
-        id: 'wiki',
-        title,
-        description,
-        pages,
-        sections,
-        rootSections
-      };
-
-      setWikiStructure(wikiStructure);
-      setCurrentPageId(pages.length > 0 ? pages[0].id : undefined);
-
-      // Start generating content for all pages with controlled concurrency
-      if (pages.length > 0) {
-        // Mark all pages as in progress
-        const initialInProgress = new Set(pages.map(p => p.id));
-        setPagesInProgress(initialInProgress);
-
-        console.log(`Starting generation for ${pages.length} pages with controlled concurrency`);
-
-        // Maximum concurrent requests
-        const MAX_CONCURRENT = 1;
-
-        // Create a queue of pages
-        const queue = [...pages];
-        let activeRequests = 0;
-
-        // Function to process next items in queue
-        const processQueue = () => {
-          // Process as many items as we can up to our concurrency limit
-          while (queue.length > 0 && activeRequests < MAX_CONCURRENT) {
-            const page = queue.shift();
-            if (page) {
-              activeRequests++;
-              console.log(`Starting page ${page.title} (${activeRequests} active, ${queue.length} remaining)`);
-
-              // Start generating content for this page
-              generatePageContent(page, owner, repo)
-                .finally(() => {
-                  // When done (success or error), decrement active count and process more
-                  activeRequests--;
-                  console.log(`Finished page ${page.title} (${activeRequests} active, ${queue.length} remaining)`);
-
-                  // Check if all work is done (queue empty and no active requests)
-                  if (queue.length === 0 && activeRequests === 0) {
-                    console.log("All page generation tasks completed.");
-                    setIsLoading(false);
-                    setLoadingMessage(undefined);
-                  } else {
-                    // Only process more if there are items remaining and we're under capacity
-                    if (queue.length > 0 && activeRequests < MAX_CONCURRENT) {
-                      processQueue();
-                    }
-                  }
-                });
-            }
-          }
-
-          // Additional check: If the queue started empty or becomes empty and no requests were started/active
-          if (queue.length === 0 && activeRequests === 0 && pages.length > 0 && pagesInProgress.size === 0) {
-            // This handles the case where the queue might finish before the finally blocks fully update activeRequests
-            // or if the initial queue was processed very quickly
-            console.log("Queue empty and no active requests after loop, ensuring loading is false.");
-            setIsLoading(false);
-            setLoadingMessage(undefined);
-          } else if (pages.length === 0) {
-            // Handle case where there were no pages to begin with
-            setIsLoading(false);
-            setLoadingMessage(undefined);
-          }
-        };
-
-        // Start processing the queue
-        processQueue();
-      } else {
-        // Set loading to false if there were no pages found
-        setIsLoading(false);
-        setLoadingMessage(undefined);
-      }
-
-    } catch (error) {
-      console.error('Error determining wiki structure:', error);
+    if (job.status !== 'running') {
+      jobIdRef.current = null;
+      setIsPartialWiki(job.status !== 'completed');
+      setError(job.error ?? (job.status === 'cancelled' ? 'The wiki generation was cancelled.' : null));
+      setEmbeddingError(!!job.embeddingError);
       setIsLoading(false);
-      setError(error instanceof Error ? error.message : 'An unknown error occurred');
       setLoadingMessage(undefined);
-    } finally {
-      setStructureRequestInProgress(false);
     }
-  }, [generatePageContent, currentToken, effectiveRepoInfo, pagesInProgress.size, structureRequestInProgress, selectedProviderState, selectedModelState, isCustomSelectedModelState, customSelectedModelState, modelExcludedDirs, modelExcludedFiles, language, messages.loading, isComprehensiveView]);
+  }, [messages.loading, selectPageOf]);
 
-  // Fetch repository structure using GitHub or GitLab API
-  const fetchRepositoryStructure = useCallback(async () => {
+  // Generate the wiki in a server job, or attach to the job generating it already, e.g. for a teammate.
+  // With resume, the job only generates the pages missing from the cached wiki.
+  const runGenerationJob = useCallback(async (resume: boolean = false) => {
     // If a request is already in progress, don't start another one
     if (requestInProgress) {
-      console.log('Repository fetch already in progress, skipping duplicate call');
+      console.log('Wiki generation request already in progress, skipping duplicate call');
       return;
     }
 
-    // Reset previous state
-    setWikiStructure(undefined);
-    setCurrentPageId(undefined);
-    setGeneratedPages({});
-    setPagesInProgress(new Set());
+    if (!resume) {
+      // Reset previous state
+      setWikiStructure(undefined);
+      setCurrentPageId(undefined);
+      setGeneratedPages({});
+      setPagesInProgress(new Set());
+      setQueuedPageIds([]);
+      setPageRetries({});
+    }
     setError(null);
     setEmbeddingError(false); // Reset embedding error state
+    setIsLoading(true);
+    setLoadingMessage(resume
+      ? messages.loading?.resumingGeneration?.replace('{count}', wikiStructure ? findMissingPages(wikiStructure, generatedPages).length.toString() : '')
+        || 'Resuming generation of the missing pages...'
+      : messages.loading?.fetchingStructure || 'Fetching repository structure...');
+    // The job stores the wiki in the server cache as it is generated
+    cacheLoadedSuccessfully.current = true;
+    setIsPartialWiki(true);
 
     try {
-      // Set the request in progress flag
       setRequestInProgress(true);
-
-      // Update loading state
-      setIsLoading(true);
-      setLoadingMessage(messages.loading?.fetchingStructure || 'Fetching repository structure...');
-
-      let fileTreeData = '';
-      let readmeContent = '';
-
-      if (effectiveRepoInfo.type === 'local' && effectiveRepoInfo.localPath) {
-        try {
-          const response = await fetch(`/local_repo/structure?path=${encodeURIComponent(effectiveRepoInfo.localPath)}`);
-
-          if (!response.ok) {
-            const errorData = await response.text();
-            throw new Error(`Local repository API error (${response.status}): ${errorData}`);
-          }
-
-          const data = await response.json();
-          fileTreeData = data.file_tree;
-          readmeContent = data.readme;
-          // For local repos, we can't determine the actual branch, so use 'main' as default
-          defaultBranch.current = 'main';
-        } catch (err) {
-          throw err;
-        }
-      } else if (effectiveRepoInfo.type === 'github') {
-        // GitHub API approach
-        // Try to get the tree data for common branch names
-        let treeData = null;
-        let apiErrorDetails = '';
-
-        // Determine the GitHub API base URL based on the repository URL
-        const getGithubApiUrl = (repoUrl: string | null): string => {
-          if (!repoUrl) {
-            return 'https://api.github.com'; // Default to public GitHub
-          }
-          
-          try {
-            const url = new URL(repoUrl);
-            const hostname = url.hostname;
-            
-            // If it's the public GitHub, use the standard API URL
-            if (hostname === 'github.com') {
-              return 'https://api.github.com';
-            }
-            
-            // For GitHub Enterprise, use the enterprise API URL format
-            // GitHub Enterprise API URL format: https://github.company.com/api/v3
-            return `${url.protocol}//${hostname}/api/v3`;
-          } catch {
-            return 'https://api.github.com'; // Fallback to public GitHub if URL parsing fails
-          }
-        };
-
-        const githubApiBaseUrl = getGithubApiUrl(effectiveRepoInfo.repoUrl);
-        // First, try to get the default branch from the repository info
-        let defaultBranchLocal = null;
-        try {
-          const repoInfoResponse = await fetch(`${githubApiBaseUrl}/repos/${owner}/${repo}`, {
-            headers: createGithubHeaders(currentToken)
-          });
-          
-          if (repoInfoResponse.ok) {
-            const repoData = await repoInfoResponse.json();
-            defaultBranchLocal = repoData.default_branch;
-            console.log(`Found default branch: ${defaultBranchLocal}`);
-            // Store the default branch in state
-            defaultBranch.current = defaultBranchLocal || 'main';
-          }
-        } catch (err) {
-          console.warn('Could not fetch repository info for default branch:', err);
-        }
-
-        // Create list of branches to try, prioritizing the actual default branch
-        const branchesToTry = defaultBranchLocal 
-          ? [defaultBranchLocal, 'main', 'master'].filter((branch, index, arr) => arr.indexOf(branch) === index)
-          : ['main', 'master'];
-
-        for (const branch of branchesToTry) {
-          const apiUrl = `${githubApiBaseUrl}/repos/${owner}/${repo}/git/trees/${branch}?recursive=1`;
-          const headers = createGithubHeaders(currentToken);
-
-          console.log(`Fetching repository structure from branch: ${branch}`);
-          try {
-            const response = await fetch(apiUrl, {
-              headers
-            });
-
-            if (response.ok) {
-              treeData = await response.json();
-              console.log('Successfully fetched repository structure');
-              break;
-            } else {
-              const errorData = await response.text();
-              apiErrorDetails = `Status: ${response.status}, Response: ${errorData}`;
-              console.error(`Error fetching repository structure: ${apiErrorDetails}`);
-            }
-          } catch (err) {
-            console.error(`Network error fetching branch ${branch}:`, err);
-          }
-        }
-
-        if (!treeData || !treeData.tree) {
-          if (apiErrorDetails) {
-            throw new Error(`Could not fetch repository structure. API Error: ${apiErrorDetails}`);
-          } else {
-            throw new Error('Could not fetch repository structure. Repository might not exist, be empty or private.');
-          }
-        }
-
-        // Convert tree data to a string representation
-        fileTreeData = treeData.tree
-          .filter((item: { type: string; path: string }) => item.type === 'blob')
-          .map((item: { type: string; path: string }) => item.path)
-          .join('\n');
-
-        // Try to fetch README.md content
-        try {
-          const headers = createGithubHeaders(currentToken);
-
-          const readmeResponse = await fetch(`${githubApiBaseUrl}/repos/${owner}/${repo}/readme`, {
-            headers
-          });
-
-          if (readmeResponse.ok) {
-            const readmeData = await readmeResponse.json();
-            readmeContent = atob(readmeData.content);
-          } else {
-            console.warn(`Could not fetch README.md, status: ${readmeResponse.status}`);
-          }
-        } catch (err) {
-          console.warn('Could not fetch README.md, continuing with empty README', err);
-        }
-      }
-      else if (effectiveRepoInfo.type === 'gitlab') {
-        // GitLab API approach
-        const projectPath = extractUrlPath(effectiveRepoInfo.repoUrl ?? '') ?? `${owner}/${repo}`;
-        const projectDomain = extractUrlDomain(effectiveRepoInfo.repoUrl ?? "https://gitlab.com");
-        const encodedProjectPath = encodeURIComponent(projectPath);
-
-        const headers = createGitlabHeaders(currentToken);
-
-        /* eslint-disable-next-line @typescript-eslint/no-explicit-any */
-        const filesData: any[] = [];
-
-        try {
-          // Step 1: Get project info to determine default branch
-          let projectInfoUrl: string;
-          let defaultBranchLocal = 'main'; // fallback
-          try {
-            const validatedUrl = new URL(projectDomain ?? ''); // Validate domain
-            projectInfoUrl = `${validatedUrl.origin}/api/v4/projects/${encodedProjectPath}`;
-          } catch (err) {
-            throw new Error(`Invalid project domain URL: ${projectDomain}`);
-          }
-          const projectInfoRes = await fetch(projectInfoUrl, { headers });
-
-          if (!projectInfoRes.ok) {
-            const errorData = await projectInfoRes.text();
-            throw new Error(`GitLab project info error: Status ${projectInfoRes.status}, Response: ${errorData}`);
-          }
-
-          const projectInfo = await projectInfoRes.json();
-          defaultBranchLocal = projectInfo.default_branch || 'main';
-          console.log(`Found GitLab default branch: ${defaultBranchLocal}`);
-          // Store the default branch in state
-          defaultBranch.current = defaultBranchLocal;
-
-          // Step 2: Paginate to fetch full file tree
-          let page = 1;
-          let morePages = true;
-          
-          while (morePages) {
-            const apiUrl = `${projectInfoUrl}/repository/tree?recursive=true&per_page=100&page=${page}`;
-            const response = await fetch(apiUrl, { headers });
-
-            if (!response.ok) {
-                const errorData = await response.text();
-              throw new Error(`Error fetching GitLab repository structure (page ${page}): ${errorData}`);
-            }
-
-            const pageData = await response.json();
-            filesData.push(...pageData);
-
-            const nextPage = response.headers.get('x-next-page');
-            morePages = !!nextPage;
-            page = nextPage ? parseInt(nextPage, 10) : page + 1;
-        }
-
-          if (!Array.isArray(filesData) || filesData.length === 0) {
-            throw new Error('Could not fetch repository structure. Repository might be empty or inaccessible.');
-        }
-
-          // Step 3: Format file paths
-        fileTreeData = filesData
-          .filter((item: { type: string; path: string }) => item.type === 'blob')
-          .map((item: { type: string; path: string }) => item.path)
-          .join('\n');
-
-          // Step 4: Try to fetch README.md content
-          const readmeUrl = `${projectInfoUrl}/repository/files/README.md/raw`;
-            try {
-            const readmeResponse = await fetch(readmeUrl, { headers });
-              if (readmeResponse.ok) {
-                readmeContent = await readmeResponse.text();
-                console.log('Successfully fetched GitLab README.md');
-              } else {
-              console.warn(`Could not fetch GitLab README.md status: ${readmeResponse.status}`);
-              }
-            } catch (err) {
-            console.warn(`Error fetching GitLab README.md:`, err);
-            }
-        } catch (err) {
-          console.error("Error during GitLab repository tree retrieval:", err);
-          throw err;
-        }
+      const { job, attached } = await startWikiJob({
+        repo: { ...effectiveRepoInfo, token: currentToken || null },
+        language,
+        isComprehensive: isComprehensiveView,
+        model: modelSelection,
+        filters: {
+          excludedDirs: modelExcludedDirs,
+          excludedFiles: modelExcludedFiles,
+          includedDirs: modelIncludedDirs,
+          includedFiles: modelIncludedFiles
+        },
+        structureFormat,
+        retryInvalidPages,
+        maxUnverifiedIdentifiers,
+        resume,
+        lockedPages: resume ? undefined : lockedPagesRef.current
+      });
+      lockedPagesRef.current = [];
+      if (attached) {
+        console.log(`Following the running wiki generation job ${job.id}`);
       }
-      else if (effectiveRepoInfo.type === 'bitbucket') {
-        // Bitbucket API approach
-        const repoPath = extractUrlPath(effectiveRepoInfo.repoUrl ?? '') ?? `${owner}/${repo}`;
-        const encodedRepoPath = encodeURIComponent(repoPath);
-
-        // Try to get the file tree for common branch names
-        let filesData = null;
-        let apiErrorDetails = '';
-        let defaultBranchLocal = '';
-        const headers = createBitbucketHeaders(currentToken);
-
-        // First get project info to determine default branch
-        const projectInfoUrl = `https://api.bitbucket.org/2.0/repositories/${encodedRepoPath}`;
-        try {
-          const response = await fetch(projectInfoUrl, { headers });
-
-          const responseText = await response.text();
-
-          if (response.ok) {
-            const projectData = JSON.parse(responseText);
-            defaultBranchLocal = projectData.mainbranch.name;
-            // Store the default branch in state
-            defaultBranch.current = defaultBranchLocal;
-
-            const apiUrl = `https://api.bitbucket.org/2.0/repositories/${encodedRepoPath}/src/${defaultBranchLocal}/?recursive=true&per_page=100`;
-            try {
-              const response = await fetch(apiUrl, {
-                headers
-              });
-
-              const structureResponseText = await response.text();
-
-              if (response.ok) {
-                filesData = JSON.parse(structureResponseText);
-              } else {
-                const errorData = structureResponseText;
-                apiErrorDetails = `Status: ${response.status}, Response: ${errorData}`;
-              }
-            } catch (err) {
-              console.error(`Network error fetching Bitbucket branch ${defaultBranchLocal}:`, err);
-            }
-          } else {
-            const errorData = responseText;
-            apiErrorDetails = `Status: ${response.status}, Response: ${errorData}`;
-          }
-        } catch (err) {
-          console.error("Network error fetching Bitbucket project info:", err);
-        }
-
-        if (!filesData || !Array.isArray(filesData.values) || filesData.values.length === 0) {
-          if (apiErrorDetails) {
-            throw new Error(`Could not fetch repository structure. Bitbucket API Error: ${apiErrorDetails}`);
-          } else {
-            throw new Error('Could not fetch repository structure. Repository might not exist, be empty or private.');
-          }
-        }
-
-        // Convert files data to a string representation
-        fileTreeData = filesData.values
-          .filter((item: { type: string; path: string }) => item.type === 'commit_file')
-          .map((item: { type: string; path: string }) => item.path)
-          .join('\n');
-
-        // Try to fetch README.md content
-        try {
-          const headers = createBitbucketHeaders(currentToken);
-
-          const readmeResponse = await fetch(`https://api.bitbucket.org/2.0/repositories/${encodedRepoPath}/src/${defaultBranchLocal}/README.md`, {
-            headers
-          });
 
-          if (readmeResponse.ok) {
-            readmeContent = await readmeResponse.text();
-          } else {
-            console.warn(`Could not fetch Bitbucket README.md, status: ${readmeResponse.status}`);
-          }
-        } catch (err) {
-          console.warn('Could not fetch Bitbucket README.md, continuing with empty README', err);
+      jobIdRef.current = job.id;
+      jobStateRef.current = job;
+      stopFollowingJobRef.current?.();
+      stopFollowingJobRef.current = followWikiJob(
+        job.id,
+        (event) => syncJobState(applyWikiJobEvent(jobStateRef.current ?? job, event)),
+        () => {
+          jobIdRef.current = null;
+          setIsLoading(false);
+          setLoadingMessage(undefined);
+          setError(messages.repoPage?.jobConnectionLost || 'Lost the connection to the wiki generation. The pages generated so far are kept.');
         }
-      }
-
-      // Now determine the wiki structure
-      await determineWikiStructure(fileTreeData, readmeContent, owner, repo);
-
+      );
     } catch (error) {
-      console.error('Error fetching repository structure:', error);
+      console.error('Error starting wiki generation:', error);
       setIsLoading(false);
       setError(error instanceof Error ? error.message : 'An unknown error occurred');
       setLoadingMessage(undefined);
@@ -1377,7 +576,18 @@ IMPORTANT:
       // Reset the request in progress flag
       setRequestInProgress(false);
     }
-  }, [owner, repo, determineWikiStructure, currentToken, effectiveRepoInfo, requestInProgress, messages.loading]);
+  }, [requestInProgress, wikiStructure, generatedPages, effectiveRepoInfo, currentToken, language, isComprehensiveView, modelSelection, modelExcludedDirs, modelExcludedFiles, modelIncludedDirs, modelIncludedFiles, structureFormat, retryInvalidPages, maxUnverifiedIdentifiers, syncJobState, messages.loading, messages.repoPage]);
+
+  // Resume a partially generated wiki once its cached state is in place
+  useEffect(() => {
+    if (resumePending && wikiStructure) {
+      setResumePending(false);
+      runGenerationJob(true);
+    }
+  }, [resumePending, wikiStructure, runGenerationJob]);
+
+  // Stop following the job when leaving the page; the job keeps running on the server
+  useEffect(() => () => stopFollowingJobRef.current?.(), []);
 
   // Function to export wiki content
   const exportWiki = useCallback(async (format: 'markdown' | 'json') => {
@@ -1391,51 +601,9 @@ IMPORTANT:
       setExportError(null);
       setLoadingMessage(`${language === 'ja' ? 'Wikiを' : 'Exporting wiki as '} ${format} ${language === 'ja' ? 'としてエクスポート中...' : '...'}`);
 
-      // Prepare the pages for export
-      const pagesToExport = wikiStructure.pages.map(page => {
-        // Use the generated content if available, otherwise use an empty string
-        const content = generatedPages[page.id]?.content || 'Content not generated';
-        return {
-          ...page,
-          content
-        };
-      });
-
-      // Get repository URL
-      const repoUrl = getRepoUrl(effectiveRepoInfo);
-
-      // Make API call to export wiki
-      const response = await fetch(`/export/wiki`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          repo_url: repoUrl,
-          type: effectiveRepoInfo.type,
-          pages: pagesToExport,
-          format
-        })
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text().catch(() => 'No error details available');
-        throw new Error(`Error exporting wiki: ${response.status} - ${errorText}`);
-      }
-
-      // Get the filename from the Content-Disposition header if available
-      const contentDisposition = response.headers.get('Content-Disposition');
-      let filename = `${effectiveRepoInfo.repo}_wiki.${format === 'markdown' ? 'md' : 'json'}`;
+      const { filename, content: blob } = await requestWikiExport(effectiveRepoInfo, wikiStructure, generatedPages, format);
 
-      if (contentDisposition) {
-        const filenameMatch = contentDisposition.match(/filename=(.+)/);
-        if (filenameMatch && filenameMatch[1]) {
-          filename = filenameMatch[1].replace(/"/g, '');
-        }
-      }
-
-      // Convert the response to a blob and download it
-      const blob = await response.blob();
+      // Download the exported file
       const url = window.URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
@@ -1462,7 +630,21 @@ IMPORTANT:
     setLoadingMessage(messages.loading?.clearingCache || 'Clearing server cache...');
     setIsLoading(true); // Show loading indicator immediately
 
+    // Keep the locked pages and sections in the new wiki
+    lockedPagesRef.current = collectLockedPages(generatedPages);
+    setEditingPageId(null);
+    pageGeneratorRef.current?.cancel();
+    setPageRegeneration(null);
+    setIsEditingStructure(false);
+
     try {
+      // Stop the running generation first, so it does not store pages into the cleared cache
+      if (jobIdRef.current) {
+        stopFollowingJobRef.current?.();
+        await cancelWikiJob(jobIdRef.current);
+        jobIdRef.current = null;
+      }
+
       const params = new URLSearchParams({
         owner: effectiveRepoInfo.owner,
         repo: effectiveRepoInfo.repo,
@@ -1475,6 +657,9 @@ IMPORTANT:
         comprehensive: isComprehensiveView.toString(),
         authorization_code: authCode,
       });
+      if (effectiveRepoInfo.ref) {
+        params.append('ref', effectiveRepoInfo.ref);
+      }
 
       // Add file filters configuration
       if (modelExcludedDirs) {
@@ -1538,7 +723,7 @@ IMPORTANT:
     console.log('Refreshing wiki. Server cache will be overwritten upon new generation if not cleared.');
 
     // Clear the localStorage cache (if any remnants or if it was used before this change)
-    const localStorageCacheKey = getCacheKey(effectiveRepoInfo.owner, effectiveRepoInfo.repo, effectiveRepoInfo.type, language, isComprehensiveView);
+    const localStorageCacheKey = getCacheKey(effectiveRepoInfo.owner, effectiveRepoInfo.repo, effectiveRepoInfo.type, language, isComprehensiveView, effectiveRepoInfo.ref);
     localStorage.removeItem(localStorageCacheKey);
 
     // Reset cache loaded flag
@@ -1550,15 +735,19 @@ IMPORTANT:
     setCurrentPageId(undefined);
     setGeneratedPages({});
     setPagesInProgress(new Set());
+    setCommitSha(undefined);
+    setRefreshNotice(null);
+    setIsPartialWiki(false);
+    setResumePending(false);
     setError(null);
     setEmbeddingError(false); // Reset embedding error state
     setIsLoading(true); // Set loading state for refresh
     setLoadingMessage(messages.loading?.initializing || 'Initializing wiki generation...');
 
-    // Clear any in-progress requests for page content
-    activeContentRequests.clear();
+    // Cancel any in-progress requests for the structure and page content
+    wikiGeneratorRef.current?.cancel();
+    wikiGeneratorRef.current = null;
     // Reset flags related to request processing if they are component-wide
-    setStructureRequestInProgress(false); // Assuming this flag should be reset
     setRequestInProgress(false); // Assuming this flag should be reset
 
     // Explicitly trigger the data loading process again by re-invoking what the main useEffect does.
@@ -1569,7 +758,70 @@ IMPORTANT:
     // For now, we rely on the standard loadData flow initiated by resetting effectRan and dependencies.
     // This will re-trigger the main data loading useEffect.
     // No direct call to fetchRepositoryStructure here, let the useEffect handle it based on effectRan.current = false.
-  }, [effectiveRepoInfo, language, messages.loading, activeContentRequests, selectedProviderState, selectedModelState, isCustomSelectedModelState, customSelectedModelState, modelExcludedDirs, modelExcludedFiles, isComprehensiveView, authCode, authRequired]);
+  }, [effectiveRepoInfo, language, messages.loading, selectedProviderState, selectedModelState, isCustomSelectedModelState, customSelectedModelState, modelExcludedDirs, modelExcludedFiles, isComprehensiveView, authCode, authRequired, generatedPages]);
+
+  // Regenerate only the pages affected by the commits since the wiki was generated
+  const refreshChangedPages = useCallback(async () => {
+    if (!wikiStructure || !commitSha || isLoading) {
+      return;
+    }
+
+    setRefreshNotice(null);
+    setError(null);
+    setEmbeddingError(false);
+    setIsLoading(true);
+    setLoadingMessage(messages.loading?.checkingChanges || 'Checking for changes...');
+
+    const previous = { structure: wikiStructure, pages: generatedPages };
+    let generator: WikiGenerator | null = null;
+
+    try {
+      const { fileTree, readme, defaultBranch: branch, commitSha: headSha } = await fetchRepositoryFiles(effectiveRepoInfo, currentToken);
+      defaultBranch.current = branch;
+
+      if (!headSha) {
+        throw new Error('Could not determine the latest commit of the repository. Please refresh the whole wiki instead.');
+      }
+      if (headSha === commitSha) {
+        setRefreshNotice(messages.repoPage?.wikiUpToDate || 'The wiki is up to date.');
+        return;
+      }
+
+      const provider = createRepositoryProvider(effectiveRepoInfo, currentToken);
+      if (!provider) {
+        throw new Error(`Comparing commits is not supported for ${effectiveRepoInfo.type} repositories`);
+      }
+      const changedFiles = await provider.compareCommits(commitSha, headSha);
+      generator = await createWikiGenerator(headSha);
+      // Allow the refreshed wiki to be saved to the cache
+      cacheLoadedSuccessfully.current = false;
+
+      const { pages, regeneratedPages } = await generator.update(fileTree, readme, previous, changedFiles);
+      if (generator.isCancelled) {
+        return;
+      }
+
+      setGeneratedPages(pages);
+      setCommitSha(headSha);
+      setRefreshNotice((messages.repoPage?.pagesRefreshed || '{count} pages were regenerated for {files} changed files.')
+        .replace('{count}', regeneratedPages.length.toString())
+        .replace('{files}', changedFiles.length.toString()));
+    } catch (err) {
+      if (generator?.isCancelled) {
+        return;
+      }
+      console.error('Error refreshing changed pages:', err);
+      if (err instanceof EmbeddingConfigurationError) {
+        setEmbeddingError(true);
+      }
+      setError(err instanceof Error ? err.message : 'An unknown error occurred');
+    } finally {
+      if (!generator?.isCancelled) {
+        setIsLoading(false);
+        setLoadingMessage(undefined);
+      }
+    }
+  }, [wikiStructure, generatedPages, commitSha, isLoading, effectiveRepoInfo, currentToken, createWikiGenerator, messages.loading, messages.repoPage]);
 
   // Start wiki generation when component mounts
   useEffect(() => {
@@ -1587,11 +839,16 @@ IMPORTANT:
             language: language,
             comprehensive: isComprehensiveView.toString(),
           });
+          if (effectiveRepoInfo.ref) {
+            params.append('ref', effectiveRepoInfo.ref);
+          }
           const response = await fetch(`/api/wiki_cache?${params.toString()}`);
 
           if (response.ok) {
             const cachedData = await response.json(); // Returns null if no cache
-            if (cachedData && cachedData.wiki_structure && cachedData.generated_pages && Object.keys(cachedData.generated_pages).length > 0) {
+            // A partially generated wiki is used even before its first page was stored
+            if (cachedData && cachedData.wiki_structure && cachedData.generated_pages &&
+                (Object.keys(cachedData.generated_pages).length > 0 || cachedData.complete === false)) {
               console.log('Using server-cached wiki data');
               if(cachedData.model) {
                 setSelectedModelState(cachedData.model);
@@ -1609,129 +866,30 @@ IMPORTANT:
                 console.log('Using cached repo_url:', cachedData.repo_url);
               }
 
-              // Ensure the cached structure has sections and rootSections
+              // The cache stores the section tree as it was generated or edited; wikis without
+              // sections are shown as a flat list of pages
               const cachedStructure = {
                 ...cachedData.wiki_structure,
                 sections: cachedData.wiki_structure.sections || [],
                 rootSections: cachedData.wiki_structure.rootSections || []
               };
 
-              // If sections or rootSections are missing, create intelligent ones based on page titles
-              if (!cachedStructure.sections.length || !cachedStructure.rootSections.length) {
-                const pages = cachedStructure.pages;
-                const sections: WikiSection[] = [];
-                const rootSections: string[] = [];
-
-                // Group pages by common prefixes or categories
-                const pageClusters = new Map<string, WikiPage[]>();
-
-                // Define common categories that might appear in page titles
-                const categories = [
-                  { id: 'overview', title: 'Overview', keywords: ['overview', 'introduction', 'about'] },
-                  { id: 'architecture', title: 'Architecture', keywords: ['architecture', 'structure', 'design', 'system'] },
-                  { id: 'features', title: 'Core Features', keywords: ['feature', 'functionality', 'core'] },
-                  { id: 'components', title: 'Components', keywords: ['component', 'module', 'widget'] },
-                  { id: 'api', title: 'API', keywords: ['api', 'endpoint', 'service', 'server'] },
-                  { id: 'data', title: 'Data Flow', keywords: ['data', 'flow', 'pipeline', 'storage'] },
-                  { id: 'models', title: 'Models', keywords: ['model', 'ai', 'ml', 'integration'] },
-                  { id: 'ui', title: 'User Interface', keywords: ['ui', 'interface', 'frontend', 'page'] },
-                  { id: 'setup', title: 'Setup & Configuration', keywords: ['setup', 'config', 'installation', 'deploy'] }
-                ];
-
-                // Initialize clusters with empty arrays
-                categories.forEach(category => {
-                  pageClusters.set(category.id, []);
-                });
-
-                // Add an "Other" category for pages that don't match any category
-                pageClusters.set('other', []);
-
-                // Assign pages to categories based on title keywords
-                pages.forEach((page: WikiPage) => {
-                  const title = page.title.toLowerCase();
-                  let assigned = false;
-
-                  // Try to find a matching category
-                  for (const category of categories) {
-                    if (category.keywords.some(keyword => title.includes(keyword))) {
-                      pageClusters.get(category.id)?.push(page);
-                      assigned = true;
-                      break;
-                    }
-                  }
-
-                  // If no category matched, put in "Other"
-                  if (!assigned) {
-                    pageClusters.get('other')?.push(page);
-                  }
-                });
-
-                // Create sections for non-empty categories
-                for (const [categoryId, categoryPages] of pageClusters.entries()) {
-                  if (categoryPages.length > 0) {
-                    const category = categories.find(c => c.id === categoryId) ||
-                                    { id: categoryId, title: categoryId === 'other' ? 'Other' : categoryId.charAt(0).toUpperCase() + categoryId.slice(1) };
-
-                    const sectionId = `section-${categoryId}`;
-                    sections.push({
-                      id: sectionId,
-                      title: category.title,
-                      pages: categoryPages.map((p: WikiPage) => p.id)
-                    });
-                    rootSections.push(sectionId);
-
-                    // Update page parentId
-                    categoryPages.forEach((page: WikiPage) => {
-                      page.parentId = sectionId;
-                    });
-                  }
-                }
-
-                // If we still have no sections (unlikely), fall back to importance-based grouping
-                if (sections.length === 0) {
-                  const highImportancePages = pages.filter((p: WikiPage) => p.importance === 'high').map((p: WikiPage) => p.id);
-                  const mediumImportancePages = pages.filter((p: WikiPage) => p.importance === 'medium').map((p: WikiPage) => p.id);
-                  const lowImportancePages = pages.filter((p: WikiPage) => p.importance === 'low').map((p: WikiPage) => p.id);
-
-                  if (highImportancePages.length > 0) {
-                    sections.push({
-                      id: 'section-high',
-                      title: 'Core Components',
-                      pages: highImportancePages
-                    });
-                    rootSections.push('section-high');
-                  }
-
-                  if (mediumImportancePages.length > 0) {
-                    sections.push({
-                      id: 'section-medium',
-                      title: 'Key Features',
-                      pages: mediumImportancePages
-                    });
-                    rootSections.push('section-medium');
-                  }
-
-                  if (lowImportancePages.length > 0) {
-                    sections.push({
-                      id: 'section-low',
-                      title: 'Additional Information',
-                      pages: lowImportancePages
-                    });
-                    rootSections.push('section-low');
-                  }
-                }
-
-                cachedStructure.sections = sections;
-                cachedStructure.rootSections = rootSections;
-              }
-
               setWikiStructure(cachedStructure);
               setGeneratedPages(cachedData.generated_pages);
-              setCurrentPageId(cachedStructure.pages.length > 0 ? cachedStructure.pages[0].id : undefined);
+              setCommitSha(cachedData.commit_sha ?? undefined);
+              if (cachedData.branch) {
+                defaultBranch.current = cachedData.branch;
+              }
+              selectPageOf(cachedStructure);
               setIsLoading(false);
               setEmbeddingError(false); 
               setLoadingMessage(undefined);
               cacheLoadedSuccessfully.current = true;
+              if (cachedData.complete === false) {
+                console.log('Cached wiki is incomplete, generating the missing pages');
+                setIsPartialWiki(true);
+                setResumePending(true);
+              }
               return; // Exit if cache is successfully loaded
             } else {
               console.log('No valid wiki data in server cache or cache is empty.');
@@ -1746,8 +904,8 @@ IMPORTANT:
         }
 
         // If we reached here, either there was no cache, it was invalid, or an error occurred
-        // Proceed to fetch repository structure
-        fetchRepositoryStructure();
+        // Proceed to generate the wiki
+        runGenerationJob();
       };
 
       loadData();
@@ -1758,7 +916,7 @@ IMPORTANT:
 
     // Clean up function for this effect is not strictly necessary for loadData,
     // but keeping the main unmount cleanup in the other useEffect
-  }, [effectiveRepoInfo, effectiveRepoInfo.owner, effectiveRepoInfo.repo, effectiveRepoInfo.type, language, fetchRepositoryStructure, messages.loading?.fetchingCache, isComprehensiveView]);
+  }, [effectiveRepoInfo, effectiveRepoInfo.owner, effectiveRepoInfo.repo, effectiveRepoInfo.type, language, runGenerationJob, messages.loading?.fetchingCache, isComprehensiveView, selectPageOf]);
 
   // Save wiki to server-side cache when generation is complete
   useEffect(() => {
@@ -1771,40 +929,15 @@ IMPORTANT:
           !cacheLoadedSuccessfully.current) {
 
         const allPagesHaveContent = wikiStructure.pages.every(page =>
-          generatedPages[page.id] && generatedPages[page.id].content && generatedPages[page.id].content !== 'Loading...');
+          generatedPages[page.id] && generatedPages[page.id].content && generatedPages[page.id].content !== PAGE_LOADING_CONTENT);
 
         if (allPagesHaveContent) {
           console.log('Attempting to save wiki data to server cache via Next.js proxy');
 
           try {
-            // Make sure wikiStructure has sections and rootSections
-            const structureToCache = {
-              ...wikiStructure,
-              sections: wikiStructure.sections || [],
-              rootSections: wikiStructure.rootSections || []
-            };
-            const dataToCache = {
-              repo: effectiveRepoInfo,
-              language: language,
-              comprehensive: isComprehensiveView,
-              wiki_structure: structureToCache,
-              generated_pages: generatedPages,
-              provider: selectedProviderState,
-              model: selectedModelState
-            };
-            const response = await fetch(`/api/wiki_cache`, {
-              method: 'POST',
-              headers: {
-                'Content-Type': 'application/json',
-              },
-              body: JSON.stringify(dataToCache),
-            });
-
-            if (response.ok) {
-              console.log('Wiki data successfully saved to server cache');
-            } else {
-              console.error('Error saving wiki data to server cache:', response.status, await response.text());
-            }
+            await saveWikiCache(getCacheMetadata(commitSha), wikiStructure, generatedPages);
+            console.log('Wiki data successfully saved to server cache');
+            setIsPartialWiki(false);
           } catch (error) {
             console.error('Error saving to server cache:', error);
           }
@@ -1813,16 +946,275 @@ IMPORTANT:
     };
 
     saveCache();
-  }, [isLoading, error, wikiStructure, generatedPages, effectiveRepoInfo.owner, effectiveRepoInfo.repo, effectiveRepoInfo.type, effectiveRepoInfo.repoUrl, repoUrl, language, isComprehensiveView]);
+  }, [isLoading, error, wikiStructure, generatedPages, getCacheMetadata, commitSha]);
 
-  const handlePageSelect = (pageId: string) => {
+  // Check whether the repository has moved on since the wiki was generated
+  useEffect(() => {
+    if (!commitSha) {
+      setLatestCommitSha(undefined);
+      return;
+    }
+
+    const provider = createRepositoryProvider(effectiveRepoInfo, currentToken);
+    if (!provider) {
+      setLatestCommitSha(undefined);
+      return;
+    }
+
+    let cancelled = false;
+    findNewerCommit(provider, effectiveRepoInfo.ref || defaultBranch.current, commitSha).then(sha => {
+      if (!cancelled) setLatestCommitSha(sha);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [commitSha, effectiveRepoInfo, currentToken]);
+
+  const isWikiStale = !!latestCommitSha;
+
+  // Files of the repository at the commit the wiki describes, read through the repository host or the backend
+  const sourceFiles = useMemo(() => {
+    const provider = createRepositoryProvider(effectiveRepoInfo, currentToken);
+    return provider ? new SourceFileReader(provider, commitSha ?? defaultBranch.current) : null;
+  }, [effectiveRepoInfo, currentToken, commitSha]);
+
+  const loadSourceFile = useCallback((filePath: string): Promise<string> => sourceFiles
+    ? sourceFiles.readFile(filePath)
+    : Promise.reject(new Error('Source files of this repository cannot be read')), [sourceFiles]);
+
+  // Store an edited page in the server cache, then show it
+  const handleSavePage = useCallback(async (page: WikiPage) => {
+    // The edited content is checked again; results that cannot be renewed are dropped
+    let citationCheck: CitationCheck | undefined;
+    let identifierCheck: IdentifierCheck | undefined;
+    if (sourceFiles) {
+      try {
+        citationCheck = await verifyCitations(page.content, sourceFiles, generateFileUrl(''));
+      } catch (err) {
+        console.warn(`Could not verify the citations of ${page.title}:`, err);
+      }
+      identifierCheck = await groundIdentifiers(page, sourceFiles);
+    }
+    const savedPage = { ...page, validation: validateWikiContent(page.content), citationCheck, identifierCheck };
+    await saveWikiCachePage(effectiveRepoInfo, language, savedPage);
+    setGeneratedPages(prev => ({ ...prev, [page.id]: savedPage }));
+    setOriginalMarkdown(prev => ({ ...prev, [page.id]: page.content }));
+    setEditingPageId(null);
+  }, [effectiveRepoInfo, language, sourceFiles, generateFileUrl]);
+
+  // Regenerate a single page; the result is shown as a diff to accept or reject
+  const handleRegeneratePage = useCallback(async (pageId: string, instructions: string, model: ModelSelection) => {
+    const currentPage = generatedPages[pageId];
+    // Generate from the structure page, so edit info of the current content is not carried over
+    const sourcePage = wikiStructure?.pages.find(p => p.id === pageId) ?? currentPage;
+    if (!sourcePage) {
+      return;
+    }
+
+    pageGeneratorRef.current?.cancel();
+    setPageRegeneration({ pageId, status: 'generating' });
+    let generator: WikiGenerator | null = null;
+    try {
+      generator = await createWikiGenerator(commitSha, model);
+      pageGeneratorRef.current = generator;
+      const regenerated = await generator.generatePage(sourcePage, undefined, instructions || undefined);
+      if (generator.isCancelled) {
+        return;
+      }
+      // Locked sections are kept, as in every other regeneration
+      const page = currentPage && hasLockedContent(currentPage)
+        ? await generator.verifyPage(applyLockedContent(regenerated, currentPage))
+        : regenerated;
+      setPageRegeneration({ pageId, status: 'review', page });
+    } catch (err) {
+      if (generator?.isCancelled) {
+        return;
+      }
+      console.error(`Error regenerating page ${pageId}:`, err);
+      setPageRegeneration({ pageId, status: 'review', error: err instanceof Error ? err.message : 'An unknown error occurred' });
+    }
+  }, [generatedPages, wikiStructure, commitSha, createWikiGenerator]);
+
+  // Asks the model to fix a diagram that fails to render, and writes the fixed diagram back into the page
+  const repairDiagram = useCallback((pageId: string, chart: string, error: string): Promise<boolean> => {
+    const key = `${pageId}\n${chart}`;
+    let repair = diagramRepairsRef.current.get(key);
+    if (!repair) {
+      repair = (async () => {
+        try {
+          const generator = await createWikiGenerator(commitSha);
+          const fixedChart = await generator.repairDiagram(chart, error, validateMermaidChart);
+          const page = wikiRef.current.pages[pageId];
+          const content = page && fixedChart ? replaceMermaidDiagram(page.content, chart, fixedChart) : undefined;
+          if (!page || !content || content === page.content) {
+            return false;
+          }
+          const repairedPage = { ...page, content, validation: validateWikiContent(content) };
+          setGeneratedPages(prev => ({ ...prev, [pageId]: repairedPage }));
+          setOriginalMarkdown(prev => ({ ...prev, [pageId]: content }));
+          // The next reader gets the working diagram
+          saveWikiCachePage(effectiveRepoInfo, language, repairedPage)
+            .catch(err => console.warn(`Could not store the repaired diagram of ${page.title}:`, err));
+          return true;
+        } catch (err) {
+          console.error(`Error repairing a diagram of page ${pageId}:`, err);
+          return false;
+        }
+      })();
+      diagramRepairsRef.current.set(key, repair);
+    }
+    return repair;
+  }, [createWikiGenerator, commitSha, effectiveRepoInfo, language]);
+
+  const handleAcceptRegeneration = useCallback(async () => {
+    if (!pageRegeneration?.page) {
+      return;
+    }
+    try {
+      await handleSavePage(pageRegeneration.page);
+      setPageRegeneration(null);
+    } catch (err) {
+      console.error('Error saving regenerated page:', err);
+      setPageRegeneration(prev => prev && { ...prev, error: err instanceof Error ? err.message : 'An unknown error occurred' });
+    }
+  }, [pageRegeneration, handleSavePage]);
+
+  const handleRejectRegeneration = useCallback(() => {
+    pageGeneratorRef.current?.cancel();
+    pageGeneratorRef.current = null;
+    setPageRegeneration(null);
+  }, []);
+
+  // Links between pages that point to no page of the wiki
+  const brokenLinks = useMemo(
+    () => wikiStructure ? findBrokenLinks(wikiStructure.pages, generatedPages) : [],
+    [wikiStructure, generatedPages]
+  );
+
+  // Changes of the regenerated page compared to the current one
+  const regenerationDiff = useMemo(() => {
+    if (!pageRegeneration?.page) {
+      return null;
+    }
+    return diffMarkdown(generatedPages[pageRegeneration.pageId]?.content ?? '', pageRegeneration.page.content);
+  }, [pageRegeneration, generatedPages]);
+
+  useEffect(() => {
+    wikiRef.current = { structure: wikiStructure, pages: generatedPages };
+  }, [wikiStructure, generatedPages]);
+
+  // Store the wiki with an edited structure in the server cache. It stays incomplete when it was
+  // stored incomplete, and becomes incomplete while added pages have no content yet.
+  const persistStructure = useCallback(async (structure: WikiStructure, pages: Record<string, WikiPage>) => {
+    setStructureSaveError(null);
+    try {
+      const complete = !isPartialWiki && findMissingPages(structure, pages).length === 0;
+      await saveWikiCache(getCacheMetadata(commitSha), structure, pages, complete);
+    } catch (err) {
+      console.error('Error saving the wiki structure:', err);
+      setStructureSaveError(err instanceof Error ? err.message : 'An unknown error occurred');
+    }
+  }, [getCacheMetadata, commitSha, isPartialWiki]);
+
+  const handleStructureChange = useCallback((structure: WikiStructure) => {
+    const pages = applyStructureToPages(structure, generatedPages);
+    setWikiStructure(structure);
+    setGeneratedPages(pages);
+    selectPageOf(structure);
+    persistStructure(structure, pages);
+  }, [generatedPages, persistStructure, selectPageOf]);
+
+  // Add a page to the structure, then generate only that page
+  const handleAddPage = useCallback(async (structure: WikiStructure, page: WikiPage) => {
+    handleStructureChange(structure);
+    setCurrentPageId(page.id);
+
+    const generator = await createWikiGenerator(commitSha);
+    const { pages } = await generator.generatePages([page]);
+    if (generator.isCancelled) {
+      return;
+    }
+
+    // The structure may have been edited further in the meantime
+    const latest = wikiRef.current;
+    if (latest.structure?.pages.some(p => p.id === page.id)) {
+      await persistStructure(latest.structure, { ...latest.pages, [page.id]: pages[page.id] });
+    }
+  }, [handleStructureChange, createWikiGenerator, commitSha, persistStructure]);
+
+  const handlePageSelect = (pageId: string, anchor?: string) => {
     if (currentPageId != pageId) {
+      // A new history entry, so that the browser's back button returns to the previous page
+      const slug = wikiStructure && getPageSlugs(wikiStructure.pages).get(pageId);
+      if (slug) {
+        const url = new URL(window.location.href);
+        url.searchParams.set('page', slug);
+        url.hash = anchor ?? '';
+        window.history.pushState({}, '', url.toString());
+      }
+      pendingAnchorRef.current = anchor ?? null;
       setCurrentPageId(pageId)
     }
   };
 
+  // Links the model wrote to other pages, e.g. [Authentication](#authentication-flow), open them in place
+  const resolveLink = (href: string): MarkdownLink | undefined => {
+    const resolved = wikiStructure && resolvePageLink(href, wikiStructure.pages, currentPageId ? generatedPages[currentPageId] : undefined);
+    if (!resolved) {
+      return undefined;
+    }
+    if (resolved.pageId === currentPageId) {
+      return { href: `#${resolved.anchor ?? ''}` };
+    }
+    const params = new URLSearchParams(searchParams.toString());
+    params.set('page', getPageSlugs(wikiStructure.pages).get(resolved.pageId) ?? resolved.pageId);
+    return {
+      href: `?${params.toString()}${resolved.anchor ? `#${resolved.anchor}` : ''}`,
+      onNavigate: () => handlePageSelect(resolved.pageId, resolved.anchor)
+    };
+  };
+
+  const citationContext = useMemo((): CitationContext => ({
+    fileUrl: generateFileUrl(''),
+    filePaths: Array.from(new Set(wikiStructure?.pages.flatMap(page => page.filePaths) ?? []))
+  }), [generateFileUrl, wikiStructure]);
+
+  // Citations of source files open the source viewer rather than the repository host,
+  // and citations of missing files or lines are marked
+  const renderLink = (href: string, text: string, children: React.ReactNode) => {
+    const issue = findCitationIssue(currentPageId ? generatedPages[currentPageId]?.citationCheck : undefined, href);
+    const citation = parseCitation(text, href, citationContext) ?? issue;
+    return citation && (
+      <CitationLink href={href} citation={citation} issue={issue} loadFile={loadSourceFile} onOpen={setOpenCitation}>
+        {children}
+      </CitationLink>
+    );
+  };
+
+  const handleCancelPage = (pageId: string) => {
+    if (jobIdRef.current) {
+      updateWikiJobPage(jobIdRef.current, 'cancelPage', pageId);
+    } else {
+      wikiGeneratorRef.current?.cancelPage(pageId);
+    }
+  };
+
+  const handlePrioritizePage = (pageId: string) => {
+    if (jobIdRef.current) {
+      updateWikiJobPage(jobIdRef.current, 'prioritizePage', pageId);
+    } else {
+      wikiGeneratorRef.current?.prioritizePage(pageId);
+    }
+  };
+
   const [isModelSelectionModalOpen, setIsModelSelectionModalOpen] = useState(false);
 
+  // Pages of a partially generated wiki that a resumed generation would generate
+  const missingPageCount = isPartialWiki && wikiStructure ? findMissingPages(wikiStructure, generatedPages).length : 0;
+
+  // Pages that are generated right now, as opposed to waiting in the queue
+  const runningPageIds = Array.from(pagesInProgress).filter(pageId => !queuedPageIds.includes(pageId));
+
   return (
     <div className="h-screen paper-texture p-4 md:p-8 flex flex-col">
       <style>{wikiStyles}</style>
@@ -1875,23 +1267,72 @@ IMPORTANT:
                 </p>
 
                 {/* Show list of in-progress pages */}
-                {pagesInProgress.size > 0 && (
+                {runningPageIds.length > 0 && (
                   <div className="mt-4 text-xs">
                     <p className="text-[var(--muted)] mb-2">
                       {messages.repoPage?.currentlyProcessing || 'Currently processing:'}
                     </p>
                     <ul className="text-[var(--foreground)] space-y-1">
-                      {Array.from(pagesInProgress).slice(0, 3).map(pageId => {
+                      {runningPageIds.map(pageId => {
+                        const page = wikiStructure.pages.find(p => p.id === pageId);
+                        return page ? (
+                          <li key={pageId} className="flex items-center gap-2 border-l-2 border-[var(--accent-primary)]/30 pl-2">
+                            <span className="truncate flex-1">{page.title}</span>
+                            {pageRetries[pageId] && (
+                              <span className="text-[var(--muted)] flex-shrink-0">
+                                {(messages.repoPage?.retryingPage || 'retry {count}').replace('{count}', pageRetries[pageId].toString())}
+                              </span>
+                            )}
+                            <button
+                              onClick={() => handleCancelPage(pageId)}
+                              className="text-[var(--muted)] hover:text-[var(--highlight)] transition-colors flex-shrink-0"
+                              title={messages.repoPage?.cancelPage || 'Cancel this page'}
+                            >
+                              <FaTimes />
+                            </button>
+                          </li>
+                        ) : null;
+                      })}
+                    </ul>
+                  </div>
+                )}
+
+                {/* Show the queue of pages waiting to be generated */}
+                {queuedPageIds.length > 0 && (
+                  <div className="mt-4 text-xs">
+                    <p className="text-[var(--muted)] mb-2">
+                      {messages.repoPage?.waitingPages || 'Waiting:'}
+                    </p>
+                    <ul className="text-[var(--foreground)] space-y-1">
+                      {queuedPageIds.slice(0, 5).map(pageId => {
                         const page = wikiStructure.pages.find(p => p.id === pageId);
-                        return page ? <li key={pageId} className="truncate border-l-2 border-[var(--accent-primary)]/30 pl-2">{page.title}</li> : null;
+                        return page ? (
+                          <li key={pageId} className="flex items-center gap-2 border-l-2 border-[var(--border-color)] pl-2">
+                            <span className="truncate flex-1">{page.title}</span>
+                            <button
+                              onClick={() => handlePrioritizePage(pageId)}
+                              className="text-[var(--muted)] hover:text-[var(--accent-primary)] transition-colors flex-shrink-0"
+                              title={messages.repoPage?.prioritizePage || 'Generate this page next'}
+                            >
+                              <FaArrowUp />
+                            </button>
+                            <button
+                              onClick={() => handleCancelPage(pageId)}
+                              className="text-[var(--muted)] hover:text-[var(--highlight)] transition-colors flex-shrink-0"
+                              title={messages.repoPage?.cancelPage || 'Cancel this page'}
+                            >
+                              <FaTimes />
+                            </button>
+                          </li>
+                        ) : null;
                       })}
-                      {pagesInProgress.size > 3 && (
+                      {queuedPageIds.length > 5 && (
                         <li className="text-[var(--muted)]">
                           {language === 'ja'
-                            ? `...他に${pagesInProgress.size - 3}ページ`
+                            ? `...他に${queuedPageIds.length - 5}ページ`
                             : messages.repoPage?.andMorePages
-                                ? messages.repoPage.andMorePages.replace('{count}', (pagesInProgress.size - 3).toString())
-                                : `...and ${pagesInProgress.size - 3} more`}
+                                ? messages.repoPage.andMorePages.replace('{count}', (queuedPageIds.length - 5).toString())
+                                : `...and ${queuedPageIds.length - 5} more`}
                         </li>
                       )}
                     </ul>
@@ -1914,7 +1355,16 @@ IMPORTANT:
                 messages.repoPage?.errorMessageDefault || 'Please check that your repository exists and is public. Valid formats are "owner/repo", "https://github.com/owner/repo", "https://gitlab.com/owner/repo", "https://bitbucket.org/owner/repo", or local folder paths like "C:\\path\\to\\folder" or "/path/to/folder".'
               )}
             </p>
-            <div className="mt-5">
+            <div className="mt-5 flex flex-wrap gap-3">
+              {missingPageCount > 0 && (
+                <button
+                  onClick={() => runGenerationJob(true)}
+                  className="btn-japanese px-5 py-2 inline-flex items-center gap-1.5"
+                >
+                  <FaPlay className="text-sm" />
+                  {(messages.repoPage?.resumeGeneration || 'Resume Generation ({count} pages missing)').replace('{count}', missingPageCount.toString())}
+                </button>
+              )}
               <Link
                 href="/"
                 className="btn-japanese px-5 py-2 inline-flex items-center gap-1.5"
@@ -1955,6 +1405,12 @@ IMPORTANT:
                     >
                       {effectiveRepoInfo.owner}/{effectiveRepoInfo.repo}
                     </a>
+                    {effectiveRepoInfo.ref && (
+                      <span className="ml-2 inline-flex items-center font-mono" title={messages.repoPage?.ref || 'Branch, tag or commit'}>
+                        <FaCodeBranch className="mr-1" />
+                        {effectiveRepoInfo.ref}
+                      </span>
+                    )}
                   </>
                 )}
               </div>
@@ -1981,6 +1437,38 @@ IMPORTANT:
                   <FaSync className={`mr-2 ${isLoading ? 'animate-spin' : ''}`} />
                   {messages.repoPage?.refreshWiki || 'Refresh Wiki'}
                 </button>
+                {missingPageCount > 0 && (
+                  <button
+                    onClick={() => runGenerationJob(true)}
+                    disabled={isLoading}
+                    className="flex items-center w-full mt-2 text-xs px-3 py-2 bg-[var(--background)] text-[var(--foreground)] rounded-md hover:bg-[var(--background)]/80 disabled:opacity-50 disabled:cursor-not-allowed border border-[var(--border-color)] transition-colors hover:cursor-pointer"
+                  >
+                    <FaPlay className="mr-2" />
+                    {(messages.repoPage?.resumeGeneration || 'Resume Generation ({count} pages missing)').replace('{count}', missingPageCount.toString())}
+                  </button>
+                )}
+                {commitSha && (
+                  <button
+                    onClick={refreshChangedPages}
+                    disabled={isLoading}
+                    className="flex items-center w-full mt-2 text-xs px-3 py-2 bg-[var(--background)] text-[var(--foreground)] rounded-md hover:bg-[var(--background)]/80 disabled:opacity-50 disabled:cursor-not-allowed border border-[var(--border-color)] transition-colors hover:cursor-pointer"
+                    title={messages.repoPage?.refreshChangedPagesHint || 'Regenerate only the pages affected by commits since the wiki was generated'}
+                  >
+                    <FaCodeBranch className="mr-2" />
+                    {messages.repoPage?.refreshChangedPages || 'Refresh Changed Pages'}
+                  </button>
+                )}
+                <Link
+                  href={`/${owner}/${repo}/compare?${searchParams.toString()}`}
+                  className="flex items-center w-full mt-2 text-xs px-3 py-2 bg-[var(--background)] text-[var(--foreground)] rounded-md hover:bg-[var(--background)]/80 border border-[var(--border-color)] transition-colors"
+                  title={messages.repoPage?.compareVersionsHint || 'Compare this wiki with the wiki of another branch, tag or commit'}
+                >
+                  <FaExchangeAlt className="mr-2" />
+                  {messages.repoPage?.compareVersions || 'Compare Versions'}
+                </Link>
+                {refreshNotice && (
+                  <p className="mt-2 text-xs text-[var(--muted)]">{refreshNotice}</p>
+                )}
               </div>
 
               {/* Export buttons */}
@@ -2015,32 +1503,180 @@ IMPORTANT:
                 </div>
               )}
 
-              <h4 className="text-md font-semibold text-[var(--foreground)] mb-3 font-serif">
-                {messages.repoPage?.pages || 'Pages'}
-              </h4>
-              <WikiTreeView
-                wikiStructure={wikiStructure}
-                currentPageId={currentPageId}
+              <BrokenLinksReport
+                brokenLinks={brokenLinks}
+                pages={wikiStructure.pages}
                 onPageSelect={handlePageSelect}
-                messages={messages.repoPage}
               />
+
+              <div className="flex items-center justify-between mb-3">
+                <h4 className="text-md font-semibold text-[var(--foreground)] font-serif">
+                  {messages.repoPage?.pages || 'Pages'}
+                </h4>
+                {!isEditingStructure && (
+                  <button
+                    onClick={() => setIsEditingStructure(true)}
+                    disabled={isLoading}
+                    className="inline-flex items-center gap-1.5 text-xs text-[var(--muted)] hover:text-[var(--accent-primary)] disabled:opacity-50"
+                    title={messages.repoPage?.editStructureHint || 'Reorder, rename, add and remove pages'}
+                  >
+                    <FaSitemap />
+                    {messages.repoPage?.editStructure || 'Edit Structure'}
+                  </button>
+                )}
+              </div>
+              {structureSaveError && (
+                <div className="mb-2 text-xs text-[var(--highlight)]">{structureSaveError}</div>
+              )}
+              {isEditingStructure ? (
+                <WikiStructureEditor
+                  structure={wikiStructure}
+                  onChange={handleStructureChange}
+                  onAddPage={handleAddPage}
+                  onClose={() => setIsEditingStructure(false)}
+                />
+              ) : (
+                <WikiTreeView
+                  wikiStructure={wikiStructure}
+                  currentPageId={currentPageId}
+                  onPageSelect={handlePageSelect}
+                  messages={messages.repoPage}
+                />
+              )}
             </div>
 
             {/* Wiki Content */}
             <div id="wiki-content" className="w-full flex-grow p-6 lg:p-8 overflow-y-auto">
               {currentPageId && generatedPages[currentPageId] ? (
                 <div className="max-w-[900px] xl:max-w-[1000px] mx-auto">
-                  <h3 className="text-xl font-bold text-[var(--foreground)] mb-4 break-words font-serif">
-                    {generatedPages[currentPageId].title}
-                  </h3>
+                  {isWikiStale && (
+                    <div className="mb-4 p-3 rounded-md border border-[var(--highlight)]/30 bg-[var(--highlight)]/5 text-xs text-[var(--foreground)] flex items-center gap-3">
+                      <FaExclamationTriangle className="text-[var(--highlight)] flex-shrink-0" />
+                      <span className="flex-1">
+                        {(messages.repoPage?.wikiOutdated || 'The repository has new commits since this wiki was generated ({from} → {to}).')
+                          .replace('{from}', commitSha?.slice(0, 7) ?? '')
+                          .replace('{to}', latestCommitSha?.slice(0, 7) ?? '')}
+                      </span>
+                      <button
+                        onClick={refreshChangedPages}
+                        disabled={isLoading}
+                        className="flex-shrink-0 text-[var(--accent-primary)] hover:underline disabled:opacity-50"
+                      >
+                        {messages.repoPage?.refreshChangedPages || 'Refresh Changed Pages'}
+                      </button>
+                    </div>
+                  )}
 
+                  <div className="flex items-start gap-3 mb-2">
+                    <h3 className="flex-1 text-xl font-bold text-[var(--foreground)] break-words font-serif">
+                      {generatedPages[currentPageId].title}
+                      {hasLockedContent(generatedPages[currentPageId]) && (
+                        <FaLock
+                          className="inline ml-2 text-sm text-[var(--muted)] align-baseline"
+                          title={generatedPages[currentPageId].locked
+                            ? (messages.repoPage?.pageLocked || 'This page is locked')
+                            : (messages.repoPage?.sectionsLocked || 'Sections of this page are locked')}
+                        />
+                      )}
+                      <PageQualityBadge validation={generatedPages[currentPageId].validation} />
+                    </h3>
+                    {editingPageId !== currentPageId && pageRegeneration?.pageId !== currentPageId && !isLoading && !pagesInProgress.has(currentPageId) && (
+                      <div className="flex-shrink-0 flex items-center gap-2">
+                        {!generatedPages[currentPageId].locked && (
+                          <button
+                            onClick={() => setRegenerateDialogPageId(currentPageId)}
+                            disabled={pageRegeneration?.status === 'generating'}
+                            className="inline-flex items-center gap-1.5 text-xs px-3 py-1.5 rounded-md border border-[var(--border-color)] text-[var(--foreground)] hover:text-[var(--accent-primary)] hover:border-[var(--accent-primary)] transition-colors disabled:opacity-50"
+                          >
+                            <FaRedo />
+                            {messages.repoPage?.regeneratePage || 'Regenerate Page'}
+                          </button>
+                        )}
+                        <button
+                          onClick={() => setEditingPageId(currentPageId)}
+                          className="inline-flex items-center gap-1.5 text-xs px-3 py-1.5 rounded-md border border-[var(--border-color)] text-[var(--foreground)] hover:text-[var(--accent-primary)] hover:border-[var(--accent-primary)] transition-colors"
+                        >
+                          <FaEdit />
+                          {messages.repoPage?.editPage || 'Edit Page'}
+                        </button>
+                      </div>
+                    )}
+                  </div>
 
+                  <PageProvenance
+                    generation={generatedPages[currentPageId].generation}
+                    editedAt={generatedPages[currentPageId].editedAt}
+                    wikiCommitSha={commitSha}
+                  />
 
-                  <div className="prose prose-sm md:prose-base lg:prose-lg max-w-none">
-                    <Markdown
-                      content={generatedPages[currentPageId].content}
+                  <FilePathCorrections
+                    corrections={filePathCorrections.filter(c => c.pageId === currentPageId)}
+                  />
+
+                  <CitationCheckSummary check={generatedPages[currentPageId].citationCheck} />
+
+                  <IdentifierCheckSummary check={generatedPages[currentPageId].identifierCheck} />
+
+                  {pageRegeneration?.pageId === currentPageId ? (
+                    <div>
+                      <div className="mb-4 p-3 rounded-md border border-[var(--accent-primary)]/30 bg-[var(--accent-primary)]/5 text-xs text-[var(--foreground)] flex flex-wrap items-center gap-3">
+                        <FaRedo className={`text-[var(--accent-primary)] flex-shrink-0 ${pageRegeneration.status === 'generating' ? 'animate-spin' : ''}`} />
+                        <span className="flex-1">
+                          {pageRegeneration.status === 'generating'
+                            ? (messages.repoPage?.regeneratingPage || 'Regenerating this page...')
+                            : pageRegeneration.page
+                              ? (messages.repoPage?.reviewRegeneration || 'Review the changes of the regenerated page.')
+                              : (messages.repoPage?.regenerationFailed || 'The page could not be regenerated.')}
+                          {pageRegeneration.error && (
+                            <span className="block mt-1 text-[var(--highlight)]">{pageRegeneration.error}</span>
+                          )}
+                        </span>
+                        {pageRegeneration.page && (
+                          <button
+                            onClick={handleAcceptRegeneration}
+                            className="flex-shrink-0 px-3 py-1.5 rounded-md bg-[var(--accent-primary)] text-white hover:bg-[var(--accent-primary)]/90"
+                          >
+                            {messages.repoPage?.acceptRegeneration || 'Accept'}
+                          </button>
+                        )}
+                        <button
+                          onClick={handleRejectRegeneration}
+                          className="flex-shrink-0 px-3 py-1.5 rounded-md border border-[var(--border-color)] hover:bg-[var(--background)]"
+                        >
+                          {pageRegeneration.status === 'generating'
+                            ? (messages.repoPage?.cancel || 'Cancel')
+                            : pageRegeneration.page
+                              ? (messages.repoPage?.rejectRegeneration || 'Reject')
+                              : (messages.repoPage?.dismiss || 'Dismiss')}
+                        </button>
+                      </div>
+                      {regenerationDiff ? (
+                        <MarkdownDiff blocks={regenerationDiff} />
+                      ) : (
+                        <div className="prose prose-sm md:prose-base lg:prose-lg max-w-none opacity-60">
+                          <Markdown content={generatedPages[currentPageId].content} />
+                        </div>
+                      )}
+                    </div>
+                  ) : editingPageId === currentPageId ? (
+                    <WikiPageEditor
+                      key={currentPageId}
+                      page={generatedPages[currentPageId]}
+                      onSave={handleSavePage}
+                      onCancel={() => setEditingPageId(null)}
                     />
-                  </div>
+                  ) : (
+                    <div className="prose prose-sm md:prose-base lg:prose-lg max-w-none">
+                      <Markdown
+                        content={generatedPages[currentPageId].content}
+                        headingAnchors
+                        resolveLink={resolveLink}
+                        renderLink={renderLink}
+                        unverifiedIdentifiers={generatedPages[currentPageId].identifierCheck?.unverified}
+                        onMermaidError={(chart, error) => repairDiagram(currentPageId, chart, error)}
+                      />
+                    </div>
+                  )}
 
                   {generatedPages[currentPageId].relatedPages.length > 0 && (
                     <div className="mt-8 pt-4 border-t border-[var(--border-color)]">
@@ -2129,6 +1765,27 @@ IMPORTANT:
         </div>
       </div>
 
+      {openCitation && (
+        <SourceViewer
+          citation={openCitation}
+          fileUrl={generateFileUrl(openCitation.filePath)}
+          loadFile={loadSourceFile}
+          onClose={() => setOpenCitation(null)}
+        />
+      )}
+
+      <RegeneratePageModal
+        isOpen={regenerateDialogPageId !== null}
+        onClose={() => setRegenerateDialogPageId(null)}
+        pageTitle={regenerateDialogPageId ? generatedPages[regenerateDialogPageId]?.title ?? '' : ''}
+        model={modelSelection}
+        onRegenerate={(instructions, model) => {
+          if (regenerateDialogPageId) {
+            handleRegeneratePage(regenerateDialogPageId, instructions, model);
+          }
+        }}
+      />
+
       <ModelSelectionModal
         isOpen={isModelSelectionModalOpen}
         onClose={() => setIsModelSelectionModalOpen(false)}
@@ -2154,7 +1811,7 @@ IMPORTANT:
         onApply={confirmRefresh}
         showWikiType={true}
         showTokenInput={effectiveRepoInfo.type !== 'local' && !currentToken} // Show token input if not local and no current token
-        repositoryType={effectiveRepoInfo.type as 'github' | 'gitlab' | 'bitbucket'}
+        repositoryType={effectiveRepoInfo.type as RepositoryPlatform}
         authRequired={authRequired}
         authCode={authCode}
         setAuthCode={setAuthCode}
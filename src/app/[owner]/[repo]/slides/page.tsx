@@ -8,32 +8,8 @@ import ThemeToggle from '@/components/theme-toggle';
 import { useLanguage } from '@/contexts/LanguageContext';
 import { RepoInfo } from '@/types/repoinfo';
 import getRepoUrl from '@/utils/getRepoUrl';
-
-// Helper function to add tokens and other parameters to request body
-const addTokensToRequestBody = (
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  requestBody: Record<string, any>,
-  token: string,
-  repoType: string,
-  provider: string = '',
-  model: string = '',
-  isCustomModel: boolean = false,
-  customModel: string = '',
-  language: string = 'en',
-) => {
-  if (token !== '') {
-    requestBody.token = token;
-  }
-
-  // Add provider-based model selection parameters
-  requestBody.provider = provider;
-  requestBody.model = model;
-  if (isCustomModel && customModel) {
-    requestBody.custom_model = customModel;
-  }
-
-  requestBody.language = language;
-};
+import { addTokensToRequestBody, streamChatCompletion } from '@/utils/chatStream';
+import { buildWikiContext, fetchWikiCache, WikiCacheData } from '@/utils/wiki/wikiCache';
 
 interface Slide {
   id: string;
@@ -61,6 +37,7 @@ export default function SlidesPage() {
   const isCustomModelParam = searchParams.get('is_custom_model') === 'true';
   const customModelParam = searchParams.get('custom_model') || '';
   const language = searchParams.get('language') || 'en';
+  const ref = searchParams.get('ref') || '';
 
   // Import language context for translations
   const { messages } = useLanguage();
@@ -72,8 +49,16 @@ export default function SlidesPage() {
     type: repoType,
     token: token || null,
     localPath: localPath || null,
-    repoUrl: repoUrl || null
-  }), [owner, repo, repoType, token, localPath, repoUrl]);
+    repoUrl: repoUrl || null,
+    ref: ref || null
+  }), [owner, repo, repoType, token, localPath, repoUrl, ref]);
+
+  const modelSelection = useMemo(() => ({
+    provider: providerParam,
+    model: modelParam,
+    isCustomModel: isCustomModelParam,
+    customModel: customModelParam
+  }), [providerParam, modelParam, isCustomModelParam, customModelParam]);
 
   // State variables
   const [isLoading, setIsLoading] = useState(false);
@@ -87,68 +72,22 @@ export default function SlidesPage() {
   const [exportError, setExportError] = useState<string | null>(null);
   const [isFullscreen, setIsFullscreen] = useState(false);
 
-  // Define a type for the wiki content
-  interface WikiPage {
-    id: string;
-    title: string;
-    content: string;
-    importance: string;
-    filePaths: string[];
-    relatedPages: string[];
-  }
-
-  interface WikiSection {
-    id: string;
-    title: string;
-    pages: string[];
-    subsections: string[];
-  }
-
-  interface WikiStructure {
-    description: string;
-    pages: WikiPage[];
-    sections: WikiSection[];
-    rootSections: string[];
-  }
-
-  interface WikiCacheData {
-    wiki_structure: WikiStructure;
-    generated_pages: Record<string, WikiPage>;
-  }
-
   const [cachedWikiContent, setCachedWikiContent] = useState<WikiCacheData | null>(null);
 
   // Function to fetch cached wiki content
   const fetchCachedWikiContent = useCallback(async () => {
     try {
-      const params = new URLSearchParams({
-        owner: repoInfo.owner,
-        repo: repoInfo.repo,
-        repo_type: repoInfo.type,
-        language: language,
-      });
-      const response = await fetch(`/api/wiki_cache?${params.toString()}`);
-
-      if (response.ok) {
-        const cachedData = await response.json();
-        if (cachedData && cachedData.wiki_structure && cachedData.generated_pages &&
-            Object.keys(cachedData.generated_pages).length > 0) {
-          console.log('Successfully fetched cached wiki data for slides generation');
-          setCachedWikiContent(cachedData);
-          return cachedData;
-        } else {
-          console.log('No valid wiki data in server cache or cache is empty.');
-          return null;
-        }
-      } else {
-        console.error('Error fetching wiki cache from server:', response.status);
-        return null;
+      const cachedData = await fetchWikiCache(repoInfo, language);
+      if (cachedData) {
+        console.log('Successfully fetched cached wiki data for slides generation');
+        setCachedWikiContent(cachedData);
       }
+      return cachedData;
     } catch (error) {
       console.error('Error loading from server cache:', error);
       return null;
     }
-  }, [repoInfo.owner, repoInfo.repo, repoInfo.type, language]);
+  }, [repoInfo, language]);
 
   // Generate slides content
   const generateSlidesContent = useCallback(async () => {
@@ -172,66 +111,13 @@ export default function SlidesPage() {
       }
 
       // We'll just pass the entire wiki data to the LLM without complex processing
-      let wikiContent = '';
-
-      if (wikiData && wikiData.wiki_structure && wikiData.generated_pages) {
-        // Add the wiki structure description
-        wikiContent += `## Project Overview\n${wikiData.wiki_structure.description || ''}\n\n`;
-
-        // Add all wiki pages content
-        const pages = wikiData.wiki_structure.pages || [];
-        const generatedPages = wikiData.generated_pages || {};
-
-        // Limit the total content to avoid token limits
-        let totalContentLength = 0;
-        const maxContentLength = 30000; // Approximate limit to avoid token issues
-
-        // First add high importance pages
-        const highImportancePages = pages.filter(page => page.importance === 'high');
-        for (const page of highImportancePages) {
-          if (generatedPages[page.id] && generatedPages[page.id].content) {
-            const content = `## ${page.title}\n${generatedPages[page.id].content}\n\n`;
-            wikiContent += content;
-            totalContentLength += content.length;
-
-            if (totalContentLength > maxContentLength) break;
-          }
-        }
-
-        // Then add other pages if we still have space
-        if (totalContentLength < maxContentLength) {
-          for (const page of pages) {
-            // Skip high importance pages we've already added
-            if (page.importance === 'high') continue;
-
-            if (generatedPages[page.id] && generatedPages[page.id].content) {
-              const content = `## ${page.title}\n${generatedPages[page.id].content}\n\n`;
-
-              // Check if adding this content would exceed our limit
-              if (totalContentLength + content.length > maxContentLength) {
-                // If it would exceed, just add a summary
-                const summaryMatch = generatedPages[page.id].content.match(/# .*?\n\n(.*?)(\n\n|$)/);
-                const summary = summaryMatch ? summaryMatch[1].trim() : 'No summary available';
-                const summaryContent = `## ${page.title}\n${summary}\n\n`;
-
-                wikiContent += summaryContent;
-                totalContentLength += summaryContent.length;
-              } else {
-                // Otherwise add the full content
-                wikiContent += content;
-                totalContentLength += content.length;
-              }
-
-              if (totalContentLength > maxContentLength) break;
-            }
-          }
-        }
-      }
+      const wikiContent = buildWikiContext(wikiData);
 
       // First, get a plan for the slides
       const planRequestBody: Record<string, unknown> = {
         repo_url: repoUrl,
         type: repoInfo.type,
+        ref: repoInfo.ref || undefined,
         messages: [{
           role: 'user',
           content: `Create an engaging outline for a high-quality marketing slide presentation about the ${owner}/${repo} repository.
@@ -258,106 +144,9 @@ Give me the numbered list with brief descriptions for each slide. Be creative bu
       };
 
       // Add tokens if available
-      addTokensToRequestBody(planRequestBody, token, repoInfo.type, providerParam, modelParam, isCustomModelParam, customModelParam, language);
-
-      // Use WebSocket for communication
-      let planContent = '';
-
-      try {
-        // Create WebSocket URL from the server base URL
-        const serverBaseUrl = process.env.SERVER_BASE_URL || 'http://localhost:8001';
-        const wsBaseUrl = serverBaseUrl.replace(/^http/, 'ws')? serverBaseUrl.replace(/^https/, 'wss'): serverBaseUrl.replace(/^http/, 'ws');
-        const wsUrl = `${wsBaseUrl}/ws/chat`;
-
-        // Create a new WebSocket connection
-        const ws = new WebSocket(wsUrl);
-
-        // Create a single promise that handles the entire WebSocket lifecycle
-        await new Promise<void>((resolve, reject) => {
-          let isResolved = false;
-
-          // If the connection doesn't open or complete within 10 seconds, fall back to HTTP
-          const timeout = setTimeout(() => {
-            if (!isResolved) {
-              isResolved = true;
-              // Try to close the WebSocket if it's still open
-              if (ws.readyState === WebSocket.OPEN) {
-                ws.close();
-              }
-              reject(new Error('WebSocket connection timeout'));
-            }
-          }, 10000);
-
-          // Set up event handlers
-          ws.onopen = () => {
-            console.log('WebSocket connection established for slide plan');
-            // Send the request as JSON
-            ws.send(JSON.stringify(planRequestBody));
-            // Don't resolve here, wait for the complete response
-          };
-
-          ws.onmessage = (event) => {
-            const chunk = event.data;
-            planContent += chunk;
-          };
-
-          ws.onclose = () => {
-            clearTimeout(timeout);
-            console.log('WebSocket connection closed for slide plan');
-            if (!isResolved) {
-              isResolved = true;
-              resolve();
-            }
-          };
+      addTokensToRequestBody(planRequestBody, token, modelSelection, language);
 
-          ws.onerror = (error) => {
-            console.error('WebSocket error:', error);
-            if (!isResolved) {
-              isResolved = true;
-              reject(new Error('WebSocket connection failed'));
-            }
-          };
-        });
-      } catch (wsError) {
-        console.error('WebSocket error, falling back to HTTP:', wsError);
-
-        // Fall back to HTTP if WebSocket fails
-        const planResponse = await fetch(`/api/chat/stream`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify(planRequestBody)
-        });
-
-        if (!planResponse.ok) {
-          throw new Error(`Error generating slide plan: ${planResponse.status}`);
-        }
-
-        // Process the plan response
-        planContent = '';
-        const planReader = planResponse.body?.getReader();
-        const planDecoder = new TextDecoder();
-
-        if (!planReader) {
-          throw new Error('Failed to get plan response reader');
-        }
-
-        try {
-          while (true) {
-            const { done, value } = await planReader.read();
-            if (done) break;
-            const chunk = planDecoder.decode(value, { stream: true });
-            planContent += chunk;
-          }
-          // Ensure final decoding
-          const finalChunk = planDecoder.decode();
-          planContent += finalChunk;
-        } catch (readError) {
-          console.error('Error reading plan stream:', readError);
-          throw new Error('Error processing plan response stream');
-        }
-      }
+      const planContent = await streamChatCompletion(planRequestBody, { label: 'slide plan' });
 
       // Log the plan content for debugging
       console.log("Received slide plan:", planContent);
@@ -440,6 +229,7 @@ Give me the numbered list with brief descriptions for each slide. Be creative bu
         const slideRequestBody: Record<string, unknown> = {
           repo_url: repoUrl,
           type: repoInfo.type,
+          ref: repoInfo.ref || undefined,
           messages: [{
             role: 'user',
             content: `Create a single HTML slide about the ${owner}/${repo} repository with the title "${slideTitle}".
@@ -534,106 +324,9 @@ Please return ONLY the HTML with no markdown formatting or code blocks. Just the
         };
 
         // Add tokens if available
-        addTokensToRequestBody(slideRequestBody, token, repoInfo.type, providerParam, modelParam, isCustomModelParam, customModelParam, language);
-
-        // Use WebSocket for communication
-        let slideContent = '';
-
-        try {
-          // Create WebSocket URL from the server base URL
-          const serverBaseUrl = process.env.SERVER_BASE_URL || 'http://localhost:8001';
-          const wsBaseUrl = serverBaseUrl.replace(/^http/, 'ws')? serverBaseUrl.replace(/^https/, 'wss'): serverBaseUrl.replace(/^http/, 'ws');
-          const wsUrl = `${wsBaseUrl}/ws/chat`;
-
-          // Create a new WebSocket connection
-          const ws = new WebSocket(wsUrl);
-
-          // Create a single promise that handles the entire WebSocket lifecycle
-          await new Promise<void>((resolve, reject) => {
-            let isResolved = false;
-
-            // If the connection doesn't open or complete within 10 seconds, fall back to HTTP
-            const timeout = setTimeout(() => {
-              if (!isResolved) {
-                isResolved = true;
-                // Try to close the WebSocket if it's still open
-                if (ws.readyState === WebSocket.OPEN) {
-                  ws.close();
-                }
-                reject(new Error('WebSocket connection timeout'));
-              }
-            }, 10000);
-
-            // Set up event handlers
-            ws.onopen = () => {
-              console.log(`WebSocket connection established for slide ${slideCounter}`);
-              // Send the request as JSON
-              ws.send(JSON.stringify(slideRequestBody));
-              // Don't resolve here, wait for the complete response
-            };
-
-            ws.onmessage = (event) => {
-              const chunk = event.data;
-              slideContent += chunk;
-            };
-
-            ws.onclose = () => {
-              clearTimeout(timeout);
-              console.log(`WebSocket connection closed for slide ${slideCounter}`);
-              if (!isResolved) {
-                isResolved = true;
-                resolve();
-              }
-            };
-
-            ws.onerror = (error) => {
-              console.error('WebSocket error:', error);
-              if (!isResolved) {
-                isResolved = true;
-                reject(new Error('WebSocket connection failed'));
-              }
-            };
-          });
-        } catch (wsError) {
-          console.error('WebSocket error, falling back to HTTP:', wsError);
-
-          // Fall back to HTTP if WebSocket fails
-          const slideResponse = await fetch(`/api/chat/stream`, {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify(slideRequestBody)
-          });
-
-          if (!slideResponse.ok) {
-            throw new Error(`Error generating slide ${slideCounter}: ${slideResponse.status}`);
-          }
-
-          // Process the slide response
-          slideContent = '';
-          const slideReader = slideResponse.body?.getReader();
-          const slideDecoder = new TextDecoder();
+        addTokensToRequestBody(slideRequestBody, token, modelSelection, language);
 
-          if (!slideReader) {
-            throw new Error(`Failed to get reader for slide ${slideCounter}`);
-          }
-
-          try {
-            while (true) {
-              const { done, value } = await slideReader.read();
-              if (done) break;
-              const chunk = slideDecoder.decode(value, { stream: true });
-              slideContent += chunk;
-            }
-            // Ensure final decoding
-            const finalChunk = slideDecoder.decode();
-            slideContent += finalChunk;
-          } catch (readError) {
-            console.error(`Error reading slide ${slideCounter} stream:`, readError);
-            throw new Error(`Error processing slide ${slideCounter} response stream`);
-          }
-        }
+        const slideContent = await streamChatCompletion(slideRequestBody, { label: `slide ${slideCounter}` });
 
         // Extract HTML content - look for content between HTML tags or code blocks
         let slideHtml = '';
@@ -880,7 +573,7 @@ Please return ONLY the HTML with no markdown formatting or code blocks. Just the
       setIsLoading(false);
       setLoadingMessage(undefined);
     }
-  }, [owner, repo, repoInfo, token, providerParam, modelParam, isCustomModelParam, customModelParam, language, isLoading, messages.loading, cachedWikiContent, fetchCachedWikiContent]);
+  }, [owner, repo, repoInfo, token, modelSelection, language, isLoading, messages.loading, cachedWikiContent, fetchCachedWikiContent]);
 
   // Export slides content
   const exportSlides = useCallback(async () => {
@@ -9,32 +9,9 @@ import Markdown from '@/components/Markdown';
 import { useLanguage } from '@/contexts/LanguageContext';
 import { RepoInfo } from '@/types/repoinfo';
 import getRepoUrl from '@/utils/getRepoUrl';
-
-// Helper function to add tokens and other parameters to request body
-const addTokensToRequestBody = (
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  requestBody: Record<string, any>,
-  token: string,
-  repoType: string,
-  provider: string = '',
-  model: string = '',
-  isCustomModel: boolean = false,
-  customModel: string = '',
-  language: string = 'en',
-) => {
-  if (token !== '') {
-    requestBody.token = token;
-  }
-
-  // Add provider-based model selection parameters
-  requestBody.provider = provider;
-  requestBody.model = model;
-  if (isCustomModel && customModel) {
-    requestBody.custom_model = customModel;
-  }
-
-  requestBody.language = language;
-};
+import { addTokensToRequestBody, streamChatCompletion } from '@/utils/chatStream';
+import { getLanguageName } from '@/utils/promptTemplate';
+import { buildWikiContext, fetchWikiCache, WikiCacheData } from '@/utils/wiki/wikiCache';
 
 export default function WorkshopPage() {
   // Get route parameters and search params
@@ -55,6 +32,7 @@ export default function WorkshopPage() {
   const isCustomModelParam = searchParams.get('is_custom_model') === 'true';
   const customModelParam = searchParams.get('custom_model') || '';
   const language = searchParams.get('language') || 'en';
+  const ref = searchParams.get('ref') || '';
 
   // Import language context for translations
   const { messages } = useLanguage();
@@ -66,8 +44,16 @@ export default function WorkshopPage() {
     type: repoType,
     token: token || null,
     localPath: localPath || null,
-    repoUrl: repoUrl || null
-  }), [owner, repo, repoType, token, localPath, repoUrl]);
+    repoUrl: repoUrl || null,
+    ref: ref || null
+  }), [owner, repo, repoType, token, localPath, repoUrl, ref]);
+
+  const modelSelection = useMemo(() => ({
+    provider: providerParam,
+    model: modelParam,
+    isCustomModel: isCustomModelParam,
+    customModel: customModelParam
+  }), [providerParam, modelParam, isCustomModelParam, customModelParam]);
 
   // State variables
   const [isLoading, setIsLoading] = useState(false);
@@ -78,68 +64,22 @@ export default function WorkshopPage() {
   const [workshopContent, setWorkshopContent] = useState<string>('');
   const [isExporting, setIsExporting] = useState(false);
   const [exportError, setExportError] = useState<string | null>(null);
-  // Define a type for the wiki content
-  interface WikiPage {
-    id: string;
-    title: string;
-    content: string;
-    importance: string;
-    filePaths: string[];
-    relatedPages: string[];
-  }
-
-  interface WikiSection {
-    id: string;
-    title: string;
-    pages: string[];
-    subsections: string[];
-  }
-
-  interface WikiStructure {
-    description: string;
-    pages: WikiPage[];
-    sections: WikiSection[];
-    rootSections: string[];
-  }
-
-  interface WikiCacheData {
-    wiki_structure: WikiStructure;
-    generated_pages: Record<string, WikiPage>;
-  }
-
   const [cachedWikiContent, setCachedWikiContent] = useState<WikiCacheData | null>(null);
 
   // Function to fetch cached wiki content
   const fetchCachedWikiContent = useCallback(async () => {
     try {
-      const params = new URLSearchParams({
-        owner: repoInfo.owner,
-        repo: repoInfo.repo,
-        repo_type: repoInfo.type,
-        language: language,
-      });
-      const response = await fetch(`/api/wiki_cache?${params.toString()}`);
-
-      if (response.ok) {
-        const cachedData = await response.json();
-        if (cachedData && cachedData.wiki_structure && cachedData.generated_pages &&
-            Object.keys(cachedData.generated_pages).length > 0) {
-          console.log('Successfully fetched cached wiki data for workshop generation');
-          setCachedWikiContent(cachedData);
-          return cachedData;
-        } else {
-          console.log('No valid wiki data in server cache or cache is empty.');
-          return null;
-        }
-      } else {
-        console.error('Error fetching wiki cache from server:', response.status);
-        return null;
+      const cachedData = await fetchWikiCache(repoInfo, language);
+      if (cachedData) {
+        console.log('Successfully fetched cached wiki data for workshop generation');
+        setCachedWikiContent(cachedData);
       }
+      return cachedData;
     } catch (error) {
       console.error('Error loading from server cache:', error);
       return null;
     }
-  }, [repoInfo.owner, repoInfo.repo, repoInfo.type, language]);
+  }, [repoInfo, language]);
 
   // Generate workshop content
   const generateWorkshopContent = useCallback(async () => {
@@ -162,66 +102,13 @@ export default function WorkshopPage() {
       }
 
       // We'll just pass the entire wiki data to the LLM without complex processing
-      let wikiContent = '';
-
-      if (wikiData && wikiData.wiki_structure && wikiData.generated_pages) {
-        // Add the wiki structure description
-        wikiContent += `## Project Overview\n${wikiData.wiki_structure.description || ''}\n\n`;
-
-        // Add all wiki pages content
-        const pages = wikiData.wiki_structure.pages || [];
-        const generatedPages = wikiData.generated_pages || {};
-
-        // Limit the total content to avoid token limits
-        let totalContentLength = 0;
-        const maxContentLength = 30000; // Approximate limit to avoid token issues
-
-        // First add high importance pages
-        const highImportancePages = pages.filter(page => page.importance === 'high');
-        for (const page of highImportancePages) {
-          if (generatedPages[page.id] && generatedPages[page.id].content) {
-            const content = `## ${page.title}\n${generatedPages[page.id].content}\n\n`;
-            wikiContent += content;
-            totalContentLength += content.length;
-
-            if (totalContentLength > maxContentLength) break;
-          }
-        }
-
-        // Then add other pages if we still have space
-        if (totalContentLength < maxContentLength) {
-          for (const page of pages) {
-            // Skip high importance pages we've already added
-            if (page.importance === 'high') continue;
-
-            if (generatedPages[page.id] && generatedPages[page.id].content) {
-              const content = `## ${page.title}\n${generatedPages[page.id].content}\n\n`;
-
-              // Check if adding this content would exceed our limit
-              if (totalContentLength + content.length > maxContentLength) {
-                // If it would exceed, just add a summary
-                const summaryMatch = generatedPages[page.id].content.match(/# .*?\n\n(.*?)(\n\n|$)/);
-                const summary = summaryMatch ? summaryMatch[1].trim() : 'No summary available';
-                const summaryContent = `## ${page.title}\n${summary}\n\n`;
-
-                wikiContent += summaryContent;
-                totalContentLength += summaryContent.length;
-              } else {
-                // Otherwise add the full content
-                wikiContent += content;
-                totalContentLength += content.length;
-              }
-
-              if (totalContentLength > maxContentLength) break;
-            }
-          }
-        }
-      }
+      const wikiContent = buildWikiContext(wikiData);
 
       // Prepare request body with enhanced context from wiki
       const requestBody: Record<string, unknown> = {
         repo_url: repoUrl,
         type: repoInfo.type,
+        ref: repoInfo.ref || undefined,
         messages: [{
           role: 'user',
           content: `Create a comprehensive workshop for learning how to use and contribute to the ${owner}/${repo} repository.
@@ -295,142 +182,18 @@ IMPORTANT CONTENT GUIDELINES:
 8. Include diagrams to visualize complex concepts
 9. Make sure the workshop is engaging and interactive
 
-Make the workshop content in ${language === 'en' ? 'English' :
-  language === 'ja' ? 'Japanese (日本語)' :
-  language === 'zh' ? 'Mandarin Chinese (中文)' :
-  language === 'zh-tw' ? 'Traditional Chinese (繁體中文)' :
-  language === 'es' ? 'Spanish (Español)' :
-  language === 'kr' ? 'Korean (한국어)' :
-  language === 'vi' ? 'Vietnamese (Tiếng Việt)' : 
-  language === "pt-br" ? "Brazilian Portuguese (Português Brasileiro)" :
-  language === "fr" ? "Français (French)" :
-  language === "ru" ? "Русский (Russian)" :
-  'Korean (한국어)'} language.`
+Make the workshop content in ${getLanguageName(language)} language.`
         }]
       };
 
       // Add tokens if available
-      addTokensToRequestBody(requestBody, token, repoInfo.type, providerParam, modelParam, isCustomModelParam, customModelParam, language);
-
-      // Use WebSocket for communication
-      let content = '';
-
-      try {
-        // Create WebSocket URL from the server base URL
-        const serverBaseUrl = process.env.SERVER_BASE_URL || 'http://localhost:8001';
-        const wsBaseUrl = serverBaseUrl.replace(/^http/, 'ws')? serverBaseUrl.replace(/^https/, 'wss'): serverBaseUrl.replace(/^http/, 'ws');
-        const wsUrl = `${wsBaseUrl}/ws/chat`;
-
-        // Create a new WebSocket connection
-        const ws = new WebSocket(wsUrl);
-
-        // Create a promise that resolves when the WebSocket connection is complete
-        await new Promise<void>((resolve, reject) => {
-          // Set up event handlers
-          ws.onopen = () => {
-            console.log('WebSocket connection established for workshop generation');
-            // Send the request as JSON
-            ws.send(JSON.stringify(requestBody));
-            resolve();
-          };
-
-          ws.onerror = (error) => {
-            console.error('WebSocket error:', error);
-            reject(new Error('WebSocket connection failed'));
-          };
-
-          // If the connection doesn't open within 5 seconds, fall back to HTTP
-          const timeout = setTimeout(() => {
-            reject(new Error('WebSocket connection timeout'));
-          }, 5000);
-
-          // Clear the timeout if the connection opens successfully
-          ws.onopen = () => {
-            clearTimeout(timeout);
-            console.log('WebSocket connection established for workshop generation');
-            // Send the request as JSON
-            ws.send(JSON.stringify(requestBody));
-            resolve();
-          };
-        });
-
-        // Create a promise that resolves when the WebSocket response is complete
-        await new Promise<void>((resolve, reject) => {
-          // Use a local variable to accumulate content
-          let accumulatedContent = '';
-
-          // Handle incoming messages
-          ws.onmessage = (event) => {
-            const chunk = event.data;
-            content += chunk;
-            accumulatedContent += chunk;
-
-            // Update the state with the accumulated content
-            setWorkshopContent(accumulatedContent);
-          };
-
-          // Handle WebSocket close
-          ws.onclose = () => {
-            console.log('WebSocket connection closed for workshop generation');
-            resolve();
-          };
-
-          // Handle WebSocket errors
-          ws.onerror = (error) => {
-            console.error('WebSocket error during message reception:', error);
-            reject(new Error('WebSocket error during message reception'));
-          };
-        });
-      } catch (wsError) {
-        console.error('WebSocket error, falling back to HTTP:', wsError);
-
-        // Fall back to HTTP if WebSocket fails
-        const response = await fetch(`/api/chat/stream`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify(requestBody)
-        });
-
-        if (!response.ok) {
-          const errorText = await response.text().catch(() => 'No error details available');
-          throw new Error(`Error generating workshop content: ${response.status} - ${errorText}`);
-        }
-
-        // Process the response
-        content = '';
-        const reader = response.body?.getReader();
-        const decoder = new TextDecoder();
-
-        if (!reader) {
-          throw new Error('Failed to get response reader');
-        }
+      addTokensToRequestBody(requestBody, token, modelSelection, language);
 
-        try {
-          // Use a local variable to accumulate content
-          let accumulatedContent = '';
-
-          while (true) {
-            const { done, value } = await reader.read();
-            if (done) break;
-            const chunk = decoder.decode(value, { stream: true });
-            content += chunk;
-            accumulatedContent += chunk;
-
-            // Update the state with the accumulated content
-            setWorkshopContent(accumulatedContent);
-          }
-          // Ensure final decoding
-          const finalChunk = decoder.decode();
-          content += finalChunk;
-          accumulatedContent += finalChunk;
-          setWorkshopContent(accumulatedContent);
-        } catch (readError) {
-          console.error('Error reading stream:', readError);
-          throw new Error('Error processing response stream');
-        }
-      }
+      // Stream the workshop so the content appears while it is generated
+      let content = await streamChatCompletion(requestBody, {
+        label: 'workshop generation',
+        onChunk: (_chunk, accumulated) => setWorkshopContent(accumulated)
+      });
 
       // Clean up markdown delimiters
       content = content.replace(/^```markdown\s*/i, '').replace(/```\s*$/i, '');
@@ -518,7 +281,7 @@ Estimated time: 20-30 minutes | Combines concepts from all exercises
       setIsLoading(false);
       setLoadingMessage(undefined);
     }
-  }, [owner, repo, repoInfo, token, providerParam, modelParam, isCustomModelParam, customModelParam, language, isLoading, messages.loading, cachedWikiContent, fetchCachedWikiContent]);
+  }, [owner, repo, repoInfo, token, modelSelection, language, isLoading, messages.loading, cachedWikiContent, fetchCachedWikiContent]);
 
   // Export workshop content
   const exportWorkshop = useCallback(async () => {
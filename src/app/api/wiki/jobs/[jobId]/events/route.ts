@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { WikiJobEvent } from '@/types/wiki/wikijob';
+import { getWikiJobManager } from '@/utils/wiki/wikiJobManager';
+
+// Proxies close connections that stay silent, e.g. while a long page is generated
+const HEARTBEAT_INTERVAL_MS = 15 * 1000;
+
+/**
+ * Streams the progress of a job as server-sent events: a snapshot of the job first, then every
+ * event until the job is done (see applyWikiJobEvent), with a comment line as heartbeat in between.
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ jobId: string }> }) {
+  const job = getWikiJobManager().get((await params).jobId);
+  if (!job) {
+    return NextResponse.json({ error: 'Wiki generation job not found' }, { status: 404 });
+  }
+
+  const encoder = new TextEncoder();
+  let unsubscribe = () => {};
+  let heartbeat: ReturnType<typeof setInterval> | undefined;
+  const stop = () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  };
+
+  const stream = new ReadableStream({
+    start(controller) {
+      const send = (event: WikiJobEvent) => controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+
+      send({ type: 'snapshot', job: job.snapshot });
+      if (job.status !== 'running') {
+        controller.close();
+        return;
+      }
+
+      unsubscribe = job.subscribe(event => {
+        send(event);
+        if (event.type === 'done') {
+          stop();
+          controller.close();
+        }
+      });
+      heartbeat = setInterval(() => controller.enqueue(encoder.encode(':\n\n')), HEARTBEAT_INTERVAL_MS);
+      // Stop sending once the page goes away; the job itself keeps running
+      request.signal.addEventListener('abort', stop);
+    },
+    cancel() {
+      stop();
+    }
+  });
+
+  return new NextResponse(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive'
+    }
+  });
+}
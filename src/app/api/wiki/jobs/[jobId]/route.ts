@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getWikiJobManager } from '@/utils/wiki/wikiJobManager';
+
+interface JobRouteContext {
+  params: Promise<{ jobId: string }>;
+}
+
+// Actions on single pages of a running job
+interface JobPageAction {
+  action: 'cancelPage' | 'prioritizePage';
+  pageId: string;
+}
+
+/** Type guard to validate JobPageAction at runtime */
+function isJobPageAction(obj: unknown): obj is JobPageAction {
+  if (obj == null || typeof obj !== 'object') return false;
+  const { action, pageId } = obj as Record<string, unknown>;
+  return (action === 'cancelPage' || action === 'prioritizePage') && typeof pageId === 'string' && pageId !== '';
+}
+
+const jobNotFound = () => NextResponse.json({ error: 'Wiki generation job not found' }, { status: 404 });
+
+/**
+ * Returns the current state of a job.
+ */
+export async function GET(_request: NextRequest, { params }: JobRouteContext) {
+  const job = getWikiJobManager().get((await params).jobId);
+  return job ? NextResponse.json(job.snapshot) : jobNotFound();
+}
+
+/**
+ * Cancels a job. The pages generated so far stay in the wiki cache.
+ */
+export async function DELETE(_request: NextRequest, { params }: JobRouteContext) {
+  const job = getWikiJobManager().get((await params).jobId);
+  if (!job) {
+    return jobNotFound();
+  }
+  job.cancel();
+  return NextResponse.json(job.snapshot);
+}
+
+/**
+ * Cancels or prioritizes a page of a running job: { action: 'cancelPage' | 'prioritizePage', pageId }.
+ */
+export async function PATCH(request: NextRequest, { params }: JobRouteContext) {
+  const job = getWikiJobManager().get((await params).jobId);
+  if (!job) {
+    return jobNotFound();
+  }
+
+  const body: unknown = await request.json().catch(() => null);
+  if (!isJobPageAction(body)) {
+    return NextResponse.json(
+      { error: "Invalid request body: action ('cancelPage' or 'prioritizePage') and pageId are required." },
+      { status: 400 }
+    );
+  }
+
+  const applied = body.action === 'cancelPage' ? job.cancelPage(body.pageId) : job.prioritizePage(body.pageId);
+  return NextResponse.json({ applied });
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { WikiJobRequest } from '@/types/wiki/wikijob';
+import { isUnverifiedShare } from '@/utils/wiki/identifierGrounding';
+import { getWikiJobManager, WikiJobConflictError } from '@/utils/wiki/wikiJobManager';
+
+/** Type guard to validate WikiJobRequest at runtime */
+function isWikiJobRequest(obj: unknown): obj is WikiJobRequest {
+  if (obj == null || typeof obj !== 'object') return false;
+  const { repo, language, isComprehensive, model, maxUnverifiedIdentifiers } = obj as Record<string, unknown>;
+  const repoFields = repo as Record<string, unknown> | null;
+  const modelFields = model as Record<string, unknown> | null;
+  return (
+    repoFields != null && typeof repoFields === 'object' &&
+    typeof repoFields.owner === 'string' && repoFields.owner.trim() !== '' &&
+    typeof repoFields.repo === 'string' && repoFields.repo.trim() !== '' &&
+    typeof repoFields.type === 'string' && repoFields.type.trim() !== '' &&
+    typeof language === 'string' && language.trim() !== '' &&
+    typeof isComprehensive === 'boolean' &&
+    modelFields != null && typeof modelFields === 'object' &&
+    typeof modelFields.provider === 'string' &&
+    typeof modelFields.model === 'string' &&
+    (maxUnverifiedIdentifiers === undefined || isUnverifiedShare(maxUnverifiedIdentifiers))
+  );
+}
+
+/**
+ * Starts generating a wiki on the server, or attaches to the job generating it already.
+ * Responds with 202 for a new job, 200 for a running one and 409 when the running job uses other settings.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body: unknown = await request.json();
+    if (!isWikiJobRequest(body)) {
+      return NextResponse.json(
+        { error: 'Invalid request body: repo (owner, repo, type), language, isComprehensive and model (provider, model) are required, maxUnverifiedIdentifiers must be from 0 to 1.' },
+        { status: 400 }
+      );
+    }
+
+    const { job, attached } = getWikiJobManager().start(body);
+    return NextResponse.json({ job: job.snapshot, attached }, { status: attached ? 200 : 202 });
+  } catch (error: unknown) {
+    if (error instanceof WikiJobConflictError) {
+      return NextResponse.json({ error: error.message, job: error.running }, { status: 409 });
+    }
+    console.error('Error in POST /api/wiki/jobs:', error);
+    const message = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ error: `Failed to start wiki generation: ${message}` }, { status: 500 });
+  }
+}
+
+/**
+ * Finds the running job of a wiki: ?owner=&repo=&repo_type=&language=[&ref=].
+ * Responds with null when no job is running for the wiki.
+ */
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const owner = params.get('owner');
+  const repo = params.get('repo');
+  const repoType = params.get('repo_type');
+  const language = params.get('language');
+  if (!owner || !repo || !repoType || !language) {
+    return NextResponse.json({ error: 'owner, repo, repo_type and language are required.' }, { status: 400 });
+  }
+
+  const job = getWikiJobManager().findRunning({ owner, repo, type: repoType, ref: params.get('ref') }, language);
+  return NextResponse.json(job ? job.snapshot : null);
+}
@@ -9,6 +9,7 @@ interface ApiProcessedProject {
   repo_type: string;
   submittedAt: number;
   language: string;
+  ref?: string | null;
 }
 // Payload for deleting a project cache
 interface DeleteProjectCachePayload {
@@ -16,6 +17,7 @@ interface DeleteProjectCachePayload {
   repo: string;
   repo_type: string;
   language: string;
+  ref?: string | null;
 }
 
 /** Type guard to validate DeleteProjectCachePayload at runtime */
@@ -81,8 +83,11 @@ export async function DELETE(request: Request) {
         { status: 400 }
       );
     }
-    const { owner, repo, repo_type, language } = body;
+    const { owner, repo, repo_type, language, ref } = body;
     const params = new URLSearchParams({ owner, repo, repo_type, language });
+    if (ref) {
+      params.append('ref', ref);
+    }
     const response = await fetch(`${CACHE_API_ENDPOINT}?${params}`, {
       method: 'DELETE',
       headers: { 'Content-Type': 'application/json' },
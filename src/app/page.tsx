@@ -8,7 +8,8 @@ import ThemeToggle from '@/components/theme-toggle';
 import Mermaid from '../components/Mermaid';
 import ConfigurationModal from '@/components/ConfigurationModal';
 import ProcessedProjects from '@/components/ProcessedProjects';
-import { extractUrlPath, extractUrlDomain } from '@/utils/urlDecoder';
+import { parseRepositoryInput } from '@/utils/parseRepositoryInput';
+import { RepositoryPlatform } from '@/types/repoinfo';
 import { useProcessedProjects } from '@/hooks/useProcessedProjects';
 
 import { useLanguage } from '@/contexts/LanguageContext';
@@ -94,6 +95,7 @@ export default function Home() {
           setIsCustomModel(config.isCustomModel || false);
           setCustomModel(config.customModel || '');
           setSelectedPlatform(config.selectedPlatform || 'github');
+          setGitRef(config.gitRef || '');
           setExcludedDirs(config.excludedDirs || '');
           setExcludedFiles(config.excludedFiles || '');
           setIncludedDirs(config.includedDirs || '');
@@ -134,7 +136,8 @@ export default function Home() {
   const [excludedFiles, setExcludedFiles] = useState('');
   const [includedDirs, setIncludedDirs] = useState('');
   const [includedFiles, setIncludedFiles] = useState('');
-  const [selectedPlatform, setSelectedPlatform] = useState<'github' | 'gitlab' | 'bitbucket'>('github');
+  const [selectedPlatform, setSelectedPlatform] = useState<RepositoryPlatform>('github');
+  const [gitRef, setGitRef] = useState('');
   const [accessToken, setAccessToken] = useState('');
   const [error, setError] = useState<string | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -173,78 +176,6 @@ export default function Home() {
     fetchAuthStatus();
   }, []);
 
-  // Parse repository URL/input and extract owner and repo
-  const parseRepositoryInput = (input: string): {
-    owner: string,
-    repo: string,
-    type: string,
-    fullPath?: string,
-    localPath?: string
-  } | null => {
-    input = input.trim();
-
-    let owner = '', repo = '', type = 'github', fullPath;
-    let localPath: string | undefined;
-
-    // Handle Windows absolute paths (e.g., C:\path\to\folder)
-    const windowsPathRegex = /^[a-zA-Z]:\\(?:[^\\/:*?"<>|\r\n]+\\)*[^\\/:*?"<>|\r\n]*$/;
-    const customGitRegex = /^(?:https?:\/\/)?([^\/]+)\/(.+?)\/([^\/]+)(?:\.git)?\/?$/;
-
-    if (windowsPathRegex.test(input)) {
-      type = 'local';
-      localPath = input;
-      repo = input.split('\\').pop() || 'local-repo';
-      owner = 'local';
-    }
-    // Handle Unix/Linux absolute paths (e.g., /path/to/folder)
-    else if (input.startsWith('/')) {
-      type = 'local';
-      localPath = input;
-      repo = input.split('/').filter(Boolean).pop() || 'local-repo';
-      owner = 'local';
-    }
-    else if (customGitRegex.test(input)) {
-      // Detect repository type based on domain
-      const domain = extractUrlDomain(input);
-      if (domain?.includes('github.com')) {
-        type = 'github';
-      } else if (domain?.includes('gitlab.com') || domain?.includes('gitlab.')) {
-        type = 'gitlab';
-      } else if (domain?.includes('bitbucket.org') || domain?.includes('bitbucket.')) {
-        type = 'bitbucket';
-      } else {
-        type = 'web'; // fallback for other git hosting services
-      }
-
-      fullPath = extractUrlPath(input)?.replace(/\.git$/, '');
-      const parts = fullPath?.split('/') ?? [];
-      if (parts.length >= 2) {
-        repo = parts[parts.length - 1] || '';
-        owner = parts[parts.length - 2] || '';
-      }
-    }
-    // Unsupported URL formats
-    else {
-      console.error('Unsupported URL format:', input);
-      return null;
-    }
-
-    if (!owner || !repo) {
-      return null;
-    }
-
-    // Clean values
-    owner = owner.trim();
-    repo = repo.trim();
-
-    // Remove .git suffix if present
-    if (repo.endsWith('.git')) {
-      repo = repo.slice(0, -4);
-    }
-
-    return { owner, repo, type, fullPath, localPath };
-  };
-
   // State for configuration modal
   const [isConfigModalOpen, setIsConfigModalOpen] = useState(false);
 
@@ -255,7 +186,7 @@ export default function Home() {
     const parsedRepo = parseRepositoryInput(repositoryInput);
 
     if (!parsedRepo) {
-      setError('Invalid repository format. Use "owner/repo", GitHub/GitLab/BitBucket URL, or a local folder path like "/path/to/folder" or "C:\\path\\to\\folder".');
+      setError('Invalid repository format. Use "owner/repo", GitHub/GitLab/BitBucket/Azure DevOps/Gitea URL, or a local folder path like "/path/to/folder" or "C:\\path\\to\\folder".');
       return;
     }
 
@@ -318,6 +249,7 @@ export default function Home() {
           isCustomModel,
           customModel,
           selectedPlatform,
+          gitRef,
           excludedDirs,
           excludedFiles,
           includedDirs,
@@ -336,7 +268,7 @@ export default function Home() {
     const parsedRepo = parseRepositoryInput(repositoryInput);
 
     if (!parsedRepo) {
-      setError('Invalid repository format. Use "owner/repo", GitHub/GitLab/BitBucket URL, or a local folder path like "/path/to/folder" or "C:\\path\\to\\folder".');
+      setError('Invalid repository format. Use "owner/repo", GitHub/GitLab/BitBucket/Azure DevOps/Gitea URL, or a local folder path like "/path/to/folder" or "C:\\path\\to\\folder".');
       setIsSubmitting(false);
       return;
     }
@@ -356,6 +288,10 @@ export default function Home() {
     } else {
       params.append('repo_url', encodeURIComponent(repositoryInput));
     }
+    // Add the branch, tag or commit to document instead of the default branch
+    if (gitRef.trim()) {
+      params.append('ref', gitRef.trim());
+    }
     // Add model parameters
     params.append('provider', provider);
     params.append('model', model);
@@ -445,6 +381,8 @@ export default function Home() {
             isOpen={isConfigModalOpen}
             onClose={() => setIsConfigModalOpen(false)}
             repositoryInput={repositoryInput}
+            gitRef={gitRef}
+            setGitRef={setGitRef}
             selectedLanguage={selectedLanguage}
             setSelectedLanguage={setSelectedLanguage}
             supportedLanguages={supportedLanguages}
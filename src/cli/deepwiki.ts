@@ -0,0 +1,322 @@
+/**
+ * Headless DeepWiki CLI, used to generate and export a wiki without a browser (e.g. in CI).
+ * Talks to the Python backend directly and reuses the wiki generation engine of the web UI.
+ * Run through ./index, which exits with the code returned by main.
+ *
+ * Usage: npm run deepwiki -- generate <repo> [--lang kr] [--comprehensive | --concise] [--out ./wiki]
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { parseArgs } from 'util';
+import { Logger } from '@/types/logger';
+import { RepoInfo } from '@/types/repoinfo';
+import { parseRepositoryInput } from '@/utils/parseRepositoryInput';
+import { createRepositoryProvider } from '@/utils/repository/createRepositoryProvider';
+import { SourceFileReader } from '@/utils/repository/sourceFileReader';
+import { fetchRepositoryStructure } from '@/utils/repositoryStructure';
+import { DEFAULT_MAX_UNVERIFIED_IDENTIFIERS, isUnverifiedShare } from '@/utils/wiki/identifierGrounding';
+import { requestWikiExport, WikiExportFormat } from '@/utils/wiki/wikiExport';
+import { WikiGenerator } from '@/utils/wiki/wikiGenerator';
+import { WikiStructureFormat } from '@/utils/wiki/structureSchema';
+
+// Exit codes
+export const EXIT_GENERATION_FAILED = 1;
+export const EXIT_USAGE = 2;
+export const EXIT_INTERRUPTED = 130;
+
+const USAGE = `Usage: deepwiki generate <repo> [options]
+
+<repo> is "owner/repo" (GitHub), a GitHub/GitLab/Bitbucket/Azure DevOps/Gitea URL or a local folder path.
+
+Options:
+  --lang <code>          Wiki language, e.g. en, ja, zh, kr (default: en)
+  --comprehensive        Generate a comprehensive wiki with sections (default)
+  --concise              Generate a concise wiki
+  --out <dir>            Output directory (default: ./wiki)
+  --format <format>      markdown, json or all (default: all)
+  --provider <id>        Model provider (default: the backend default provider)
+  --model <id>           Model (default: the first model of the provider)
+  --ref <ref>            Branch, tag or commit to document (default: the default branch)
+  --token <token>        Access token for private repositories
+  --type <type>          Host of a repository URL on a custom domain:
+                         github, gitlab, bitbucket, azure or gitea
+  --server <url>         Backend URL (default: $SERVER_BASE_URL or http://localhost:8001)
+  --concurrency <n>      Pages generated in parallel (default: maxConcurrency of the provider)
+  --structure-format <f> Request the wiki structure as xml or json (default: xml);
+                         json uses structured output where the provider supports it
+  --max-unverified <share>
+                         Share of the code identifiers of a page (0 to 1) that may be
+                         missing from its source files before the page is generated
+                         once more (default: ${DEFAULT_MAX_UNVERIFIED_IDENTIFIERS})
+  --retry-invalid        Generate pages that fail validation once more
+  --verbose              Print the log output of the generation engine
+  -h, --help             Show this help
+
+Exit codes: 0 on success, 1 when the wiki or any of its pages could not be generated, 2 on invalid usage.`;
+
+const REPOSITORY_TYPES = ['github', 'gitlab', 'bitbucket', 'azure', 'gitea'];
+
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+interface ProviderConfig {
+  id: string;
+  models: { id: string }[];
+  supportsCustomModel?: boolean;
+  maxConcurrency?: number;
+}
+
+const log = (message: string) => {
+  process.stderr.write(`${message}\n`);
+};
+
+// The generation engine logs every step for the browser console; failures are reported through its events
+const silentLogger: Logger = { log: () => {}, warn: () => {}, error: () => {} };
+
+/**
+ * Builds the repository info for the <repo> argument.
+ * Accepts the "owner/repo" GitHub shorthand and relative local paths on top of the web UI formats.
+ */
+const resolveRepository = async (input: string, type?: string): Promise<RepoInfo> => {
+  if (/^[\w.-]+\/[\w.-]+$/.test(input) && !(await pathExists(input))) {
+    input = `https://github.com/${input}`;
+  } else if (await pathExists(input)) {
+    input = path.resolve(input);
+  }
+
+  const parsed = parseRepositoryInput(input);
+  if (!parsed) {
+    throw new UsageError(`Unsupported repository: ${input}`);
+  }
+
+  const repoUrl = parsed.localPath
+    ? null
+    : (input.startsWith('http') ? input : `https://${input}`).replace(/\.git$/, '').replace(/\/$/, '');
+
+  return {
+    owner: parsed.owner,
+    repo: parsed.repo,
+    type: !parsed.localPath && type ? type : parsed.type,
+    token: null,
+    localPath: parsed.localPath ?? null,
+    repoUrl
+  };
+};
+
+const pathExists = async (filePath: string): Promise<boolean> => {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const fetchProviders = async (server: string): Promise<{ providers: ProviderConfig[]; defaultProvider: string }> => {
+  const response = await fetch(`${server}/models/config`);
+  if (!response.ok) {
+    throw new Error(`Error fetching model configurations: ${response.status}`);
+  }
+  return response.json();
+};
+
+/**
+ * Reads the arguments of the CLI.
+ * @returns null when the help was asked for
+ * @throws UsageError for invalid arguments
+ */
+export const parseCommandLine = (argv: string[]) => {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      lang: { type: 'string', default: 'en' },
+      comprehensive: { type: 'boolean' },
+      concise: { type: 'boolean' },
+      out: { type: 'string', default: './wiki' },
+      format: { type: 'string', default: 'all' },
+      provider: { type: 'string' },
+      model: { type: 'string' },
+      ref: { type: 'string' },
+      token: { type: 'string', default: '' },
+      type: { type: 'string' },
+      server: { type: 'string', default: process.env.SERVER_BASE_URL || 'http://localhost:8001' },
+      concurrency: { type: 'string' },
+      'structure-format': { type: 'string', default: 'xml' },
+      'max-unverified': { type: 'string' },
+      'retry-invalid': { type: 'boolean', default: false },
+      verbose: { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h', default: false }
+    }
+  });
+
+  if (values.help) {
+    return null;
+  }
+
+  const [command, repository] = positionals;
+  if (command !== 'generate' || !repository || positionals.length > 2) {
+    throw new UsageError('Expected: deepwiki generate <repo>');
+  }
+  if (values.comprehensive && values.concise) {
+    throw new UsageError('--comprehensive and --concise cannot be combined');
+  }
+  if (!['markdown', 'json', 'all'].includes(values.format)) {
+    throw new UsageError(`Unknown format: ${values.format}`);
+  }
+
+  if (values.type !== undefined && !REPOSITORY_TYPES.includes(values.type)) {
+    throw new UsageError(`Unknown repository type: ${values.type}`);
+  }
+
+  if (!['xml', 'json'].includes(values['structure-format'])) {
+    throw new UsageError(`Unknown structure format: ${values['structure-format']}`);
+  }
+
+  const concurrency = values.concurrency !== undefined ? parseInt(values.concurrency, 10) : undefined;
+  if (concurrency !== undefined && !(concurrency > 0)) {
+    throw new UsageError(`Invalid concurrency: ${values.concurrency}`);
+  }
+
+  const maxUnverifiedIdentifiers = values['max-unverified'] !== undefined ? Number(values['max-unverified']) : undefined;
+  if (maxUnverifiedIdentifiers !== undefined && !isUnverifiedShare(maxUnverifiedIdentifiers)) {
+    throw new UsageError(`Invalid share of unverified identifiers: ${values['max-unverified']}`);
+  }
+
+  return {
+    ...values,
+    repository,
+    concurrency,
+    maxUnverifiedIdentifiers,
+    isComprehensive: !values.concise,
+    structureFormat: values['structure-format'] as WikiStructureFormat,
+    server: values.server.replace(/\/$/, ''),
+    formats: (values.format === 'all' ? ['markdown', 'json'] : [values.format]) as WikiExportFormat[]
+  };
+};
+
+async function generate(args: NonNullable<ReturnType<typeof parseCommandLine>>): Promise<number> {
+  const { server } = args;
+  const logger = args.verbose ? console : silentLogger;
+  const repoInfo = await resolveRepository(args.repository, args.type);
+  if (args.ref) {
+    if (repoInfo.localPath) {
+      throw new UsageError('--ref is not supported for local folders');
+    }
+    repoInfo.ref = args.ref;
+  }
+
+  const { providers, defaultProvider } = await fetchProviders(server);
+  const providerId = args.provider ?? defaultProvider;
+  const provider = providers.find(p => p.id === providerId);
+  if (!provider) {
+    throw new UsageError(`Unknown provider: ${providerId}. Available providers: ${providers.map(p => p.id).join(', ')}`);
+  }
+  const model = args.model ?? provider.models[0]?.id ?? '';
+  const isCustomModel = !provider.models.some(m => m.id === model);
+  if (isCustomModel && !provider.supportsCustomModel) {
+    throw new UsageError(`Unknown model for ${provider.id}: ${model}`);
+  }
+
+  log(`Fetching repository structure of ${repoInfo.owner}/${repoInfo.repo}...`);
+  const repositoryOptions = {
+    localStructureEndpoint: `${server}/local_repo/structure`,
+    localFileEndpoint: `${server}/local_repo/file`,
+    logger
+  };
+  const repositoryProvider = createRepositoryProvider(repoInfo, args.token, repositoryOptions);
+  const { fileTree, readme, defaultBranch, commitSha } = await fetchRepositoryStructure(repoInfo, args.token, repositoryOptions);
+
+  const generator = new WikiGenerator({
+    repoInfo,
+    token: args.token,
+    model: {
+      provider: provider.id,
+      model: isCustomModel ? '' : model,
+      isCustomModel,
+      customModel: isCustomModel ? model : ''
+    },
+    language: args.lang,
+    isComprehensive: args.isComprehensive,
+    structureFormat: args.structureFormat,
+    generateFileUrl: (filePath) => repositoryProvider?.fileUrl(defaultBranch, filePath) ?? filePath,
+    transport: {
+      serverBaseUrl: server,
+      httpEndpoint: `${server}/chat/completions/stream`
+    },
+    concurrency: args.concurrency ?? provider.maxConcurrency ?? 1,
+    commitSha,
+    sourceFiles: repositoryProvider ? new SourceFileReader(repositoryProvider, commitSha ?? defaultBranch) : undefined,
+    maxUnverifiedIdentifiers: args.maxUnverifiedIdentifiers,
+    retryInvalidPages: args['retry-invalid'],
+    logger
+  }, {
+    onStructureStart: () => log(`Determining wiki structure with ${provider.id}/${model}...`),
+    onFilePathCorrections: (corrections) => {
+      const count = (type: string) => corrections.filter(c => c.type === type).length;
+      log(`Source files adjusted: ${count('corrected')} corrected, ${count('dropped')} removed, ${count('added')} added`);
+    },
+    onStructure: (structure) => log(`Generating ${structure.pages.length} pages for "${structure.title}"`),
+    onPageComplete: (page) => log(`  done: ${page.title}` +
+      (page.validation && !page.validation.passed ? ` (fails validation: ${page.validation.errors.join('; ')})` : '')),
+    onPageRetry: (page, attempt, delayMs, error) => log(`  retry: ${page.title} (attempt ${attempt} failed: ${error.message}, retrying in ${delayMs}ms)`),
+    onPageError: (page, error) => log(`  failed: ${page.title}: ${error.message}`)
+  });
+
+  process.once('SIGINT', () => {
+    log('Interrupted, cancelling generation');
+    generator.cancel();
+    process.exit(EXIT_INTERRUPTED);
+  });
+
+  const { structure, pages, failedPages } = await generator.generate(fileTree, readme);
+
+  await fs.mkdir(args.out, { recursive: true });
+  for (const format of args.formats) {
+    const { content } = await requestWikiExport(repoInfo, structure, pages, format, `${server}/export/wiki`);
+    const outputPath = path.join(args.out, `${repoInfo.repo}_wiki.${format === 'markdown' ? 'md' : 'json'}`);
+    await fs.writeFile(outputPath, Buffer.from(await content.arrayBuffer()));
+    log(`Wrote ${outputPath}`);
+  }
+
+  if (failedPages.length > 0) {
+    log(`${failedPages.length} of ${structure.pages.length} pages could not be generated: ${failedPages.join(', ')}`);
+    return EXIT_GENERATION_FAILED;
+  }
+  return 0;
+}
+
+/**
+ * Runs the CLI.
+ * @param argv The arguments after the script name
+ * @returns The exit code
+ */
+export async function main(argv: string[]): Promise<number> {
+  let args;
+  try {
+    args = parseCommandLine(argv);
+  } catch (err) {
+    log(`${err instanceof Error ? err.message : err}\n\n${USAGE}`);
+    return EXIT_USAGE;
+  }
+  if (!args) {
+    log(USAGE);
+    return 0;
+  }
+
+  try {
+    return await generate(args);
+  } catch (err) {
+    if (err instanceof UsageError) {
+      log(`${err.message}\n\n${USAGE}`);
+      return EXIT_USAGE;
+    }
+    log(`Wiki generation failed: ${err instanceof Error ? err.message : err}`);
+    return EXIT_GENERATION_FAILED;
+  }
+}
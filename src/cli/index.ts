@@ -0,0 +1,7 @@
+/**
+ * Entry point of the DeepWiki CLI, see ./deepwiki.
+ */
+
+import { main } from './deepwiki';
+
+main(process.argv.slice(2)).then(code => process.exit(code));
@@ -0,0 +1,57 @@
+'use client';
+
+import React from 'react';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { FaUnlink } from 'react-icons/fa';
+import { WikiPage } from '@/types/wiki/wikipage';
+import { BrokenLink } from '@/utils/wiki/linkResolver';
+
+interface BrokenLinksReportProps {
+  brokenLinks: BrokenLink[];
+  /** Pages of the wiki, for the titles of the pages the links are on */
+  pages: WikiPage[];
+  onPageSelect: (pageId: string) => void;
+}
+
+/**
+ * Lists the links between pages of a wiki that point to no page, grouped by the page they are on.
+ */
+const BrokenLinksReport: React.FC<BrokenLinksReportProps> = ({ brokenLinks, pages, onPageSelect }) => {
+  const { messages: t } = useLanguage();
+
+  if (brokenLinks.length === 0) {
+    return null;
+  }
+
+  const pageIds = Array.from(new Set(brokenLinks.map(link => link.pageId)));
+
+  return (
+    <details className="mb-5 text-xs text-[var(--muted)]">
+      <summary className="cursor-pointer inline-flex items-center gap-2 text-[var(--highlight)] hover:text-[var(--accent-primary)]">
+        <FaUnlink className="flex-shrink-0" />
+        {(t.repoPage?.brokenLinks || 'Broken links ({count})').replace('{count}', brokenLinks.length.toString())}
+      </summary>
+      <ul className="mt-2 ml-5 space-y-2">
+        {pageIds.map(pageId => (
+          <li key={pageId}>
+            <button
+              onClick={() => onPageSelect(pageId)}
+              className="text-left text-[var(--foreground)] hover:text-[var(--accent-primary)] hover:underline"
+            >
+              {pages.find(page => page.id === pageId)?.title ?? pageId}
+            </button>
+            <ul className="mt-1 ml-3 space-y-0.5">
+              {brokenLinks.filter(link => link.pageId === pageId).map((link, index) => (
+                <li key={index} className="break-all">
+                  {link.text || link.href} <span className="font-mono">({link.href})</span>
+                </li>
+              ))}
+            </ul>
+          </li>
+        ))}
+      </ul>
+    </details>
+  );
+};
+
+export default BrokenLinksReport;
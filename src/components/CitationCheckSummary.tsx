@@ -0,0 +1,58 @@
+'use client';
+
+import React from 'react';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { FaCheckCircle, FaExclamationTriangle } from 'react-icons/fa';
+import { CitationCheck } from '@/types/wiki/citationcheck';
+import { getCitationAccuracy } from '@/utils/wiki/citationVerifier';
+
+interface CitationCheckSummaryProps {
+  check?: CitationCheck;
+}
+
+/**
+ * Shows how many source citations of a page point to existing files and lines, and lists the others.
+ */
+const CitationCheckSummary: React.FC<CitationCheckSummaryProps> = ({ check }) => {
+  const { messages: t } = useLanguage();
+
+  if (!check || check.total === 0) {
+    return null;
+  }
+
+  const summary = (t.repoPage?.citationAccuracy || 'Citations: {accuracy}% valid ({valid} of {total})')
+    .replace('{accuracy}', Math.round(getCitationAccuracy(check) * 100).toString())
+    .replace('{valid}', check.valid.toString())
+    .replace('{total}', check.total.toString());
+
+  if (check.issues.length === 0) {
+    return (
+      <p className="mb-4 text-xs text-[var(--muted)] inline-flex items-center gap-2">
+        <FaCheckCircle className="flex-shrink-0" />
+        {summary}
+      </p>
+    );
+  }
+
+  return (
+    <details className="mb-4 text-xs text-[var(--muted)]">
+      <summary className="cursor-pointer inline-flex items-center gap-2 hover:text-[var(--accent-primary)]">
+        <FaExclamationTriangle className="flex-shrink-0 text-[var(--highlight)]" />
+        {summary}
+      </summary>
+      <ul className="mt-2 ml-5 space-y-1">
+        {check.issues.map((issue, index) => (
+          <li key={index} className="break-all">
+            <span className="font-mono text-[var(--foreground)]">{issue.text || issue.filePath}</span>
+            {' '}({issue.problem === 'missingFile'
+              ? (t.repoPage?.citationMissingFile || 'File not in the repository')
+              : (t.repoPage?.citationInvalidLines || 'Lines past the end of the file ({count} lines)')
+                .replace('{count}', (issue.lineCount ?? 0).toString())})
+          </li>
+        ))}
+      </ul>
+    </details>
+  );
+};
+
+export default CitationCheckSummary;
@@ -0,0 +1,123 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
+import { tomorrow } from 'react-syntax-highlighter/dist/cjs/styles/prism';
+import { FaExclamationTriangle } from 'react-icons/fa';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { CitationIssue } from '@/types/wiki/citationcheck';
+import { getCitedLines, getSourceLanguage, SourceCitation } from '@/utils/wiki/citations';
+
+interface CitationLinkProps {
+  href: string;
+  citation: SourceCitation;
+  /** Problem found when the citations of the page were verified */
+  issue?: CitationIssue;
+  loadFile: (filePath: string) => Promise<string>;
+  /** Opens the cited file in the source viewer */
+  onOpen: (citation: SourceCitation) => void;
+  children?: React.ReactNode;
+}
+
+// Delay before the preview opens, so that moving the mouse across a page does not load files
+const HOVER_DELAY_MS = 400;
+
+/**
+ * Link to cited source code that opens it in the wiki and previews the cited lines on hover.
+ */
+const CitationLink: React.FC<CitationLinkProps> = ({ href, citation, issue, loadFile, onOpen, children }) => {
+  const { messages: t } = useLanguage();
+  const [position, setPosition] = useState<{ top: number; left: number } | null>(null);
+  const [preview, setPreview] = useState<{ lines: string[]; firstLine: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const linkRef = useRef<HTMLAnchorElement>(null);
+  const hoverTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => () => {
+    if (hoverTimer.current) clearTimeout(hoverTimer.current);
+  }, []);
+
+  const handleMouseEnter = () => {
+    hoverTimer.current = setTimeout(() => {
+      const rect = linkRef.current?.getBoundingClientRect();
+      if (!rect) return;
+      setPosition({ top: rect.bottom + 4, left: Math.max(8, Math.min(rect.left, window.innerWidth - 520)) });
+      if (!preview) {
+        loadFile(citation.filePath)
+          .then(content => setPreview(getCitedLines(content, citation)))
+          .catch(err => setError(err instanceof Error ? err.message : 'An unknown error occurred'));
+      }
+    }, HOVER_DELAY_MS);
+  };
+
+  const handleMouseLeave = () => {
+    if (hoverTimer.current) clearTimeout(hoverTimer.current);
+    setPosition(null);
+  };
+
+  const handleClick = (event: React.MouseEvent) => {
+    // Keep opening the repository host in a new tab or window with a modifier key
+    if (event.button === 0 && !event.metaKey && !event.ctrlKey && !event.shiftKey && !event.altKey) {
+      event.preventDefault();
+      handleMouseLeave();
+      onOpen(citation);
+    }
+  };
+
+  return (
+    <>
+      <a
+        ref={linkRef}
+        href={href}
+        target="_blank"
+        rel="noopener noreferrer"
+        onClick={handleClick}
+        onMouseEnter={handleMouseEnter}
+        onMouseLeave={handleMouseLeave}
+        className="text-purple-600 dark:text-purple-400 hover:underline font-medium"
+      >
+        {children}
+      </a>
+      {issue && (
+        <span
+          className="inline-flex align-baseline ml-0.5 text-[var(--highlight)] text-[0.75em] cursor-help"
+          title={issue.problem === 'missingFile'
+            ? (t.repoPage?.citationMissingFile || 'File not in the repository')
+            : (t.repoPage?.citationInvalidLines || 'Lines past the end of the file ({count} lines)')
+              .replace('{count}', (issue.lineCount ?? 0).toString())}
+        >
+          <FaExclamationTriangle />
+        </span>
+      )}
+      {position && createPortal(
+        <div
+          className="fixed z-50 w-[32rem] max-w-[calc(100vw-1rem)] rounded-md border border-[var(--border-color)] bg-[var(--card-bg)] shadow-lg overflow-hidden text-xs"
+          style={{ top: position.top, left: position.left }}
+        >
+          <div className="px-3 py-1.5 border-b border-[var(--border-color)] font-mono text-[var(--muted)] truncate">
+            {citation.filePath}
+          </div>
+          {error ? (
+            <p className="p-3 text-[var(--highlight)]">{error}</p>
+          ) : preview ? (
+            <SyntaxHighlighter
+              language={getSourceLanguage(citation.filePath)}
+              style={tomorrow}
+              customStyle={{ margin: 0, borderRadius: 0, maxHeight: '18rem' }}
+              showLineNumbers={true}
+              startingLineNumber={preview.firstLine}
+            >
+              {preview.lines.join('\n')}
+            </SyntaxHighlighter>
+          ) : (
+            <p className="p-3 text-[var(--muted)]">{t.repoPage?.loadingSource || 'Loading source...'}</p>
+          )}
+        </div>,
+        document.body
+      )}
+    </>
+  );
+};
+
+export default CitationLink;
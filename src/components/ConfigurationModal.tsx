@@ -4,6 +4,7 @@ import React, { useState } from 'react';
 import { useLanguage } from '@/contexts/LanguageContext';
 import UserSelector from './UserSelector';
 import TokenInput from './TokenInput';
+import { RepositoryPlatform } from '@/types/repoinfo';
 
 interface ConfigurationModalProps {
   isOpen: boolean;
@@ -11,6 +12,9 @@ interface ConfigurationModalProps {
 
   // Repository input
   repositoryInput: string;
+  // Branch, tag or commit; empty for the default branch
+  gitRef: string;
+  setGitRef: (value: string) => void;
 
   // Language selection
   selectedLanguage: string;
@@ -32,8 +36,8 @@ interface ConfigurationModalProps {
   setCustomModel: (value: string) => void;
 
   // Platform selection
-  selectedPlatform: 'github' | 'gitlab' | 'bitbucket';
-  setSelectedPlatform: (value: 'github' | 'gitlab' | 'bitbucket') => void;
+  selectedPlatform: RepositoryPlatform;
+  setSelectedPlatform: (value: RepositoryPlatform) => void;
 
   // Access token
   accessToken: string;
@@ -64,6 +68,8 @@ export default function ConfigurationModal({
   isOpen,
   onClose,
   repositoryInput,
+  gitRef,
+  setGitRef,
   selectedLanguage,
   setSelectedLanguage,
   supportedLanguages,
@@ -135,6 +141,21 @@ export default function ConfigurationModal({
               </div>
             </div>
 
+            {/* Branch, tag or commit */}
+            <div className="mb-4">
+              <label htmlFor="git-ref" className="block text-sm font-medium text-[var(--foreground)] mb-2">
+                {t.form?.gitRef || 'Branch, Tag or Commit'}
+              </label>
+              <input
+                id="git-ref"
+                type="text"
+                value={gitRef}
+                onChange={(e) => setGitRef(e.target.value)}
+                placeholder={t.form?.gitRefPlaceholder || 'Default branch'}
+                className="input-japanese block w-full px-3 py-2 text-sm rounded-md bg-transparent text-[var(--foreground)] focus:outline-none focus:border-[var(--accent-primary)] font-mono"
+              />
+            </div>
+
             {/* Language selection */}
             <div className="mb-4">
               <label htmlFor="language-select" className="block text-sm font-medium text-[var(--foreground)] mb-2">
@@ -0,0 +1,56 @@
+'use client';
+
+import React from 'react';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { FaFileCode } from 'react-icons/fa';
+import { FilePathCorrection } from '@/utils/wiki/filePathValidator';
+
+interface FilePathCorrectionsProps {
+  corrections: FilePathCorrection[];
+}
+
+/**
+ * Lists the source file paths of a page that were corrected, dropped or added because the
+ * paths chosen by the model did not exist in the repository.
+ */
+const FilePathCorrections: React.FC<FilePathCorrectionsProps> = ({ corrections }) => {
+  const { messages: t } = useLanguage();
+
+  if (corrections.length === 0) {
+    return null;
+  }
+
+  const count = (type: FilePathCorrection['type']) => corrections.filter(c => c.type === type).length;
+
+  return (
+    <details className="mb-4 text-xs text-[var(--muted)]">
+      <summary className="cursor-pointer inline-flex items-center gap-2 hover:text-[var(--accent-primary)]">
+        <FaFileCode className="flex-shrink-0" />
+        {(t.repoPage?.filePathCorrections || 'Source files adjusted: {corrected} corrected, {dropped} removed, {added} added')
+          .replace('{corrected}', count('corrected').toString())
+          .replace('{dropped}', count('dropped').toString())
+          .replace('{added}', count('added').toString())}
+      </summary>
+      <ul className="mt-2 ml-5 space-y-1 font-mono">
+        {corrections.map((correction, index) => (
+          <li key={index} className="break-all">
+            {correction.type === 'corrected' && (
+              <>{correction.originalPath} → <span className="text-[var(--foreground)]">{correction.path}</span></>
+            )}
+            {correction.type === 'dropped' && (
+              <>
+                <span className="line-through">{correction.originalPath}</span>
+                {' '}({t.repoPage?.filePathNotFound || 'not in the repository'})
+              </>
+            )}
+            {correction.type === 'added' && (
+              <>+ <span className="text-[var(--foreground)]">{correction.path}</span></>
+            )}
+          </li>
+        ))}
+      </ul>
+    </details>
+  );
+};
+
+export default FilePathCorrections;
@@ -0,0 +1,39 @@
+'use client';
+
+import React from 'react';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { FaQuestionCircle } from 'react-icons/fa';
+import { IdentifierCheck } from '@/types/wiki/identifiercheck';
+
+interface IdentifierCheckSummaryProps {
+  check?: IdentifierCheck;
+}
+
+/**
+ * Lists the code identifiers a page mentions that were found in none of its source files.
+ */
+const IdentifierCheckSummary: React.FC<IdentifierCheckSummaryProps> = ({ check }) => {
+  const { messages: t } = useLanguage();
+
+  if (!check || check.unverified.length === 0) {
+    return null;
+  }
+
+  return (
+    <details className="mb-4 text-xs text-[var(--muted)]">
+      <summary className="cursor-pointer inline-flex items-center gap-2 hover:text-[var(--accent-primary)]">
+        <FaQuestionCircle className="flex-shrink-0 text-[var(--highlight)]" />
+        {(t.repoPage?.unverifiedIdentifiers || 'Identifiers: {count} of {total} not found in the source files')
+          .replace('{count}', check.unverified.length.toString())
+          .replace('{total}', check.total.toString())}
+      </summary>
+      <ul className="mt-2 ml-5 flex flex-wrap gap-2 font-mono">
+        {check.unverified.map(identifier => (
+          <li key={identifier} className="text-[var(--foreground)]">{identifier}</li>
+        ))}
+      </ul>
+    </details>
+  );
+};
+
+export default IdentifierCheckSummary;
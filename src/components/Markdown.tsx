@@ -5,27 +5,84 @@ import rehypeRaw from 'rehype-raw';
 import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
 import { tomorrow } from 'react-syntax-highlighter/dist/cjs/styles/prism';
 import Mermaid from './Mermaid';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { getCodeIdentifier } from '@/utils/wiki/identifierGrounding';
+import { createHeadingSlugger } from '@/utils/wiki/pageLinks';
+
+/**
+ * Target of a link to another page of a wiki.
+ */
+export interface MarkdownLink {
+  href: string;
+  /** Opens the page in place of following the href */
+  onNavigate?: () => void;
+}
 
 interface MarkdownProps {
   content: string;
+  /** Give headings ids with links to them, for linking to a heading of a wiki page */
+  headingAnchors?: boolean;
+  /** Resolves links starting with `#`; links it does not resolve are shown as broken */
+  resolveLink?: (href: string) => MarkdownLink | undefined;
+  /** Renders other links in a special way, e.g. citations of source files; undefined renders a plain link */
+  renderLink?: (href: string, text: string, children: React.ReactNode) => React.ReactNode | undefined;
+  /** Code identifiers not found in the source files of the page, highlighted where they are mentioned */
+  unverifiedIdentifiers?: string[];
+  /** Tries to repair a Mermaid diagram that fails to render, see the Mermaid component */
+  onMermaidError?: (chart: string, error: string) => Promise<boolean>;
 }
 
-const Markdown: React.FC<MarkdownProps> = ({ content }) => {
+// Plain text of rendered children, e.g. of a heading with inline code
+const getText = (children: React.ReactNode): string =>
+  React.Children.toArray(children).map(child => {
+    if (typeof child === 'string' || typeof child === 'number') return String(child);
+    if (React.isValidElement<{ children?: React.ReactNode }>(child)) return getText(child.props.children);
+    return '';
+  }).join('');
+
+const Markdown: React.FC<MarkdownProps> = ({ content, headingAnchors = false, resolveLink, renderLink, unverifiedIdentifiers, onMermaidError }) => {
+  const { messages: t } = useLanguage();
+  // Anchors are assigned in document order, so the slugger starts over on every render
+  const slugHeading = createHeadingSlugger();
+
+  // Id of a heading and a link to it shown on hover
+  const anchor = (children: React.ReactNode) => {
+    if (!headingAnchors) {
+      return { id: undefined, link: null };
+    }
+    const id = slugHeading(getText(children));
+    return {
+      id,
+      link: (
+        <a
+          href={`#${id}`}
+          className="ml-2 no-underline text-[var(--muted)] opacity-0 group-hover:opacity-100 hover:text-[var(--accent-primary)]"
+          aria-hidden="true"
+        >
+          #
+        </a>
+      )
+    };
+  };
+
   // Define markdown components
   const MarkdownComponents: React.ComponentProps<typeof ReactMarkdown>['components'] = {
     p({ children, ...props }: { children?: React.ReactNode }) {
       return <p className="mb-3 text-sm leading-relaxed dark:text-white" {...props}>{children}</p>;
     },
     h1({ children, ...props }: { children?: React.ReactNode }) {
-      return <h1 className="text-xl font-bold mt-6 mb-3 dark:text-white" {...props}>{children}</h1>;
+      const { id, link } = anchor(children);
+      return <h1 id={id} className="group scroll-mt-4 text-xl font-bold mt-6 mb-3 dark:text-white" {...props}>{children}{link}</h1>;
     },
     h2({ children, ...props }: { children?: React.ReactNode }) {
+      const { id, link } = anchor(children);
       // Special styling for ReAct headings
       if (children && typeof children === 'string') {
         const text = children.toString();
         if (text.includes('Thought') || text.includes('Action') || text.includes('Observation') || text.includes('Answer')) {
           return (
             <h2
+              id={id}
               className={`text-base font-bold mt-5 mb-3 p-2 rounded ${
                 text.includes('Thought') ? 'bg-blue-100 dark:bg-blue-900/30 text-blue-800 dark:text-blue-300' :
                 text.includes('Action') ? 'bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-300' :
@@ -36,17 +93,20 @@ const Markdown: React.FC<MarkdownProps> = ({ content }) => {
               {...props}
             >
               {children}
+              {link}
             </h2>
           );
         }
       }
-      return <h2 className="text-lg font-bold mt-5 mb-3 dark:text-white" {...props}>{children}</h2>;
+      return <h2 id={id} className="group scroll-mt-4 text-lg font-bold mt-5 mb-3 dark:text-white" {...props}>{children}{link}</h2>;
     },
     h3({ children, ...props }: { children?: React.ReactNode }) {
-      return <h3 className="text-base font-semibold mt-4 mb-2 dark:text-white" {...props}>{children}</h3>;
+      const { id, link } = anchor(children);
+      return <h3 id={id} className="group scroll-mt-4 text-base font-semibold mt-4 mb-2 dark:text-white" {...props}>{children}{link}</h3>;
     },
     h4({ children, ...props }: { children?: React.ReactNode }) {
-      return <h4 className="text-sm font-semibold mt-3 mb-2 dark:text-white" {...props}>{children}</h4>;
+      const { id, link } = anchor(children);
+      return <h4 id={id} className="group scroll-mt-4 text-sm font-semibold mt-3 mb-2 dark:text-white" {...props}>{children}{link}</h4>;
     },
     ul({ children, ...props }: { children?: React.ReactNode }) {
       return <ul className="list-disc pl-6 mb-4 text-sm dark:text-white space-y-2" {...props}>{children}</ul>;
@@ -58,6 +118,43 @@ const Markdown: React.FC<MarkdownProps> = ({ content }) => {
       return <li className="mb-2 text-sm leading-relaxed dark:text-white" {...props}>{children}</li>;
     },
     a({ children, href, ...props }: { children?: React.ReactNode; href?: string }) {
+      // Links to headings and other pages of a wiki stay in the tab
+      if (href?.startsWith('#')) {
+        const link = resolveLink ? resolveLink(href) : { href };
+        if (!link) {
+          return (
+            <span
+              className="text-[var(--highlight)] underline decoration-dotted cursor-help"
+              title={(t.repoPage?.brokenLink || 'Broken link: no page matches {href}').replace('{href}', href)}
+            >
+              {children}
+            </span>
+          );
+        }
+        const { onNavigate } = link;
+        return (
+          <a
+            href={link.href}
+            className="text-purple-600 dark:text-purple-400 hover:underline font-medium"
+            onClick={onNavigate && ((event: React.MouseEvent) => {
+              // Keep opening the link in a new tab or window with a modifier key
+              if (event.button === 0 && !event.metaKey && !event.ctrlKey && !event.shiftKey && !event.altKey) {
+                event.preventDefault();
+                onNavigate();
+              }
+            })}
+            {...props}
+          >
+            {children}
+          </a>
+        );
+      }
+
+      const rendered = href && renderLink?.(href, getText(children), children);
+      if (rendered) {
+        return rendered;
+      }
+
       return (
         <a
           href={href}
@@ -130,6 +227,7 @@ const Markdown: React.FC<MarkdownProps> = ({ content }) => {
               chart={codeContent}
               className="w-full max-w-full"
               zoomingEnabled={true}
+              onRenderError={onMermaidError}
             />
           </div>
         );
@@ -181,9 +279,12 @@ const Markdown: React.FC<MarkdownProps> = ({ content }) => {
       }
 
       // Handle inline code
+      const identifier = getCodeIdentifier(codeContent);
+      const isUnverified = !!identifier && !!unverifiedIdentifiers?.includes(identifier);
       return (
         <code
-          className={`${className} font-mono bg-gray-100 dark:bg-gray-800 px-2 py-0.5 rounded text-pink-500 dark:text-pink-400 text-sm`}
+          className={`${className} font-mono bg-gray-100 dark:bg-gray-800 px-2 py-0.5 rounded text-pink-500 dark:text-pink-400 text-sm${isUnverified ? ' underline decoration-wavy decoration-[var(--highlight)] cursor-help' : ''}`}
+          title={isUnverified ? (t.repoPage?.unverifiedIdentifier || 'Not found in the source files of this page') : undefined}
           {...otherProps}
         >
           {children}
@@ -0,0 +1,33 @@
+'use client';
+
+import React from 'react';
+import Markdown from './Markdown';
+import { MarkdownDiffBlock } from '@/utils/wiki/wikiCompare';
+
+interface MarkdownDiffProps {
+  blocks: MarkdownDiffBlock[];
+}
+
+/**
+ * Renders a Markdown diff (see diffMarkdown), marking added and removed blocks.
+ */
+const MarkdownDiff: React.FC<MarkdownDiffProps> = ({ blocks }) => (
+  <div className="prose prose-sm md:prose-base max-w-none">
+    {blocks.map((block, index) => (
+      <div
+        key={index}
+        className={`px-3 py-1 border-l-4 ${
+          block.type === 'added'
+            ? 'border-green-500 bg-green-50 dark:bg-green-900/20'
+            : block.type === 'removed'
+              ? 'border-red-500 bg-red-50 dark:bg-red-900/20 opacity-80'
+              : 'border-transparent'
+        }`}
+      >
+        <Markdown content={block.content} />
+      </div>
+    ))}
+  </div>
+);
+
+export default MarkdownDiff;
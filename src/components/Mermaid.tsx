@@ -173,6 +173,8 @@ interface MermaidProps {
   chart: string;
   className?: string;
   zoomingEnabled?: boolean;
+  /** Tries to repair a diagram that fails to render; resolves to whether a fixed chart will be passed in */
+  onRenderError?: (chart: string, error: string) => Promise<boolean>;
 }
 
 // Full screen modal component for the diagram
@@ -799,9 +801,25 @@ export const preprocessChart = (chart: string): string => {
 
 // Removed old helper functions - now using MermaidConverter class
 
-const Mermaid: React.FC<MermaidProps> = ({ chart, className = '', zoomingEnabled = false }) => {
+/**
+ * Parses a diagram the way it is rendered.
+ * @returns The parser error, or undefined for a valid diagram
+ */
+export const validateMermaidChart = async (chart: string): Promise<string | undefined> => {
+  try {
+    await mermaid.parse(preprocessChart(chart));
+    return undefined;
+  } catch (err) {
+    return err instanceof Error ? err.message : String(err);
+  }
+};
+
+const Mermaid: React.FC<MermaidProps> = ({ chart, className = '', zoomingEnabled = false, onRenderError }) => {
   const [svg, setSvg] = useState<string>('');
   const [error, setError] = useState<string | null>(null);
+  const [isRepairing, setIsRepairing] = useState(false);
+  // Kept in a ref so that a new callback does not render the chart again
+  const onRenderErrorRef = useRef(onRenderError);
   const [isFullscreen, setIsFullscreen] = useState(false);
   const mermaidRef = useRef<HTMLDivElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
@@ -849,6 +867,10 @@ const Mermaid: React.FC<MermaidProps> = ({ chart, className = '', zoomingEnabled
     }
   }, [svg, zoomingEnabled]);
 
+  useEffect(() => {
+    onRenderErrorRef.current = onRenderError;
+  }, [onRenderError]);
+
   useEffect(() => {
     if (!chart) return;
 
@@ -859,6 +881,7 @@ const Mermaid: React.FC<MermaidProps> = ({ chart, className = '', zoomingEnabled
 
       try {
         setError(null);
+        setIsRepairing(false);
         setSvg('');
 
         // Preprocess the chart to handle special characters that cause parsing issues
@@ -883,6 +906,14 @@ const Mermaid: React.FC<MermaidProps> = ({ chart, className = '', zoomingEnabled
 
         const errorMessage = err instanceof Error ? err.message : String(err);
 
+        // The repaired chart replaces this one once it is written back into the page
+        if (isMounted && onRenderErrorRef.current) {
+          setIsRepairing(true);
+          const isRepaired = await onRenderErrorRef.current(chart, errorMessage).catch(() => false);
+          if (!isMounted || isRepaired) return;
+          setIsRepairing(false);
+        }
+
         if (isMounted) {
           setError(`Failed to render diagram: ${errorMessage}`);
 
@@ -935,7 +966,7 @@ const Mermaid: React.FC<MermaidProps> = ({ chart, className = '', zoomingEnabled
           <div className="w-2 h-2 bg-[var(--accent-primary)]/70 rounded-full animate-pulse"></div>
           <div className="w-2 h-2 bg-[var(--accent-primary)]/70 rounded-full animate-pulse delay-75"></div>
           <div className="w-2 h-2 bg-[var(--accent-primary)]/70 rounded-full animate-pulse delay-150"></div>
-          <span className="text-[var(--muted)] text-xs ml-2 font-serif">図表を描画中...</span>
+          <span className="text-[var(--muted)] text-xs ml-2 font-serif">{isRepairing ? '図表を修復中...' : '図表を描画中...'}</span>
         </div>
       </div>
     );
@@ -0,0 +1,67 @@
+'use client';
+
+import React from 'react';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { FaCodeBranch, FaEdit } from 'react-icons/fa';
+import { PageGenerationInfo } from '@/types/wiki/pagegenerationinfo';
+import { getPromptTemplateHash } from '@/utils/promptTemplate';
+
+interface PageProvenanceProps {
+  generation?: PageGenerationInfo;
+  /** Last edit of the page in the browser */
+  editedAt?: string;
+  /** Commit of the whole wiki, shown for pages cached before generation info was recorded */
+  wikiCommitSha?: string;
+}
+
+/**
+ * Shows the commit, date and model a wiki page was generated with, and when it was edited.
+ */
+const PageProvenance: React.FC<PageProvenanceProps> = ({ generation, editedAt, wikiCommitSha }) => {
+  const { messages: t } = useLanguage();
+
+  const commitSha = generation?.commitSha ?? wikiCommitSha;
+  if (!generation && !commitSha) {
+    return editedAt ? (
+      <div className="mb-4 text-xs text-[var(--muted)] flex flex-wrap items-center gap-x-2 gap-y-1">
+        <FaEdit className="flex-shrink-0" />
+        <span>{(t.repoPage?.editedOn || 'Edited on {date}').replace('{date}', new Date(editedAt).toLocaleString())}</span>
+      </div>
+    ) : null;
+  }
+
+  const isOutdatedPrompt = !!generation && generation.promptHash !== getPromptTemplateHash();
+
+  return (
+    <div className="mb-4 text-xs text-[var(--muted)] flex flex-wrap items-center gap-x-2 gap-y-1">
+      <FaCodeBranch className="flex-shrink-0" />
+      <span>
+        {commitSha && generation
+          ? (t.repoPage?.generatedFromOn || 'Generated from {commit} on {date}')
+              .replace('{commit}', commitSha.slice(0, 7))
+              .replace('{date}', new Date(generation.generatedAt).toLocaleString())
+          : commitSha
+            ? (t.repoPage?.generatedFrom || 'Generated from {commit}').replace('{commit}', commitSha.slice(0, 7))
+            : (t.repoPage?.generatedOn || 'Generated on {date}').replace('{date}', new Date(generation!.generatedAt).toLocaleString())}
+      </span>
+      {generation && (
+        <span>· {generation.provider}/{generation.model}</span>
+      )}
+      {generation?.instructions && (
+        <span title={generation.instructions}>
+          · {t.repoPage?.regeneratedWithInstructions || 'regenerated with instructions'}
+        </span>
+      )}
+      {editedAt && (
+        <span>· {(t.repoPage?.editedOn || 'Edited on {date}').replace('{date}', new Date(editedAt).toLocaleString())}</span>
+      )}
+      {isOutdatedPrompt && (
+        <span className="text-[var(--highlight)]">
+          · {t.repoPage?.outdatedPromptTemplate || 'generated with an older prompt template'}
+        </span>
+      )}
+    </div>
+  );
+};
+
+export default PageProvenance;
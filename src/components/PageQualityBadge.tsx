@@ -0,0 +1,45 @@
+'use client';
+
+import React from 'react';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { FaCheckCircle, FaExclamationCircle } from 'react-icons/fa';
+import { PageValidation } from '@/types/wiki/pagevalidation';
+
+interface PageQualityBadgeProps {
+  validation?: PageValidation;
+}
+
+/**
+ * Badge telling whether a page follows the rules of the page prompt, with the errors and warnings on hover.
+ */
+const PageQualityBadge: React.FC<PageQualityBadgeProps> = ({ validation }) => {
+  const { messages: t } = useLanguage();
+
+  if (!validation) {
+    return null;
+  }
+
+  const { passed, errors, warnings } = validation;
+  const label = passed
+    ? warnings.length > 0
+      ? (t.repoPage?.qualityWarnings || 'Valid, {count} warnings').replace('{count}', warnings.length.toString())
+      : (t.repoPage?.qualityPassed || 'Valid')
+    : (t.repoPage?.qualityErrors || '{count} errors').replace('{count}', errors.length.toString());
+  const details = [...errors.map(error => `✗ ${error}`), ...warnings.map(warning => `! ${warning}`)].join('\n');
+
+  return (
+    <span
+      className={`inline-flex items-center gap-1 ml-2 px-2 py-0.5 rounded-full border text-xs font-sans font-normal align-middle cursor-help ${
+        passed
+          ? 'border-green-500/40 text-green-600 dark:text-green-400'
+          : 'border-[var(--highlight)]/40 text-[var(--highlight)]'
+      }`}
+      title={details || (t.repoPage?.qualityPassedDetails || 'The page follows all rules of the page prompt')}
+    >
+      {passed ? <FaCheckCircle /> : <FaExclamationCircle />}
+      {label}
+    </span>
+  );
+};
+
+export default PageQualityBadge;
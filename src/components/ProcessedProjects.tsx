@@ -13,8 +13,18 @@ interface ProcessedProject {
   repo_type: string;
   submittedAt: number;
   language: string;
+  ref?: string | null;
 }
 
+// Link to the wiki page of a project, including the ref it was generated for
+const getProjectHref = (project: ProcessedProject): string => {
+  const params = new URLSearchParams({ type: project.repo_type, language: project.language });
+  if (project.ref) {
+    params.append('ref', project.ref);
+  }
+  return `/${project.owner}/${project.repo}?${params.toString()}`;
+};
+
 interface ProcessedProjectsProps {
   showHeader?: boolean;
   maxItems?: number;
@@ -91,7 +101,8 @@ export default function ProcessedProjects({
       project.name.toLowerCase().includes(query) ||
       project.owner.toLowerCase().includes(query) ||
       project.repo.toLowerCase().includes(query) ||
-      project.repo_type.toLowerCase().includes(query)
+      project.repo_type.toLowerCase().includes(query) ||
+      !!project.ref?.toLowerCase().includes(query)
     );
 
     return maxItems ? filtered.slice(0, maxItems) : filtered;
@@ -114,6 +125,7 @@ export default function ProcessedProjects({
           repo: project.repo,
           repo_type: project.repo_type,
           language: project.language,
+          ref: project.ref,
         }),
       });
       if (!response.ok) {
@@ -205,11 +217,11 @@ export default function ProcessedProjects({
                   <FaTimes className="h-4 w-4" />
                 </button>
                 <Link
-                  href={`/${project.owner}/${project.repo}?type=${project.repo_type}&language=${project.language}`}
+                  href={getProjectHref(project)}
                   className="block"
                 >
                   <h3 className="text-lg font-semibold text-[var(--link-color)] hover:underline mb-2 line-clamp-2">
-                    {project.name}
+                    {project.name}{project.ref && <span className="text-[var(--muted)] font-normal"> @ {project.ref}</span>}
                   </h3>
                   <div className="flex flex-wrap gap-2 mb-3">
                     <span className="px-2 py-1 text-xs bg-[var(--accent-primary)]/10 text-[var(--accent-primary)] rounded-full border border-[var(--accent-primary)]/20">
@@ -235,12 +247,12 @@ export default function ProcessedProjects({
                   <FaTimes className="h-4 w-4" />
                 </button>
                 <Link
-                  href={`/${project.owner}/${project.repo}?type=${project.repo_type}&language=${project.language}`}
+                  href={getProjectHref(project)}
                   className="flex items-center justify-between"
                 >
                   <div className="flex-1 min-w-0">
                     <h3 className="text-base font-medium text-[var(--link-color)] hover:underline truncate">
-                      {project.name}
+                      {project.name}{project.ref && <span className="text-[var(--muted)] font-normal"> @ {project.ref}</span>}
                     </h3>
                     <p className="text-xs text-[var(--muted)] mt-1">
                       {t('processedOn')} {new Date(project.submittedAt).toLocaleDateString()} • {project.repo_type} • {project.language}
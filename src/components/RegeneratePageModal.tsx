@@ -0,0 +1,130 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { useLanguage } from '@/contexts/LanguageContext';
+import UserSelector from './UserSelector';
+import { ModelSelection } from '@/utils/chatStream';
+
+interface RegeneratePageModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  pageTitle: string;
+  /** Model of the wiki, preselected */
+  model: ModelSelection;
+  onRegenerate: (instructions: string, model: ModelSelection) => void;
+}
+
+/**
+ * Asks for optional instructions and a model to regenerate a single wiki page with.
+ */
+export default function RegeneratePageModal({
+  isOpen,
+  onClose,
+  pageTitle,
+  model,
+  onRegenerate
+}: RegeneratePageModalProps) {
+  const { messages: t } = useLanguage();
+
+  // Local state for form values (to only apply changes when the user clicks "Regenerate")
+  const [instructions, setInstructions] = useState('');
+  const [localProvider, setLocalProvider] = useState(model.provider);
+  const [localModel, setLocalModel] = useState(model.model);
+  const [localIsCustomModel, setLocalIsCustomModel] = useState(model.isCustomModel);
+  const [localCustomModel, setLocalCustomModel] = useState(model.customModel);
+
+  // Reset local state when modal is opened
+  useEffect(() => {
+    if (isOpen) {
+      setInstructions('');
+      setLocalProvider(model.provider);
+      setLocalModel(model.model);
+      setLocalIsCustomModel(model.isCustomModel);
+      setLocalCustomModel(model.customModel);
+    }
+  }, [isOpen, model]);
+
+  const handleRegenerate = () => {
+    onRegenerate(instructions.trim(), {
+      provider: localProvider,
+      model: localModel,
+      isCustomModel: localIsCustomModel,
+      customModel: localCustomModel
+    });
+    onClose();
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex min-h-screen items-center justify-center p-4 text-center bg-black/50">
+        <div className="relative transform overflow-hidden rounded-lg bg-[var(--card-bg)] text-left shadow-xl transition-all sm:my-8 sm:max-w-lg sm:w-full">
+          {/* Modal header with close button */}
+          <div className="flex items-center justify-between px-6 py-4 border-b border-[var(--border-color)]">
+            <h3 className="text-lg font-medium text-[var(--accent-primary)] truncate">
+              {(t.repoPage?.regeneratePageTitle || 'Regenerate "{title}"').replace('{title}', pageTitle)}
+            </h3>
+            <button
+              type="button"
+              onClick={onClose}
+              className="text-[var(--muted)] hover:text-[var(--foreground)] focus:outline-none transition-colors"
+            >
+              <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+
+          {/* Modal body */}
+          <div className="p-6">
+            <label htmlFor="regenerateInstructions" className="block text-sm font-medium text-[var(--foreground)] mb-2">
+              {t.repoPage?.regenerateInstructions || 'Instructions (optional)'}
+            </label>
+            <textarea
+              id="regenerateInstructions"
+              value={instructions}
+              onChange={(e) => setInstructions(e.target.value)}
+              rows={3}
+              className="input-japanese block w-full px-3 py-2 text-sm rounded-md bg-transparent text-[var(--foreground)] focus:outline-none focus:border-[var(--accent-primary)]"
+              placeholder={t.repoPage?.regenerateInstructionsPlaceholder || 'e.g. focus on error handling, add a sequence diagram of the login'}
+            />
+
+            {/* Divider */}
+            <div className="my-4 border-t border-[var(--border-color)]/30"></div>
+
+            {/* Model Selector */}
+            <UserSelector
+              provider={localProvider}
+              setProvider={setLocalProvider}
+              model={localModel}
+              setModel={setLocalModel}
+              isCustomModel={localIsCustomModel}
+              setIsCustomModel={setLocalIsCustomModel}
+              customModel={localCustomModel}
+              setCustomModel={setLocalCustomModel}
+            />
+          </div>
+
+          {/* Modal footer */}
+          <div className="flex items-center justify-end gap-2 px-6 py-4 border-t border-[var(--border-color)]">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium rounded-md border border-[var(--border-color)]/50 text-[var(--muted)] bg-transparent hover:bg-[var(--background)] hover:text-[var(--foreground)] transition-colors"
+            >
+              {t.common?.cancel || 'Cancel'}
+            </button>
+            <button
+              type="button"
+              onClick={handleRegenerate}
+              className="px-4 py-2 text-sm font-medium rounded-md border border-transparent bg-[var(--accent-primary)]/90 text-white hover:bg-[var(--accent-primary)] transition-colors"
+            >
+              {t.repoPage?.regeneratePage || 'Regenerate Page'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
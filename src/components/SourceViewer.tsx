@@ -0,0 +1,118 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
+import { tomorrow } from 'react-syntax-highlighter/dist/cjs/styles/prism';
+import { FaExternalLinkAlt, FaTimes } from 'react-icons/fa';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { getSourceLanguage, SourceCitation } from '@/utils/wiki/citations';
+
+interface SourceViewerProps {
+  citation: SourceCitation;
+  /** Web URL of the file on the repository host, if it has one */
+  fileUrl?: string;
+  loadFile: (filePath: string) => Promise<string>;
+  onClose: () => void;
+}
+
+/**
+ * Side panel showing a cited source file with its cited lines highlighted and scrolled into view.
+ */
+const SourceViewer: React.FC<SourceViewerProps> = ({ citation, fileUrl, loadFile, onClose }) => {
+  const { messages: t } = useLanguage();
+  const [content, setContent] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const codeRef = useRef<HTMLDivElement>(null);
+  const { filePath, startLine, endLine } = citation;
+
+  useEffect(() => {
+    let isCurrent = true;
+    setContent(null);
+    setError(null);
+    loadFile(filePath)
+      .then(text => isCurrent && setContent(text))
+      .catch(err => isCurrent && setError(err instanceof Error ? err.message : 'An unknown error occurred'));
+    return () => { isCurrent = false; };
+  }, [filePath, loadFile]);
+
+  useEffect(() => {
+    if (content !== null && startLine) {
+      codeRef.current?.querySelector(`[data-line="${startLine}"]`)?.scrollIntoView({ block: 'center' });
+    }
+  }, [content, startLine]);
+
+  useEffect(() => {
+    const handleEsc = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        onClose();
+      }
+    };
+    window.addEventListener('keydown', handleEsc);
+    return () => window.removeEventListener('keydown', handleEsc);
+  }, [onClose]);
+
+  const isCited = (line: number) => startLine !== undefined && line >= startLine && line <= (endLine ?? startLine);
+
+  return (
+    <aside className="fixed inset-y-0 right-0 z-40 w-full md:w-[min(48rem,60vw)] flex flex-col bg-[var(--card-bg)] border-l border-[var(--border-color)] shadow-xl">
+      <div className="flex items-center gap-3 px-4 py-3 border-b border-[var(--border-color)]">
+        <div className="flex-1 min-w-0">
+          <h3 className="text-sm font-mono font-medium text-[var(--foreground)] truncate" title={filePath}>{filePath}</h3>
+          {startLine && (
+            <p className="text-xs text-[var(--muted)]">
+              {(startLine === endLine
+                ? (t.repoPage?.citedLine || 'Line {start}')
+                : (t.repoPage?.citedLines || 'Lines {start}–{end}'))
+                .replace('{start}', startLine.toString())
+                .replace('{end}', (endLine ?? startLine).toString())}
+            </p>
+          )}
+        </div>
+        {fileUrl && /^https?:/.test(fileUrl) && (
+          <a
+            href={fileUrl}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="flex-shrink-0 inline-flex items-center gap-1.5 text-xs text-[var(--muted)] hover:text-[var(--accent-primary)]"
+          >
+            <FaExternalLinkAlt />
+            {t.repoPage?.openOnHost || 'Open in repository'}
+          </a>
+        )}
+        <button
+          onClick={onClose}
+          className="flex-shrink-0 p-1 text-[var(--muted)] hover:text-[var(--foreground)]"
+          title={t.common?.close || 'Close'}
+        >
+          <FaTimes />
+        </button>
+      </div>
+
+      <div ref={codeRef} className="flex-1 overflow-auto text-xs">
+        {error ? (
+          <p className="p-4 text-[var(--highlight)]">
+            {(t.repoPage?.sourceLoadFailed || 'Could not load {file}: {error}').replace('{file}', filePath).replace('{error}', error)}
+          </p>
+        ) : content === null ? (
+          <p className="p-4 text-[var(--muted)]">{t.repoPage?.loadingSource || 'Loading source...'}</p>
+        ) : (
+          <SyntaxHighlighter
+            language={getSourceLanguage(filePath)}
+            style={tomorrow}
+            customStyle={{ margin: 0, borderRadius: 0, minHeight: '100%' }}
+            showLineNumbers={true}
+            wrapLines={true}
+            lineProps={(line: number) => ({
+              'data-line': line,
+              style: { display: 'block', backgroundColor: isCited(line) ? 'rgba(255, 213, 79, 0.15)' : undefined }
+            } as React.HTMLProps<HTMLElement>)}
+          >
+            {content}
+          </SyntaxHighlighter>
+        )}
+      </div>
+    </aside>
+  );
+};
+
+export default SourceViewer;
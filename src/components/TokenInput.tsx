@@ -2,10 +2,19 @@
 
 import React from 'react';
 import { useLanguage } from '@/contexts/LanguageContext';
+import { RepositoryPlatform } from '@/types/repoinfo';
+
+const PLATFORM_NAMES: Record<RepositoryPlatform, string> = {
+  github: 'GitHub',
+  gitlab: 'GitLab',
+  bitbucket: 'Bitbucket',
+  azure: 'Azure DevOps',
+  gitea: 'Gitea / Forgejo'
+};
 
 interface TokenInputProps {
-  selectedPlatform: 'github' | 'gitlab' | 'bitbucket';
-  setSelectedPlatform: (value: 'github' | 'gitlab' | 'bitbucket') => void;
+  selectedPlatform: RepositoryPlatform;
+  setSelectedPlatform: (value: RepositoryPlatform) => void;
   accessToken: string;
   setAccessToken: (value: string) => void;
   showTokenSection?: boolean;
@@ -24,7 +33,7 @@ export default function TokenInput({
 }: TokenInputProps) {
   const { messages: t } = useLanguage();
 
-  const platformName = selectedPlatform.charAt(0).toUpperCase() + selectedPlatform.slice(1);
+  const platformName = PLATFORM_NAMES[selectedPlatform] ?? selectedPlatform;
 
   return (
     <div className="mb-4">
@@ -45,37 +54,20 @@ export default function TokenInput({
               <label className="block text-xs font-medium text-[var(--foreground)] mb-2">
                 {t.form?.selectPlatform || 'Select Platform'}
               </label>
-              <div className="flex gap-2">
-                <button
-                  type="button"
-                  onClick={() => setSelectedPlatform('github')}
-                  className={`flex-1 flex items-center justify-center gap-2 px-3 py-2 rounded-md border transition-all ${selectedPlatform === 'github'
-                    ? 'bg-[var(--accent-primary)]/10 border-[var(--accent-primary)] text-[var(--accent-primary)] shadow-sm'
-                    : 'border-[var(--border-color)] text-[var(--foreground)] hover:bg-[var(--background)]'
-                    }`}
-                >
-                  <span className="text-sm">GitHub</span>
-                </button>
-                <button
-                  type="button"
-                  onClick={() => setSelectedPlatform('gitlab')}
-                  className={`flex-1 flex items-center justify-center gap-2 px-3 py-2 rounded-md border transition-all ${selectedPlatform === 'gitlab'
-                    ? 'bg-[var(--accent-primary)]/10 border-[var(--accent-primary)] text-[var(--accent-primary)] shadow-sm'
-                    : 'border-[var(--border-color)] text-[var(--foreground)] hover:bg-[var(--background)]'
-                    }`}
-                >
-                  <span className="text-sm">GitLab</span>
-                </button>
-                <button
-                  type="button"
-                  onClick={() => setSelectedPlatform('bitbucket')}
-                  className={`flex-1 flex items-center justify-center gap-2 px-3 py-2 rounded-md border transition-all ${selectedPlatform === 'bitbucket'
-                    ? 'bg-[var(--accent-primary)]/10 border-[var(--accent-primary)] text-[var(--accent-primary)] shadow-sm'
-                    : 'border-[var(--border-color)] text-[var(--foreground)] hover:bg-[var(--background)]'
-                    }`}
-                >
-                  <span className="text-sm">Bitbucket</span>
-                </button>
+              <div className="flex flex-wrap gap-2">
+                {(Object.keys(PLATFORM_NAMES) as RepositoryPlatform[]).map(platform => (
+                  <button
+                    key={platform}
+                    type="button"
+                    onClick={() => setSelectedPlatform(platform)}
+                    className={`flex-1 flex items-center justify-center gap-2 px-3 py-2 rounded-md border transition-all whitespace-nowrap ${selectedPlatform === platform
+                      ? 'bg-[var(--accent-primary)]/10 border-[var(--accent-primary)] text-[var(--accent-primary)] shadow-sm'
+                      : 'border-[var(--border-color)] text-[var(--foreground)] hover:bg-[var(--background)]'
+                      }`}
+                  >
+                    <span className="text-sm">{PLATFORM_NAMES[platform]}</span>
+                  </button>
+                ))}
               </div>
             </div>
           )}
@@ -0,0 +1,142 @@
+'use client';
+
+import React, { useDeferredValue, useMemo, useState } from 'react';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { FaLock, FaLockOpen, FaSave, FaTimes } from 'react-icons/fa';
+import Markdown from './Markdown';
+import { WikiPage } from '@/types/wiki/wikipage';
+import { getSectionHeadings } from '@/utils/wiki/lockedContent';
+
+interface WikiPageEditorProps {
+  page: WikiPage;
+  /** Stores the edited page; a rejection keeps the editor open and shows the error */
+  onSave: (page: WikiPage) => Promise<void>;
+  onCancel: () => void;
+}
+
+/**
+ * Markdown editor for a wiki page with a live preview, including Mermaid diagrams.
+ * The page or single sections of it can be locked, so they are kept when the wiki is generated again.
+ */
+const WikiPageEditor: React.FC<WikiPageEditorProps> = ({ page, onSave, onCancel }) => {
+  const { messages: t } = useLanguage();
+  const [content, setContent] = useState(page.content);
+  const [locked, setLocked] = useState(!!page.locked);
+  const [lockedSections, setLockedSections] = useState<string[]>(page.lockedSections ?? []);
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  // Rendering diagrams on every keystroke would make typing sluggish
+  const previewContent = useDeferredValue(content);
+  const headings = useMemo(() => getSectionHeadings(content), [content]);
+
+  const toggleSection = (heading: string) => {
+    setLockedSections(prev => prev.includes(heading) ? prev.filter(h => h !== heading) : [...prev, heading]);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setSaveError(null);
+    try {
+      await onSave({
+        ...page,
+        content,
+        locked,
+        // Drop the locks of sections whose heading was removed
+        lockedSections: lockedSections.filter(heading => headings.includes(heading)),
+        editedAt: new Date().toISOString()
+      });
+    } catch (err) {
+      console.error('Error saving page:', err);
+      setSaveError(err instanceof Error ? err.message : 'An unknown error occurred');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex flex-wrap items-center gap-3 text-xs">
+        <label
+          className="inline-flex items-center gap-2 cursor-pointer text-[var(--foreground)]"
+          title={t.repoPage?.lockPageHint || 'Locked pages are kept as they are when the wiki is refreshed or regenerated'}
+        >
+          <input type="checkbox" checked={locked} onChange={(e) => setLocked(e.target.checked)} />
+          <FaLock className="text-[var(--muted)]" />
+          {t.repoPage?.lockPage || 'Lock page'}
+        </label>
+        <div className="flex-1" />
+        <button
+          onClick={onCancel}
+          disabled={isSaving}
+          className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-md border border-[var(--border-color)] text-[var(--foreground)] hover:bg-[var(--background)] disabled:opacity-50"
+        >
+          <FaTimes />
+          {t.repoPage?.cancel || 'Cancel'}
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={isSaving}
+          className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-md bg-[var(--accent-primary)] text-white hover:bg-[var(--accent-primary)]/90 disabled:opacity-50"
+        >
+          <FaSave />
+          {isSaving ? (t.repoPage?.savingPage || 'Saving...') : (t.repoPage?.savePage || 'Save')}
+        </button>
+      </div>
+
+      {saveError && (
+        <div className="p-2 rounded-md border border-[var(--highlight)]/30 bg-[var(--highlight)]/5 text-xs text-[var(--highlight)]">
+          {saveError}
+        </div>
+      )}
+
+      {!locked && headings.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 text-xs">
+          <span
+            className="text-[var(--muted)]"
+            title={t.repoPage?.lockSectionsHint || 'Locked sections are kept when the page is regenerated'}
+          >
+            {t.repoPage?.lockSections || 'Lock sections:'}
+          </span>
+          {headings.map((heading, index) => {
+            const isLocked = lockedSections.includes(heading);
+            return (
+              <button
+                key={`${heading}-${index}`}
+                onClick={() => toggleSection(heading)}
+                className={`inline-flex items-center gap-1 px-2 py-1 rounded-md border transition-colors ${
+                  isLocked
+                    ? 'bg-[var(--accent-primary)]/10 border-[var(--accent-primary)]/30 text-[var(--accent-primary)]'
+                    : 'border-[var(--border-color)] text-[var(--muted)] hover:text-[var(--foreground)]'
+                }`}
+              >
+                {isLocked ? <FaLock /> : <FaLockOpen />}
+                {heading}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <div className="flex flex-col gap-1">
+          <span className="text-xs text-[var(--muted)]">{t.repoPage?.editorMarkdown || 'Markdown'}</span>
+          <textarea
+            value={content}
+            onChange={(e) => setContent(e.target.value)}
+            spellCheck={false}
+            className="w-full min-h-[60vh] p-3 rounded-md border border-[var(--border-color)] bg-[var(--background)] text-[var(--foreground)] font-mono text-xs leading-relaxed resize-y focus:outline-none focus:border-[var(--accent-primary)]"
+          />
+        </div>
+        <div className="flex flex-col gap-1 min-w-0">
+          <span className="text-xs text-[var(--muted)]">{t.repoPage?.editorPreview || 'Preview'}</span>
+          <div className="min-h-[60vh] max-h-[80vh] overflow-y-auto p-3 rounded-md border border-[var(--border-color)] prose prose-sm max-w-none">
+            <Markdown content={previewContent} />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WikiPageEditor;
@@ -0,0 +1,251 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { FaGripVertical, FaPlus, FaTrash } from 'react-icons/fa';
+import { WikiPage } from '@/types/wiki/wikipage';
+import { WikiStructure } from '@/types/wiki/wikistructure';
+import {
+  addPage,
+  addSection,
+  hasSections,
+  movePage,
+  removePage,
+  removeSection,
+  renamePage,
+  renameSection
+} from '@/utils/wiki/structureEditor';
+
+interface WikiStructureEditorProps {
+  structure: WikiStructure;
+  /** Called with the structure after every edit */
+  onChange: (structure: WikiStructure) => void;
+  /** Called with the structure including a new page, which still has to be generated */
+  onAddPage: (structure: WikiStructure, page: WikiPage) => void;
+  onClose: () => void;
+}
+
+const inputClassName = 'flex-1 min-w-0 bg-transparent px-1 py-0.5 rounded border border-transparent hover:border-[var(--border-color)] focus:border-[var(--accent-primary)] focus:outline-none';
+
+/**
+ * Editable navigation tree of a wiki: pages are reordered and moved between sections by drag and
+ * drop, pages and sections are renamed in place, and new pages are added by title and source files.
+ */
+const WikiStructureEditor: React.FC<WikiStructureEditorProps> = ({ structure, onChange, onAddPage, onClose }) => {
+  const { messages: t } = useLanguage();
+  const [draggedPageId, setDraggedPageId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const [newTitle, setNewTitle] = useState('');
+  const [newFilePaths, setNewFilePaths] = useState('');
+  const [newImportance, setNewImportance] = useState<WikiPage['importance']>('medium');
+  const [newSectionId, setNewSectionId] = useState(structure.rootSections[0] ?? '');
+  const withSections = hasSections(structure);
+
+  const handleDrop = (event: React.DragEvent, sectionId: string | undefined, beforePageId?: string) => {
+    event.preventDefault();
+    event.stopPropagation();
+    if (draggedPageId) {
+      onChange(movePage(structure, draggedPageId, sectionId, beforePageId));
+    }
+    setDraggedPageId(null);
+    setDropTarget(null);
+  };
+
+  const dropHandlers = (targetKey: string, sectionId: string | undefined, beforePageId?: string) => ({
+    onDragOver: (event: React.DragEvent) => {
+      if (!draggedPageId) return;
+      event.preventDefault();
+      event.stopPropagation();
+      setDropTarget(targetKey);
+    },
+    onDrop: (event: React.DragEvent) => handleDrop(event, sectionId, beforePageId)
+  });
+
+  const commitTitle = (title: string, previousTitle: string, rename: (title: string) => void) => {
+    const trimmed = title.trim();
+    if (trimmed && trimmed !== previousTitle) {
+      rename(trimmed);
+    }
+  };
+
+  const handleRemovePage = (page: WikiPage) => {
+    const confirmation = (t.repoPage?.confirmRemovePage || 'Remove the page "{title}" from the wiki?').replace('{title}', page.title);
+    if (window.confirm(confirmation)) {
+      onChange(removePage(structure, page.id));
+    }
+  };
+
+  const handleAddPage = (event: React.FormEvent) => {
+    event.preventDefault();
+    const title = newTitle.trim();
+    if (!title) return;
+    const { structure: updated, page } = addPage(structure, {
+      title,
+      filePaths: newFilePaths.split('\n').map(path => path.trim()).filter(Boolean),
+      importance: newImportance,
+      sectionId: newSectionId || undefined
+    });
+    onAddPage(updated, page);
+    setNewTitle('');
+    setNewFilePaths('');
+  };
+
+  const renderPage = (page: WikiPage, sectionId?: string) => (
+    <li
+      key={page.id}
+      draggable
+      onDragStart={(event) => {
+        event.dataTransfer.effectAllowed = 'move';
+        setDraggedPageId(page.id);
+      }}
+      onDragEnd={() => {
+        setDraggedPageId(null);
+        setDropTarget(null);
+      }}
+      {...dropHandlers(`page:${page.id}`, sectionId, page.id)}
+      className={`flex items-center gap-1 px-1 py-1 rounded-md text-sm text-[var(--foreground)] ${
+        dropTarget === `page:${page.id}` ? 'border-t-2 border-[var(--accent-primary)]' : 'border-t-2 border-transparent'
+      } ${draggedPageId === page.id ? 'opacity-50' : ''}`}
+    >
+      <FaGripVertical className="flex-shrink-0 text-xs text-[var(--muted)] cursor-grab" />
+      <input
+        key={page.title}
+        defaultValue={page.title}
+        onBlur={(e) => commitTitle(e.target.value, page.title, title => onChange(renamePage(structure, page.id, title)))}
+        onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+        className={inputClassName}
+        aria-label={t.repoPage?.pageTitle || 'Page title'}
+      />
+      <button
+        onClick={() => handleRemovePage(page)}
+        className="flex-shrink-0 p-1 text-xs text-[var(--muted)] hover:text-[var(--highlight)]"
+        title={t.repoPage?.removePage || 'Remove page'}
+      >
+        <FaTrash />
+      </button>
+    </li>
+  );
+
+  const renderSection = (sectionId: string, level = 0): React.ReactNode => {
+    const section = structure.sections.find(s => s.id === sectionId);
+    if (!section) return null;
+    const isEmpty = section.pages.length === 0 && (section.subsections?.length ?? 0) === 0;
+
+    return (
+      <div key={sectionId} className={`mb-2 ${level > 0 ? 'ml-3 pl-2 border-l border-[var(--border-color)]/30' : ''}`}>
+        <div
+          {...dropHandlers(`section:${sectionId}`, sectionId)}
+          className={`flex items-center gap-1 px-1 py-1 rounded-md text-sm font-medium text-[var(--foreground)] bg-[var(--background)]/50 ${
+            dropTarget === `section:${sectionId}` ? 'ring-1 ring-[var(--accent-primary)]' : ''
+          }`}
+        >
+          <input
+            key={section.title}
+            defaultValue={section.title}
+            onBlur={(e) => commitTitle(e.target.value, section.title, title => onChange(renameSection(structure, sectionId, title)))}
+            onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+            className={inputClassName}
+            aria-label={t.repoPage?.sectionTitle || 'Section title'}
+          />
+          {isEmpty && (
+            <button
+              onClick={() => onChange(removeSection(structure, sectionId))}
+              className="flex-shrink-0 p-1 text-xs text-[var(--muted)] hover:text-[var(--highlight)]"
+              title={t.repoPage?.removeSection || 'Remove section'}
+            >
+              <FaTrash />
+            </button>
+          )}
+        </div>
+        <ul className="ml-2 mt-1 space-y-0.5">
+          {section.pages.map(pageId => {
+            const page = structure.pages.find(p => p.id === pageId);
+            return page ? renderPage(page, sectionId) : null;
+          })}
+        </ul>
+        {section.subsections?.map(subsectionId => renderSection(subsectionId, level + 1))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-[var(--muted)]">
+        {t.repoPage?.structureEditorHint || 'Drag pages to reorder them or move them to another section. Click a title to rename it.'}
+      </p>
+
+      {withSections ? (
+        <div>
+          {structure.rootSections.map(sectionId => renderSection(sectionId))}
+          <button
+            onClick={() => onChange(addSection(structure, t.repoPage?.newSection || 'New Section').structure)}
+            className="mt-1 inline-flex items-center gap-1.5 text-xs text-[var(--accent-primary)] hover:underline"
+          >
+            <FaPlus />
+            {t.repoPage?.addSection || 'Add Section'}
+          </button>
+        </div>
+      ) : (
+        <ul className="space-y-0.5" {...dropHandlers('end', undefined)}>
+          {structure.pages.map(page => renderPage(page))}
+        </ul>
+      )}
+
+      <form onSubmit={handleAddPage} className="pt-3 border-t border-[var(--border-color)] space-y-2 text-xs">
+        <h4 className="font-semibold text-[var(--foreground)]">{t.repoPage?.addPage || 'Add Page'}</h4>
+        <input
+          value={newTitle}
+          onChange={(e) => setNewTitle(e.target.value)}
+          placeholder={t.repoPage?.pageTitle || 'Page title'}
+          className="input-japanese block w-full px-2 py-1.5 rounded-md bg-transparent text-[var(--foreground)] focus:outline-none focus:border-[var(--accent-primary)]"
+        />
+        <textarea
+          value={newFilePaths}
+          onChange={(e) => setNewFilePaths(e.target.value)}
+          rows={3}
+          placeholder={t.repoPage?.pageFilePaths || 'Source files, one path per line'}
+          className="input-japanese block w-full px-2 py-1.5 rounded-md bg-transparent text-[var(--foreground)] font-mono focus:outline-none focus:border-[var(--accent-primary)]"
+        />
+        <div className="flex gap-2">
+          <select
+            value={newImportance}
+            onChange={(e) => setNewImportance(e.target.value as WikiPage['importance'])}
+            className="input-japanese px-2 py-1.5 rounded-md bg-transparent text-[var(--foreground)]"
+          >
+            <option value="high">{t.repoPage?.importanceHigh || 'High importance'}</option>
+            <option value="medium">{t.repoPage?.importanceMedium || 'Medium importance'}</option>
+            <option value="low">{t.repoPage?.importanceLow || 'Low importance'}</option>
+          </select>
+          {withSections && (
+            <select
+              value={newSectionId}
+              onChange={(e) => setNewSectionId(e.target.value)}
+              className="input-japanese flex-1 min-w-0 px-2 py-1.5 rounded-md bg-transparent text-[var(--foreground)]"
+            >
+              {structure.sections.map(section => (
+                <option key={section.id} value={section.id}>{section.title}</option>
+              ))}
+            </select>
+          )}
+        </div>
+        <button
+          type="submit"
+          disabled={!newTitle.trim()}
+          className="w-full inline-flex items-center justify-center gap-1.5 px-3 py-1.5 rounded-md bg-[var(--accent-primary)] text-white hover:bg-[var(--accent-primary)]/90 disabled:opacity-50"
+        >
+          <FaPlus />
+          {t.repoPage?.addAndGeneratePage || 'Add and Generate Page'}
+        </button>
+      </form>
+
+      <button
+        onClick={onClose}
+        className="w-full px-3 py-1.5 text-xs rounded-md border border-[var(--border-color)] text-[var(--foreground)] hover:bg-[var(--background)]"
+      >
+        {t.repoPage?.doneEditingStructure || 'Done'}
+      </button>
+    </div>
+  );
+};
+
+export default WikiStructureEditor;
@@ -0,0 +1,2 @@
+/** Receives the log messages of a module, e.g. to silence them in the CLI; defaults to the console */
+export type Logger = Pick<Console, 'log' | 'warn' | 'error'>;
@@ -5,6 +5,11 @@ export interface RepoInfo {
     token: string | null;
     localPath: string | null;
     repoUrl: string | null;
+    /** Branch, tag or commit the wiki is generated for, instead of the default branch */
+    ref?: string | null;
 }
 
+/** Repository hosts that access tokens can be entered for */
+export type RepositoryPlatform = 'github' | 'gitlab' | 'bitbucket' | 'azure' | 'gitea';
+
 export default RepoInfo;
\ No newline at end of file
@@ -0,0 +1,26 @@
+/**
+ * @fileoverview This file defines the result of verifying the source citations of a wiki page.
+ */
+export type CitationProblem = 'missingFile' | 'invalidLines';
+
+export interface CitationIssue {
+  /** Text and target of the citation link, as written in the page */
+  text: string;
+  href: string;
+  filePath: string;
+  startLine?: number;
+  endLine?: number;
+  problem: CitationProblem;
+  /** Number of lines of the cited file, for line ranges outside of it */
+  lineCount?: number;
+}
+
+export interface CitationCheck {
+  /** ISO timestamp of the verification */
+  checkedAt: string;
+  /** Number of citations in the page */
+  total: number;
+  /** Number of citations of existing files and lines */
+  valid: number;
+  issues: CitationIssue[];
+}
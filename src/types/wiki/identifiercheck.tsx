@@ -0,0 +1,11 @@
+/**
+ * @fileoverview This file defines the result of looking up the code identifiers of a wiki page in its source files.
+ */
+export interface IdentifierCheck {
+  /** ISO timestamp of the check */
+  checkedAt: string;
+  /** Number of distinct code identifiers the page mentions */
+  total: number;
+  /** Identifiers found in none of the source files of the page */
+  unverified: string[];
+}
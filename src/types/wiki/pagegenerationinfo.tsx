@@ -0,0 +1,15 @@
+/**
+ * @fileoverview This file defines how and from which source a wiki page was generated.
+ */
+export interface PageGenerationInfo {
+  /** ISO timestamp of the generation */
+  generatedAt: string;
+  provider: string;
+  model: string;
+  /** Commit of the repository the page was generated from */
+  commitSha?: string;
+  /** Hash of the prompt templates, see getPromptTemplateHash */
+  promptHash: string;
+  /** Additional instructions the page was regenerated with */
+  instructions?: string;
+}
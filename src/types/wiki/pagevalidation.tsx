@@ -0,0 +1,17 @@
+/**
+ * @fileoverview This file defines the result of checking the content of a wiki page against the rules of the page prompt.
+ */
+export interface PageValidation {
+  /** Whether the page has no errors; warnings do not fail a page */
+  passed: boolean;
+  errors: string[];
+  warnings: string[];
+  stats: {
+    hasSummaryBlock: boolean;
+    sourceFileCount: number;
+    hasMermaidDiagrams: boolean;
+    usesNewSyntax: boolean;
+    hasProperCitations: boolean;
+    hasTitle: boolean;
+  };
+}
@@ -0,0 +1,83 @@
+import { RepoInfo } from "../repoinfo";
+import { ModelSelection, FileFilters } from "@/utils/chatStream";
+import { FilePathCorrection } from "@/utils/wiki/filePathValidator";
+import { WikiStructureFormat } from "@/utils/wiki/structureSchema";
+import { WikiPage } from "./wikipage";
+import { WikiStructure } from "./wikistructure";
+
+/**
+ * @fileoverview This file defines the wiki generation jobs that run on the server, and the events
+ * they stream to the pages attached to them.
+ */
+
+export type WikiJobStatus = 'running' | 'completed' | 'failed' | 'cancelled';
+
+export type WikiJobStage = 'fetchingStructure' | 'determiningStructure' | 'generatingPages';
+
+/** Body of POST /api/wiki/jobs */
+export interface WikiJobRequest {
+  repo: RepoInfo;
+  language: string;
+  isComprehensive: boolean;
+  model: ModelSelection;
+  filters?: FileFilters;
+  structureFormat?: WikiStructureFormat;
+  /** Generate pages that fail validation once more, see WikiGeneratorOptions */
+  retryInvalidPages?: boolean;
+  /** Share of unverified code identifiers above which a page is generated once more, see WikiGeneratorOptions */
+  maxUnverifiedIdentifiers?: number;
+  /** Generate only the pages missing from a partially generated wiki in the cache */
+  resume?: boolean;
+  /** Pages with locked content from the wiki generated before, kept in the new wiki */
+  lockedPages?: WikiPage[];
+}
+
+/** State of a job, as sent to pages attaching to it */
+export interface WikiJobSnapshot {
+  id: string;
+  status: WikiJobStatus;
+  /** Repository of the job, without its access token */
+  repo: Omit<RepoInfo, 'token'>;
+  language: string;
+  isComprehensive: boolean;
+  provider: string;
+  model: string;
+  /** ISO timestamp of the start of the job */
+  startedAt: string;
+  stage: WikiJobStage;
+  structure?: WikiStructure;
+  /** Generated pages, and placeholders of the pages being generated */
+  pages: Record<string, WikiPage>;
+  pagesInProgress: string[];
+  queuedPageIds: string[];
+  pageRetries: Record<string, number>;
+  filePathCorrections: FilePathCorrection[];
+  /** Commit and ref the wiki is generated from */
+  commitSha?: string;
+  branch?: string;
+  error?: string;
+  /** Whether the error comes from a misconfigured embedder */
+  embeddingError?: boolean;
+}
+
+/** Events streamed by GET /api/wiki/jobs/{id}/events */
+export type WikiJobEvent =
+  | { type: 'snapshot'; job: WikiJobSnapshot }
+  | { type: 'stage'; stage: WikiJobStage }
+  | {
+      type: 'structure';
+      structure: WikiStructure;
+      filePathCorrections: FilePathCorrection[];
+      commitSha?: string;
+      branch?: string;
+      /** Pages generated before, when a partially generated wiki is resumed */
+      pages?: Record<string, WikiPage>;
+    }
+  | { type: 'pagesScheduled'; pageIds: string[] }
+  | { type: 'pageStart'; pageId: string }
+  | { type: 'pageComplete'; page: WikiPage }
+  | { type: 'pageError'; pageId: string; message: string }
+  | { type: 'pageRetry'; pageId: string; attempt: number }
+  | { type: 'pageCancelled'; page: WikiPage }
+  | { type: 'queue'; pageIds: string[] }
+  | { type: 'done'; status: Exclude<WikiJobStatus, 'running'>; error?: string; embeddingError?: boolean };
@@ -1,3 +1,8 @@
+import { CitationCheck } from "./citationcheck";
+import { IdentifierCheck } from "./identifiercheck";
+import { PageValidation } from "./pagevalidation";
+import { PageGenerationInfo } from "./pagegenerationinfo";
+
 // Wiki Interfaces
 export interface WikiPage {
   id: string;
@@ -10,4 +15,18 @@ export interface WikiPage {
   parentId?: string;
   isSection?: boolean;
   children?: string[]; // IDs of child pages
+  // Set once the content has been generated
+  generation?: PageGenerationInfo;
+  // ISO timestamp of the last edit in the browser
+  editedAt?: string;
+  // Locked pages are kept when the wiki is generated again
+  locked?: boolean;
+  // Headings of the sections kept when the page is generated again
+  lockedSections?: string[];
+  // Result of verifying the source citations of the content
+  citationCheck?: CitationCheck;
+  // Result of looking up the code identifiers of the content in its source files
+  identifierCheck?: IdentifierCheck;
+  // Result of checking the content against the rules of the page prompt
+  validation?: PageValidation;
 }
\ No newline at end of file
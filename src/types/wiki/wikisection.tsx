@@ -0,0 +1,9 @@
+/**
+ * @fileoverview This file defines a section used to group wiki pages in the navigation tree.
+ */
+export interface WikiSection {
+  id: string;
+  title: string;
+  pages: string[];
+  subsections?: string[];
+}
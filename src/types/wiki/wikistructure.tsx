@@ -1,4 +1,5 @@
 import { WikiPage } from "./wikipage";
+import { WikiSection } from "./wikisection";
 
 /**
  * @fileoverview This file defines the structure of a wiki page and its sections.
@@ -8,4 +9,6 @@ export interface WikiStructure {
     title: string;
     description: string;
     pages: WikiPage[];
-}
\ No newline at end of file
+    sections: WikiSection[];
+    rootSections: string[];
+}
@@ -0,0 +1,236 @@
+/**
+ * Streaming chat completion transport shared by the wiki, slides and workshop pages.
+ * Tries the backend WebSocket first and falls back to the HTTP streaming endpoint.
+ */
+
+import { Logger } from '@/types/logger';
+
+export interface ModelSelection {
+  provider: string;
+  model: string;
+  isCustomModel: boolean;
+  customModel: string;
+}
+
+export interface FileFilters {
+  excludedDirs?: string;
+  excludedFiles?: string;
+  includedDirs?: string;
+  includedFiles?: string;
+}
+
+export interface ChatStreamOptions {
+  /** Base URL of the Python backend, used to derive the WebSocket URL */
+  serverBaseUrl?: string;
+  /** HTTP endpoint used when the WebSocket connection cannot be established */
+  httpEndpoint?: string;
+  /** Short description of the request, used in log messages */
+  label?: string;
+  /** Called for every received chunk with the content accumulated so far */
+  onChunk?: (chunk: string, accumulated: string) => void;
+  /** Aborts the request; the returned promise rejects with an AbortError */
+  signal?: AbortSignal;
+  logger?: Logger;
+}
+
+// Time to wait for the WebSocket connection to open before falling back to HTTP
+const WEBSOCKET_OPEN_TIMEOUT_MS = 5000;
+
+// Helper function to add tokens and other parameters to request body
+export const addTokensToRequestBody = (
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  requestBody: Record<string, any>,
+  token: string,
+  model: ModelSelection,
+  language: string = 'en',
+  filters: FileFilters = {}
+): void => {
+  if (token !== '') {
+    requestBody.token = token;
+  }
+
+  // Add provider-based model selection parameters
+  requestBody.provider = model.provider;
+  requestBody.model = model.model;
+  if (model.isCustomModel && model.customModel) {
+    requestBody.custom_model = model.customModel;
+  }
+
+  requestBody.language = language;
+
+  // Add file filter parameters if provided
+  if (filters.excludedDirs) {
+    requestBody.excluded_dirs = filters.excludedDirs;
+  }
+  if (filters.excludedFiles) {
+    requestBody.excluded_files = filters.excludedFiles;
+  }
+  if (filters.includedDirs) {
+    requestBody.included_dirs = filters.includedDirs;
+  }
+  if (filters.includedFiles) {
+    requestBody.included_files = filters.includedFiles;
+  }
+};
+
+const createAbortError = (): Error => {
+  const error = new Error('Chat completion request was aborted');
+  error.name = 'AbortError';
+  return error;
+};
+
+const streamOverWebSocket = async (
+  wsUrl: string,
+  requestBody: Record<string, unknown>,
+  label: string,
+  onChunk: (chunk: string) => void,
+  logger: Logger,
+  signal?: AbortSignal
+): Promise<void> => {
+  const ws = new WebSocket(wsUrl);
+  const abort = () => ws.close();
+  signal?.addEventListener('abort', abort);
+
+  try {
+    // Wait for the connection to open; a timeout or error triggers the HTTP fallback
+    await new Promise<void>((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        ws.close();
+        reject(new Error('WebSocket connection timeout'));
+      }, WEBSOCKET_OPEN_TIMEOUT_MS);
+
+      ws.onopen = () => {
+        clearTimeout(timeout);
+        logger.log(`WebSocket connection established for ${label}`);
+        ws.send(JSON.stringify(requestBody));
+        resolve();
+      };
+
+      ws.onerror = (error) => {
+        clearTimeout(timeout);
+        logger.error('WebSocket error:', error);
+        reject(new Error('WebSocket connection failed'));
+      };
+    });
+
+    // Collect the response until the server closes the connection
+    await new Promise<void>((resolve, reject) => {
+      ws.onmessage = (event) => {
+        onChunk(String(event.data));
+      };
+
+      ws.onclose = () => {
+        logger.log(`WebSocket connection closed for ${label}`);
+        if (signal?.aborted) {
+          reject(createAbortError());
+        } else {
+          resolve();
+        }
+      };
+
+      ws.onerror = (error) => {
+        logger.error('WebSocket error during message reception:', error);
+        reject(new Error('WebSocket error during message reception'));
+      };
+    });
+  } finally {
+    signal?.removeEventListener('abort', abort);
+  }
+};
+
+const streamOverHttp = async (
+  endpoint: string,
+  requestBody: Record<string, unknown>,
+  onChunk: (chunk: string) => void,
+  logger: Logger,
+  signal?: AbortSignal
+): Promise<void> => {
+  const response = await fetch(endpoint, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(requestBody),
+    signal
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text().catch(() => 'No error details available');
+    logger.error(`API error (${response.status}): ${errorText}`);
+    throw new Error(`Chat completion request failed: ${response.status} - ${response.statusText || errorText}`);
+  }
+
+  const reader = response.body?.getReader();
+  const decoder = new TextDecoder();
+
+  if (!reader) {
+    throw new Error('Failed to get response reader');
+  }
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      onChunk(decoder.decode(value, { stream: true }));
+    }
+    // Ensure final decoding
+    const finalChunk = decoder.decode();
+    if (finalChunk) {
+      onChunk(finalChunk);
+    }
+  } catch (readError) {
+    if (signal?.aborted) {
+      throw createAbortError();
+    }
+    logger.error('Error reading stream:', readError);
+    throw new Error('Error processing response stream');
+  }
+};
+
+/**
+ * Sends a chat completion request and resolves with the full streamed response.
+ * @param requestBody The request body expected by the backend chat endpoints
+ * @param options Transport options and streaming callbacks
+ * @returns The concatenated response text
+ */
+export const streamChatCompletion = async (
+  requestBody: Record<string, unknown>,
+  options: ChatStreamOptions = {}
+): Promise<string> => {
+  const {
+    serverBaseUrl = process.env.SERVER_BASE_URL || 'http://localhost:8001',
+    httpEndpoint = '/api/chat/stream',
+    label = 'chat completion',
+    onChunk,
+    signal,
+    logger = console
+  } = options;
+
+  if (signal?.aborted) {
+    throw createAbortError();
+  }
+
+  let content = '';
+  const handleChunk = (chunk: string) => {
+    content += chunk;
+    onChunk?.(chunk, content);
+  };
+
+  // WebSocket is not available in every runtime (e.g. older Node versions)
+  if (typeof WebSocket !== 'undefined') {
+    try {
+      const wsUrl = `${serverBaseUrl.replace(/^http/, 'ws')}/ws/chat`;
+      await streamOverWebSocket(wsUrl, requestBody, label, handleChunk, logger, signal);
+      return content;
+    } catch (wsError) {
+      if (signal?.aborted) {
+        throw createAbortError();
+      }
+      logger.error('WebSocket error, falling back to HTTP:', wsError);
+      content = '';
+    }
+  }
+
+  await streamOverHttp(httpEndpoint, requestBody, handleChunk, logger, signal);
+  return content;
+};
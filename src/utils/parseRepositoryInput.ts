@@ -0,0 +1,87 @@
+import { extractUrlDomain, extractUrlPath } from '@/utils/urlDecoder';
+
+export interface ParsedRepositoryInput {
+  owner: string;
+  repo: string;
+  type: string;
+  fullPath?: string;
+  localPath?: string;
+}
+
+/**
+ * Parses a repository URL or local folder path and extracts owner and repo.
+ * @returns null when the input is not a supported repository URL or path
+ */
+export const parseRepositoryInput = (input: string): ParsedRepositoryInput | null => {
+  input = input.trim();
+
+  let owner = '', repo = '', type = 'github', fullPath;
+  let localPath: string | undefined;
+
+  // Handle Windows absolute paths (e.g., C:\path\to\folder)
+  const windowsPathRegex = /^[a-zA-Z]:\\(?:[^\\/:*?"<>|\r\n]+\\)*[^\\/:*?"<>|\r\n]*$/;
+  const customGitRegex = /^(?:https?:\/\/)?([^\/]+)\/(.+?)\/([^\/]+)(?:\.git)?\/?$/;
+
+  if (windowsPathRegex.test(input)) {
+    type = 'local';
+    localPath = input;
+    repo = input.split('\\').pop() || 'local-repo';
+    owner = 'local';
+  }
+  // Handle Unix/Linux absolute paths (e.g., /path/to/folder)
+  else if (input.startsWith('/')) {
+    type = 'local';
+    localPath = input;
+    repo = input.split('/').filter(Boolean).pop() || 'local-repo';
+    owner = 'local';
+  }
+  else if (customGitRegex.test(input)) {
+    // Detect repository type based on domain
+    const domain = extractUrlDomain(input);
+    if (domain?.includes('github.com')) {
+      type = 'github';
+    } else if (domain?.includes('gitlab.com') || domain?.includes('gitlab.')) {
+      type = 'gitlab';
+    } else if (domain?.includes('bitbucket.org') || domain?.includes('bitbucket.')) {
+      type = 'bitbucket';
+    } else if (domain?.includes('dev.azure.com') || domain?.includes('.visualstudio.com') || input.includes('/_git/')) {
+      type = 'azure';
+    } else if (domain?.includes('codeberg.org') || domain?.includes('gitea.') || domain?.includes('forgejo.')) {
+      type = 'gitea';
+    } else {
+      type = 'web'; // fallback for other git hosting services
+    }
+
+    fullPath = extractUrlPath(input)?.replace(/\.git$/, '');
+    const parts = fullPath?.split('/') ?? [];
+    // Azure DevOps URL format: https://dev.azure.com/organization/project/_git/repo
+    const gitIndex = type === 'azure' ? parts.indexOf('_git') : -1;
+    if (gitIndex > 0) {
+      repo = parts[gitIndex + 1] || '';
+      owner = parts[gitIndex - 1] || '';
+    } else if (parts.length >= 2) {
+      repo = parts[parts.length - 1] || '';
+      owner = parts[parts.length - 2] || '';
+    }
+  }
+  // Unsupported URL formats
+  else {
+    console.error('Unsupported URL format:', input);
+    return null;
+  }
+
+  if (!owner || !repo) {
+    return null;
+  }
+
+  // Clean values
+  owner = owner.trim();
+  repo = repo.trim();
+
+  // Remove .git suffix if present
+  if (repo.endsWith('.git')) {
+    repo = repo.slice(0, -4);
+  }
+
+  return { owner, repo, type, fullPath, localPath };
+};
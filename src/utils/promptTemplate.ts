@@ -1,8 +1,33 @@
+import { getWikiStructureJsonSchema, WikiStructureFormat } from '@/utils/wiki/structureSchema';
+
+/**
+ * Returns the display name used in prompts for a wiki language code.
+ * Unknown codes fall back to Korean, matching the backend default.
+ */
+export function getLanguageName(language: string): string {
+  return language === 'en' ? 'English' :
+    language === 'ja' ? 'Japanese (日本語)' :
+    language === 'zh' ? 'Mandarin Chinese (中文)' :
+    language === 'zh-tw' ? 'Traditional Chinese (繁體中文)' :
+    language === 'es' ? 'Spanish (Español)' :
+    language === 'kr' ? 'Korean (한국어)' :
+    language === 'vi' ? 'Vietnamese (Tiếng Việt)' :
+    language === "pt-br" ? "Brazilian Portuguese (Português Brasileiro)" :
+    language === "fr" ? "Français (French)" :
+    language === "ru" ? "Русский (Russian)" :
+    'Korean (한국어)';
+}
+
+/**
+ * Builds the prompt for the content of a wiki page.
+ * @param instructions Additional instructions for this page, e.g. when a reader regenerates it
+ */
 export function generatePromptContent(
   pageTitle: string,
   filePaths: string[],
   language: string,
-  generateFileUrl: (path: string) => string
+  generateFileUrl: (path: string) => string,
+  instructions?: string
 ): string {
   return `You are an expert technical writer and software architect with deep expertise in code documentation and visualization.
 Your task is to generate a comprehensive, accurate, and well-structured technical wiki page in Markdown format about a specific feature, system, or module within a given software project.
@@ -210,17 +235,10 @@ Based ONLY on the content of the \`[RELEVANT_SOURCE_FILES]\`:
     *   Provide cross-references between related sections using anchors
     *   Balance detail level - avoid both oversimplification and excessive complexity
 
-IMPORTANT: Generate the content in ${language === 'en' ? 'English' :
-            language === 'ja' ? 'Japanese (日本語)' :
-            language === 'zh' ? 'Mandarin Chinese (中文)' :
-            language === 'zh-tw' ? 'Traditional Chinese (繁體中文)' :
-            language === 'es' ? 'Spanish (Español)' :
-            language === 'kr' ? 'Korean (한국어)' :
-            language === 'vi' ? 'Vietnamese (Tiếng Việt)' : 
-            language === "pt-br" ? "Brazilian Portuguese (Português Brasileiro)" :
-            language === "fr" ? "Français (French)" :
-            language === "ru" ? "Русский (Russian)" :
-            'Korean (한국어)'} language.
+${instructions ? `ADDITIONAL INSTRUCTIONS FOR THIS PAGE (follow them within the rules above):
+${instructions}
+
+` : ''}IMPORTANT: Generate the content in ${getLanguageName(language)} language.
 
 FINAL VERIFICATION CHECKLIST - Before generating any content:
 ☐ Is this information directly visible in the source files?
@@ -242,3 +260,193 @@ Remember:
 ⚠️ REMINDER: Any information not directly from the source files is hallucination and must be avoided.
 `;
 }
+
+// XML format of the wiki structure, parsed by parseWikiStructure
+const xmlStructureFormat = (isComprehensive: boolean): string => `${isComprehensive ? `Return your analysis in the following XML format:
+
+<wiki_structure>
+  <title>[Overall title for the wiki]</title>
+  <description>[Brief description of the repository]</description>
+  <sections>
+    <section id="section-1">
+      <title>[Section title]</title>
+      <pages>
+        <page_ref>page-1</page_ref>
+        <page_ref>page-2</page_ref>
+      </pages>
+      <subsections>
+        <section_ref>section-2</section_ref>
+      </subsections>
+    </section>
+    <!-- More sections as needed -->
+  </sections>
+  <pages>
+    <page id="page-1">
+      <title>[Page title]</title>
+      <description>[Brief description of what this page will cover]</description>
+      <importance>high|medium|low</importance>
+      <relevant_files>
+        <file_path>[Path to a relevant file]</file_path>
+        <!-- More file paths as needed -->
+      </relevant_files>
+      <related_pages>
+        <related>page-2</related>
+        <!-- More related page IDs as needed -->
+      </related_pages>
+      <parent_section>section-1</parent_section>
+    </page>
+    <!-- More pages as needed -->
+  </pages>
+</wiki_structure>
+` : `Return your analysis in the following XML format:
+
+<wiki_structure>
+  <title>[Overall title for the wiki]</title>
+  <description>[Brief description of the repository]</description>
+  <pages>
+    <page id="page-1">
+      <title>[Page title]</title>
+      <description>[Brief description of what this page will cover]</description>
+      <importance>high|medium|low</importance>
+      <relevant_files>
+        <file_path>[Path to a relevant file]</file_path>
+        <!-- More file paths as needed -->
+      </relevant_files>
+      <related_pages>
+        <related>page-2</related>
+        <!-- More related page IDs as needed -->
+      </related_pages>
+    </page>
+    <!-- More pages as needed -->
+  </pages>
+</wiki_structure>
+`}
+
+IMPORTANT FORMATTING INSTRUCTIONS:
+- Return ONLY the valid XML structure specified above
+- DO NOT wrap the XML in markdown code blocks (no \`\`\` or \`\`\`xml)
+- DO NOT include any explanation text before or after the XML
+- Ensure the XML is properly formatted and valid
+- Start directly with <wiki_structure> and end with </wiki_structure>`;
+
+// JSON format of the wiki structure, enforced by providers that support structured output
+const jsonStructureFormat = (isComprehensive: boolean): string => `Return your analysis as a JSON object matching the following JSON Schema:
+
+${JSON.stringify(getWikiStructureJsonSchema(isComprehensive), null, 2)}
+${isComprehensive ? `
+Every page should belong to a section: list its id in the section's "pages" and set its "parentId" to the section id.
+` : ''}
+IMPORTANT FORMATTING INSTRUCTIONS:
+- Return ONLY the JSON object
+- DO NOT wrap the JSON in markdown code blocks (no \`\`\` or \`\`\`json)
+- DO NOT include any explanation text before or after the JSON
+- Start directly with { and end with }`;
+
+/**
+ * Builds the prompt asking the model to design the wiki structure as XML or JSON.
+ * The comprehensive variant additionally asks for sections and subsections.
+ */
+export function generateWikiStructurePrompt(
+  owner: string,
+  repo: string,
+  fileTree: string,
+  readme: string,
+  language: string,
+  isComprehensive: boolean,
+  format: WikiStructureFormat = 'xml'
+): string {
+  return `Analyze this GitHub repository ${owner}/${repo} and create a wiki structure for it.
+
+1. The complete file tree of the project:
+<file_tree>
+${fileTree}
+</file_tree>
+
+2. The README file of the project:
+<readme>
+${readme}
+</readme>
+
+I want to create a wiki for this repository. Determine the most logical structure for a wiki based on the repository's content.
+
+IMPORTANT: The wiki content will be generated in ${getLanguageName(language)} language.
+
+When designing the wiki structure, include pages that would benefit from visual diagrams, such as:
+- Architecture overviews
+- Data flow descriptions
+- Component relationships
+- Process workflows
+- State machines
+- Class hierarchies
+
+${isComprehensive ? `
+Create a structured wiki with the following main sections:
+- Overview (general information about the project)
+- System Architecture (how the system is designed)
+- Core Features (key functionality)
+- Data Management/Flow: If applicable, how data is stored, processed, accessed, and managed (e.g., database schema, data pipelines, state management).
+- Frontend Components (UI elements, if applicable.)
+- Backend Systems (server-side components)
+- Model Integration (AI model connections)
+- Deployment/Infrastructure (how to deploy, what's the infrastructure like)
+- Extensibility and Customization: If the project architecture supports it, explain how to extend or customize its functionality (e.g., plugins, theming, custom modules, hooks).
+
+Each section should contain relevant pages. For example, the "Frontend Components" section might include pages for "Home Page", "Repository Wiki Page", "Ask Component", etc.
+
+` : `
+`}${format === 'json' ? jsonStructureFormat(isComprehensive) : xmlStructureFormat(isComprehensive)}
+
+IMPORTANT:
+1. Create ${isComprehensive ? '8-12' : '4-6'} pages that would make a ${isComprehensive ? 'comprehensive' : 'concise'} wiki for this repository
+2. Each page should focus on a specific aspect of the codebase (e.g., architecture, key features, setup)
+${format === 'json' ? `3. The filePaths should be actual files from the repository that would be used to generate that page
+4. Return ONLY a valid JSON object matching the schema above, with no markdown code block delimiters` : `3. The relevant_files should be actual files from the repository that would be used to generate that page
+4. Return ONLY valid XML with the structure specified above, with no markdown code block delimiters`}`;
+}
+
+/**
+ * Builds the prompt asking the model to fix a Mermaid diagram that fails to render, and nothing else.
+ * @param error The message of the Mermaid parser
+ */
+export function generateMermaidRepairPrompt(chart: string, error: string): string {
+  return `The following Mermaid diagram fails to render. Fix it so that Mermaid v11 can parse it.
+
+RULES:
+- Change only what is needed to fix the error; keep the diagram type, direction, nodes, edges and labels
+- Put labels containing special characters such as parentheses, brackets, colons or quotes in double quotes
+- The @{ shape: ..., label: "..." } node syntax is allowed in flowcharts only
+- Return ONLY the fixed diagram source
+- DO NOT wrap the diagram in markdown code blocks (no \`\`\` or \`\`\`mermaid)
+- DO NOT include any explanation text before or after the diagram
+
+Parser error:
+${error}
+
+Diagram:
+${chart}`;
+}
+
+// 32-bit FNV-1a hash, enough to tell prompt template versions apart
+function hashString(value: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * Returns a hash of the page and wiki structure prompt templates, in both structure formats.
+ * Stored with every generated page so pages generated with an older template can be detected.
+ */
+export function getPromptTemplateHash(): string {
+  const placeholder = (name: string) => `{${name}}`;
+  const structurePrompts = (['xml', 'json'] as const).flatMap(format => [true, false].map(isComprehensive =>
+    generateWikiStructurePrompt(placeholder('owner'), placeholder('repo'), placeholder('fileTree'), placeholder('readme'), 'en', isComprehensive, format)
+  ));
+  return hashString(
+    generatePromptContent(placeholder('title'), [placeholder('file')], 'en', filePath => filePath) +
+    structurePrompts.join('')
+  );
+}
@@ -0,0 +1,249 @@
+import { Logger } from '@/types/logger';
+import { RepoInfo } from '@/types/repoinfo';
+import { ChangedFile, RepositoryProvider } from './repositoryProvider';
+
+const API_VERSION = 'api-version=7.0';
+
+type VersionType = 'branch' | 'tag' | 'commit';
+
+interface ResolvedRef {
+  versionType: VersionType;
+  /** Commit of a branch or tag */
+  commit?: string;
+}
+
+// Version types of the refs resolved so far, keyed by repository URL and ref, for the file URLs
+const resolvedVersionTypes = new Map<string, VersionType>();
+
+// Version descriptors of the web URLs, e.g. GBmain
+const VERSION_PREFIXES: Record<VersionType, string> = { branch: 'GB', tag: 'GT', commit: 'GC' };
+
+const isCommitSha = (ref: string): boolean => /^[0-9a-f]{7,40}$/i.test(ref);
+
+/**
+ * Azure DevOps Services and Azure DevOps Server repositories.
+ */
+export class AzureDevOpsProvider implements RepositoryProvider {
+  private readonly resolvedRefs = new Map<string, Promise<ResolvedRef>>();
+
+  constructor(
+    private readonly repoInfo: RepoInfo,
+    private readonly token: string,
+    private readonly logger: Logger = console
+  ) {}
+
+  authHeaders(): HeadersInit {
+    const headers: HeadersInit = {
+      'Accept': 'application/json'
+    };
+
+    if (this.token) {
+      // Personal access tokens are sent as the password of basic authentication, with an empty user name
+      headers['Authorization'] = `Basic ${btoa(`:${this.token}`)}`;
+    }
+
+    return headers;
+  }
+
+  async getDefaultBranch(): Promise<string> {
+    const response = await fetch(`${this.repositoryApiUrl()}?${API_VERSION}`, { headers: this.authHeaders() });
+
+    if (!response.ok) {
+      const errorData = await response.text();
+      throw new Error(`Azure DevOps repository info error: Status ${response.status}, Response: ${errorData}`);
+    }
+
+    const repositoryInfo: { defaultBranch?: string } = await response.json();
+    const defaultBranch = repositoryInfo.defaultBranch?.replace(/^refs\/heads\//, '') || 'main';
+    this.logger.log(`Found Azure DevOps default branch: ${defaultBranch}`);
+    return defaultBranch;
+  }
+
+  async listTree(ref: string): Promise<string[]> {
+    const params = `recursionLevel=Full&${await this.versionDescriptor(ref)}&${API_VERSION}`;
+    const response = await fetch(`${this.repositoryApiUrl()}/items?${params}`, { headers: this.authHeaders() });
+
+    if (!response.ok) {
+      const errorData = await response.text();
+      throw new Error(`Could not fetch repository structure. Azure DevOps API Error: Status: ${response.status}, Response: ${errorData}`);
+    }
+
+    const data: { value?: { path: string; isFolder?: boolean }[] } = await response.json();
+    const files = (data.value ?? [])
+      .filter(item => !item.isFolder)
+      .map(item => item.path.replace(/^\//, ''));
+
+    if (files.length === 0) {
+      throw new Error('Could not fetch repository structure. Repository might be empty or inaccessible.');
+    }
+    return files;
+  }
+
+  async getReadme(ref: string): Promise<string> {
+    try {
+      const params = `path=${encodeURIComponent('/README.md')}&includeContent=true&${await this.versionDescriptor(ref)}&${API_VERSION}`;
+      const response = await fetch(`${this.repositoryApiUrl()}/items?${params}`, { headers: this.authHeaders() });
+
+      if (response.ok) {
+        return (await response.json()).content ?? '';
+      }
+      this.logger.warn(`Could not fetch Azure DevOps README.md, status: ${response.status}`);
+    } catch (err) {
+      this.logger.warn('Could not fetch Azure DevOps README.md, continuing with empty README', err);
+    }
+    return '';
+  }
+
+  async getFileContent(ref: string, filePath: string): Promise<string> {
+    const params = `path=${encodeURIComponent(`/${filePath}`)}&includeContent=true&${await this.versionDescriptor(ref)}&${API_VERSION}`;
+    const response = await fetch(`${this.repositoryApiUrl()}/items?${params}`, { headers: this.authHeaders() });
+
+    if (!response.ok) {
+      const errorData = await response.text();
+      throw new Error(`Could not fetch ${filePath} from Azure DevOps. API Error: Status: ${response.status}, Response: ${errorData}`);
+    }
+    return (await response.json()).content ?? '';
+  }
+
+  async getLatestCommit(ref: string): Promise<string | undefined> {
+    try {
+      const { versionType, commit } = await this.resolveRef(ref);
+      if (commit || versionType !== 'commit') {
+        return commit;
+      }
+
+      // Expand abbreviated commits
+      const response = await fetch(`${this.repositoryApiUrl()}/commits/${encodeURIComponent(ref)}?${API_VERSION}`, {
+        headers: this.authHeaders()
+      });
+      if (response.ok) {
+        return (await response.json()).commitId;
+      }
+      this.logger.warn(`Could not fetch Azure DevOps latest commit, status: ${response.status}`);
+    } catch (err) {
+      this.logger.warn('Could not fetch Azure DevOps latest commit', err);
+    }
+    return undefined;
+  }
+
+  async compareCommits(baseSha: string, headSha: string): Promise<ChangedFile[]> {
+    const changes: ChangedFile[] = [];
+    const pageSize = 2000;
+    let allChangesIncluded = false;
+
+    for (let skip = 0; !allChangesIncluded; skip += pageSize) {
+      const params = `baseVersion=${baseSha}&baseVersionType=commit&targetVersion=${headSha}&targetVersionType=commit`
+        + `&$top=${pageSize}&$skip=${skip}&${API_VERSION}`;
+      const response = await fetch(`${this.repositoryApiUrl()}/diffs/commits?${params}`, { headers: this.authHeaders() });
+
+      if (!response.ok) {
+        const errorData = await response.text();
+        throw new Error(`Could not compare commits. Azure DevOps API Error: Status: ${response.status}, Response: ${errorData}`);
+      }
+
+      const data: {
+        changes?: { item: { path: string; isFolder?: boolean }; changeType: string; sourceServerItem?: string }[];
+        allChangesIncluded?: boolean;
+      } = await response.json();
+
+      (data.changes ?? [])
+        .filter(change => !change.item.isFolder)
+        .forEach(change => {
+          // Change types are flags, e.g. "edit, rename"
+          const changeType = change.changeType.split(',').map(type => type.trim());
+          const path = change.item.path.replace(/^\//, '');
+
+          if (changeType.includes('delete')) {
+            changes.push({ path, status: 'removed' });
+          } else if (changeType.includes('add')) {
+            changes.push({ path, status: 'added' });
+          } else if (changeType.includes('rename')) {
+            changes.push({ path, status: 'renamed', previousPath: change.sourceServerItem?.replace(/^\//, '') });
+          } else {
+            changes.push({ path, status: 'modified' });
+          }
+        });
+
+      allChangesIncluded = data.allChangesIncluded ?? true;
+    }
+
+    return changes;
+  }
+
+  fileUrl(ref: string, filePath: string): string {
+    // Azure DevOps URL format: https://dev.azure.com/organization/project/_git/repo?path=/path&version=GBbranch
+    const repositoryUrl = this.repositoryUrl();
+    if (!repositoryUrl) {
+      return filePath;
+    }
+
+    const versionType = resolvedVersionTypes.get(`${repositoryUrl}@${ref}`) ?? (isCommitSha(ref) ? 'commit' : 'branch');
+    return `${repositoryUrl}?path=${encodeURIComponent(`/${filePath}`)}&version=${VERSION_PREFIXES[versionType]}${encodeURIComponent(ref)}`;
+  }
+
+  private async versionDescriptor(ref: string): Promise<string> {
+    const { versionType } = await this.resolveRef(ref);
+    return `versionDescriptor.version=${encodeURIComponent(ref)}&versionDescriptor.versionType=${versionType}`;
+  }
+
+  // The API needs to be told whether a ref is a branch, tag or commit. Failed lookups are not
+  // kept, so the next call tries again, e.g. after a network error.
+  private resolveRef(ref: string): Promise<ResolvedRef> {
+    let resolved = this.resolvedRefs.get(ref);
+    if (!resolved) {
+      resolved = this.fetchRef(ref);
+      this.resolvedRefs.set(ref, resolved);
+      resolved.catch(() => this.resolvedRefs.delete(ref));
+    }
+    return resolved;
+  }
+
+  private async fetchRef(ref: string): Promise<ResolvedRef> {
+    let resolved: ResolvedRef = { versionType: isCommitSha(ref) ? 'commit' : 'branch' };
+
+    const params = `filterContains=${encodeURIComponent(ref)}&peelTags=true&${API_VERSION}`;
+    const response = await fetch(`${this.repositoryApiUrl()}/refs?${params}`, { headers: this.authHeaders() });
+    if (response.ok) {
+      const data: { value?: { name: string; objectId: string; peeledObjectId?: string }[] } = await response.json();
+      const branch = data.value?.find(item => item.name === `refs/heads/${ref}`);
+      const tag = data.value?.find(item => item.name === `refs/tags/${ref}`);
+
+      if (branch) {
+        resolved = { versionType: 'branch', commit: branch.objectId };
+      } else if (tag) {
+        // Annotated tags point to a tag object, which is peeled to its commit
+        resolved = { versionType: 'tag', commit: tag.peeledObjectId ?? tag.objectId };
+      }
+    } else {
+      this.logger.warn(`Could not resolve Azure DevOps ref ${ref}, status: ${response.status}`);
+    }
+
+    resolvedVersionTypes.set(`${this.repositoryUrl()}@${ref}`, resolved.versionType);
+    return resolved;
+  }
+
+  // Web URL of the repository without the user name, query or trailing path
+  private repositoryUrl(): string | null {
+    try {
+      const url = new URL(this.repoInfo.repoUrl ?? '');
+      const match = url.pathname.match(/^(.*)\/_git\/([^/]+)/);
+      return match ? `${url.origin}${match[1]}/_git/${match[2]}` : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * @throws Error when the repository URL is not an Azure DevOps repository URL
+   */
+  private repositoryApiUrl(): string {
+    const repositoryUrl = this.repositoryUrl();
+    if (!repositoryUrl) {
+      throw new Error(`Invalid Azure DevOps repository URL: ${this.repoInfo.repoUrl}`);
+    }
+
+    // https://dev.azure.com/organization/project/_apis/git/repositories/repo
+    const [projectUrl, repo] = repositoryUrl.split('/_git/');
+    return `${projectUrl}/_apis/git/repositories/${repo}`;
+  }
+}
@@ -0,0 +1,147 @@
+import { Logger } from '@/types/logger';
+import { RepoInfo } from '@/types/repoinfo';
+import { extractUrlPath } from '@/utils/urlDecoder';
+import { ChangedFile, encodeFilePath, RepositoryProvider, toChangedFileStatus } from './repositoryProvider';
+
+/**
+ * Bitbucket Cloud repositories.
+ */
+export class BitbucketProvider implements RepositoryProvider {
+  private readonly apiUrl: string;
+
+  constructor(
+    private readonly repoInfo: RepoInfo,
+    private readonly token: string,
+    private readonly logger: Logger = console
+  ) {
+    const repoPath = extractUrlPath(repoInfo.repoUrl ?? '') ?? `${repoInfo.owner}/${repoInfo.repo}`;
+    this.apiUrl = `https://api.bitbucket.org/2.0/repositories/${encodeURIComponent(repoPath)}`;
+  }
+
+  authHeaders(): HeadersInit {
+    const headers: HeadersInit = {
+      'Content-Type': 'application/json',
+    };
+
+    if (this.token) {
+      headers['Authorization'] = `Bearer ${this.token}`;
+    }
+
+    return headers;
+  }
+
+  async getDefaultBranch(): Promise<string> {
+    const response = await fetch(this.apiUrl, { headers: this.authHeaders() });
+    const responseText = await response.text();
+
+    if (!response.ok) {
+      throw new Error(`Could not fetch repository structure. Bitbucket API Error: Status: ${response.status}, Response: ${responseText}`);
+    }
+
+    return JSON.parse(responseText).mainbranch.name;
+  }
+
+  async listTree(branch: string): Promise<string[]> {
+    const files: string[] = [];
+    let nextUrl: string | undefined = `${this.apiUrl}/src/${encodeURIComponent(branch)}/?recursive=true&per_page=100`;
+
+    while (nextUrl) {
+      const response = await fetch(nextUrl, { headers: this.authHeaders() });
+      const responseText = await response.text();
+
+      if (!response.ok) {
+        throw new Error(`Could not fetch repository structure. Bitbucket API Error: Status: ${response.status}, Response: ${responseText}`);
+      }
+
+      const data: { values?: { type: string; path: string }[]; next?: string } = JSON.parse(responseText);
+      (data.values ?? [])
+        .filter(item => item.type === 'commit_file')
+        .forEach(item => files.push(item.path));
+      nextUrl = data.next;
+    }
+
+    if (files.length === 0) {
+      throw new Error('Could not fetch repository structure. Repository might not exist, be empty or private.');
+    }
+    return files;
+  }
+
+  async getReadme(branch: string): Promise<string> {
+    try {
+      const response = await fetch(`${this.apiUrl}/src/${encodeURIComponent(branch)}/README.md`, {
+        headers: this.authHeaders()
+      });
+
+      if (response.ok) {
+        return await response.text();
+      }
+      this.logger.warn(`Could not fetch Bitbucket README.md, status: ${response.status}`);
+    } catch (err) {
+      this.logger.warn('Could not fetch Bitbucket README.md, continuing with empty README', err);
+    }
+    return '';
+  }
+
+  async getFileContent(branch: string, filePath: string): Promise<string> {
+    const response = await fetch(`${this.apiUrl}/src/${encodeURIComponent(branch)}/${encodeFilePath(filePath)}`, {
+      headers: this.authHeaders()
+    });
+
+    if (!response.ok) {
+      const errorData = await response.text();
+      throw new Error(`Could not fetch ${filePath} from Bitbucket. API Error: Status: ${response.status}, Response: ${errorData}`);
+    }
+    return response.text();
+  }
+
+  async getLatestCommit(branch: string): Promise<string | undefined> {
+    try {
+      // Resolves branches, tags and commits alike
+      const response = await fetch(`${this.apiUrl}/commit/${encodeURIComponent(branch)}`, { headers: this.authHeaders() });
+
+      if (response.ok) {
+        return (await response.json()).hash;
+      }
+      this.logger.warn(`Could not fetch Bitbucket latest commit, status: ${response.status}`);
+    } catch (err) {
+      this.logger.warn('Could not fetch Bitbucket latest commit', err);
+    }
+    return undefined;
+  }
+
+  async compareCommits(baseSha: string, headSha: string): Promise<ChangedFile[]> {
+    const changes: ChangedFile[] = [];
+
+    // Bitbucket specs are written as "<new>..<old>"
+    let nextUrl: string | undefined = `${this.apiUrl}/diffstat/${headSha}..${baseSha}?pagelen=500`;
+
+    while (nextUrl) {
+      const response = await fetch(nextUrl, { headers: this.authHeaders() });
+      if (!response.ok) {
+        const errorData = await response.text();
+        throw new Error(`Could not compare commits. Bitbucket API Error: Status: ${response.status}, Response: ${errorData}`);
+      }
+
+      const data: {
+        values: { status: string; old?: { path: string } | null; new?: { path: string } | null }[];
+        next?: string;
+      } = await response.json();
+
+      data.values.forEach(value => {
+        const status = toChangedFileStatus(value.status);
+        const path = status === 'removed' ? value.old?.path : value.new?.path;
+        if (path) {
+          changes.push({ path, status, previousPath: status === 'renamed' ? value.old?.path : undefined });
+        }
+      });
+      nextUrl = data.next;
+    }
+
+    return changes;
+  }
+
+  fileUrl(branch: string, filePath: string): string {
+    // Bitbucket URL format: https://bitbucket.org/owner/repo/src/branch/path
+    return this.repoInfo.repoUrl ? `${this.repoInfo.repoUrl}/src/${branch}/${filePath}` : filePath;
+  }
+}
@@ -0,0 +1,34 @@
+import { RepoInfo } from '@/types/repoinfo';
+import { AzureDevOpsProvider } from './azureDevOpsProvider';
+import { BitbucketProvider } from './bitbucketProvider';
+import { GiteaProvider } from './giteaProvider';
+import { GithubProvider } from './githubProvider';
+import { GitlabProvider } from './gitlabProvider';
+import { LocalProvider } from './localProvider';
+import { RepositoryProvider, RepositoryProviderOptions } from './repositoryProvider';
+
+/**
+ * Picks the provider for the host of a repository.
+ * @param token Access token for private repositories
+ * @returns null for repository types without a provider
+ */
+export function createRepositoryProvider(
+  repoInfo: RepoInfo,
+  token: string,
+  options: RepositoryProviderOptions = {}
+): RepositoryProvider | null {
+  if (repoInfo.type === 'local' && repoInfo.localPath) {
+    return new LocalProvider(repoInfo, options);
+  } else if (repoInfo.type === 'github') {
+    return new GithubProvider(repoInfo, token, options.logger);
+  } else if (repoInfo.type === 'gitlab') {
+    return new GitlabProvider(repoInfo, token, options.logger);
+  } else if (repoInfo.type === 'bitbucket') {
+    return new BitbucketProvider(repoInfo, token, options.logger);
+  } else if (repoInfo.type === 'azure') {
+    return new AzureDevOpsProvider(repoInfo, token, options.logger);
+  } else if (repoInfo.type === 'gitea') {
+    return new GiteaProvider(repoInfo, token, options.logger);
+  }
+  return null;
+}
@@ -0,0 +1,178 @@
+import { Logger } from '@/types/logger';
+import { RepoInfo } from '@/types/repoinfo';
+import { extractUrlDomain } from '@/utils/urlDecoder';
+import { ChangedFile, ChangedFileStatus, encodeFilePath, RepositoryProvider } from './repositoryProvider';
+
+/**
+ * Gitea and Forgejo (e.g. Codeberg) repositories, which share the same REST API.
+ */
+export class GiteaProvider implements RepositoryProvider {
+  constructor(
+    private readonly repoInfo: RepoInfo,
+    private readonly token: string,
+    private readonly logger: Logger = console
+  ) {}
+
+  authHeaders(): HeadersInit {
+    const headers: HeadersInit = {
+      'Accept': 'application/json'
+    };
+
+    if (this.token) {
+      headers['Authorization'] = `token ${this.token}`;
+    }
+
+    return headers;
+  }
+
+  async getDefaultBranch(): Promise<string> {
+    const response = await fetch(this.repositoryApiUrl(), { headers: this.authHeaders() });
+
+    if (!response.ok) {
+      const errorData = await response.text();
+      throw new Error(`Gitea repository info error: Status ${response.status}, Response: ${errorData}`);
+    }
+
+    const repositoryInfo = await response.json();
+    const defaultBranch = repositoryInfo.default_branch || 'main';
+    this.logger.log(`Found Gitea default branch: ${defaultBranch}`);
+    return defaultBranch;
+  }
+
+  async listTree(branch: string): Promise<string[]> {
+    const files: string[] = [];
+
+    // Large trees are split into pages, flagged as truncated until the last one
+    let page = 1;
+    let truncated = true;
+
+    while (truncated) {
+      const apiUrl = `${this.repositoryApiUrl()}/git/trees/${encodeURIComponent(branch)}?recursive=true&per_page=1000&page=${page}`;
+      const response = await fetch(apiUrl, { headers: this.authHeaders() });
+
+      if (!response.ok) {
+        const errorData = await response.text();
+        throw new Error(`Could not fetch repository structure. Gitea API Error: Status: ${response.status}, Response: ${errorData}`);
+      }
+
+      const data: { tree?: { type: string; path: string }[]; truncated?: boolean } = await response.json();
+      (data.tree ?? [])
+        .filter(item => item.type === 'blob')
+        .forEach(item => files.push(item.path));
+
+      truncated = !!data.truncated && (data.tree?.length ?? 0) > 0;
+      page += 1;
+    }
+
+    if (files.length === 0) {
+      throw new Error('Could not fetch repository structure. Repository might be empty or inaccessible.');
+    }
+    return files;
+  }
+
+  async getReadme(branch: string): Promise<string> {
+    try {
+      const response = await fetch(`${this.repositoryApiUrl()}/raw/README.md?ref=${encodeURIComponent(branch)}`, {
+        headers: this.authHeaders()
+      });
+
+      if (response.ok) {
+        return await response.text();
+      }
+      this.logger.warn(`Could not fetch Gitea README.md, status: ${response.status}`);
+    } catch (err) {
+      this.logger.warn('Could not fetch Gitea README.md, continuing with empty README', err);
+    }
+    return '';
+  }
+
+  async getFileContent(branch: string, filePath: string): Promise<string> {
+    const response = await fetch(`${this.repositoryApiUrl()}/raw/${encodeFilePath(filePath)}?ref=${encodeURIComponent(branch)}`, {
+      headers: this.authHeaders()
+    });
+
+    if (!response.ok) {
+      const errorData = await response.text();
+      throw new Error(`Could not fetch ${filePath} from Gitea. API Error: Status: ${response.status}, Response: ${errorData}`);
+    }
+    return response.text();
+  }
+
+  async getLatestCommit(branch: string): Promise<string | undefined> {
+    try {
+      // Resolves branches, tags and commits alike
+      const response = await fetch(`${this.repositoryApiUrl()}/git/commits/${encodeURIComponent(branch)}?stat=false&files=false`, {
+        headers: this.authHeaders()
+      });
+
+      if (response.ok) {
+        return (await response.json()).sha;
+      }
+      this.logger.warn(`Could not fetch Gitea latest commit, status: ${response.status}`);
+    } catch (err) {
+      this.logger.warn('Could not fetch Gitea latest commit', err);
+    }
+    return undefined;
+  }
+
+  async compareCommits(baseSha: string, headSha: string): Promise<ChangedFile[]> {
+    const response = await fetch(`${this.repositoryApiUrl()}/compare/${baseSha}...${headSha}`, { headers: this.authHeaders() });
+
+    if (!response.ok) {
+      const errorData = await response.text();
+      throw new Error(`Could not compare commits. Gitea API Error: Status: ${response.status}, Response: ${errorData}`);
+    }
+
+    // The compare API lists the files of every commit, oldest first; the last change of a file wins
+    const data: { commits?: { files?: { filename: string; status: string }[] }[] } = await response.json();
+    const changes = new Map<string, ChangedFile>();
+
+    (data.commits ?? []).forEach(commit => {
+      (commit.files ?? []).forEach(file => {
+        const previous = changes.get(file.filename);
+        let status = toGiteaStatus(file.status);
+        // A file added within the compared range is still new, however often it was changed since
+        if (previous?.status === 'added' && status === 'modified') {
+          status = 'added';
+        }
+        changes.set(file.filename, { path: file.filename, status });
+      });
+    });
+
+    return Array.from(changes.values());
+  }
+
+  fileUrl(branch: string, filePath: string): string {
+    // Gitea URL format: https://gitea.com/owner/repo/src/branch/main/path; the untyped form
+    // https://gitea.com/owner/repo/src/ref/path resolves branches, tags and commits alike
+    return this.repoInfo.repoUrl ? `${this.repoInfo.repoUrl}/src/${branch}/${filePath}` : filePath;
+  }
+
+  /**
+   * @throws Error when the domain of the repository URL is invalid
+   */
+  private repositoryApiUrl(): string {
+    const domain = extractUrlDomain(this.repoInfo.repoUrl ?? '');
+
+    try {
+      const validatedUrl = new URL(domain ?? ''); // Validate domain
+      return `${validatedUrl.origin}/api/v1/repos/${encodeURIComponent(this.repoInfo.owner)}/${encodeURIComponent(this.repoInfo.repo)}`;
+    } catch {
+      throw new Error(`Invalid repository domain URL: ${domain}`);
+    }
+  }
+}
+
+// Gitea reports removed files as "deleted"
+const toGiteaStatus = (status: string): ChangedFileStatus => {
+  switch (status) {
+    case 'added':
+    case 'renamed':
+      return status;
+    case 'removed':
+    case 'deleted':
+      return 'removed';
+    default:
+      return 'modified';
+  }
+};
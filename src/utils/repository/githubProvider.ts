@@ -0,0 +1,169 @@
+import { Logger } from '@/types/logger';
+import { RepoInfo } from '@/types/repoinfo';
+import { ChangedFile, encodeFilePath, RepositoryProvider, toChangedFileStatus } from './repositoryProvider';
+
+// Determine the GitHub API base URL based on the repository URL
+const getGithubApiUrl = (repoUrl: string | null): string => {
+  if (!repoUrl) {
+    return 'https://api.github.com'; // Default to public GitHub
+  }
+
+  try {
+    const url = new URL(repoUrl);
+    const hostname = url.hostname;
+
+    // If it's the public GitHub, use the standard API URL
+    if (hostname === 'github.com') {
+      return 'https://api.github.com';
+    }
+
+    // For GitHub Enterprise, use the enterprise API URL format
+    // GitHub Enterprise API URL format: https://github.company.com/api/v3
+    return `${url.protocol}//${hostname}/api/v3`;
+  } catch {
+    return 'https://api.github.com'; // Fallback to public GitHub if URL parsing fails
+  }
+};
+
+/**
+ * GitHub and GitHub Enterprise repositories.
+ */
+export class GithubProvider implements RepositoryProvider {
+  private readonly apiUrl: string;
+
+  constructor(
+    private readonly repoInfo: RepoInfo,
+    private readonly token: string,
+    private readonly logger: Logger = console
+  ) {
+    this.apiUrl = `${getGithubApiUrl(repoInfo.repoUrl)}/repos/${repoInfo.owner}/${repoInfo.repo}`;
+  }
+
+  authHeaders(): HeadersInit {
+    const headers: HeadersInit = {
+      'Accept': 'application/vnd.github.v3+json'
+    };
+
+    if (this.token) {
+      headers['Authorization'] = `Bearer ${this.token}`;
+    }
+
+    return headers;
+  }
+
+  async getDefaultBranch(): Promise<string> {
+    try {
+      const response = await fetch(this.apiUrl, { headers: this.authHeaders() });
+      if (response.ok) {
+        const repoData = await response.json();
+        if (repoData.default_branch) {
+          this.logger.log(`Found default branch: ${repoData.default_branch}`);
+          return repoData.default_branch;
+        }
+      }
+    } catch (err) {
+      this.logger.warn('Could not fetch repository info for default branch:', err);
+    }
+
+    // Without repository info, use the first common branch name that exists
+    for (const branch of ['main', 'master']) {
+      try {
+        const response = await fetch(`${this.apiUrl}/branches/${branch}`, { headers: this.authHeaders() });
+        if (response.ok) return branch;
+      } catch (err) {
+        this.logger.error(`Network error fetching branch ${branch}:`, err);
+      }
+    }
+    return 'main';
+  }
+
+  async listTree(branch: string): Promise<string[]> {
+    this.logger.log(`Fetching repository structure from branch: ${branch}`);
+    const response = await fetch(`${this.apiUrl}/git/trees/${encodeURIComponent(branch)}?recursive=1`, {
+      headers: this.authHeaders()
+    });
+
+    if (!response.ok) {
+      const errorData = await response.text();
+      throw new Error(`Could not fetch repository structure. API Error: Status: ${response.status}, Response: ${errorData}`);
+    }
+
+    const treeData = await response.json();
+    if (!treeData.tree) {
+      throw new Error('Could not fetch repository structure. Repository might not exist, be empty or private.');
+    }
+
+    return treeData.tree
+      .filter((item: { type: string; path: string }) => item.type === 'blob')
+      .map((item: { type: string; path: string }) => item.path);
+  }
+
+  async getReadme(branch: string): Promise<string> {
+    try {
+      const response = await fetch(`${this.apiUrl}/readme?ref=${encodeURIComponent(branch)}`, {
+        headers: this.authHeaders()
+      });
+
+      if (response.ok) {
+        const readmeData = await response.json();
+        return atob(readmeData.content);
+      }
+      this.logger.warn(`Could not fetch README.md, status: ${response.status}`);
+    } catch (err) {
+      this.logger.warn('Could not fetch README.md, continuing with empty README', err);
+    }
+    return '';
+  }
+
+  async getFileContent(branch: string, filePath: string): Promise<string> {
+    const response = await fetch(`${this.apiUrl}/contents/${encodeFilePath(filePath)}?ref=${encodeURIComponent(branch)}`, {
+      headers: { ...this.authHeaders(), 'Accept': 'application/vnd.github.raw' }
+    });
+
+    if (!response.ok) {
+      const errorData = await response.text();
+      throw new Error(`Could not fetch ${filePath}. API Error: Status: ${response.status}, Response: ${errorData}`);
+    }
+    return response.text();
+  }
+
+  async getLatestCommit(branch: string): Promise<string | undefined> {
+    try {
+      const response = await fetch(`${this.apiUrl}/commits/${encodeURIComponent(branch)}`, { headers: this.authHeaders() });
+
+      if (response.ok) {
+        return (await response.json()).sha;
+      }
+      this.logger.warn(`Could not fetch latest commit, status: ${response.status}`);
+    } catch (err) {
+      this.logger.warn('Could not fetch latest commit', err);
+    }
+    return undefined;
+  }
+
+  async compareCommits(baseSha: string, headSha: string): Promise<ChangedFile[]> {
+    const response = await fetch(`${this.apiUrl}/compare/${baseSha}...${headSha}`, { headers: this.authHeaders() });
+
+    if (!response.ok) {
+      const errorData = await response.text();
+      throw new Error(`Could not compare commits. API Error: Status: ${response.status}, Response: ${errorData}`);
+    }
+
+    const data: { files?: { filename: string; status: string; previous_filename?: string }[] } = await response.json();
+    // The compare API lists at most 300 files; larger changes are better served by a full refresh
+    if ((data.files?.length ?? 0) >= 300) {
+      throw new Error('Too many changed files to compare. Please refresh the whole wiki instead.');
+    }
+
+    return (data.files ?? []).map(file => ({
+      path: file.filename,
+      status: toChangedFileStatus(file.status),
+      previousPath: file.previous_filename
+    }));
+  }
+
+  fileUrl(branch: string, filePath: string): string {
+    // GitHub URL format: https://github.com/owner/repo/blob/branch/path
+    return this.repoInfo.repoUrl ? `${this.repoInfo.repoUrl}/blob/${branch}/${filePath}` : filePath;
+  }
+}
@@ -0,0 +1,160 @@
+import { Logger } from '@/types/logger';
+import { RepoInfo } from '@/types/repoinfo';
+import { extractUrlDomain, extractUrlPath } from '@/utils/urlDecoder';
+import { ChangedFile, RepositoryProvider } from './repositoryProvider';
+
+/**
+ * GitLab.com and self-hosted GitLab repositories.
+ */
+export class GitlabProvider implements RepositoryProvider {
+  constructor(
+    private readonly repoInfo: RepoInfo,
+    private readonly token: string,
+    private readonly logger: Logger = console
+  ) {}
+
+  authHeaders(): HeadersInit {
+    const headers: HeadersInit = {
+      'Content-Type': 'application/json',
+    };
+
+    if (this.token) {
+      headers['PRIVATE-TOKEN'] = this.token;
+    }
+
+    return headers;
+  }
+
+  async getDefaultBranch(): Promise<string> {
+    const response = await fetch(this.projectApiUrl(), { headers: this.authHeaders() });
+
+    if (!response.ok) {
+      const errorData = await response.text();
+      throw new Error(`GitLab project info error: Status ${response.status}, Response: ${errorData}`);
+    }
+
+    const projectInfo = await response.json();
+    const defaultBranch = projectInfo.default_branch || 'main';
+    this.logger.log(`Found GitLab default branch: ${defaultBranch}`);
+    return defaultBranch;
+  }
+
+  async listTree(branch: string): Promise<string[]> {
+    /* eslint-disable-next-line @typescript-eslint/no-explicit-any */
+    const filesData: any[] = [];
+
+    // Paginate to fetch the full file tree
+    let page = 1;
+    let morePages = true;
+
+    while (morePages) {
+      const apiUrl = `${this.projectApiUrl()}/repository/tree?recursive=true&per_page=100&page=${page}&ref=${encodeURIComponent(branch)}`;
+      const response = await fetch(apiUrl, { headers: this.authHeaders() });
+
+      if (!response.ok) {
+        const errorData = await response.text();
+        throw new Error(`Error fetching GitLab repository structure (page ${page}): ${errorData}`);
+      }
+
+      const pageData = await response.json();
+      filesData.push(...pageData);
+
+      const nextPage = response.headers.get('x-next-page');
+      morePages = !!nextPage;
+      page = nextPage ? parseInt(nextPage, 10) : page + 1;
+    }
+
+    if (filesData.length === 0) {
+      throw new Error('Could not fetch repository structure. Repository might be empty or inaccessible.');
+    }
+
+    return filesData
+      .filter((item: { type: string; path: string }) => item.type === 'blob')
+      .map((item: { type: string; path: string }) => item.path);
+  }
+
+  async getReadme(branch: string): Promise<string> {
+    try {
+      const response = await fetch(`${this.projectApiUrl()}/repository/files/README.md/raw?ref=${encodeURIComponent(branch)}`, {
+        headers: this.authHeaders()
+      });
+      if (response.ok) {
+        this.logger.log('Successfully fetched GitLab README.md');
+        return await response.text();
+      }
+      this.logger.warn(`Could not fetch GitLab README.md status: ${response.status}`);
+    } catch (err) {
+      this.logger.warn(`Error fetching GitLab README.md:`, err);
+    }
+    return '';
+  }
+
+  async getFileContent(branch: string, filePath: string): Promise<string> {
+    const response = await fetch(`${this.projectApiUrl()}/repository/files/${encodeURIComponent(filePath)}/raw?ref=${encodeURIComponent(branch)}`, {
+      headers: this.authHeaders()
+    });
+
+    if (!response.ok) {
+      const errorData = await response.text();
+      throw new Error(`Could not fetch ${filePath} from GitLab. API Error: Status: ${response.status}, Response: ${errorData}`);
+    }
+    return response.text();
+  }
+
+  async getLatestCommit(branch: string): Promise<string | undefined> {
+    try {
+      const response = await fetch(`${this.projectApiUrl()}/repository/commits/${encodeURIComponent(branch)}`, {
+        headers: this.authHeaders()
+      });
+
+      if (response.ok) {
+        return (await response.json()).id;
+      }
+      this.logger.warn(`Could not fetch GitLab latest commit status: ${response.status}`);
+    } catch (err) {
+      this.logger.warn(`Error fetching GitLab latest commit:`, err);
+    }
+    return undefined;
+  }
+
+  async compareCommits(baseSha: string, headSha: string): Promise<ChangedFile[]> {
+    const response = await fetch(`${this.projectApiUrl()}/repository/compare?from=${baseSha}&to=${headSha}`, {
+      headers: this.authHeaders()
+    });
+    if (!response.ok) {
+      const errorData = await response.text();
+      throw new Error(`Could not compare GitLab commits: Status ${response.status}, Response: ${errorData}`);
+    }
+
+    const data: {
+      diffs?: { old_path: string; new_path: string; new_file: boolean; deleted_file: boolean; renamed_file: boolean }[]
+    } = await response.json();
+
+    return (data.diffs ?? []).map(diff => {
+      if (diff.new_file) return { path: diff.new_path, status: 'added' };
+      if (diff.deleted_file) return { path: diff.old_path, status: 'removed' };
+      if (diff.renamed_file) return { path: diff.new_path, status: 'renamed', previousPath: diff.old_path };
+      return { path: diff.new_path, status: 'modified' };
+    });
+  }
+
+  fileUrl(branch: string, filePath: string): string {
+    // GitLab URL format: https://gitlab.com/owner/repo/-/blob/branch/path
+    return this.repoInfo.repoUrl ? `${this.repoInfo.repoUrl}/-/blob/${branch}/${filePath}` : filePath;
+  }
+
+  /**
+   * @throws Error when the domain of the repository URL is invalid
+   */
+  private projectApiUrl(): string {
+    const projectPath = extractUrlPath(this.repoInfo.repoUrl ?? '') ?? `${this.repoInfo.owner}/${this.repoInfo.repo}`;
+    const projectDomain = extractUrlDomain(this.repoInfo.repoUrl ?? "https://gitlab.com");
+
+    try {
+      const validatedUrl = new URL(projectDomain ?? ''); // Validate domain
+      return `${validatedUrl.origin}/api/v4/projects/${encodeURIComponent(projectPath)}`;
+    } catch {
+      throw new Error(`Invalid project domain URL: ${projectDomain}`);
+    }
+  }
+}
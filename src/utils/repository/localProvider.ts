@@ -0,0 +1,105 @@
+import { Logger } from '@/types/logger';
+import { RepoInfo } from '@/types/repoinfo';
+import { ChangedFile, RepositoryProvider, RepositoryProviderOptions, toChangedFileStatus } from './repositoryProvider';
+
+interface LocalStructure {
+  file_tree: string;
+  readme: string;
+  commit_sha?: string | null;
+}
+
+/**
+ * Repositories on the machine of the backend, read through its local_repo endpoints.
+ */
+export class LocalProvider implements RepositoryProvider {
+  private readonly structureEndpoint: string;
+  private readonly diffEndpoint: string;
+  private readonly fileEndpoint: string;
+  private readonly logger: Logger;
+  // The backend returns the file tree, README and commit in one response
+  private structure?: Promise<LocalStructure>;
+
+  constructor(private readonly repoInfo: RepoInfo, options: RepositoryProviderOptions = {}) {
+    this.structureEndpoint = options.localStructureEndpoint ?? '/local_repo/structure';
+    this.diffEndpoint = options.localDiffEndpoint ?? '/local_repo/diff';
+    this.fileEndpoint = options.localFileEndpoint ?? '/local_repo/file';
+    this.logger = options.logger ?? console;
+  }
+
+  authHeaders(): HeadersInit {
+    return {};
+  }
+
+  async getDefaultBranch(): Promise<string> {
+    // For local repos, we can't determine the actual branch, so use 'main' as default
+    return 'main';
+  }
+
+  async listTree(): Promise<string[]> {
+    const { file_tree } = await this.fetchStructure();
+    return file_tree.split('\n').filter(path => path.trim() !== '');
+  }
+
+  async getReadme(): Promise<string> {
+    return (await this.fetchStructure()).readme ?? '';
+  }
+
+  async getFileContent(_branch: string, filePath: string): Promise<string> {
+    const params = new URLSearchParams({ path: this.repoInfo.localPath ?? '', file_path: filePath });
+    const response = await fetch(`${this.fileEndpoint}?${params.toString()}`);
+
+    if (!response.ok) {
+      const errorData = await response.text();
+      throw new Error(`Local repository API error (${response.status}): ${errorData}`);
+    }
+    return (await response.json()).content;
+  }
+
+  async getLatestCommit(): Promise<string | undefined> {
+    try {
+      return (await this.fetchStructure()).commit_sha ?? undefined;
+    } catch (err) {
+      this.logger.warn('Could not fetch latest commit of local repository', err);
+      return undefined;
+    }
+  }
+
+  async compareCommits(baseSha: string, headSha: string): Promise<ChangedFile[]> {
+    const params = new URLSearchParams({ path: this.repoInfo.localPath ?? '', base: baseSha, head: headSha });
+    const response = await fetch(`${this.diffEndpoint}?${params.toString()}`);
+
+    if (!response.ok) {
+      const errorData = await response.text();
+      throw new Error(`Local repository API error (${response.status}): ${errorData}`);
+    }
+
+    const data: { files: { path: string; status: string; previous_path?: string }[] } = await response.json();
+    return data.files.map(file => ({
+      path: file.path,
+      status: toChangedFileStatus(file.status),
+      previousPath: file.previous_path
+    }));
+  }
+
+  fileUrl(_branch: string, filePath: string): string {
+    // For local repositories, we can't generate web URLs
+    return filePath;
+  }
+
+  private fetchStructure(): Promise<LocalStructure> {
+    if (!this.structure) {
+      this.structure = (async () => {
+        const response = await fetch(`${this.structureEndpoint}?path=${encodeURIComponent(this.repoInfo.localPath ?? '')}`);
+
+        if (!response.ok) {
+          const errorData = await response.text();
+          throw new Error(`Local repository API error (${response.status}): ${errorData}`);
+        }
+        return response.json();
+      })();
+      // A failed request may be retried with the next call
+      this.structure.catch(() => { this.structure = undefined; });
+    }
+    return this.structure;
+  }
+}
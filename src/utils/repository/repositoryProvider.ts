@@ -0,0 +1,76 @@
+/**
+ * Access to a hosted (or local) git repository: its branches, files, README and commits.
+ * Every supported host implements RepositoryProvider; createRepositoryProvider (in
+ * ./createRepositoryProvider) picks the implementation for a repository.
+ */
+
+import { Logger } from '@/types/logger';
+
+export type ChangedFileStatus = 'added' | 'removed' | 'modified' | 'renamed';
+
+export interface ChangedFile {
+  path: string;
+  status: ChangedFileStatus;
+  /** Path before the change, for renamed files */
+  previousPath?: string;
+}
+
+export interface RepositoryProviderOptions {
+  /** Backend endpoint that lists local repositories, e.g. to call the backend directly from Node */
+  localStructureEndpoint?: string;
+  /** Backend endpoint that compares commits of local repositories */
+  localDiffEndpoint?: string;
+  /** Backend endpoint that reads files of local repositories */
+  localFileEndpoint?: string;
+  /** Receives the log messages of the provider; defaults to the console */
+  logger?: Logger;
+}
+
+/**
+ * Methods taking a ref accept a branch, tag or commit.
+ */
+export interface RepositoryProvider {
+  /** Headers authenticating API requests with the access token, if one was given */
+  authHeaders(): HeadersInit;
+  /**
+   * @throws Error when the repository cannot be accessed
+   */
+  getDefaultBranch(): Promise<string>;
+  /**
+   * Lists the paths of all files at a ref.
+   * @throws Error when the file tree cannot be fetched
+   */
+  listTree(ref: string): Promise<string[]>;
+  /** @returns The README at a ref, or an empty string when there is none */
+  getReadme(ref: string): Promise<string>;
+  /**
+   * Reads a file at a ref.
+   * @throws Error when the file cannot be fetched
+   */
+  getFileContent(ref: string, filePath: string): Promise<string>;
+  /** @returns The commit a ref points to, or undefined when it cannot be determined */
+  getLatestCommit(ref: string): Promise<string | undefined>;
+  /**
+   * Lists the files changed between two commits.
+   * @throws Error when the commits cannot be compared, e.g. after a force push
+   */
+  compareCommits(baseSha: string, headSha: string): Promise<ChangedFile[]>;
+  /** @returns The web URL of a file, or the file path itself when there is none */
+  fileUrl(ref: string, filePath: string): string;
+}
+
+// Encodes the segments of a file path for the path of an API URL, keeping its slashes
+export const encodeFilePath = (filePath: string): string =>
+  filePath.split('/').map(encodeURIComponent).join('/');
+
+// Maps the file statuses of the host APIs onto ChangedFileStatus
+export const toChangedFileStatus = (status: string): ChangedFileStatus => {
+  switch (status) {
+    case 'added':
+    case 'removed':
+    case 'renamed':
+      return status;
+    default:
+      return 'modified';
+  }
+};
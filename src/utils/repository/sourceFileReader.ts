@@ -0,0 +1,38 @@
+import { RepositoryProvider } from './repositoryProvider';
+
+/**
+ * Files of a repository at one ref, read through its provider. The file list and every file are
+ * fetched once and then shared, e.g. by the citation checks of all pages of a wiki.
+ */
+export class SourceFileReader {
+  private fileList?: Promise<string[]>;
+  private readonly files = new Map<string, Promise<string>>();
+
+  constructor(private readonly provider: RepositoryProvider, readonly ref: string) {}
+
+  /**
+   * Lists the paths of all files.
+   * @throws Error when the file tree cannot be fetched
+   */
+  listFiles(): Promise<string[]> {
+    if (!this.fileList) {
+      this.fileList = this.provider.listTree(this.ref);
+      // A failed request may be retried with the next call
+      this.fileList.catch(() => { this.fileList = undefined; });
+    }
+    return this.fileList;
+  }
+
+  /**
+   * @throws Error when the file cannot be fetched
+   */
+  readFile(filePath: string): Promise<string> {
+    let file = this.files.get(filePath);
+    if (!file) {
+      file = this.provider.getFileContent(this.ref, filePath);
+      this.files.set(filePath, file);
+      file.catch(() => this.files.delete(filePath));
+    }
+    return file;
+  }
+}
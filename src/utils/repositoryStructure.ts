@@ -0,0 +1,44 @@
+/**
+ * Fetches the file tree and README of a repository from its host (or the backend, for
+ * local repositories), for use as input of the wiki generation.
+ */
+
+import { RepoInfo } from '@/types/repoinfo';
+import { createRepositoryProvider } from '@/utils/repository/createRepositoryProvider';
+import { RepositoryProviderOptions } from '@/utils/repository/repositoryProvider';
+
+export interface RepositoryStructure {
+  /** Newline separated list of the file paths in the repository */
+  fileTree: string;
+  readme: string;
+  /** Branch, tag or commit the file tree was read from: the ref of the repository, or else its default branch */
+  defaultBranch: string;
+  /** Commit the branch points to, when it could be determined */
+  commitSha?: string;
+}
+
+/**
+ * Fetches the file tree and README of a repository.
+ * @param repoInfo The repository to read, at its ref when one is given
+ * @param token Access token for private repositories
+ * @throws Error when the file tree cannot be fetched
+ */
+export async function fetchRepositoryStructure(
+  repoInfo: RepoInfo,
+  token: string,
+  options: RepositoryProviderOptions = {}
+): Promise<RepositoryStructure> {
+  const provider = createRepositoryProvider(repoInfo, token, options);
+  if (!provider) {
+    // Unknown repository types are generated without a file tree
+    return { fileTree: '', readme: '', defaultBranch: 'main' };
+  }
+
+  const defaultBranch = repoInfo.ref || await provider.getDefaultBranch();
+  const fileTree = (await provider.listTree(defaultBranch)).join('\n');
+  const readme = await provider.getReadme(defaultBranch);
+  // Get the commit the tree was read from
+  const commitSha = await provider.getLatestCommit(defaultBranch);
+
+  return { fileTree, readme, defaultBranch, commitSha };
+}
@@ -25,6 +25,8 @@ export interface ChatCompletionRequest {
   filePath?: string;
   token?: string;
   type?: string;
+  /** Branch, tag or commit to read instead of the default branch */
+  ref?: string;
   provider?: string;
   model?: string;
   language?: string;
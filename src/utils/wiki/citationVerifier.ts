@@ -0,0 +1,73 @@
+/**
+ * Checks the source citations of generated pages against the repository: every cited file has to
+ * exist, and cited lines have to lie within the file. Models tend to cite files that are not part
+ * of the repository or lines past the end of a file, so the result is stored with each page.
+ */
+
+import { Logger } from '@/types/logger';
+import { CitationCheck, CitationIssue } from '@/types/wiki/citationcheck';
+import { SourceFileReader } from '@/utils/repository/sourceFileReader';
+import { parseCitation, SourceCitation } from './citations';
+import { findMarkdownLinks } from './linkResolver';
+
+const countLines = (content: string): number => content.replace(/\n$/, '').split('\n').length;
+
+/**
+ * Verifies every citation of a page. Lines of files that cannot be read are not checked.
+ * @param fileUrl Web URL of a file of the repository, see CitationContext
+ * @throws Error when the files of the repository cannot be listed
+ */
+export async function verifyCitations(
+  content: string,
+  files: SourceFileReader,
+  fileUrl: string,
+  logger: Logger = console
+): Promise<CitationCheck> {
+  const filePaths = await files.listFiles();
+  const existingFiles = new Set(filePaths);
+  const citations = findMarkdownLinks(content)
+    .map(link => ({ ...link, citation: parseCitation(link.text, link.href, { fileUrl, filePaths }) }))
+    .filter((link): link is { text: string; href: string; citation: SourceCitation } => !!link.citation);
+
+  const issues: CitationIssue[] = [];
+  for (const { text, href, citation } of citations) {
+    const issue = { text, href, ...citation };
+    if (!existingFiles.has(citation.filePath)) {
+      issues.push({ ...issue, problem: 'missingFile' });
+      continue;
+    }
+    if (citation.startLine === undefined) {
+      continue;
+    }
+
+    let lineCount: number;
+    try {
+      lineCount = countLines(await files.readFile(citation.filePath));
+    } catch (err) {
+      logger.warn(`Could not read ${citation.filePath} to check the cited lines:`, err);
+      continue;
+    }
+    if (citation.startLine < 1 || (citation.endLine ?? citation.startLine) > lineCount) {
+      issues.push({ ...issue, problem: 'invalidLines', lineCount });
+    }
+  }
+
+  return {
+    checkedAt: new Date().toISOString(),
+    total: citations.length,
+    valid: citations.length - issues.length,
+    issues
+  };
+}
+
+/**
+ * Share of the citations of a page that are valid, from 0 to 1; 1 for pages without citations.
+ */
+export const getCitationAccuracy = (check: CitationCheck): number =>
+  check.total > 0 ? check.valid / check.total : 1;
+
+/**
+ * The issue found for a citation link of a page, if any.
+ */
+export const findCitationIssue = (check: CitationCheck | undefined, href: string): CitationIssue | undefined =>
+  check?.issues.find(issue => issue.href === href);
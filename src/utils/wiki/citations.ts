@@ -0,0 +1,128 @@
+/**
+ * Citations of source files in wiki pages, which the model writes as Markdown links such as
+ * `[src/app.ts:L10-L20](https://github.com/owner/repo/blob/main/src/app.ts#L10-L20)`.
+ * Citations are shown in the wiki itself rather than on the repository host.
+ */
+
+export interface SourceCitation {
+  filePath: string;
+  /** First cited line, when the citation names lines */
+  startLine?: number;
+  endLine?: number;
+}
+
+export interface CitationContext {
+  /** Web URL of a file of the repository, to tell links into it from other links; empty for local repositories */
+  fileUrl: string;
+  /** Paths of files known to be in the repository, e.g. the source files of the wiki pages */
+  filePaths: string[];
+}
+
+// Line references in link texts and URL fragments: L10-L20, L10-20, L15 and lines-10:20 (Bitbucket)
+const TEXT_LINES = /:L(\d+)(?:-L?(\d+))?\s*$/;
+const FRAGMENT_LINES = /^#(?:L|lines-)(\d+)(?:[-:]L?(\d+))?$/;
+// File URLs of GitHub, GitLab, Bitbucket and Gitea, e.g. /owner/repo/-/blob/main/src/app.ts
+const FILE_URL_PATH = /\/(?:-\/)?(?:blob|src)\/(?:branch\/|tag\/|commit\/)?[^/]+\/(.+)$/;
+
+const PREVIEW_LINES = 15;
+
+const LANGUAGES: Record<string, string> = {
+  ts: 'typescript', tsx: 'tsx', js: 'javascript', jsx: 'jsx', mjs: 'javascript', cjs: 'javascript',
+  py: 'python', go: 'go', rs: 'rust', java: 'java', kt: 'kotlin', swift: 'swift', rb: 'ruby', php: 'php',
+  c: 'c', h: 'c', cpp: 'cpp', hpp: 'cpp', cs: 'csharp', scala: 'scala', sh: 'bash', bash: 'bash',
+  json: 'json', yaml: 'yaml', yml: 'yaml', toml: 'toml', md: 'markdown', html: 'markup', xml: 'markup',
+  css: 'css', scss: 'scss', sql: 'sql', dockerfile: 'docker'
+};
+
+const decode = (text: string): string => {
+  try {
+    return decodeURIComponent(text);
+  } catch {
+    return text;
+  }
+};
+
+function parseLines(match: RegExpMatchArray | null): Pick<SourceCitation, 'startLine' | 'endLine'> {
+  if (!match) {
+    return {};
+  }
+  const startLine = parseInt(match[1], 10);
+  const endLine = match[2] ? parseInt(match[2], 10) : startLine;
+  return { startLine, endLine: Math.max(startLine, endLine) };
+}
+
+// The longest known path the given path is or ends with
+function matchFilePath(path: string, filePaths: string[]): string | undefined {
+  return filePaths
+    .filter(filePath => path === filePath || path.endsWith(`/${filePath}`))
+    .sort((a, b) => b.length - a.length)[0];
+}
+
+// Host and owner of a repository URL, e.g. github.com/owner/repo or dev.azure.com/org/project
+const repositoryOf = (url: URL): string => `${url.host}${url.pathname.split('/').slice(0, 3).join('/')}`;
+
+/**
+ * Reads the file and lines a link cites.
+ * @param text Text of the link, which may name the cited lines
+ * @returns undefined for links that do not point to a file of the repository
+ */
+export function parseCitation(text: string, href: string, context: CitationContext): SourceCitation | undefined {
+  if (!href || href.startsWith('#')) {
+    return undefined;
+  }
+
+  let filePath: string | undefined;
+  let fragment: string;
+  if (/^[a-z][a-z\d+.-]*:/i.test(href)) {
+    let url: URL;
+    try {
+      url = new URL(href);
+      if (!context.fileUrl || repositoryOf(url) !== repositoryOf(new URL(context.fileUrl))) {
+        return undefined;
+      }
+    } catch {
+      return undefined;
+    }
+    // Azure DevOps names the file in the query
+    const path = url.searchParams.get('path')?.replace(/^\//, '') ?? decode(url.pathname);
+    filePath = matchFilePath(path, context.filePaths) ?? (url.searchParams.has('path') ? path : path.match(FILE_URL_PATH)?.[1]);
+    fragment = url.hash;
+  } else {
+    // Local repositories are cited by plain paths
+    const [path, hash = ''] = href.split('#');
+    const relativePath = decode(path).replace(/^\.?\//, '');
+    fragment = hash ? `#${hash}` : '';
+    filePath = matchFilePath(relativePath, context.filePaths);
+    if (!filePath && relativePath && (FRAGMENT_LINES.test(fragment) || TEXT_LINES.test(text))) {
+      filePath = relativePath;
+    }
+  }
+
+  if (!filePath) {
+    return undefined;
+  }
+  const lines = parseLines(fragment.match(FRAGMENT_LINES) ?? text.match(TEXT_LINES));
+  return { filePath, ...lines };
+}
+
+/**
+ * The cited lines of a file, or its beginning when no lines are cited, for a short preview.
+ */
+export function getCitedLines(content: string, citation: SourceCitation): { lines: string[]; firstLine: number } {
+  const allLines = content.split('\n');
+  if (!citation.startLine) {
+    return { lines: allLines.slice(0, PREVIEW_LINES), firstLine: 1 };
+  }
+  const firstLine = Math.min(citation.startLine, allLines.length);
+  const lastLine = Math.min(citation.endLine ?? firstLine, firstLine + PREVIEW_LINES - 1);
+  return { lines: allLines.slice(firstLine - 1, lastLine), firstLine };
+}
+
+/**
+ * Name of the syntax highlighting language of a file, from its extension.
+ */
+export function getSourceLanguage(filePath: string): string {
+  const fileName = filePath.split('/').pop()?.toLowerCase() ?? '';
+  const extension = fileName.includes('.') ? fileName.split('.').pop()! : fileName;
+  return LANGUAGES[extension] ?? 'text';
+}
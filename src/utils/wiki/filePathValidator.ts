@@ -0,0 +1,264 @@
+/**
+ * Checks the file paths the model chose for every page against the real repository tree.
+ * Paths that do not exist are corrected to the closest real file or dropped, and pages left with
+ * too few real files are topped up with related files from the tree.
+ */
+
+import { WikiPage } from '@/types/wiki/wikipage';
+import { WikiStructure } from '@/types/wiki/wikistructure';
+
+export type FilePathCorrectionType = 'corrected' | 'dropped' | 'added';
+
+export interface FilePathCorrection {
+  pageId: string;
+  type: FilePathCorrectionType;
+  /** Path chosen by the model; missing for added files */
+  originalPath?: string;
+  /** Path used instead; missing for dropped paths */
+  path?: string;
+}
+
+export interface FilePathValidationOptions {
+  /** Pages with fewer real files are topped up with related files (default: 5) */
+  minFilesPerPage?: number;
+}
+
+export interface FilePathValidationResult {
+  structure: WikiStructure;
+  corrections: FilePathCorrection[];
+}
+
+interface IndexedFile {
+  path: string;
+  directory: string;
+  tokens: string[];
+}
+
+interface FileIndex {
+  files: IndexedFile[];
+  paths: Set<string>;
+  directories: Set<string>;
+  /** Lower-case path or directory to its real spelling */
+  caseInsensitive: Map<string, string>;
+  /** Lower-case file name to the files with that name */
+  byName: Map<string, string[]>;
+  /** Directory to the files directly inside it */
+  byDirectory: Map<string, string[]>;
+}
+
+const DEFAULT_MIN_FILES_PER_PAGE = 5;
+
+// Files that never help to explain code
+const IGNORED_FILES = /(^|\/)(package-lock\.json|yarn\.lock|pnpm-lock\.yaml|poetry\.lock|Cargo\.lock)$|\.(png|jpe?g|gif|svg|ico|webp|woff2?|ttf|eot|pdf|zip|gz|map|min\.js)$/i;
+
+// Words of page titles that say nothing about which files belong to the page
+const STOP_WORDS = new Set([
+  'and', 'the', 'for', 'with', 'from', 'into', 'how', 'what', 'overview', 'introduction', 'guide',
+  'system', 'systems', 'component', 'components', 'management', 'details', 'project', 'features', 'feature'
+]);
+
+const normalizePath = (filePath: string): string =>
+  filePath.trim().replace(/\\/g, '/').replace(/^(\.\/|\/)+/, '').replace(/\/+$/, '');
+
+const dirname = (filePath: string): string => filePath.includes('/') ? filePath.slice(0, filePath.lastIndexOf('/')) : '';
+
+const basename = (filePath: string): string => filePath.slice(filePath.lastIndexOf('/') + 1);
+
+const tokenize = (text: string): string[] =>
+  text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length >= 3);
+
+// Treats "generator" and "generation" as the same word
+const sameWord = (a: string, b: string): boolean =>
+  a === b || (a.length >= 5 && b.length >= 5 && a.slice(0, 5) === b.slice(0, 5));
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+const addToList = (map: Map<string, string[]>, key: string, value: string): void => {
+  const list = map.get(key);
+  if (list) list.push(value);
+  else map.set(key, [value]);
+};
+
+function createFileIndex(fileTree: string): FileIndex {
+  const index: FileIndex = {
+    files: [],
+    paths: new Set(),
+    directories: new Set(),
+    caseInsensitive: new Map(),
+    byName: new Map(),
+    byDirectory: new Map()
+  };
+
+  fileTree.split('\n').map(normalizePath).filter(Boolean).forEach(filePath => {
+    const directory = dirname(filePath);
+    index.paths.add(filePath);
+    index.caseInsensitive.set(filePath.toLowerCase(), filePath);
+    addToList(index.byName, basename(filePath).toLowerCase(), filePath);
+    addToList(index.byDirectory, directory, filePath);
+
+    for (let parent = directory; parent && !index.directories.has(parent); parent = dirname(parent)) {
+      index.directories.add(parent);
+      index.caseInsensitive.set(parent.toLowerCase(), parent);
+    }
+
+    if (!IGNORED_FILES.test(filePath)) {
+      index.files.push({ path: filePath, directory, tokens: tokenize(filePath) });
+    }
+  });
+
+  return index;
+}
+
+const exists = (index: FileIndex, filePath: string): boolean =>
+  index.paths.has(filePath) || index.directories.has(filePath);
+
+// Picks the candidate sharing the most directories with the wanted path, or none when that is ambiguous
+function closestByDirectory(candidates: string[], wanted: string): string | null {
+  const wantedDirectories = dirname(wanted).toLowerCase().split('/');
+  const scored = candidates
+    .map(candidate => ({
+      candidate,
+      score: dirname(candidate).toLowerCase().split('/').filter(part => wantedDirectories.includes(part)).length
+    }))
+    .sort((a, b) => b.score - a.score);
+
+  if (scored.length === 1 || scored[0].score > scored[1].score) {
+    return scored[0].candidate;
+  }
+  return null;
+}
+
+/**
+ * Finds the real path a path chosen by the model most likely refers to.
+ * @returns The real path, or null when no file is close enough
+ */
+function resolvePath(index: FileIndex, filePath: string): string | null {
+  const wanted = normalizePath(filePath);
+  if (!wanted) return null;
+  if (exists(index, wanted)) return wanted;
+
+  const caseInsensitive = index.caseInsensitive.get(wanted.toLowerCase());
+  if (caseInsensitive) return caseInsensitive;
+
+  // Extra leading directories, e.g. the repository name
+  const parts = wanted.split('/');
+  for (let i = 1; i < parts.length; i++) {
+    const suffix = parts.slice(i).join('/');
+    const match = index.caseInsensitive.get(suffix.toLowerCase());
+    if (match) return match;
+  }
+
+  // Missing leading directories, or the file lives in another directory
+  const sameName = index.byName.get(basename(wanted).toLowerCase()) ?? [];
+  if (sameName.length > 0) {
+    const withSuffix = sameName.filter(candidate => candidate.toLowerCase().endsWith(`/${wanted.toLowerCase()}`));
+    return closestByDirectory(withSuffix.length > 0 ? withSuffix : sameName, wanted);
+  }
+
+  const directory = index.caseInsensitive.get(dirname(wanted).toLowerCase()) ?? dirname(wanted);
+  const siblings = index.byDirectory.get(directory) ?? [];
+  const name = basename(wanted).toLowerCase();
+
+  // Wrong extension in an existing directory
+  const stem = name.replace(/\.[^.]*$/, '');
+  const sameStem = siblings.filter(candidate => basename(candidate).toLowerCase().replace(/\.[^.]*$/, '') === stem);
+  if (sameStem.length === 1) return sameStem[0];
+
+  // Misspelled file name in an existing directory
+  const maxDistance = Math.max(1, Math.floor(name.length / 5));
+  const similar = siblings
+    .map(candidate => ({ candidate, distance: editDistance(name, basename(candidate).toLowerCase()) }))
+    .filter(({ distance }) => distance <= maxDistance)
+    .sort((a, b) => a.distance - b.distance);
+
+  if (similar.length === 1 || (similar.length > 1 && similar[0].distance < similar[1].distance)) {
+    return similar[0].candidate;
+  }
+  return null;
+}
+
+/**
+ * Ranks the files of the tree by how well they fit a page: files whose path shares words with
+ * the page title first, then files next to the page's other files.
+ */
+function findRelatedFiles(index: FileIndex, page: WikiPage, exclude: Set<string>, limit: number): string[] {
+  const titleTokens = tokenize(page.title).filter(token => !STOP_WORDS.has(token));
+  const pageDirectories = page.filePaths.filter(filePath => index.directories.has(filePath));
+  const fileDirectories = new Set(page.filePaths.filter(filePath => index.paths.has(filePath)).map(dirname));
+
+  return index.files
+    // Files inside a directory of the page are part of it already
+    .filter(file => !exclude.has(file.path) && !pageDirectories.some(directory => file.path.startsWith(`${directory}/`)))
+    .map(file => ({
+      file,
+      score: titleTokens.filter(token => file.tokens.some(fileToken => sameWord(token, fileToken))).length * 2 +
+        (fileDirectories.has(file.directory) ? 1 : 0)
+    }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) =>
+      b.score - a.score ||
+      a.file.path.split('/').length - b.file.path.split('/').length ||
+      a.file.path.localeCompare(b.file.path))
+    .slice(0, limit)
+    .map(({ file }) => file.path);
+}
+
+/**
+ * Validates the file paths of every page of a structure against the repository file tree.
+ * @param fileTree Newline separated paths, as returned by fetchRepositoryStructure
+ * @returns The structure with corrected file paths and the corrections that were made
+ */
+export function validateFilePaths(
+  structure: WikiStructure,
+  fileTree: string,
+  options: FilePathValidationOptions = {}
+): FilePathValidationResult {
+  const minFilesPerPage = options.minFilesPerPage ?? DEFAULT_MIN_FILES_PER_PAGE;
+  const index = createFileIndex(fileTree);
+  // Without a tree every path would be dropped
+  if (index.paths.size === 0) {
+    return { structure, corrections: [] };
+  }
+
+  const corrections: FilePathCorrection[] = [];
+  const pages = structure.pages.map(page => {
+    const filePaths: string[] = [];
+
+    page.filePaths.forEach(originalPath => {
+      const resolved = resolvePath(index, originalPath);
+      if (!resolved) {
+        corrections.push({ pageId: page.id, type: 'dropped', originalPath });
+        return;
+      }
+      // Only a different file is a correction, not e.g. a leading "./" or a trailing slash
+      if (resolved !== normalizePath(originalPath)) {
+        corrections.push({ pageId: page.id, type: 'corrected', originalPath, path: resolved });
+      }
+      if (!filePaths.includes(resolved)) filePaths.push(resolved);
+    });
+
+    if (filePaths.length < minFilesPerPage) {
+      const added = findRelatedFiles(index, { ...page, filePaths }, new Set(filePaths), minFilesPerPage - filePaths.length);
+      added.forEach(filePath => corrections.push({ pageId: page.id, type: 'added', path: filePath }));
+      filePaths.push(...added);
+    }
+
+    return { ...page, filePaths };
+  });
+
+  return { structure: { ...structure, pages }, corrections };
+}
@@ -0,0 +1,86 @@
+/**
+ * Looks up the code identifiers a page mentions in inline code, such as `generatePage()` or
+ * `WikiStructure`, in the source files of the page. The prompt forbids mentioning anything that is
+ * not in those files; identifiers found in none of them are reported as unverified.
+ */
+
+import { Logger } from '@/types/logger';
+import { IdentifierCheck } from '@/types/wiki/identifiercheck';
+import { SourceFileReader } from '@/utils/repository/sourceFileReader';
+
+/** Share of unverified identifiers above which a generated page is generated once more */
+export const DEFAULT_MAX_UNVERIFIED_IDENTIFIERS = 0.3;
+
+/** Whether a value is a valid share of unverified identifiers, from 0 to 1, e.g. one read from a URL */
+export const isUnverifiedShare = (value: unknown): value is number =>
+  typeof value === 'number' && value >= 0 && value <= 1;
+
+// A name, possibly qualified (`config.load`, `Wiki::Page`) and written as a call (`load()`, `load(path)`)
+const CODE_REFERENCE = /^([A-Za-z_$][\w$]*(?:(?:\.|::|#)[A-Za-z_$][\w$]*)*)(?:\([^()]*\))?$/;
+const SOURCE_TOKEN = /[A-Za-z_$][\w$]*/g;
+
+/**
+ * The identifier named by inline code, or undefined for code that does not name one. Only names
+ * that look like code count: camelCase, PascalCase with several words, names with underscores and
+ * calls. Plain words such as `true` or `npm` are left out, as are file names such as `app.json`.
+ * Qualified names are reduced to their last part.
+ */
+export function getCodeIdentifier(code: string): string | undefined {
+  const text = code.trim();
+  const match = text.match(CODE_REFERENCE);
+  if (!match) {
+    return undefined;
+  }
+  const name = match[1].split(/\.|::|#/).pop()!;
+  const isCall = text.endsWith(')');
+  const looksLikeCode = /[a-z\d][A-Z]/.test(name) || /[A-Za-z\d]_|_[A-Za-z\d]/.test(name) || isCall;
+  return name.length >= 3 && looksLikeCode ? name : undefined;
+}
+
+/**
+ * Lists the distinct code identifiers of Markdown content, in the order they appear.
+ * Code blocks are left out; they show code rather than naming it.
+ */
+export function findCodeIdentifiers(content: string): string[] {
+  const text = content.replace(/(```|~~~)[\s\S]*?(\1|$)/g, '');
+  const identifiers = Array.from(text.matchAll(/`([^`\n]+)`/g))
+    .map(match => getCodeIdentifier(match[1]))
+    .filter((identifier): identifier is string => !!identifier);
+  return Array.from(new Set(identifiers));
+}
+
+/**
+ * Looks up the code identifiers of a page in the given source files.
+ */
+export function checkIdentifiers(content: string, sources: string[]): IdentifierCheck {
+  const tokens = new Set(sources.flatMap(source => source.match(SOURCE_TOKEN) ?? []));
+  const identifiers = findCodeIdentifiers(content);
+  return {
+    checkedAt: new Date().toISOString(),
+    total: identifiers.length,
+    unverified: identifiers.filter(identifier => !tokens.has(identifier))
+  };
+}
+
+/**
+ * Looks up the code identifiers of a page in its source files. Files that cannot be read are left out.
+ * @returns undefined when none of the source files of the page can be read
+ */
+export async function groundIdentifiers(
+  page: { title: string; content: string; filePaths: string[] },
+  files: SourceFileReader,
+  logger: Logger = console
+): Promise<IdentifierCheck | undefined> {
+  const sources = await Promise.all(page.filePaths.map(filePath => files.readFile(filePath).catch(err => {
+    logger.warn(`Could not read ${filePath} to check the identifiers of ${page.title}:`, err);
+    return undefined;
+  })));
+  const readableSources = sources.filter((source): source is string => source !== undefined);
+  return readableSources.length > 0 ? checkIdentifiers(page.content, readableSources) : undefined;
+}
+
+/**
+ * Share of the code identifiers of a page that are unverified, from 0 to 1; 0 for pages without identifiers.
+ */
+export const getUnverifiedShare = (check: IdentifierCheck): number =>
+  check.total > 0 ? check.unverified.length / check.total : 0;
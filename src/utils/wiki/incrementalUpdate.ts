@@ -0,0 +1,86 @@
+/**
+ * Detects new commits since a wiki was generated and maps the changed files to the pages that have to be regenerated.
+ */
+
+import { WikiPage } from '@/types/wiki/wikipage';
+import { WikiStructure } from '@/types/wiki/wikistructure';
+import { ChangedFile, RepositoryProvider } from '@/utils/repository/repositoryProvider';
+
+export interface IncrementalUpdatePlan {
+  changedFiles: ChangedFile[];
+  /** Pages that reference a changed, removed or renamed file */
+  affectedPageIds: string[];
+  /** Whether files were added, removed or renamed, so the wiki structure has to be determined again */
+  structureChanged: boolean;
+}
+
+// Page file paths are sometimes directories; a change inside a directory affects the page as well
+const referencesFile = (page: WikiPage, filePath: string): boolean =>
+  page.filePaths.some(pagePath => {
+    const normalized = pagePath.replace(/^\.?\//, '').replace(/\/$/, '');
+    return normalized === filePath || filePath.startsWith(`${normalized}/`);
+  });
+
+/**
+ * Determines which pages of a wiki are affected by a set of changed files.
+ */
+export function planIncrementalUpdate(structure: WikiStructure, changedFiles: ChangedFile[]): IncrementalUpdatePlan {
+  const affectedPageIds = new Set<string>();
+  let structureChanged = false;
+
+  for (const file of changedFiles) {
+    if (file.status !== 'modified') {
+      structureChanged = true;
+    }
+
+    const paths = file.previousPath ? [file.path, file.previousPath] : [file.path];
+    structure.pages
+      .filter(page => paths.some(filePath => referencesFile(page, filePath)))
+      .forEach(page => affectedPageIds.add(page.id));
+  }
+
+  return {
+    changedFiles,
+    affectedPageIds: structure.pages.filter(page => affectedPageIds.has(page.id)).map(page => page.id),
+    structureChanged
+  };
+}
+
+const sameFiles = (a: string[], b: string[]): boolean =>
+  a.length === b.length && a.every(filePath => b.includes(filePath));
+
+/**
+ * Selects the pages of a (possibly re-determined) structure that have to be generated again:
+ * affected pages, new pages, pages whose files changed and pages without cached content.
+ */
+export function selectPagesToRegenerate(
+  structure: WikiStructure,
+  previousStructure: WikiStructure,
+  previousPages: Record<string, WikiPage>,
+  plan: IncrementalUpdatePlan
+): WikiPage[] {
+  return structure.pages.filter(page => {
+    const previousPage = previousStructure.pages.find(p => p.id === page.id);
+    return !previousPage ||
+      !previousPages[page.id]?.content ||
+      plan.affectedPageIds.includes(page.id) ||
+      !sameFiles(page.filePaths, previousPage.filePaths);
+  });
+}
+
+/**
+ * Looks up whether the ref a wiki was generated from has moved on since.
+ * @param ref Branch, tag or commit the wiki was generated from
+ * @param commitSha Commit the wiki was generated from
+ * @returns The commit the ref points to now, or undefined when it is the commit of the wiki or either commit is unknown
+ */
+export async function findNewerCommit(
+  provider: RepositoryProvider,
+  ref: string,
+  commitSha?: string
+): Promise<string | undefined> {
+  if (!commitSha) return undefined;
+
+  const latestCommitSha = await provider.getLatestCommit(ref);
+  return latestCommitSha && latestCommitSha !== commitSha ? latestCommitSha : undefined;
+}
@@ -0,0 +1,202 @@
+/**
+ * Priority job scheduler used for page generation.
+ * Runs up to `concurrency` jobs at once, retries failed jobs with exponential backoff
+ * and lets callers cancel or reprioritise jobs while they are queued or running.
+ */
+
+export interface ScheduledJob<T> {
+  id: string;
+  /** Higher values run first; jobs with the same priority run in insertion order */
+  priority: number;
+  /** Executes the job; the signal is aborted when the job is cancelled */
+  run: (signal: AbortSignal, attempt: number) => Promise<T>;
+}
+
+export interface JobSchedulerOptions {
+  concurrency: number;
+  /** Number of retries after the first failed attempt */
+  maxRetries?: number;
+  /** Delay before the first retry; doubled for every further retry */
+  retryDelayMs?: number;
+  /** Decides whether a failed attempt should be retried */
+  shouldRetry?: (error: Error) => boolean;
+}
+
+export interface JobSchedulerEvents<T> {
+  onStart?: (id: string, attempt: number) => void;
+  onRetry?: (id: string, attempt: number, delayMs: number, error: Error) => void;
+  onSuccess?: (id: string, result: T) => void;
+  onFailure?: (id: string, error: Error) => void;
+  onCancel?: (id: string) => void;
+}
+
+interface QueuedJob<T> extends ScheduledJob<T> {
+  order: number;
+}
+
+const DEFAULT_MAX_RETRIES = 2;
+const DEFAULT_RETRY_DELAY_MS = 2000;
+
+const compareJobs = <T>(a: QueuedJob<T>, b: QueuedJob<T>): number =>
+  b.priority - a.priority || a.order - b.order;
+
+const sleep = (ms: number, signal: AbortSignal): Promise<void> => new Promise(resolve => {
+  const timeout = setTimeout(done, ms);
+  function done() {
+    clearTimeout(timeout);
+    signal.removeEventListener('abort', done);
+    resolve();
+  }
+  signal.addEventListener('abort', done);
+});
+
+export class JobScheduler<T> {
+  private readonly options: Required<JobSchedulerOptions>;
+  private readonly events: JobSchedulerEvents<T>;
+  private readonly queue: QueuedJob<T>[] = [];
+  private readonly running = new Map<string, AbortController>();
+  private nextOrder = 0;
+  private stopped = false;
+  private idleWaiters: (() => void)[] = [];
+
+  constructor(options: JobSchedulerOptions, events: JobSchedulerEvents<T> = {}) {
+    this.options = {
+      concurrency: Math.max(1, Math.floor(options.concurrency) || 1),
+      maxRetries: options.maxRetries ?? DEFAULT_MAX_RETRIES,
+      retryDelayMs: options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS,
+      shouldRetry: options.shouldRetry ?? (() => true)
+    };
+    this.events = events;
+  }
+
+  /**
+   * Adds a job to the queue. Jobs whose id is already queued or running are ignored.
+   */
+  add(job: ScheduledJob<T>): void {
+    if (this.stopped || this.has(job.id)) return;
+    this.queue.push({ ...job, order: this.nextOrder++ });
+    this.pump();
+  }
+
+  has(id: string): boolean {
+    return this.running.has(id) || this.queue.some(job => job.id === id);
+  }
+
+  /** Ids of queued jobs in the order they will run */
+  get queuedIds(): string[] {
+    return [...this.queue].sort(compareJobs).map(job => job.id);
+  }
+
+  get runningIds(): string[] {
+    return Array.from(this.running.keys());
+  }
+
+  /**
+   * Moves a queued job ahead of every other queued job.
+   * @returns false when the job is not queued
+   */
+  prioritize(id: string): boolean {
+    const job = this.queue.find(job => job.id === id);
+    if (!job) return false;
+    const highest = Math.max(...this.queue.map(queued => queued.priority));
+    job.priority = Math.max(job.priority, highest + 1);
+    return true;
+  }
+
+  /**
+   * Removes a queued job or aborts a running one.
+   * @returns false when the job is neither queued nor running
+   */
+  cancel(id: string): boolean {
+    const index = this.queue.findIndex(job => job.id === id);
+    if (index !== -1) {
+      this.queue.splice(index, 1);
+      this.events.onCancel?.(id);
+      this.pump();
+      return true;
+    }
+
+    const controller = this.running.get(id);
+    if (!controller) return false;
+    controller.abort();
+    return true;
+  }
+
+  /**
+   * Cancels every queued and running job. The scheduler accepts no new jobs afterwards.
+   */
+  cancelAll(): void {
+    this.stopped = true;
+    const queued = this.queue.splice(0, this.queue.length);
+    queued.forEach(job => this.events.onCancel?.(job.id));
+    this.running.forEach(controller => controller.abort());
+    this.pump();
+  }
+
+  /**
+   * Resolves once the queue is empty and no job is running.
+   */
+  onIdle(): Promise<void> {
+    if (this.isIdle()) return Promise.resolve();
+    return new Promise(resolve => this.idleWaiters.push(resolve));
+  }
+
+  private isIdle(): boolean {
+    return this.running.size === 0 && this.queue.length === 0;
+  }
+
+  private pump(): void {
+    while (!this.stopped && this.running.size < this.options.concurrency && this.queue.length > 0) {
+      this.queue.sort(compareJobs);
+      const job = this.queue.shift();
+      if (job) void this.execute(job);
+    }
+
+    if (this.isIdle()) {
+      const waiters = this.idleWaiters;
+      this.idleWaiters = [];
+      waiters.forEach(resolve => resolve());
+    }
+  }
+
+  private async execute(job: QueuedJob<T>): Promise<void> {
+    const controller = new AbortController();
+    this.running.set(job.id, controller);
+
+    try {
+      for (let attempt = 1; ; attempt++) {
+        this.events.onStart?.(job.id, attempt);
+        try {
+          const result = await job.run(controller.signal, attempt);
+          if (controller.signal.aborted) {
+            this.events.onCancel?.(job.id);
+          } else {
+            this.events.onSuccess?.(job.id, result);
+          }
+          return;
+        } catch (err) {
+          const error = err instanceof Error ? err : new Error(String(err));
+          if (controller.signal.aborted) {
+            this.events.onCancel?.(job.id);
+            return;
+          }
+          if (attempt > this.options.maxRetries || !this.options.shouldRetry(error)) {
+            this.events.onFailure?.(job.id, error);
+            return;
+          }
+
+          const delayMs = this.options.retryDelayMs * 2 ** (attempt - 1);
+          this.events.onRetry?.(job.id, attempt, delayMs, error);
+          await sleep(delayMs, controller.signal);
+          if (controller.signal.aborted) {
+            this.events.onCancel?.(job.id);
+            return;
+          }
+        }
+      }
+    } finally {
+      this.running.delete(job.id);
+      this.pump();
+    }
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * Resolves the links between wiki pages that the model writes as `[Link Text](#page-anchor-or-id)`.
+ * A link names a page by its id or by its title, e.g. `#page-3` or `#authentication-flow`, or
+ * else a heading of the page it is on. Links that match neither are reported as broken.
+ */
+
+import { WikiPage } from '@/types/wiki/wikipage';
+import { getSectionHeadings } from './lockedContent';
+import { createHeadingSlugger, findPageBySlug, slugify } from './pageLinks';
+
+export interface ResolvedLink {
+  pageId: string;
+  /** Heading of the page the link points to */
+  anchor?: string;
+}
+
+export interface BrokenLink {
+  /** Page the link is on */
+  pageId: string;
+  text: string;
+  href: string;
+}
+
+const MARKDOWN_LINK = /\[([^\]]*)\]\(([^)\s]+)\)/g;
+
+/**
+ * Lists the links of Markdown content. Images are not links, and neither are links in code.
+ */
+export function findMarkdownLinks(content: string): { text: string; href: string }[] {
+  const text = content
+    .replace(/(```|~~~)[\s\S]*?(\1|$)/g, '')
+    .replace(/`[^`\n]*`/g, '');
+  const links: { text: string; href: string }[] = [];
+  for (const match of text.matchAll(MARKDOWN_LINK)) {
+    const isImage = match.index !== undefined && match.index > 0 && text[match.index - 1] === '!';
+    if (!isImage) {
+      links.push({ text: match[1], href: match[2] });
+    }
+  }
+  return links;
+}
+
+/**
+ * Anchors of the headings of a page, as given to them when the page is shown.
+ */
+export function getHeadingAnchors(content: string): string[] {
+  const slugHeading = createHeadingSlugger();
+  return getSectionHeadings(content).map(slugHeading);
+}
+
+/**
+ * Finds the page, and possibly the heading, a link starting with `#` points to.
+ * Pages take precedence over headings of the current page with the same name.
+ */
+export function resolvePageLink(href: string, pages: WikiPage[], currentPage?: WikiPage): ResolvedLink | undefined {
+  if (!href.startsWith('#')) {
+    return undefined;
+  }
+  let target = href.slice(1);
+  try {
+    target = decodeURIComponent(target);
+  } catch {
+    // Keep malformed escapes as they are
+  }
+  const slug = slugify(target);
+  if (!slug) {
+    return undefined;
+  }
+
+  const page = findPageBySlug(pages, target.trim()) ?? findPageBySlug(pages, slug);
+  if (page) {
+    return { pageId: page.id };
+  }
+  if (currentPage && getHeadingAnchors(currentPage.content).includes(slug)) {
+    return { pageId: currentPage.id, anchor: slug };
+  }
+  return undefined;
+}
+
+/**
+ * Lists the links between pages that do not resolve, in the order of the wiki.
+ */
+export function findBrokenLinks(pages: WikiPage[], generatedPages: Record<string, WikiPage>): BrokenLink[] {
+  const brokenLinks: BrokenLink[] = [];
+  pages.forEach(structurePage => {
+    const page = generatedPages[structurePage.id];
+    if (!page?.content) {
+      return;
+    }
+    findMarkdownLinks(page.content)
+      .filter(link => link.href.startsWith('#') && !resolvePageLink(link.href, pages, page))
+      .forEach(link => brokenLinks.push({ pageId: page.id, ...link }));
+  });
+  return brokenLinks;
+}
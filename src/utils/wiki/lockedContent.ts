@@ -0,0 +1,111 @@
+/**
+ * Keeps the parts of a wiki that were locked after editing them in the browser: locked pages are
+ * not generated again, and locked sections replace the same sections of a regenerated page.
+ * Sections are identified by their Markdown heading.
+ */
+
+import { WikiPage } from '@/types/wiki/wikipage';
+
+interface HeadingLine {
+  index: number;
+  level: number;
+  text: string;
+}
+
+const HEADING = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+const FENCE = /^\s*(```|~~~)/;
+
+const normalizeHeading = (heading: string): string => heading.trim().toLowerCase();
+
+// Headings inside code blocks, e.g. in a Markdown example, do not start a section
+function findHeadings(lines: string[]): HeadingLine[] {
+  const headings: HeadingLine[] = [];
+  let inFence = false;
+  lines.forEach((line, index) => {
+    if (FENCE.test(line)) {
+      inFence = !inFence;
+      return;
+    }
+    const match = !inFence && line.match(HEADING);
+    if (match) {
+      headings.push({ index, level: match[1].length, text: match[2] });
+    }
+  });
+  return headings;
+}
+
+// A section reaches from its heading to the next heading of the same or a higher level
+function findSection(lines: string[], heading: string): { start: number; end: number } | undefined {
+  const headings = findHeadings(lines);
+  const position = headings.findIndex(h => normalizeHeading(h.text) === normalizeHeading(heading));
+  if (position === -1) {
+    return undefined;
+  }
+  const { index, level } = headings[position];
+  const next = headings.slice(position + 1).find(h => h.level <= level);
+  return { start: index, end: next ? next.index : lines.length };
+}
+
+/**
+ * Lists the headings of a page, in the order they appear.
+ */
+export function getSectionHeadings(content: string): string[] {
+  return findHeadings(content.split('\n')).map(h => h.text);
+}
+
+/**
+ * Replaces the locked sections in newly generated content with their previous text.
+ * Locked sections the new content no longer has are appended at its end.
+ */
+export function mergeLockedSections(previousContent: string, content: string, lockedSections: string[]): string {
+  const previousLines = previousContent.split('\n');
+  let lines = content.split('\n');
+
+  for (const heading of lockedSections) {
+    const previous = findSection(previousLines, heading);
+    if (!previous) continue;
+    const lockedLines = previousLines.slice(previous.start, previous.end);
+
+    const current = findSection(lines, heading);
+    lines = current
+      ? [...lines.slice(0, current.start), ...lockedLines, ...lines.slice(current.end)]
+      : [...lines, '', ...lockedLines];
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Whether a page or some of its sections are locked.
+ */
+export const hasLockedContent = (page?: WikiPage): boolean =>
+  !!page && (!!page.locked || (page.lockedSections?.length ?? 0) > 0);
+
+/**
+ * Selects the pages with locked content, to keep it when the wiki is generated again.
+ */
+export function collectLockedPages(pages: Record<string, WikiPage>): WikiPage[] {
+  return Object.values(pages).filter(page => hasLockedContent(page));
+}
+
+/**
+ * Finds the locked page for a page of a (possibly re-determined) structure: the page with the
+ * same id, else the page with the same title.
+ */
+export function findLockedPage(page: WikiPage, lockedPages: WikiPage[]): WikiPage | undefined {
+  return lockedPages.find(locked => locked.id === page.id) ??
+    lockedPages.find(locked => normalizeHeading(locked.title) === normalizeHeading(page.title));
+}
+
+/**
+ * Applies a locked page to the page generated in its place: a locked page keeps its content and
+ * generation info, otherwise its locked sections are merged into the generated content.
+ */
+export function applyLockedContent(page: WikiPage, locked: WikiPage): WikiPage {
+  const lockFields = { locked: locked.locked, lockedSections: locked.lockedSections, editedAt: locked.editedAt };
+  if (locked.locked) {
+    const { content, generation, citationCheck, identifierCheck, validation } = locked;
+    return { ...page, content, generation, citationCheck, identifierCheck, validation, ...lockFields };
+  }
+  return { ...page, content: mergeLockedSections(locked.content, page.content, locked.lockedSections ?? []), ...lockFields };
+}
@@ -0,0 +1,71 @@
+/**
+ * Repairs Mermaid diagrams of wiki pages that fail to render. The failing diagram and the parser
+ * error are sent to the model with a fix-only prompt, and every candidate is parsed before it is
+ * accepted; a candidate that fails is sent back with its own error, up to a number of attempts.
+ */
+
+import { Logger } from '@/types/logger';
+import { generateMermaidRepairPrompt } from '@/utils/promptTemplate';
+
+export const DEFAULT_MAX_REPAIR_ATTEMPTS = 3;
+
+export interface MermaidRepairOptions {
+  /** Asks the model with the given prompt and returns its answer */
+  requestFix: (prompt: string) => Promise<string>;
+  /** Parses a diagram; returns the parser error, or undefined for a valid diagram */
+  validate: (chart: string) => Promise<string | undefined>;
+  maxAttempts?: number;
+  logger?: Logger;
+}
+
+/**
+ * The diagram of a model answer, without the code fence the model may have put around it anyway.
+ */
+export function extractMermaidDiagram(response: string): string {
+  const fenced = response.match(/```(?:mermaid)?[^\n]*\n([\s\S]*?)```/);
+  return (fenced ? fenced[1] : response).trim();
+}
+
+/**
+ * Asks the model to fix a diagram until a candidate parses.
+ * @returns The fixed diagram, or undefined when no attempt produced a valid one
+ * @throws Error when the model cannot be reached
+ */
+export async function repairMermaidDiagram(
+  chart: string,
+  error: string,
+  { requestFix, validate, maxAttempts = DEFAULT_MAX_REPAIR_ATTEMPTS, logger = console }: MermaidRepairOptions
+): Promise<string | undefined> {
+  let candidate = chart;
+  let candidateError = error;
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    candidate = extractMermaidDiagram(await requestFix(generateMermaidRepairPrompt(candidate, candidateError)));
+    const parseError = candidate ? await validate(candidate) : 'The answer contains no diagram';
+    if (!parseError) {
+      logger.log(`Repaired a Mermaid diagram (attempt ${attempt})`);
+      return candidate;
+    }
+    logger.warn(`Attempt ${attempt} to repair a Mermaid diagram failed: ${parseError}`);
+    if (!candidate) {
+      candidate = chart;
+    } else {
+      candidateError = parseError;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Replaces a Mermaid diagram of Markdown content.
+ * @returns The content as it is when it has no such diagram
+ */
+export function replaceMermaidDiagram(content: string, chart: string, fixedChart: string): string {
+  let isReplaced = false;
+  return content.replace(/(```mermaid[^\n]*\n)([\s\S]*?)(```)/g, (block, open: string, diagram: string, close: string) => {
+    if (isReplaced || diagram.trim() !== chart.trim()) {
+      return block;
+    }
+    isReplaced = true;
+    return `${open}${fixedChart.trim()}\n${close}`;
+  });
+}
@@ -0,0 +1,67 @@
+/**
+ * Links to wiki pages and to headings within them. Pages are linked by a slug of their title
+ * rather than by id, so that a link stays valid when the wiki is generated again and page ids change.
+ */
+
+import { WikiPage } from '@/types/wiki/wikipage';
+
+// ASCII punctuation is dropped from slugs; letters of other scripts are kept
+const PUNCTUATION = /[!"#$%&'()*+,./:;<=>?@[\\\]^`{|}~]/g;
+
+/**
+ * Lowercases the text and joins its words with dashes, e.g. "Authentication Flow" -> "authentication-flow".
+ */
+export function slugify(text: string): string {
+  return text
+    .trim()
+    .toLowerCase()
+    .replace(PUNCTUATION, '')
+    .replace(/\s+/g, '-')
+    .replace(/-+/g, '-')
+    .replace(/^-|-$/g, '');
+}
+
+/**
+ * Slugs of all pages by page id. Pages whose titles give the same slug are numbered in the order
+ * of the wiki, and pages without a usable title are linked by their id.
+ */
+export function getPageSlugs(pages: WikiPage[]): Map<string, string> {
+  const slugs = new Map<string, string>();
+  const taken = new Set<string>();
+  pages.forEach(page => {
+    const base = slugify(page.title) || page.id;
+    let slug = base;
+    for (let n = 2; taken.has(slug); n++) {
+      slug = `${base}-${n}`;
+    }
+    taken.add(slug);
+    slugs.set(page.id, slug);
+  });
+  return slugs;
+}
+
+/**
+ * Finds the page a link points to, by slug or, for links made from page ids, by id.
+ */
+export function findPageBySlug(pages: WikiPage[], slug: string): WikiPage | undefined {
+  for (const [pageId, pageSlug] of getPageSlugs(pages)) {
+    if (pageSlug === slug) {
+      return pages.find(page => page.id === pageId);
+    }
+  }
+  return pages.find(page => page.id === slug);
+}
+
+/**
+ * Creates a function returning the anchor of each heading of a page, in document order.
+ * Repeated headings get numbered anchors, e.g. "usage", "usage-1".
+ */
+export function createHeadingSlugger(): (text: string) => string {
+  const counts = new Map<string, number>();
+  return (text: string) => {
+    const base = slugify(text) || 'section';
+    const count = counts.get(base) ?? 0;
+    counts.set(base, count + 1);
+    return count === 0 ? base : `${base}-${count}`;
+  };
+}
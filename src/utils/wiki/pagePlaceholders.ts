@@ -0,0 +1,19 @@
+/**
+ * Content shown in place of a page while it is generated, and stored for pages whose generation
+ * failed or was cancelled. Pages with this content are generated again when a wiki is resumed,
+ * see findMissingPages.
+ */
+
+export const PAGE_LOADING_CONTENT = 'Loading...';
+
+export const PAGE_CANCELLED_CONTENT = 'Generation of this page was cancelled.';
+
+export const PAGE_ERROR_PREFIX = 'Error generating content: ';
+
+/** The content stored for a page whose generation failed */
+export const getPageErrorContent = (message: string): string => `${PAGE_ERROR_PREFIX}${message}`;
+
+/** Whether page content is one of the placeholders rather than generated or edited content */
+export function isPlaceholderContent(content: string): boolean {
+  return content === PAGE_LOADING_CONTENT || content === PAGE_CANCELLED_CONTENT || content.startsWith(PAGE_ERROR_PREFIX);
+}
@@ -0,0 +1,106 @@
+/**
+ * Checks the content of a generated page against the rules of the page prompt: the `<details>`
+ * block of at least five source files, the H1 title, Mermaid diagrams in the `@{}` syntax and
+ * top-down direction, and citations with line numbers. Used for every generated page and by the
+ * prompt test harness in tests/wiki-prompt-test.
+ */
+
+import { PageValidation } from '@/types/wiki/pagevalidation';
+
+const MIN_SOURCE_FILES = 5;
+
+/**
+ * Checks the content of a page. Errors fail the page, warnings do not.
+ */
+export function validateWikiContent(content: string): PageValidation {
+  const result: PageValidation = {
+    passed: true,
+    errors: [],
+    warnings: [],
+    stats: {
+      hasSummaryBlock: false,
+      sourceFileCount: 0,
+      hasMermaidDiagrams: false,
+      usesNewSyntax: false,
+      hasProperCitations: false,
+      hasTitle: false
+    }
+  };
+
+  // Check 1: Starts with <details> block
+  if (!content.trim().startsWith('<details>')) {
+    result.errors.push('Wiki must start with <details> block');
+  } else {
+    result.stats.hasSummaryBlock = true;
+  }
+
+  // Check 2: Count source files in details block
+  const detailsMatch = content.match(/<details>[\s\S]*?<\/details>/);
+  if (detailsMatch) {
+    const sourceFiles = detailsMatch[0].match(/- \[.*?\]\(.*?\)/g) || [];
+    result.stats.sourceFileCount = sourceFiles.length;
+
+    if (sourceFiles.length < MIN_SOURCE_FILES) {
+      result.errors.push(`Must cite at least ${MIN_SOURCE_FILES} source files (found ${sourceFiles.length})`);
+    }
+  }
+
+  // Check 3: Has H1 title after details block
+  const afterDetails = content.split('</details>')[1];
+  if (afterDetails && afterDetails.trim().match(/^# .+/m)) {
+    result.stats.hasTitle = true;
+  } else {
+    result.errors.push('Missing H1 title after details block');
+  }
+
+  // Check 4: Contains Mermaid diagrams
+  const mermaidBlocks = content.match(/```mermaid[\s\S]*?```/g) || [];
+  result.stats.hasMermaidDiagrams = mermaidBlocks.length > 0;
+
+  if (!result.stats.hasMermaidDiagrams) {
+    result.warnings.push('No Mermaid diagrams found');
+  }
+
+  // Check 5: Uses new @{} syntax in Mermaid
+  if (mermaidBlocks.length > 0) {
+    const hasNewSyntax = mermaidBlocks.some(block => block.includes('@{'));
+    result.stats.usesNewSyntax = hasNewSyntax;
+
+    // Check for old syntax
+    const hasOldSyntax = mermaidBlocks.some(block => {
+      // Look for old patterns like A[Label] or A(Label)
+      return /\w+\[(?!@\{).*?\]/.test(block) || /\w+\((?!@\{).*?\)/.test(block);
+    });
+
+    if (!hasNewSyntax) {
+      result.errors.push('Mermaid diagrams must use @{} syntax');
+    }
+
+    if (hasOldSyntax) {
+      result.warnings.push('Old bracket syntax detected in Mermaid diagrams');
+    }
+  }
+
+  // Check 6: Has proper source citations with line numbers
+  // Look for both formats:
+  // 1. Source: [file:L10](url#L10)
+  // 2. Direct citations like [src/file.ts:L10-L20](url#L10-L20)
+  const sourcePattern = /Source[s]?:\s*\[.*?:L?\d+.*?\]\(.*?\)/g;
+  const directPattern = /\[[\w/.-]+:L\d+(-L\d+)?\]\([^)]+#L\d+(-\d+)?\)/g;
+
+  const sourceCitations = content.match(sourcePattern) || [];
+  const directCitations = content.match(directPattern) || [];
+  result.stats.hasProperCitations = sourceCitations.length + directCitations.length > 0;
+
+  if (!result.stats.hasProperCitations) {
+    result.errors.push('Missing proper source citations with line numbers');
+  }
+
+  // Check 7: No graph LR (should be graph TD)
+  if (/graph\s+LR|flowchart\s+LR/.test(content)) {
+    result.errors.push('Found horizontal diagram (graph/flowchart LR) - must use TD');
+  }
+
+  result.passed = result.errors.length === 0;
+  return result;
+}
@@ -0,0 +1,169 @@
+/**
+ * Edits of a wiki structure made in the browser: adding, removing, renaming and moving pages
+ * between sections. Every function returns a new structure and leaves the given one untouched.
+ * Wikis without sections are edited as a flat list of pages.
+ */
+
+import { WikiPage } from '@/types/wiki/wikipage';
+import { WikiSection } from '@/types/wiki/wikisection';
+import { WikiStructure } from '@/types/wiki/wikistructure';
+
+export interface NewPage {
+  title: string;
+  filePaths: string[];
+  importance: WikiPage['importance'];
+  /** Section to add the page to; the first root section when omitted */
+  sectionId?: string;
+}
+
+export const hasSections = (structure: WikiStructure): boolean =>
+  structure.sections.length > 0 && structure.rootSections.length > 0;
+
+// The first id with the prefix and a number that is not taken yet
+function nextId(prefix: string, takenIds: string[]): string {
+  const taken = new Set(takenIds);
+  let n = takenIds.length + 1;
+  while (taken.has(`${prefix}-${n}`)) n++;
+  return `${prefix}-${n}`;
+}
+
+function insertBefore(ids: string[], id: string, beforeId?: string): string[] {
+  const index = beforeId ? ids.indexOf(beforeId) : -1;
+  return index === -1 ? [...ids, id] : [...ids.slice(0, index), id, ...ids.slice(index)];
+}
+
+const updatePage = (structure: WikiStructure, pageId: string, update: (page: WikiPage) => WikiPage): WikiStructure => ({
+  ...structure,
+  pages: structure.pages.map(page => page.id === pageId ? update(page) : page)
+});
+
+/**
+ * Moves a page into a section, before another page of the section or to its end.
+ * @param sectionId Target section; ignored for wikis without sections, whose pages are reordered
+ */
+export function movePage(structure: WikiStructure, pageId: string, sectionId: string | undefined, beforePageId?: string): WikiStructure {
+  if (pageId === beforePageId || !structure.pages.some(page => page.id === pageId)) {
+    return structure;
+  }
+
+  if (!hasSections(structure) || !sectionId) {
+    const moved = structure.pages.find(page => page.id === pageId)!;
+    const pages = structure.pages.filter(page => page.id !== pageId);
+    const index = beforePageId ? pages.findIndex(page => page.id === beforePageId) : -1;
+    return { ...structure, pages: index === -1 ? [...pages, moved] : [...pages.slice(0, index), moved, ...pages.slice(index)] };
+  }
+
+  if (!structure.sections.some(section => section.id === sectionId)) {
+    return structure;
+  }
+  const sections = structure.sections.map(section => {
+    const pages = section.pages.filter(id => id !== pageId);
+    return section.id === sectionId ? { ...section, pages: insertBefore(pages, pageId, beforePageId) } : { ...section, pages };
+  });
+  return updatePage({ ...structure, sections }, pageId, page => ({ ...page, parentId: sectionId }));
+}
+
+export function renamePage(structure: WikiStructure, pageId: string, title: string): WikiStructure {
+  return updatePage(structure, pageId, page => ({ ...page, title }));
+}
+
+export function renameSection(structure: WikiStructure, sectionId: string, title: string): WikiStructure {
+  return {
+    ...structure,
+    sections: structure.sections.map(section => section.id === sectionId ? { ...section, title } : section)
+  };
+}
+
+/**
+ * Removes a page from the wiki, its section and the related pages of other pages.
+ */
+export function removePage(structure: WikiStructure, pageId: string): WikiStructure {
+  return {
+    ...structure,
+    pages: structure.pages
+      .filter(page => page.id !== pageId)
+      .map(page => page.relatedPages.includes(pageId)
+        ? { ...page, relatedPages: page.relatedPages.filter(id => id !== pageId) }
+        : page),
+    sections: structure.sections.map(section => section.pages.includes(pageId)
+      ? { ...section, pages: section.pages.filter(id => id !== pageId) }
+      : section)
+  };
+}
+
+/**
+ * Adds an empty root section.
+ */
+export function addSection(structure: WikiStructure, title: string): { structure: WikiStructure; section: WikiSection } {
+  const section: WikiSection = { id: nextId('section', structure.sections.map(s => s.id)), title, pages: [] };
+  return {
+    structure: { ...structure, sections: [...structure.sections, section], rootSections: [...structure.rootSections, section.id] },
+    section
+  };
+}
+
+/**
+ * Removes a section that has no pages and no subsections.
+ */
+export function removeSection(structure: WikiStructure, sectionId: string): WikiStructure {
+  const section = structure.sections.find(s => s.id === sectionId);
+  if (!section || section.pages.length > 0 || (section.subsections?.length ?? 0) > 0) {
+    return structure;
+  }
+  return {
+    ...structure,
+    sections: structure.sections
+      .filter(s => s.id !== sectionId)
+      .map(s => s.subsections?.includes(sectionId) ? { ...s, subsections: s.subsections.filter(id => id !== sectionId) } : s),
+    rootSections: structure.rootSections.filter(id => id !== sectionId)
+  };
+}
+
+/**
+ * Adds a page without content to the end of a section, or of the wiki without sections.
+ */
+export function addPage(structure: WikiStructure, newPage: NewPage): { structure: WikiStructure; page: WikiPage } {
+  const sectionId = !hasSections(structure)
+    ? undefined
+    : structure.sections.some(section => section.id === newPage.sectionId) ? newPage.sectionId : structure.rootSections[0];
+  const page: WikiPage = {
+    id: nextId('page', structure.pages.map(p => p.id)),
+    title: newPage.title,
+    content: '',
+    filePaths: newPage.filePaths,
+    importance: newPage.importance,
+    relatedPages: [],
+    parentId: sectionId
+  };
+
+  return {
+    structure: {
+      ...structure,
+      pages: [...structure.pages, page],
+      sections: structure.sections.map(section => section.id === sectionId
+        ? { ...section, pages: [...section.pages, page.id] }
+        : section)
+    },
+    page
+  };
+}
+
+/**
+ * Brings the generated pages in line with an edited structure: pages removed from the structure
+ * are dropped, titles and sections of the remaining pages are taken from the structure.
+ */
+export function applyStructureToPages(structure: WikiStructure, pages: Record<string, WikiPage>): Record<string, WikiPage> {
+  const result: Record<string, WikiPage> = {};
+  structure.pages.forEach(page => {
+    const generated = pages[page.id];
+    if (generated) {
+      result[page.id] = {
+        ...generated,
+        title: page.title,
+        parentId: page.parentId,
+        relatedPages: page.relatedPages
+      };
+    }
+  });
+  return result;
+}
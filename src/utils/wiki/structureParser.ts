@@ -0,0 +1,596 @@
+/**
+ * Parses the wiki structure returned by the model, as <wiki_structure> XML or as JSON, into a WikiStructure.
+ *
+ * Model output is often almost-valid, so XML is read with a tolerant reader instead of DOMParser
+ * (which does not exist on the server side). Common mistakes such as markdown fences, unescaped
+ * ampersands and truncated output are repaired, and both formats are validated against the
+ * structure schema.
+ */
+
+import { Logger } from '@/types/logger';
+import { WikiPage } from '@/types/wiki/wikipage';
+import { WikiSection } from '@/types/wiki/wikisection';
+import { WikiStructure } from '@/types/wiki/wikistructure';
+import { WikiStructureFormat } from './structureSchema';
+
+export interface StructureValidationError {
+  /** Location of the problem, e.g. `pages[2].importance` */
+  path: string;
+  message: string;
+}
+
+export interface WikiStructureParseResult {
+  structure: WikiStructure;
+  /** Problems found in the structure; the offending values were dropped or replaced with defaults */
+  errors: StructureValidationError[];
+  /** Repairs applied to the raw response before it could be read */
+  repairs: string[];
+}
+
+/**
+ * Thrown when a response does not contain a usable wiki structure.
+ */
+export class WikiStructureParseError extends Error {
+  constructor(message: string, public readonly errors: StructureValidationError[] = []) {
+    super(message);
+    this.name = 'WikiStructureParseError';
+  }
+}
+
+// Shape of the JSON Schema before validation; the XML format is converted to it as well
+interface RawPage {
+  id?: string;
+  title?: string;
+  importance?: string;
+  filePaths: string[];
+  relatedPages: string[];
+  parentId?: string;
+}
+
+interface RawSection {
+  id?: string;
+  title?: string;
+  pages: string[];
+  subsections: string[];
+}
+
+interface RawWikiStructure {
+  title?: string;
+  description?: string;
+  sections: RawSection[];
+  pages: RawPage[];
+}
+
+interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: (XmlElement | string)[];
+}
+
+const IMPORTANCE_VALUES = ['high', 'medium', 'low'] as const;
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+// Numeric entities outside the Unicode range are kept as they are
+const decodeEntities = (text: string): string =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const codePoint = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isNaN(codePoint) || codePoint > 0x10ffff ? match : String.fromCodePoint(codePoint);
+    }
+    return ENTITIES[entity.toLowerCase()];
+  });
+
+/**
+ * Cuts the <wiki_structure> element out of a model response and repairs problems that would make it unreadable.
+ */
+function extractStructureXml(responseText: string, repairs: string[]): string {
+  let text = responseText;
+
+  if (/```/.test(text)) {
+    text = text.replace(/```[a-z]*[ \t]*/gi, '');
+    repairs.push('Removed markdown code fences');
+  }
+
+  const start = text.indexOf('<wiki_structure');
+  if (start === -1) {
+    throw new WikiStructureParseError('No <wiki_structure> element found in response');
+  }
+
+  const closingTag = '</wiki_structure>';
+  const end = text.indexOf(closingTag, start);
+  if (end === -1) {
+    text = text.slice(start);
+    repairs.push('Response was truncated before </wiki_structure>');
+  } else {
+    text = text.slice(start, end + closingTag.length);
+  }
+
+  const withoutControlCharacters = text.replace(/[\x00-\x08\x0B\x0C\x0E-\x1F\x7F]/g, '');
+  if (withoutControlCharacters !== text) {
+    text = withoutControlCharacters;
+    repairs.push('Removed control characters');
+  }
+
+  const escaped = text.replace(/&(?!(?:#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);)/gi, '&amp;');
+  if (escaped !== text) {
+    text = escaped;
+    repairs.push('Escaped unescaped "&" characters');
+  }
+
+  return text;
+}
+
+/**
+ * Reads XML into an element tree. Unlike a strict parser it closes unclosed elements, ignores stray
+ * closing tags and keeps a `<` that does not start a tag as text.
+ */
+function readXml(xml: string, repairs: string[]): XmlElement {
+  const root: XmlElement = { name: '#document', attributes: {}, children: [] };
+  const stack: XmlElement[] = [root];
+  const current = () => stack[stack.length - 1];
+
+  const addText = (text: string) => {
+    if (text) current().children.push(decodeEntities(text));
+  };
+
+  const tagPattern = /<!--[\s\S]*?-->|<(\/?)([A-Za-z_][\w.-]*)((?:\s+[\w.:-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/g;
+  let position = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = tagPattern.exec(xml)) !== null) {
+    addText(xml.slice(position, match.index));
+    position = tagPattern.lastIndex;
+
+    const [tag, closing, name, attributeText, selfClosing] = match;
+    if (tag.startsWith('<!--')) continue;
+
+    if (closing) {
+      const index = stack.map(element => element.name).lastIndexOf(name);
+      if (index <= 0) {
+        repairs.push(`Ignored stray </${name}>`);
+        continue;
+      }
+      stack.splice(index + 1).reverse().forEach(element => repairs.push(`Closed unclosed <${element.name}>`));
+      stack.pop();
+      continue;
+    }
+
+    const attributes: Record<string, string> = {};
+    for (const [, key, doubleQuoted, singleQuoted] of attributeText.matchAll(/([\w.:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+      attributes[key] = decodeEntities(doubleQuoted ?? singleQuoted ?? '');
+    }
+
+    const element: XmlElement = { name, attributes, children: [] };
+    current().children.push(element);
+    if (!selfClosing) stack.push(element);
+  }
+
+  let rest = xml.slice(position);
+  const truncatedTag = rest.match(/<[/!A-Za-z_][^<>]*$/);
+  if (truncatedTag) {
+    rest = rest.slice(0, truncatedTag.index);
+    repairs.push(`Dropped truncated tag ${truncatedTag[0].trim()}`);
+  }
+  addText(rest);
+
+  stack.slice(1).reverse().forEach(element => repairs.push(`Closed unclosed <${element.name}>`));
+  return root;
+}
+
+const childElements = (element: XmlElement, name: string): XmlElement[] =>
+  element.children.filter((child): child is XmlElement => typeof child !== 'string' && child.name === name);
+
+const descendants = (element: XmlElement, name: string): XmlElement[] =>
+  element.children.flatMap(child => typeof child === 'string'
+    ? []
+    : [...(child.name === name ? [child] : []), ...descendants(child, name)]);
+
+const textOf = (element: XmlElement | undefined): string =>
+  element
+    ? element.children.map(child => typeof child === 'string' ? child : textOf(child)).join('').trim()
+    : '';
+
+const textsOf = (elements: XmlElement[]): string[] =>
+  elements.map(element => textOf(element)).filter(text => text.length > 0);
+
+
+/**
+ * Converts the <wiki_structure> element into the shape of the JSON Schema.
+ */
+function structureFromXml(wikiElement: XmlElement): RawWikiStructure {
+  return {
+    title: textOf(childElements(wikiElement, 'title')[0]),
+    description: textOf(childElements(wikiElement, 'description')[0]),
+    sections: descendants(wikiElement, 'section').map(sectionElement => ({
+      id: sectionElement.attributes.id,
+      title: textOf(childElements(sectionElement, 'title')[0]),
+      pages: textsOf(descendants(sectionElement, 'page_ref')),
+      subsections: textsOf(descendants(sectionElement, 'section_ref'))
+    })),
+    pages: descendants(wikiElement, 'page').map(pageElement => ({
+      id: pageElement.attributes.id,
+      title: textOf(childElements(pageElement, 'title')[0]),
+      importance: textOf(childElements(pageElement, 'importance')[0]),
+      filePaths: textsOf(descendants(pageElement, 'file_path')),
+      relatedPages: textsOf(descendants(pageElement, 'related')),
+      parentId: textOf(childElements(pageElement, 'parent_section')[0])
+    }))
+  };
+}
+
+function parseXml(responseText: string, repairs: string[]): RawWikiStructure {
+  const document = readXml(extractStructureXml(responseText, repairs), repairs);
+  const wikiElement = childElements(document, 'wiki_structure')[0];
+  if (!wikiElement) {
+    throw new WikiStructureParseError('No <wiki_structure> element found in response');
+  }
+  return structureFromXml(wikiElement);
+}
+
+/**
+ * Scans a JSON text that starts with "{" for the end of the top-level value.
+ * @returns The length of the complete value, or the text a truncated value is missing
+ */
+function scanJson(text: string): { length: number } | { missing: string } {
+  const closers: string[] = [];
+  let inString = false;
+  let escaped = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === '{') {
+      closers.push('}');
+    } else if (char === '[') {
+      closers.push(']');
+    } else if (char === '}' || char === ']') {
+      closers.pop();
+      if (closers.length === 0) return { length: i + 1 };
+    }
+  }
+
+  return { missing: (inString ? '"' : '') + closers.reverse().join('') };
+}
+
+/**
+ * Cuts the JSON object out of a model response and parses it, repairing markdown fences,
+ * trailing commas and truncated output.
+ */
+function parseJson(responseText: string, repairs: string[]): unknown {
+  let text = responseText;
+
+  if (/```/.test(text)) {
+    text = text.replace(/```[a-z]*[ \t]*/gi, '');
+    repairs.push('Removed markdown code fences');
+  }
+
+  const start = text.indexOf('{');
+  if (start === -1) {
+    throw new WikiStructureParseError('No JSON object found in response');
+  }
+  text = text.slice(start);
+  const scan = scanJson(text);
+  if ('length' in scan) {
+    text = text.slice(0, scan.length);
+  }
+
+  const withoutTrailingCommas = text.replace(/,(\s*[}\]])/g, '$1');
+  if (withoutTrailingCommas !== text) {
+    text = withoutTrailingCommas;
+    repairs.push('Removed trailing commas');
+  }
+
+  try {
+    return JSON.parse(text);
+  } catch {
+    // Assume the response was truncated: drop the incomplete last member and close what is still open
+    for (let candidate = text; ; candidate = candidate.slice(0, candidate.lastIndexOf(','))) {
+      const trimmed = candidate.replace(/[\s,:]*$/, '');
+      const candidateScan = scanJson(trimmed);
+      try {
+        const value = JSON.parse('missing' in candidateScan ? trimmed + candidateScan.missing : trimmed);
+        repairs.push('Closed truncated JSON');
+        return value;
+      } catch {
+        if (candidate.lastIndexOf(',') === -1) break;
+      }
+    }
+  }
+
+  // Parse once more without repairs to report the original syntax error
+  try {
+    return JSON.parse(text);
+  } catch (err) {
+    throw new WikiStructureParseError(`Invalid JSON in response: ${err instanceof Error ? err.message : err}`);
+  }
+}
+
+const readString = (value: unknown, path: string, errors: StructureValidationError[]): string | undefined => {
+  if (value === undefined || value === null || typeof value === 'string') return value ?? undefined;
+  errors.push({ path, message: 'Expected a string' });
+  return undefined;
+};
+
+const readStringArray = (value: unknown, path: string, errors: StructureValidationError[]): string[] => {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) {
+    errors.push({ path, message: 'Expected an array of strings' });
+    return [];
+  }
+  return value.filter((item, index) => {
+    if (typeof item === 'string') return true;
+    errors.push({ path: `${path}[${index}]`, message: 'Expected a string' });
+    return false;
+  });
+};
+
+const readObjectArray = (value: unknown, path: string, errors: StructureValidationError[]): Record<string, unknown>[] => {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) {
+    errors.push({ path, message: 'Expected an array' });
+    return [];
+  }
+  return value.map((item, index) => {
+    if (item && typeof item === 'object' && !Array.isArray(item)) return item as Record<string, unknown>;
+    errors.push({ path: `${path}[${index}]`, message: 'Expected an object' });
+    return {};
+  });
+};
+
+/**
+ * Checks the types of a parsed JSON response against the JSON Schema.
+ */
+function structureFromJson(value: unknown, errors: StructureValidationError[]): RawWikiStructure {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new WikiStructureParseError('The wiki structure is not a JSON object');
+  }
+  const json = value as Record<string, unknown>;
+
+  return {
+    title: readString(json.title, 'title', errors),
+    description: readString(json.description, 'description', errors),
+    sections: readObjectArray(json.sections, 'sections', errors).map((section, index) => ({
+      id: readString(section.id, `sections[${index}].id`, errors),
+      title: readString(section.title, `sections[${index}].title`, errors),
+      pages: readStringArray(section.pages, `sections[${index}].pages`, errors),
+      subsections: readStringArray(section.subsections, `sections[${index}].subsections`, errors)
+    })),
+    pages: readObjectArray(json.pages, 'pages', errors).map((page, index) => ({
+      id: readString(page.id, `pages[${index}].id`, errors),
+      title: readString(page.title, `pages[${index}].title`, errors),
+      importance: readString(page.importance, `pages[${index}].importance`, errors),
+      filePaths: readStringArray(page.filePaths, `pages[${index}].filePaths`, errors),
+      relatedPages: readStringArray(page.relatedPages, `pages[${index}].relatedPages`, errors),
+      parentId: readString(page.parentId, `pages[${index}].parentId`, errors)
+    }))
+  };
+}
+
+/**
+ * Assigns an id, generating one when it is missing and renaming duplicates.
+ */
+function uniqueId(
+  rawId: string | undefined,
+  fallback: string,
+  seen: Set<string>,
+  path: string,
+  errors: StructureValidationError[]
+): string {
+  let id = (rawId ?? '').trim();
+  if (!id) {
+    id = fallback;
+    errors.push({ path: `${path}.id`, message: `Missing id, using "${id}"` });
+  }
+  if (seen.has(id)) {
+    let suffix = 2;
+    while (seen.has(`${id}-${suffix}`)) suffix++;
+    errors.push({ path: `${path}.id`, message: `Duplicate id "${id}", renamed to "${id}-${suffix}"` });
+    id = `${id}-${suffix}`;
+  }
+  seen.add(id);
+  return id;
+}
+
+const uniqueValues = (values: string[]): string[] =>
+  Array.from(new Set(values.map(value => value.trim()).filter(value => value.length > 0)));
+
+function validatePages(rawPages: RawPage[], errors: StructureValidationError[]): { pages: WikiPage[]; parentSections: Map<string, string> } {
+  const pages: WikiPage[] = [];
+  const parentSections = new Map<string, string>();
+  const seenIds = new Set<string>();
+
+  rawPages.forEach((rawPage, index) => {
+    const path = `pages[${index}]`;
+    const title = rawPage.title?.trim();
+    if (!title) {
+      errors.push({ path: `${path}.title`, message: 'Missing title, page dropped' });
+      return;
+    }
+
+    const id = uniqueId(rawPage.id, `page-${index + 1}`, seenIds, path, errors);
+
+    const importanceText = (rawPage.importance ?? '').trim().toLowerCase();
+    let importance: WikiPage['importance'] = 'medium';
+    if ((IMPORTANCE_VALUES as readonly string[]).includes(importanceText)) {
+      importance = importanceText as WikiPage['importance'];
+    } else if (importanceText) {
+      errors.push({
+        path: `${path}.importance`,
+        message: `Invalid importance "${importanceText}", expected one of ${IMPORTANCE_VALUES.join(', ')}`
+      });
+    }
+
+    const parentSection = rawPage.parentId?.trim();
+    if (parentSection) parentSections.set(id, parentSection);
+
+    pages.push({
+      id,
+      title,
+      content: '', // Will be generated later
+      filePaths: uniqueValues(rawPage.filePaths),
+      importance,
+      relatedPages: uniqueValues(rawPage.relatedPages)
+    });
+  });
+
+  // Related pages can only be checked once every page is known
+  const pageIds = new Set(pages.map(page => page.id));
+  pages.forEach((page, index) => {
+    page.relatedPages = page.relatedPages.filter(relatedId => {
+      if (relatedId === page.id || !pageIds.has(relatedId)) {
+        errors.push({ path: `pages[${index}].relatedPages`, message: `Unknown related page "${relatedId}"` });
+        return false;
+      }
+      return true;
+    });
+  });
+
+  return { pages, parentSections };
+}
+
+function validateSections(
+  rawSections: RawSection[],
+  pages: WikiPage[],
+  parentSections: Map<string, string>,
+  errors: StructureValidationError[]
+): { sections: WikiSection[]; rootSections: string[] } {
+  const seenIds = new Set<string>();
+
+  const sections: WikiSection[] = rawSections.map((rawSection, index) => {
+    const path = `sections[${index}]`;
+    const id = uniqueId(rawSection.id, `section-${index + 1}`, seenIds, path, errors);
+    const title = rawSection.title?.trim();
+    if (!title) {
+      errors.push({ path: `${path}.title`, message: 'Missing title' });
+    }
+
+    const subsections = uniqueValues(rawSection.subsections);
+    return {
+      id,
+      title: title || id,
+      pages: uniqueValues(rawSection.pages),
+      subsections: subsections.length > 0 ? subsections : undefined
+    };
+  });
+
+  const pageIds = new Set(pages.map(page => page.id));
+  const sectionIds = new Set(sections.map(section => section.id));
+
+  sections.forEach((section, index) => {
+    section.pages = section.pages.filter(pageId => {
+      if (pageIds.has(pageId)) return true;
+      errors.push({ path: `sections[${index}].pages`, message: `Unknown page "${pageId}"` });
+      return false;
+    });
+
+    if (section.subsections) {
+      section.subsections = section.subsections.filter(sectionId => {
+        if (sectionId !== section.id && sectionIds.has(sectionId)) return true;
+        errors.push({ path: `sections[${index}].subsections`, message: `Unknown subsection "${sectionId}"` });
+        return false;
+      });
+      if (section.subsections.length === 0) section.subsections = undefined;
+    }
+  });
+
+  // A page's parent section also places it in that section
+  pages.forEach((page, index) => {
+    const parentSection = parentSections.get(page.id);
+    if (!parentSection) return;
+
+    const section = sections.find(s => s.id === parentSection);
+    if (!section) {
+      errors.push({ path: `pages[${index}].parentId`, message: `Unknown section "${parentSection}"` });
+      return;
+    }
+    page.parentId = section.id;
+    if (!section.pages.includes(page.id)) section.pages.push(page.id);
+  });
+
+  // Root sections are the ones no other section refers to
+  const referencedSections = new Set(sections.flatMap(section => section.subsections ?? []));
+  const rootSections = sections.filter(section => !referencedSections.has(section.id)).map(section => section.id);
+
+  return { sections, rootSections };
+}
+
+/**
+ * Extracts and validates the wiki structure from a model response.
+ * @param responseText The raw model response
+ * @param isComprehensive Whether sections should be parsed as well
+ * @param format The format the structure was requested in
+ * @throws WikiStructureParseError when the response contains no wiki structure or no valid page
+ */
+export function parseWikiStructure(
+  responseText: string,
+  isComprehensive: boolean,
+  format: WikiStructureFormat = 'xml'
+): WikiStructureParseResult {
+  const repairs: string[] = [];
+  const errors: StructureValidationError[] = [];
+
+  const raw = format === 'json'
+    ? structureFromJson(parseJson(responseText, repairs), errors)
+    : parseXml(responseText, repairs);
+
+  const title = raw.title?.trim() ?? '';
+  if (!title) {
+    errors.push({ path: 'title', message: 'Missing title' });
+  }
+
+  const { pages, parentSections } = validatePages(raw.pages, errors);
+  if (pages.length === 0) {
+    throw new WikiStructureParseError('The wiki structure contains no valid pages', errors);
+  }
+
+  const { sections, rootSections } = isComprehensive
+    ? validateSections(raw.sections, pages, parentSections, errors)
+    : { sections: [], rootSections: [] };
+
+  return {
+    structure: {
+      id: 'wiki',
+      title,
+      description: raw.description?.trim() ?? '',
+      pages,
+      sections,
+      rootSections
+    },
+    errors,
+    repairs
+  };
+}
+
+/**
+ * Extracts the wiki structure from a model response and converts it to a WikiStructure,
+ * logging the repairs and validation errors.
+ * @param responseText The raw model response
+ * @param isComprehensive Whether sections should be parsed as well
+ * @param format The format the structure was requested in
+ * @param logger Receives the repairs and validation errors
+ * @throws WikiStructureParseError when the response contains no usable wiki structure
+ */
+export function parseWikiStructureResponse(
+  responseText: string,
+  isComprehensive: boolean,
+  format: WikiStructureFormat = 'xml',
+  logger: Logger = console
+): WikiStructure {
+  const { structure, errors, repairs } = parseWikiStructure(responseText, isComprehensive, format);
+
+  if (repairs.length > 0) {
+    logger.warn('Repaired wiki structure response:', repairs.join('; '));
+  }
+  if (errors.length > 0) {
+    logger.warn('Wiki structure validation errors:',
+      errors.map(error => `${error.path}: ${error.message}`).join('; '));
+  }
+
+  return structure;
+}
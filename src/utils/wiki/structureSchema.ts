@@ -0,0 +1,71 @@
+/**
+ * JSON Schema of the wiki structure, used when the structure is requested as JSON instead of XML.
+ * The properties mirror the WikiStructure, WikiPage and WikiSection types so a valid response maps
+ * onto them directly.
+ */
+
+/** Format the model is asked to return the wiki structure in */
+export type WikiStructureFormat = 'xml' | 'json';
+
+const stringArray = (description: string) => ({
+  type: 'array',
+  description,
+  items: { type: 'string' }
+});
+
+/**
+ * Returns the JSON Schema a wiki structure response has to match.
+ * Every property is required and no other properties are allowed, which is what providers with a
+ * strict structured output mode expect; optional values are nullable instead.
+ * @param isComprehensive Whether the structure contains sections
+ */
+export function getWikiStructureJsonSchema(isComprehensive: boolean): Record<string, unknown> {
+  const pageProperties: Record<string, unknown> = {
+    id: { type: 'string', description: 'Unique page id, e.g. "page-1"' },
+    title: { type: 'string', description: 'Page title' },
+    importance: { type: 'string', enum: ['high', 'medium', 'low'] },
+    filePaths: stringArray('Paths of the repository files used to generate the page'),
+    relatedPages: stringArray('Ids of related pages')
+  };
+  if (isComprehensive) {
+    pageProperties.parentId = { type: ['string', 'null'], description: 'Id of the section containing the page' };
+  }
+
+  const structureProperties: Record<string, unknown> = {
+    title: { type: 'string', description: 'Overall title for the wiki' },
+    description: { type: 'string', description: 'Brief description of the repository' }
+  };
+  if (isComprehensive) {
+    structureProperties.sections = {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', description: 'Unique section id, e.g. "section-1"' },
+          title: { type: 'string', description: 'Section title' },
+          pages: stringArray('Ids of the pages in the section'),
+          subsections: stringArray('Ids of the sections nested in the section')
+        },
+        required: ['id', 'title', 'pages', 'subsections'],
+        additionalProperties: false
+      }
+    };
+  }
+  structureProperties.pages = {
+    type: 'array',
+    items: {
+      type: 'object',
+      properties: pageProperties,
+      required: Object.keys(pageProperties),
+      additionalProperties: false
+    }
+  };
+
+  return {
+    title: 'WikiStructure',
+    type: 'object',
+    properties: structureProperties,
+    required: Object.keys(structureProperties),
+    additionalProperties: false
+  };
+}
@@ -0,0 +1,248 @@
+import { RepoInfo } from '@/types/repoinfo';
+import { WikiPage } from '@/types/wiki/wikipage';
+import { WikiStructure } from '@/types/wiki/wikistructure';
+import { isPlaceholderContent } from './pagePlaceholders';
+
+/**
+ * Shape of the wiki data returned by /api/wiki_cache.
+ */
+export interface WikiCacheData {
+  wiki_structure: WikiStructure;
+  generated_pages: Record<string, WikiPage>;
+  repo_url?: string;
+  repo?: RepoInfo;
+  provider?: string;
+  model?: string;
+  /** Commit the wiki was generated from */
+  commit_sha?: string;
+  /** Branch, tag or commit the wiki was generated from */
+  branch?: string;
+  /** False while pages of the wiki are still missing, e.g. after an interrupted generation */
+  complete?: boolean;
+  /** Format of the cache entry; older entries are migrated by the server when read */
+  version?: number;
+}
+
+/**
+ * Fields stored with a wiki in /api/wiki_cache besides its structure and pages.
+ */
+export interface WikiCacheMetadata {
+  repo: RepoInfo;
+  language: string;
+  comprehensive: boolean;
+  provider: string;
+  model: string;
+  commit_sha?: string;
+  branch?: string;
+}
+
+/**
+ * Fetches the cached wiki for a repository.
+ * @param endpoint The cache endpoint, e.g. to call the backend directly from the server
+ * @returns The cached wiki, or null when there is no usable cache entry
+ */
+export async function fetchWikiCache(
+  repoInfo: Pick<RepoInfo, 'owner' | 'repo' | 'type' | 'ref'>,
+  language: string,
+  isComprehensive?: boolean,
+  endpoint: string = '/api/wiki_cache'
+): Promise<WikiCacheData | null> {
+  const params = new URLSearchParams({
+    owner: repoInfo.owner,
+    repo: repoInfo.repo,
+    repo_type: repoInfo.type,
+    language: language,
+  });
+  if (repoInfo.ref) {
+    params.append('ref', repoInfo.ref);
+  }
+  if (isComprehensive !== undefined) {
+    params.append('comprehensive', isComprehensive.toString());
+  }
+
+  const response = await fetch(`${endpoint}?${params.toString()}`);
+  if (!response.ok) {
+    console.error('Error fetching wiki cache from server:', response.status);
+    return null;
+  }
+
+  const cachedData = await response.json(); // Returns null if no cache
+  if (cachedData && cachedData.wiki_structure && cachedData.generated_pages &&
+      (Object.keys(cachedData.generated_pages).length > 0 || cachedData.complete === false)) {
+    return cachedData;
+  }
+
+  console.log('No valid wiki data in server cache or cache is empty.');
+  return null;
+}
+
+/**
+ * Stores a wiki in the server cache, replacing the cached wiki of the same repository, ref and language.
+ * @param complete False to store a wiki whose generation is still running
+ * @param endpoint The cache endpoint, e.g. to call the backend directly from the server
+ * @throws Error when the server cannot store the wiki
+ */
+export async function saveWikiCache(
+  metadata: WikiCacheMetadata,
+  structure: WikiStructure,
+  pages: Record<string, WikiPage>,
+  complete: boolean = true,
+  endpoint: string = '/api/wiki_cache'
+): Promise<void> {
+  const response = await fetch(endpoint, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      ...metadata,
+      wiki_structure: {
+        ...structure,
+        sections: structure.sections || [],
+        rootSections: structure.rootSections || []
+      },
+      generated_pages: pages,
+      complete
+    }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Error saving wiki data to server cache: ${response.status} ${await response.text()}`);
+  }
+}
+
+/**
+ * Adds a page to a wiki stored in the server cache, or replaces the page there.
+ * @param endpoint The cache endpoint, e.g. to call the backend directly from the server
+ * @throws Error when the wiki is not cached or the server cannot store the page
+ */
+export async function saveWikiCachePage(
+  repo: RepoInfo,
+  language: string,
+  page: WikiPage,
+  endpoint: string = '/api/wiki_cache'
+): Promise<void> {
+  const response = await fetch(`${endpoint}/page`, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ repo, language, page }),
+  });
+  if (!response.ok) {
+    throw new Error(`Error saving page ${page.id} to server cache: ${response.status} ${await response.text()}`);
+  }
+}
+
+/**
+ * Selects the pages of a wiki that still have to be generated: pages without content and pages
+ * whose generation failed or was cancelled. Pages cached before generation info was recorded
+ * count as generated.
+ */
+export function findMissingPages(structure: WikiStructure, pages: Record<string, WikiPage>): WikiPage[] {
+  return structure.pages.filter(page => {
+    const content = pages[page.id]?.content;
+    return !content || isPlaceholderContent(content);
+  });
+}
+
+/**
+ * Persists a wiki while it is generated: the structure as soon as it is known, then every page
+ * once it completes, so an interrupted generation can be resumed. Writes are sent one after
+ * another, so a page never arrives before the wiki it belongs to. Failed writes are only logged.
+ */
+export class WikiCacheWriter {
+  private pending: Promise<void> = Promise.resolve();
+
+  /**
+   * @param endpoint The cache endpoint, e.g. to call the backend directly from the server
+   */
+  constructor(private readonly metadata: WikiCacheMetadata, private readonly endpoint: string = '/api/wiki_cache') {}
+
+  /**
+   * Stores the structure with the pages generated so far, marking the wiki as incomplete.
+   */
+  saveStructure(structure: WikiStructure, pages: Record<string, WikiPage> = {}): Promise<void> {
+    return this.enqueue(() => saveWikiCache(this.metadata, structure, pages, false, this.endpoint));
+  }
+
+  /**
+   * Adds a generated page to the stored wiki.
+   */
+  savePage(page: WikiPage): Promise<void> {
+    return this.enqueue(() => saveWikiCachePage(this.metadata.repo, this.metadata.language, page, this.endpoint));
+  }
+
+  /** Resolves once all writes have been sent */
+  flush(): Promise<void> {
+    return this.pending;
+  }
+
+  private enqueue(write: () => Promise<void>): Promise<void> {
+    this.pending = this.pending
+      .then(write)
+      .catch(err => console.error('Error saving to server cache:', err));
+    return this.pending;
+  }
+}
+
+/**
+ * Flattens a cached wiki into Markdown suitable as context for another prompt.
+ * High importance pages are added first; once the limit is reached only page summaries are added.
+ */
+export function buildWikiContext(wikiData: WikiCacheData | null, maxContentLength: number = 30000): string {
+  if (!wikiData || !wikiData.wiki_structure || !wikiData.generated_pages) {
+    return '';
+  }
+
+  // Add the wiki structure description
+  let wikiContent = `## Project Overview\n${wikiData.wiki_structure.description || ''}\n\n`;
+
+  const pages = wikiData.wiki_structure.pages || [];
+  const generatedPages = wikiData.generated_pages || {};
+
+  let totalContentLength = 0;
+
+  // First add high importance pages
+  const highImportancePages = pages.filter(page => page.importance === 'high');
+  for (const page of highImportancePages) {
+    if (generatedPages[page.id] && generatedPages[page.id].content) {
+      const content = `## ${page.title}\n${generatedPages[page.id].content}\n\n`;
+      wikiContent += content;
+      totalContentLength += content.length;
+
+      if (totalContentLength > maxContentLength) break;
+    }
+  }
+
+  // Then add other pages if we still have space
+  if (totalContentLength < maxContentLength) {
+    for (const page of pages) {
+      // Skip high importance pages we've already added
+      if (page.importance === 'high') continue;
+
+      if (generatedPages[page.id] && generatedPages[page.id].content) {
+        const content = `## ${page.title}\n${generatedPages[page.id].content}\n\n`;
+
+        // Check if adding this content would exceed our limit
+        if (totalContentLength + content.length > maxContentLength) {
+          // If it would exceed, just add a summary
+          const summaryMatch = generatedPages[page.id].content.match(/# .*?\n\n(.*?)(\n\n|$)/);
+          const summary = summaryMatch ? summaryMatch[1].trim() : 'No summary available';
+          const summaryContent = `## ${page.title}\n${summary}\n\n`;
+
+          wikiContent += summaryContent;
+          totalContentLength += summaryContent.length;
+        } else {
+          // Otherwise add the full content
+          wikiContent += content;
+          totalContentLength += content.length;
+        }
+
+        if (totalContentLength > maxContentLength) break;
+      }
+    }
+  }
+
+  return wikiContent;
+}
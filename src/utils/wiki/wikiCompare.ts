@@ -0,0 +1,242 @@
+/**
+ * Compares two versions of a wiki, e.g. generated for two refs of a repository: aligns their
+ * pages and diffs the Markdown of every page block by block.
+ */
+
+import { WikiPage } from '@/types/wiki/wikipage';
+import { WikiStructure } from '@/types/wiki/wikistructure';
+
+/** A wiki as loaded from the cache or from a JSON export */
+export interface ComparableWiki {
+  structure: WikiStructure;
+  /** Generated pages by id; pages missing here fall back to the content in the structure */
+  pages: Record<string, WikiPage>;
+}
+
+export type PageChangeStatus = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface MarkdownDiffBlock {
+  type: 'added' | 'removed' | 'unchanged';
+  /** A paragraph, heading, list, table or fenced code block */
+  content: string;
+}
+
+export interface PageComparison {
+  /** Id of the page in the newer wiki, or in the older one for removed pages */
+  id: string;
+  title: string;
+  status: PageChangeStatus;
+  basePage?: WikiPage;
+  headPage?: WikiPage;
+  /** Section (or parent page) titles on both sides, when the page moved to another section */
+  moved?: { from: string; to: string };
+  blocks: MarkdownDiffBlock[];
+}
+
+export interface WikiComparison {
+  /** Pages in the order of the newer wiki, followed by the removed pages */
+  pages: PageComparison[];
+  added: PageComparison[];
+  removed: PageComparison[];
+  moved: PageComparison[];
+  changed: PageComparison[];
+}
+
+const normalizeTitle = (title: string): string => title.trim().toLowerCase().replace(/\s+/g, ' ');
+
+// Elements without a closing tag, which never span several lines
+const VOID_ELEMENTS = new Set(['area', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr']);
+
+// Opening minus closing tags of an HTML element in a line
+const countOpenTags = (line: string, tag: string): number =>
+  (line.match(new RegExp(`<${tag}[\\s>]`, 'gi'))?.length ?? 0) - (line.match(new RegExp(`</${tag}\\s*>`, 'gi'))?.length ?? 0);
+
+/**
+ * Splits Markdown into blocks separated by blank lines. Fenced code blocks (including Mermaid
+ * diagrams) and HTML blocks such as the <details> block of the source files are kept in one block
+ * up to their end, so they can be rendered on their own.
+ */
+export function splitMarkdownBlocks(markdown: string): string[] {
+  const blocks: string[] = [];
+  let current: string[] = [];
+  let fence: string | null = null;
+  let htmlTag: string | null = null;
+  let openTags = 0;
+
+  const flush = () => {
+    if (current.length > 0) {
+      blocks.push(current.join('\n'));
+      current = [];
+    }
+  };
+
+  for (const line of markdown.replace(/\r\n/g, '\n').split('\n')) {
+    const fenceMatch = line.match(/^\s*(`{3,}|~{3,})/);
+    const htmlMatch = line.match(/^\s*<([a-z][\w-]*)[\s>]/i);
+    if (fence) {
+      current.push(line);
+      if (fenceMatch && fenceMatch[1][0] === fence[0] && fenceMatch[1].length >= fence.length) {
+        fence = null;
+        flush();
+      }
+    } else if (htmlTag) {
+      current.push(line);
+      openTags += countOpenTags(line, htmlTag);
+      if (openTags <= 0) {
+        htmlTag = null;
+        flush();
+      }
+    } else if (fenceMatch) {
+      flush();
+      fence = fenceMatch[1];
+      current.push(line);
+    } else if (htmlMatch && !VOID_ELEMENTS.has(htmlMatch[1].toLowerCase()) && countOpenTags(line, htmlMatch[1]) > 0) {
+      flush();
+      htmlTag = htmlMatch[1];
+      openTags = countOpenTags(line, htmlTag);
+      current.push(line);
+    } else if (line.trim() === '') {
+      flush();
+    } else {
+      current.push(line);
+    }
+  }
+  flush();
+
+  return blocks;
+}
+
+/**
+ * Diffs two Markdown documents block by block (longest common subsequence of the blocks).
+ * Changed blocks come out as a removed block followed by an added block.
+ */
+export function diffMarkdown(baseMarkdown: string, headMarkdown: string): MarkdownDiffBlock[] {
+  const base = splitMarkdownBlocks(baseMarkdown);
+  const head = splitMarkdownBlocks(headMarkdown);
+  const same = (i: number, j: number) => base[i].trim() === head[j].trim();
+
+  // lengths[i][j]: length of the common subsequence of base[i..] and head[j..]
+  const lengths: number[][] = Array.from({ length: base.length + 1 }, () => new Array(head.length + 1).fill(0));
+  for (let i = base.length - 1; i >= 0; i--) {
+    for (let j = head.length - 1; j >= 0; j--) {
+      lengths[i][j] = same(i, j) ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const blocks: MarkdownDiffBlock[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < base.length || j < head.length) {
+    if (i < base.length && j < head.length && same(i, j)) {
+      blocks.push({ type: 'unchanged', content: head[j] });
+      i++;
+      j++;
+    } else if (j >= head.length || (i < base.length && lengths[i + 1][j] >= lengths[i][j + 1])) {
+      blocks.push({ type: 'removed', content: base[i++] });
+    } else {
+      blocks.push({ type: 'added', content: head[j++] });
+    }
+  }
+
+  return blocks;
+}
+
+// Title of the section containing a page, or else of its parent page
+const locatePage = (wiki: ComparableWiki, page: WikiPage): string | undefined => {
+  const section = wiki.structure.sections.find(s => s.pages.includes(page.id));
+  if (section) return section.title;
+
+  const parent = page.parentId ? wiki.structure.pages.find(p => p.id === page.parentId) : undefined;
+  return parent?.title;
+};
+
+const pageContent = (wiki: ComparableWiki, page: WikiPage): string =>
+  wiki.pages[page.id]?.content ?? page.content ?? '';
+
+/**
+ * Compares two versions of a wiki. Pages are aligned by id, and pages whose id changed by title.
+ * @param base The older wiki
+ * @param head The newer wiki
+ */
+export function compareWikis(base: ComparableWiki, head: ComparableWiki): WikiComparison {
+  const unmatchedBase = new Map(base.structure.pages.map(page => [page.id, page]));
+
+  const matchBasePage = (headPage: WikiPage): WikiPage | undefined => {
+    const byId = unmatchedBase.get(headPage.id);
+    if (byId && normalizeTitle(byId.title) === normalizeTitle(headPage.title)) return byId;
+    // Ids are derived from the titles by the model; a renamed page keeps its id, a new id keeps its title
+    const byTitle = [...unmatchedBase.values()].find(page => normalizeTitle(page.title) === normalizeTitle(headPage.title));
+    return byTitle ?? byId;
+  };
+
+  const pages: PageComparison[] = head.structure.pages.map(headPage => {
+    const basePage = matchBasePage(headPage);
+    const headContent = pageContent(head, headPage);
+    if (!basePage) {
+      return {
+        id: headPage.id,
+        title: headPage.title,
+        status: 'added',
+        headPage,
+        blocks: splitMarkdownBlocks(headContent).map(content => ({ type: 'added', content }))
+      };
+    }
+    unmatchedBase.delete(basePage.id);
+
+    const blocks = diffMarkdown(pageContent(base, basePage), headContent);
+    const from = locatePage(base, basePage);
+    const to = locatePage(head, headPage);
+    const moved = from && to && normalizeTitle(from) !== normalizeTitle(to) ? { from, to } : undefined;
+
+    return {
+      id: headPage.id,
+      title: headPage.title,
+      status: blocks.some(block => block.type !== 'unchanged') || basePage.title !== headPage.title ? 'changed' : 'unchanged',
+      basePage,
+      headPage,
+      moved,
+      blocks
+    };
+  });
+
+  unmatchedBase.forEach(basePage => pages.push({
+    id: basePage.id,
+    title: basePage.title,
+    status: 'removed',
+    basePage,
+    blocks: splitMarkdownBlocks(pageContent(base, basePage)).map(content => ({ type: 'removed', content }))
+  }));
+
+  return {
+    pages,
+    added: pages.filter(page => page.status === 'added'),
+    removed: pages.filter(page => page.status === 'removed'),
+    moved: pages.filter(page => page.moved),
+    changed: pages.filter(page => page.status === 'changed')
+  };
+}
+
+/**
+ * Reads a wiki exported as JSON (see requestWikiExport). Exports carry no sections, so moves are
+ * only detected between parent pages.
+ * @throws Error when the file is not a JSON wiki export
+ */
+export function parseWikiJsonExport(json: string): ComparableWiki {
+  const data = JSON.parse(json);
+  if (!data || !Array.isArray(data.pages)) {
+    throw new Error('Not a JSON wiki export: the file has no pages');
+  }
+
+  const pages: WikiPage[] = data.pages;
+  return {
+    structure: {
+      id: 'export',
+      title: data.metadata?.repository ?? '',
+      description: '',
+      pages,
+      sections: [],
+      rootSections: []
+    },
+    pages: Object.fromEntries(pages.map(page => [page.id, page]))
+  };
+}
@@ -0,0 +1,66 @@
+import { RepoInfo } from '@/types/repoinfo';
+import { WikiPage } from '@/types/wiki/wikipage';
+import { WikiStructure } from '@/types/wiki/wikistructure';
+import getRepoUrl from '@/utils/getRepoUrl';
+
+export type WikiExportFormat = 'markdown' | 'json';
+
+export interface WikiExportFile {
+  filename: string;
+  content: Blob;
+}
+
+/**
+ * Renders a wiki as a Markdown or JSON document through the backend /export/wiki endpoint.
+ * Pages are exported in the order of the wiki structure.
+ * @param endpoint The export endpoint, e.g. to call the backend directly from Node
+ * @throws Error when the backend cannot export the wiki
+ */
+export async function requestWikiExport(
+  repoInfo: RepoInfo,
+  wikiStructure: WikiStructure,
+  generatedPages: Record<string, WikiPage>,
+  format: WikiExportFormat,
+  endpoint: string = '/export/wiki'
+): Promise<WikiExportFile> {
+  // Prepare the pages for export
+  const pagesToExport = wikiStructure.pages.map(page => {
+    // Use the generated content if available, otherwise use a placeholder
+    const content = generatedPages[page.id]?.content || 'Content not generated';
+    return {
+      ...page,
+      content
+    };
+  });
+
+  const response = await fetch(endpoint, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      repo_url: getRepoUrl(repoInfo),
+      type: repoInfo.type,
+      pages: pagesToExport,
+      format
+    })
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text().catch(() => 'No error details available');
+    throw new Error(`Error exporting wiki: ${response.status} - ${errorText}`);
+  }
+
+  // Get the filename from the Content-Disposition header if available
+  const contentDisposition = response.headers.get('Content-Disposition');
+  let filename = `${repoInfo.repo}_wiki.${format === 'markdown' ? 'md' : 'json'}`;
+
+  if (contentDisposition) {
+    const filenameMatch = contentDisposition.match(/filename=(.+)/);
+    if (filenameMatch && filenameMatch[1]) {
+      filename = filenameMatch[1].replace(/"/g, '');
+    }
+  }
+
+  return { filename, content: await response.blob() };
+}
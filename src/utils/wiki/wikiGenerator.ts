@@ -0,0 +1,598 @@
+/**
+ * Headless wiki generation engine.
+ * Determines the wiki structure for a repository and generates the content of every page,
+ * reporting progress through callbacks so it can be driven from React pages, scripts or tests.
+ */
+
+import { Logger } from '@/types/logger';
+import { RepoInfo } from '@/types/repoinfo';
+import { WikiPage } from '@/types/wiki/wikipage';
+import { WikiStructure } from '@/types/wiki/wikistructure';
+import getRepoUrl from '@/utils/getRepoUrl';
+import { generatePromptContent, generateWikiStructurePrompt, getPromptTemplateHash } from '@/utils/promptTemplate';
+import {
+  addTokensToRequestBody,
+  ChatStreamOptions,
+  FileFilters,
+  ModelSelection,
+  streamChatCompletion
+} from '@/utils/chatStream';
+import { ChangedFile } from '@/utils/repository/repositoryProvider';
+import { SourceFileReader } from '@/utils/repository/sourceFileReader';
+import { verifyCitations } from './citationVerifier';
+import { FilePathCorrection, validateFilePaths } from './filePathValidator';
+import { DEFAULT_MAX_UNVERIFIED_IDENTIFIERS, getUnverifiedShare, groundIdentifiers } from './identifierGrounding';
+import { IncrementalUpdatePlan, planIncrementalUpdate, selectPagesToRegenerate } from './incrementalUpdate';
+import { JobScheduler } from './jobScheduler';
+import { applyLockedContent, collectLockedPages, findLockedPage } from './lockedContent';
+import { repairMermaidDiagram } from './mermaidRepair';
+import { getPageErrorContent, PAGE_CANCELLED_CONTENT } from './pagePlaceholders';
+import { validateWikiContent } from './pageValidator';
+import { parseWikiStructureResponse } from './structureParser';
+import { getWikiStructureJsonSchema, WikiStructureFormat } from './structureSchema';
+
+export interface WikiGeneratorOptions {
+  repoInfo: RepoInfo;
+  /** Access token for private repositories */
+  token?: string;
+  model: ModelSelection;
+  filters?: FileFilters;
+  language: string;
+  isComprehensive: boolean;
+  /**
+   * Format the wiki structure is requested in. With 'json' the backend asks providers that support
+   * structured output to return JSON matching getWikiStructureJsonSchema; defaults to 'xml'.
+   */
+  structureFormat?: WikiStructureFormat;
+  /** Builds the link used for a source file in the generated pages */
+  generateFileUrl?: (filePath: string) => string;
+  /** Commit of the repository the wiki is generated from, recorded with every page */
+  commitSha?: string;
+  /** Files of the repository to verify the citations and code identifiers of generated pages with; pages are not verified without */
+  sourceFiles?: SourceFileReader;
+  /**
+   * Share of the code identifiers of a page, from 0 to 1, that may be missing from its source files before
+   * the page is generated once more; defaults to DEFAULT_MAX_UNVERIFIED_IDENTIFIERS, 1 never generates pages again
+   */
+  maxUnverifiedIdentifiers?: number;
+  /** Generate pages whose content fails validation with errors once more, see validateWikiContent */
+  retryInvalidPages?: boolean;
+  /** Pages with locked content from an earlier generation of the wiki, see collectLockedPages */
+  lockedPages?: WikiPage[];
+  /** Overrides for the chat transport, e.g. to call the backend directly from Node */
+  transport?: Pick<ChatStreamOptions, 'serverBaseUrl' | 'httpEndpoint'>;
+  /** Number of pages generated in parallel, see fetchProviderConcurrency */
+  concurrency?: number;
+  /** Number of retries for a failed page */
+  maxRetries?: number;
+  /** Delay before the first retry of a failed page; doubled for every further retry */
+  retryDelayMs?: number;
+  /** Receives the log messages of the generation; defaults to the console */
+  logger?: Logger;
+}
+
+export interface WikiGeneratorEvents {
+  onStructureStart?: () => void;
+  onStructure?: (structure: WikiStructure) => void;
+  /** Called before onStructure when file paths chosen by the model had to be corrected */
+  onFilePathCorrections?: (corrections: FilePathCorrection[]) => void;
+  /** Called with the pages that are about to be generated */
+  onPagesScheduled?: (pages: WikiPage[]) => void;
+  onPageStart?: (page: WikiPage) => void;
+  onPageChunk?: (page: WikiPage, content: string) => void;
+  onPageComplete?: (page: WikiPage) => void;
+  onPageError?: (page: WikiPage, error: Error) => void;
+  onPageRetry?: (page: WikiPage, attempt: number, delayMs: number, error: Error) => void;
+  /** Called with the page and the placeholder content stored for it */
+  onPageCancelled?: (page: WikiPage) => void;
+  /** Called whenever the order of the pages waiting to be generated changes */
+  onQueueChange?: (queuedPageIds: string[]) => void;
+  onComplete?: (pages: Record<string, WikiPage>) => void;
+}
+
+export interface WikiGenerationResult {
+  structure: WikiStructure;
+  pages: Record<string, WikiPage>;
+  failedPages: string[];
+  cancelledPages: string[];
+}
+
+export interface WikiUpdateResult extends WikiGenerationResult {
+  plan: IncrementalUpdatePlan;
+  /** Pages that were generated again; all other pages kept their previous content */
+  regeneratedPages: string[];
+}
+
+/**
+ * Raised when the backend reports that the embedding model is not configured correctly.
+ */
+export class EmbeddingConfigurationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EmbeddingConfigurationError';
+  }
+}
+
+// Pages with a higher importance are generated first
+const IMPORTANCE_PRIORITY: Record<WikiPage['importance'], number> = {
+  high: 2,
+  medium: 1,
+  low: 0
+};
+
+// Fewer validation errors count first, then fewer unverified identifiers
+function isBetterPage(page: WikiPage, than: WikiPage): boolean {
+  const errors = (p: WikiPage) => p.validation?.errors.length ?? 0;
+  const unverifiedShare = (p: WikiPage) => p.identifierCheck ? getUnverifiedShare(p.identifierCheck) : 0;
+  return errors(page) < errors(than) || (errors(page) === errors(than) && unverifiedShare(page) < unverifiedShare(than));
+}
+
+/**
+ * Reads the number of pages that may be generated in parallel for a provider
+ * from the model configuration (`maxConcurrency` in generator.json).
+ * @param logger Receives the warning when the configuration cannot be loaded
+ * @returns 1 when the configuration cannot be loaded
+ */
+export async function fetchProviderConcurrency(
+  provider: string,
+  configUrl: string = '/api/models/config',
+  logger: Logger = console
+): Promise<number> {
+  try {
+    const response = await fetch(configUrl);
+    if (!response.ok) {
+      throw new Error(`Error fetching model configurations: ${response.status}`);
+    }
+    const config: { providers?: { id: string; maxConcurrency?: number }[] } = await response.json();
+    const maxConcurrency = config.providers?.find(p => p.id === provider)?.maxConcurrency;
+    return maxConcurrency && maxConcurrency > 0 ? maxConcurrency : 1;
+  } catch (err) {
+    logger.warn('Could not load provider concurrency, generating pages one at a time:', err);
+    return 1;
+  }
+}
+
+export class WikiGenerator {
+  private readonly options: WikiGeneratorOptions;
+  private readonly events: WikiGeneratorEvents;
+  private readonly logger: Logger;
+  private abortController = new AbortController();
+  private scheduler: JobScheduler<WikiPage> | null = null;
+
+  constructor(options: WikiGeneratorOptions, events: WikiGeneratorEvents = {}) {
+    this.options = options;
+    this.events = events;
+    this.logger = options.logger ?? console;
+  }
+
+  /**
+   * Stops all running requests. No further events are emitted once cancelled.
+   */
+  cancel(): void {
+    this.abortController.abort();
+    this.scheduler?.cancelAll();
+  }
+
+  /**
+   * Skips a page that is waiting to be generated, or stops it if it is being generated.
+   */
+  cancelPage(pageId: string): boolean {
+    const cancelled = this.scheduler?.cancel(pageId) ?? false;
+    this.emitQueueChange();
+    return cancelled;
+  }
+
+  /**
+   * Generates a waiting page before all other waiting pages.
+   */
+  prioritizePage(pageId: string): boolean {
+    const prioritized = this.scheduler?.prioritize(pageId) ?? false;
+    this.emitQueueChange();
+    return prioritized;
+  }
+
+  /** Ids of the pages waiting to be generated, in the order they will be generated */
+  get queuedPageIds(): string[] {
+    return this.scheduler?.queuedIds ?? [];
+  }
+
+  get isCancelled(): boolean {
+    return this.abortController.signal.aborted;
+  }
+
+  /**
+   * Determines the structure and then generates every page of the wiki.
+   */
+  async generate(fileTree: string, readme: string): Promise<WikiGenerationResult> {
+    const structure = await this.determineStructure(fileTree, readme);
+    const { pages, failedPages, cancelledPages } = await this.generatePages(structure.pages);
+    return { structure, pages, failedPages, cancelledPages };
+  }
+
+  /**
+   * Regenerates only the pages affected by the given file changes.
+   * The structure is determined again when files were added, removed or renamed.
+   * @param previous The wiki generated before the changes
+   */
+  async update(
+    fileTree: string,
+    readme: string,
+    previous: { structure: WikiStructure; pages: Record<string, WikiPage> },
+    changedFiles: ChangedFile[]
+  ): Promise<WikiUpdateResult> {
+    const plan = planIncrementalUpdate(previous.structure, changedFiles);
+    this.logger.log(`${changedFiles.length} changed files affect ${plan.affectedPageIds.length} pages` +
+      (plan.structureChanged ? ', determining the structure again' : ''));
+
+    const structure = plan.structureChanged
+      ? await this.determineStructure(fileTree, readme)
+      : previous.structure;
+
+    const pagesToRegenerate = selectPagesToRegenerate(structure, previous.structure, previous.pages, plan);
+    const regeneratedPages = pagesToRegenerate.map(page => page.id);
+
+    // Keep the content of every page that is not regenerated
+    const unchangedPages: Record<string, WikiPage> = {};
+    structure.pages
+      .filter(page => !regeneratedPages.includes(page.id))
+      .forEach(page => {
+        const { content, generation, editedAt, locked, lockedSections, citationCheck, identifierCheck, validation } =
+          previous.pages[page.id];
+        unchangedPages[page.id] = {
+          ...page, content, generation, editedAt, locked, lockedSections, citationCheck, identifierCheck, validation
+        };
+      });
+
+    const lockedPages = [...(this.options.lockedPages ?? []), ...collectLockedPages(previous.pages)];
+    const { pages, failedPages, cancelledPages } = await this.generatePages(pagesToRegenerate, unchangedPages, lockedPages);
+    return {
+      structure,
+      pages,
+      failedPages,
+      cancelledPages,
+      plan,
+      // Locked pages kept their content as well
+      regeneratedPages: regeneratedPages.filter(id => !pages[id]?.locked)
+    };
+  }
+
+  /**
+   * Asks the model for the wiki structure of the repository.
+   * @throws EmbeddingConfigurationError when the backend embedder is misconfigured
+   */
+  async determineStructure(fileTree: string, readme: string): Promise<WikiStructure> {
+    const { repoInfo, language, isComprehensive, structureFormat = 'xml' } = this.options;
+    if (!repoInfo.owner || !repoInfo.repo) {
+      throw new Error('Invalid repository information. Owner and repo name are required.');
+    }
+
+    this.events.onStructureStart?.();
+
+    const requestBody = this.createRequestBody(
+      generateWikiStructurePrompt(repoInfo.owner, repoInfo.repo, fileTree, readme, language, isComprehensive, structureFormat)
+    );
+    if (structureFormat === 'json') {
+      requestBody.response_schema = getWikiStructureJsonSchema(isComprehensive);
+    }
+
+    const responseText = await streamChatCompletion(requestBody, {
+      ...this.options.transport,
+      label: 'wiki structure',
+      signal: this.abortController.signal,
+      logger: this.logger
+    });
+
+    this.checkEmbeddingErrors(responseText);
+
+    const { structure, corrections } = validateFilePaths(
+      parseWikiStructureResponse(responseText, isComprehensive, structureFormat, this.logger),
+      fileTree
+    );
+    if (corrections.length > 0) {
+      this.logger.log(`Corrected the file paths of ${new Set(corrections.map(c => c.pageId)).size} pages`);
+      this.events.onFilePathCorrections?.(corrections);
+    }
+
+    this.events.onStructure?.(structure);
+    return structure;
+  }
+
+  /**
+   * Generates the Markdown content of a single page.
+   * @param signal Aborts this page only; defaults to the signal of the whole generation
+   * @param instructions Additional instructions for the model, recorded with the generation info
+   * @returns The page with its content filled in
+   */
+  async generatePage(
+    page: WikiPage,
+    signal: AbortSignal = this.abortController.signal,
+    instructions?: string
+  ): Promise<WikiPage> {
+    const { repoInfo, language } = this.options;
+    if (!repoInfo.owner || !repoInfo.repo) {
+      throw new Error('Invalid repository information. Owner and repo name are required.');
+    }
+
+    this.logger.log(`Starting content generation for page: ${page.title}`);
+
+    const generateFileUrl = this.options.generateFileUrl ?? ((filePath: string) => filePath);
+    const requestBody = this.createRequestBody(
+      generatePromptContent(page.title, page.filePaths, language, generateFileUrl, instructions)
+    );
+
+    let content = await streamChatCompletion(requestBody, {
+      ...this.options.transport,
+      label: `page: ${page.title}`,
+      signal,
+      onChunk: (_chunk, accumulated) => this.events.onPageChunk?.(page, accumulated),
+      logger: this.logger
+    });
+
+    // Clean up markdown delimiters
+    content = content.replace(/^```markdown\s*/i, '').replace(/```\s*$/i, '');
+
+    this.logger.log(`Received content for ${page.title}, length: ${content.length} characters`);
+
+    const { model } = this.options;
+    return this.verifyPage({
+      ...page,
+      content,
+      generation: {
+        generatedAt: new Date().toISOString(),
+        provider: model.provider,
+        model: model.isCustomModel && model.customModel ? model.customModel : model.model,
+        commitSha: this.options.commitSha,
+        promptHash: getPromptTemplateHash(),
+        instructions
+      }
+    });
+  }
+
+  /**
+   * Validates the content of a page and verifies its source citations and code identifiers,
+   * see validateWikiContent, verifyCitations and groundIdentifiers.
+   * @returns The page with the results of the checks; results that cannot be determined are left out
+   */
+  async verifyPage(page: WikiPage): Promise<WikiPage> {
+    const { sourceFiles, generateFileUrl } = this.options;
+    const validation = validateWikiContent(page.content);
+    if (!validation.passed) {
+      this.logger.log(`${page.title} fails validation: ${validation.errors.join('; ')}`);
+    }
+    if (!sourceFiles) {
+      return { ...page, validation };
+    }
+
+    let citationCheck = page.citationCheck;
+    try {
+      citationCheck = await verifyCitations(page.content, sourceFiles, generateFileUrl?.('') ?? '', this.logger);
+      if (citationCheck.issues.length > 0) {
+        this.logger.log(`${citationCheck.issues.length} of ${citationCheck.total} citations of ${page.title} are invalid`);
+      }
+    } catch (err) {
+      this.logger.warn(`Could not verify the citations of ${page.title}:`, err);
+    }
+
+    const identifierCheck = await groundIdentifiers(page, sourceFiles, this.logger);
+    if (identifierCheck && identifierCheck.unverified.length > 0) {
+      this.logger.log(`${identifierCheck.unverified.length} of ${identifierCheck.total} identifiers of ${page.title} ` +
+        `are not in its source files: ${identifierCheck.unverified.join(', ')}`);
+    }
+    return { ...page, validation, citationCheck, identifierCheck };
+  }
+
+  /**
+   * Asks the model to fix a Mermaid diagram that fails to render, see repairMermaidDiagram.
+   * @param validate Parses a candidate; returns the parser error, or undefined for a valid diagram
+   * @returns The fixed diagram, or undefined when none of the attempts produced a valid one
+   */
+  repairDiagram(
+    chart: string,
+    error: string,
+    validate: (chart: string) => Promise<string | undefined>,
+    maxAttempts?: number
+  ): Promise<string | undefined> {
+    return repairMermaidDiagram(chart, error, {
+      requestFix: (prompt) => streamChatCompletion(this.createRequestBody(prompt), {
+        ...this.options.transport,
+        label: 'mermaid repair',
+        signal: this.abortController.signal,
+        logger: this.logger
+      }),
+      validate,
+      maxAttempts,
+      logger: this.logger
+    });
+  }
+
+  /**
+   * Whether a page mentions too many code identifiers missing from its source files, see maxUnverifiedIdentifiers.
+   */
+  isUngrounded(page: WikiPage): boolean {
+    const { maxUnverifiedIdentifiers = DEFAULT_MAX_UNVERIFIED_IDENTIFIERS } = this.options;
+    return !!page.identifierCheck && getUnverifiedShare(page.identifierCheck) > maxUnverifiedIdentifiers;
+  }
+
+  /**
+   * Instructions for generating a page once more because its content falls short, see retryInvalidPages
+   * and maxUnverifiedIdentifiers.
+   * @returns undefined for pages that are kept as they are
+   */
+  getRetryInstructions(page: WikiPage): string | undefined {
+    const instructions: string[] = [];
+    if (this.options.retryInvalidPages && page.validation && !page.validation.passed) {
+      instructions.push(`Fix these problems of the previous version of this page: ${page.validation.errors.join('; ')}.`);
+    }
+    if (this.isUngrounded(page)) {
+      instructions.push('Only mention functions, classes and types that appear in the source files. ' +
+        `These do not appear in them: ${page.identifierCheck!.unverified.map(name => `\`${name}\``).join(', ')}`);
+    }
+    return instructions.length > 0 ? instructions.join('\n') : undefined;
+  }
+
+  /**
+   * Generates the given pages, high importance pages first, with the configured concurrency.
+   * Failed pages are retried with backoff. Failures are reported per page and never reject the returned promise.
+   * Pages failing validation or mentioning too many identifiers missing from their source files are generated
+   * once more after all other pages, see getRetryInstructions, and the better of both versions is kept.
+   * @param existingPages Pages that are already generated, included in the results as they are
+   * @param lockedPages Locked pages are kept instead of being generated, locked sections are kept in the generated pages
+   */
+  async generatePages(
+    allPages: WikiPage[],
+    existingPages: Record<string, WikiPage> = {},
+    lockedPages: WikiPage[] = this.options.lockedPages ?? []
+  ): Promise<Omit<WikiGenerationResult, 'structure'>> {
+    const results: Record<string, WikiPage> = { ...existingPages };
+    const failedPages: string[] = [];
+    const cancelledPages: string[] = [];
+    const keptPages = allPages.filter(page => findLockedPage(page, lockedPages)?.locked);
+    const pages = allPages.filter(page => !keptPages.includes(page));
+    const pagesById = new Map(pages.map(page => [page.id, page]));
+    // Pages to generate once more, and those generated once more already
+    const pagesToRetry: string[] = [];
+    const retriedPages = new Set<string>();
+    const { concurrency = 1, maxRetries, retryDelayMs } = this.options;
+
+    this.logger.log(`Starting generation for ${pages.length} pages with concurrency ${concurrency}` +
+      (keptPages.length > 0 ? `, keeping ${keptPages.length} locked pages` : ''));
+    if (!this.isCancelled) {
+      this.events.onPagesScheduled?.(pages);
+      keptPages.forEach(page => {
+        results[page.id] = applyLockedContent(page, findLockedPage(page, lockedPages)!);
+        this.events.onPageComplete?.(results[page.id]);
+      });
+    }
+
+    const scheduler = new JobScheduler<WikiPage>({ concurrency, maxRetries, retryDelayMs }, {
+      onStart: (id, attempt) => {
+        const page = pagesById.get(id);
+        if (!page || this.isCancelled) return;
+        this.logger.log(`Starting page ${page.title} (attempt ${attempt}, ${scheduler.queuedIds.length} waiting)`);
+        // Pages generated once more keep showing their first version until the new one is done
+        if (attempt === 1 && !retriedPages.has(id)) {
+          this.events.onPageStart?.(page);
+          this.emitQueueChange();
+        }
+      },
+      onRetry: (id, attempt, delayMs, error) => {
+        const page = pagesById.get(id);
+        if (!page || this.isCancelled) return;
+        this.logger.warn(`Retrying page ${page.title} in ${delayMs}ms after attempt ${attempt} failed:`, error);
+        this.events.onPageRetry?.(page, attempt, delayMs, error);
+      },
+      onSuccess: (id, generatedPage) => {
+        if (this.isCancelled) return;
+        results[id] = generatedPage;
+        this.events.onPageComplete?.(generatedPage);
+        if (!retriedPages.has(id) && this.getRetryInstructions(generatedPage)) {
+          pagesToRetry.push(id);
+        }
+      },
+      onFailure: (id, error) => {
+        const page = pagesById.get(id);
+        if (!page || this.isCancelled) return;
+        this.logger.error(`Error generating content for page ${id}:`, error);
+        failedPages.push(id);
+        results[id] = { ...page, content: getPageErrorContent(error.message) };
+        this.events.onPageError?.(page, error);
+      },
+      onCancel: (id) => {
+        const page = pagesById.get(id);
+        if (!page || this.isCancelled || retriedPages.has(id)) return;
+        this.logger.log(`Generation of page ${page.title} was cancelled`);
+        cancelledPages.push(id);
+        results[id] = { ...page, content: PAGE_CANCELLED_CONTENT };
+        this.events.onPageCancelled?.(results[id]);
+      }
+    });
+    this.scheduler = scheduler;
+    if (this.isCancelled) {
+      scheduler.cancelAll();
+    }
+
+    const generateContent = async (page: WikiPage, signal: AbortSignal, instructions?: string): Promise<WikiPage> => {
+      const generatedPage = await this.generatePage(page, signal, instructions);
+      const lockedPage = findLockedPage(page, lockedPages);
+      // Locked sections may bring back citations and identifiers of their own
+      return lockedPage ? this.verifyPage(applyLockedContent(generatedPage, lockedPage)) : generatedPage;
+    };
+
+    pages.forEach(page => scheduler.add({
+      id: page.id,
+      priority: IMPORTANCE_PRIORITY[page.importance] ?? IMPORTANCE_PRIORITY.medium,
+      run: (signal) => generateContent(page, signal)
+    }));
+    this.emitQueueChange();
+
+    await scheduler.onIdle();
+
+    if (!this.isCancelled && pagesToRetry.length > 0) {
+      this.logger.log(`Generating ${pagesToRetry.length} pages once more whose content falls short`);
+      pagesToRetry.forEach(id => {
+        const firstVersion = results[id];
+        retriedPages.add(id);
+        scheduler.add({
+          id,
+          priority: IMPORTANCE_PRIORITY[firstVersion.importance] ?? IMPORTANCE_PRIORITY.medium,
+          run: async (signal) => {
+            try {
+              const page = await generateContent(pagesById.get(id)!, signal, this.getRetryInstructions(firstVersion));
+              return isBetterPage(page, firstVersion) ? page : firstVersion;
+            } catch (err) {
+              if (signal.aborted) throw err;
+              this.logger.warn(`Could not generate ${firstVersion.title} once more, keeping its first version:`, err);
+              return firstVersion;
+            }
+          }
+        });
+      });
+      this.emitQueueChange();
+      await scheduler.onIdle();
+    }
+    this.scheduler = null;
+
+    if (!this.isCancelled) {
+      this.logger.log("All page generation tasks completed.");
+      this.events.onComplete?.(results);
+    }
+
+    return { pages: results, failedPages, cancelledPages };
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private createRequestBody(content: string): Record<string, any> {
+    const { repoInfo, token = '', model, language, filters } = this.options;
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const requestBody: Record<string, any> = {
+      repo_url: getRepoUrl(repoInfo),
+      type: repoInfo.type,
+      ref: repoInfo.ref || undefined,
+      messages: [{
+        role: 'user',
+        content
+      }]
+    };
+
+    // Add tokens if available
+    addTokensToRequestBody(requestBody, token, model, language, filters);
+    return requestBody;
+  }
+
+  private emitQueueChange(): void {
+    if (this.scheduler && !this.isCancelled) {
+      this.events.onQueueChange?.(this.scheduler.queuedIds);
+    }
+  }
+
+  private checkEmbeddingErrors(responseText: string): void {
+    if (responseText.includes('Error preparing retriever: Environment variable OPENAI_API_KEY must be set')) {
+      throw new EmbeddingConfigurationError('OPENAI_API_KEY environment variable is not set. Please configure your OpenAI API key.');
+    }
+
+    if (responseText.includes('Ollama model') && responseText.includes('not found')) {
+      throw new EmbeddingConfigurationError('The specified Ollama embedding model was not found. Please ensure the model is installed locally or select a different embedding model in the configuration.');
+    }
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * Browser side of the wiki generation jobs running on the server (see wikiJobManager):
+ * starts jobs, follows their progress over server-sent events and controls them.
+ */
+
+import { WikiJobEvent, WikiJobRequest, WikiJobSnapshot } from '@/types/wiki/wikijob';
+
+/**
+ * Starts generating a wiki on the server, or attaches to the job generating it already.
+ * @throws Error when the job cannot be started
+ */
+export async function startWikiJob(request: WikiJobRequest): Promise<{ job: WikiJobSnapshot; attached: boolean }> {
+  const response = await fetch('/api/wiki/jobs', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(request),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || `Could not start wiki generation: ${response.status}`);
+  }
+  return response.json();
+}
+
+/**
+ * Follows the events of a job, starting with a snapshot of its state.
+ * The connection is re-established after network errors, each time with a fresh snapshot.
+ * @param onError Called when the job can no longer be followed, e.g. after a server restart
+ * @returns A function that stops following the job; the job itself keeps running
+ */
+export function followWikiJob(
+  jobId: string,
+  onEvent: (event: WikiJobEvent) => void,
+  onError?: () => void
+): () => void {
+  const eventSource = new EventSource(`/api/wiki/jobs/${encodeURIComponent(jobId)}/events`);
+
+  eventSource.onmessage = (message) => {
+    const event: WikiJobEvent = JSON.parse(message.data);
+    onEvent(event);
+    const isDone = event.type === 'done' || (event.type === 'snapshot' && event.job.status !== 'running');
+    if (isDone) {
+      // The stream ends with the job; without closing, EventSource would reconnect
+      eventSource.close();
+    }
+  };
+  eventSource.onerror = () => {
+    // EventSource gives up for good when the job is gone
+    if (eventSource.readyState === EventSource.CLOSED) {
+      onError?.();
+    }
+  };
+
+  return () => eventSource.close();
+}
+
+/**
+ * Cancels a job. Pages that were completed stay in the wiki cache.
+ */
+export async function cancelWikiJob(jobId: string): Promise<void> {
+  const response = await fetch(`/api/wiki/jobs/${encodeURIComponent(jobId)}`, { method: 'DELETE' });
+  if (!response.ok && response.status !== 404) {
+    console.warn(`Could not cancel wiki generation job ${jobId}: ${response.status}`);
+  }
+}
+
+/**
+ * Cancels or prioritizes a page of a running job.
+ * @returns Whether the page was still waiting or being generated
+ */
+export async function updateWikiJobPage(
+  jobId: string,
+  action: 'cancelPage' | 'prioritizePage',
+  pageId: string
+): Promise<boolean> {
+  const response = await fetch(`/api/wiki/jobs/${encodeURIComponent(jobId)}`, {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ action, pageId }),
+  });
+  return response.ok && (await response.json()).applied;
+}
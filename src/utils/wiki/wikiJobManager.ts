@@ -0,0 +1,345 @@
+/**
+ * Runs wiki generations on the server, so they survive the page that started them.
+ * A job is kept per repository, ref and language: starting a generation while one is running
+ * for the same wiki attaches to the running job instead, or is rejected when it asks for other
+ * settings (comprehensiveness, provider or model). Pages follow a job through its events
+ * (see applyWikiJobEvent); completed pages are stored in the wiki cache as they finish.
+ */
+
+import { RepoInfo } from '@/types/repoinfo';
+import { WikiJobEvent, WikiJobRequest, WikiJobSnapshot, WikiJobStatus } from '@/types/wiki/wikijob';
+import { WikiPage } from '@/types/wiki/wikipage';
+import { WikiStructure } from '@/types/wiki/wikistructure';
+import { createRepositoryProvider } from '@/utils/repository/createRepositoryProvider';
+import { SourceFileReader } from '@/utils/repository/sourceFileReader';
+import { fetchRepositoryStructure } from '@/utils/repositoryStructure';
+import { FilePathCorrection } from './filePathValidator';
+import { fetchWikiCache, findMissingPages, saveWikiCache, WikiCacheMetadata, WikiCacheWriter } from './wikiCache';
+import { EmbeddingConfigurationError, fetchProviderConcurrency, WikiGenerationResult, WikiGenerator } from './wikiGenerator';
+import { applyWikiJobEvent } from './wikiJobState';
+
+type WikiJobListener = (event: WikiJobEvent) => void;
+
+// Finished jobs are kept a while for pages attaching late, e.g. after a reload
+const FINISHED_JOB_RETENTION_MS = 10 * 60 * 1000;
+
+/**
+ * Identifies the wiki a job generates; jobs with the same key write the same cache entry, so they
+ * are not run side by side.
+ */
+export const getWikiJobKey = (repo: Pick<RepoInfo, 'type' | 'owner' | 'repo' | 'ref'>, language: string): string =>
+  JSON.stringify([repo.type, repo.owner, repo.repo, repo.ref || '', language]);
+
+const getModelName = (model: WikiJobRequest['model']): string =>
+  model.isCustomModel && model.customModel ? model.customModel : model.model;
+
+/**
+ * Raised when a wiki is requested with other settings than the job generating it already.
+ */
+export class WikiJobConflictError extends Error {
+  constructor(readonly running: WikiJobSnapshot) {
+    super(`This wiki is being generated already (${running.isComprehensive ? 'comprehensive' : 'concise'}, ` +
+      `${running.provider}/${running.model}). Wait for that generation to finish or cancel it first.`);
+    this.name = 'WikiJobConflictError';
+  }
+}
+
+export class WikiJob {
+  readonly id: string;
+  readonly key: string;
+  private state: WikiJobSnapshot;
+  private readonly listeners = new Set<WikiJobListener>();
+  private generator: WikiGenerator | null = null;
+  private cancelled = false;
+
+  /**
+   * @param serverBaseUrl Base URL of the Python backend
+   */
+  constructor(private readonly request: WikiJobRequest, private readonly serverBaseUrl: string) {
+    // Snapshots are sent to every page following the job, so they never carry the token
+    const repo: Omit<RepoInfo, 'token'> & Partial<Pick<RepoInfo, 'token'>> = { ...request.repo };
+    delete repo.token;
+    this.id = crypto.randomUUID();
+    this.key = getWikiJobKey(request.repo, request.language);
+    this.state = {
+      id: this.id,
+      status: 'running',
+      repo,
+      language: request.language,
+      isComprehensive: request.isComprehensive,
+      provider: request.model.provider,
+      model: getModelName(request.model),
+      startedAt: new Date().toISOString(),
+      stage: 'fetchingStructure',
+      pages: {},
+      pagesInProgress: [],
+      queuedPageIds: [],
+      pageRetries: {},
+      filePathCorrections: []
+    };
+  }
+
+  get snapshot(): WikiJobSnapshot {
+    return this.state;
+  }
+
+  get status(): WikiJobStatus {
+    return this.state.status;
+  }
+
+  /**
+   * Calls the listener with every further event of the job.
+   * @returns A function removing the listener
+   */
+  subscribe(listener: WikiJobListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  cancel(): void {
+    if (this.status !== 'running') return;
+    this.cancelled = true;
+    this.generator?.cancel();
+    this.emit({ type: 'done', status: 'cancelled' });
+  }
+
+  /** See WikiGenerator.cancelPage */
+  cancelPage(pageId: string): boolean {
+    return this.generator?.cancelPage(pageId) ?? false;
+  }
+
+  /** See WikiGenerator.prioritizePage */
+  prioritizePage(pageId: string): boolean {
+    return this.generator?.prioritizePage(pageId) ?? false;
+  }
+
+  /**
+   * Generates the wiki, or with `resume` only the pages missing from the cached wiki.
+   * Never rejects; the outcome is reported through the final `done` event.
+   */
+  async run(): Promise<void> {
+    try {
+      const cached = this.request.resume ? await this.fetchPartialWiki() : null;
+      const { structure, failedPages } = cached
+        ? await this.resumeGeneration(cached.structure, cached.pages, cached.commitSha, cached.branch)
+        : await this.generate();
+
+      if (this.cancelled) return;
+      const failedTitles = structure.pages.filter(page => failedPages.includes(page.id)).map(page => page.title);
+      this.emit(failedTitles.length > 0
+        ? { type: 'done', status: 'failed', error: `Failed to generate content for ${failedTitles.join(', ')}.` }
+        : { type: 'done', status: 'completed' });
+    } catch (err) {
+      if (this.cancelled) return;
+      console.error(`Wiki generation job ${this.id} failed:`, err);
+      this.emit({
+        type: 'done',
+        status: 'failed',
+        error: err instanceof Error ? err.message : 'An unknown error occurred',
+        embeddingError: err instanceof EmbeddingConfigurationError
+      });
+    }
+  }
+
+  private async generate(): Promise<WikiGenerationResult> {
+    const { repo } = this.request;
+    const repositoryOptions = { localStructureEndpoint: `${this.serverBaseUrl}/local_repo/structure` };
+    const { fileTree, readme, defaultBranch, commitSha } = await fetchRepositoryStructure(repo, repo.token ?? '', repositoryOptions);
+
+    const cacheWriter = new WikiCacheWriter(this.cacheMetadata(commitSha, defaultBranch), this.cacheEndpoint);
+    const generator = await this.createGenerator(commitSha, defaultBranch, cacheWriter);
+    const result = await generator.generate(fileTree, readme);
+    await this.saveWiki(cacheWriter, result.structure, result.pages, commitSha, defaultBranch);
+    return result;
+  }
+
+  private async resumeGeneration(
+    structure: WikiStructure,
+    cachedPages: Record<string, WikiPage>,
+    commitSha?: string,
+    branch?: string
+  ): Promise<WikiGenerationResult> {
+    const missingPages = findMissingPages(structure, cachedPages);
+    const missingPageIds = missingPages.map(page => page.id);
+    // Keep every page that was generated before
+    const existingPages = Object.fromEntries(
+      Object.entries(cachedPages).filter(([pageId]) => !missingPageIds.includes(pageId))
+    );
+    console.log(`Resuming wiki generation job ${this.id} with ${missingPages.length} missing pages`);
+
+    this.emit({ type: 'structure', structure, filePathCorrections: [], commitSha, branch, pages: existingPages });
+
+    const cacheWriter = new WikiCacheWriter(this.cacheMetadata(commitSha, branch), this.cacheEndpoint);
+    const generator = await this.createGenerator(commitSha, branch, cacheWriter);
+    const result = await generator.generatePages(missingPages, existingPages);
+    await this.saveWiki(cacheWriter, structure, result.pages, commitSha, branch);
+    return { structure, ...result };
+  }
+
+  // The cached wiki when its generation was interrupted, or null to generate the wiki from scratch
+  private async fetchPartialWiki() {
+    const cachedData = await fetchWikiCache(this.request.repo, this.request.language, undefined, this.cacheEndpoint);
+    if (!cachedData || cachedData.complete !== false) {
+      return null;
+    }
+    return {
+      structure: cachedData.wiki_structure,
+      pages: cachedData.generated_pages,
+      commitSha: cachedData.commit_sha,
+      branch: cachedData.branch
+    };
+  }
+
+  private async createGenerator(commitSha: string | undefined, branch: string | undefined, cacheWriter: WikiCacheWriter): Promise<WikiGenerator> {
+    const { repo, language, isComprehensive, model, filters, structureFormat, retryInvalidPages, maxUnverifiedIdentifiers, lockedPages } = this.request;
+    const repositoryProvider = createRepositoryProvider(repo, repo.token ?? '', {
+      localStructureEndpoint: `${this.serverBaseUrl}/local_repo/structure`,
+      localFileEndpoint: `${this.serverBaseUrl}/local_repo/file`
+    });
+    const sourceRef = commitSha ?? branch;
+    let filePathCorrections: FilePathCorrection[] = [];
+
+    this.generator = new WikiGenerator({
+      repoInfo: repo,
+      token: repo.token ?? '',
+      model,
+      filters,
+      language,
+      isComprehensive,
+      structureFormat,
+      generateFileUrl: (filePath) => repositoryProvider && branch ? repositoryProvider.fileUrl(branch, filePath) : filePath,
+      transport: {
+        serverBaseUrl: this.serverBaseUrl,
+        httpEndpoint: `${this.serverBaseUrl}/chat/completions/stream`
+      },
+      concurrency: await fetchProviderConcurrency(model.provider, `${this.serverBaseUrl}/models/config`),
+      commitSha,
+      sourceFiles: repositoryProvider && sourceRef ? new SourceFileReader(repositoryProvider, sourceRef) : undefined,
+      retryInvalidPages,
+      maxUnverifiedIdentifiers,
+      lockedPages
+    }, {
+      onStructureStart: () => this.emit({ type: 'stage', stage: 'determiningStructure' }),
+      onFilePathCorrections: (corrections) => {
+        filePathCorrections = corrections;
+      },
+      onStructure: (structure) => {
+        this.emit({ type: 'structure', structure, filePathCorrections, commitSha, branch });
+        cacheWriter.saveStructure(structure);
+      },
+      onPagesScheduled: (pages) => this.emit({ type: 'pagesScheduled', pageIds: pages.map(page => page.id) }),
+      onPageStart: (page) => this.emit({ type: 'pageStart', pageId: page.id }),
+      onPageComplete: (page) => {
+        this.emit({ type: 'pageComplete', page });
+        cacheWriter.savePage(page);
+      },
+      onPageError: (page, error) => this.emit({ type: 'pageError', pageId: page.id, message: error.message }),
+      onPageRetry: (page, attempt) => this.emit({ type: 'pageRetry', pageId: page.id, attempt }),
+      onPageCancelled: (page) => this.emit({ type: 'pageCancelled', page }),
+      onQueueChange: (pageIds) => this.emit({ type: 'queue', pageIds })
+    });
+    if (this.cancelled) {
+      this.generator.cancel();
+    }
+    return this.generator;
+  }
+
+  // Stores the finished wiki; it stays marked as incomplete while pages failed or were cancelled
+  private async saveWiki(
+    cacheWriter: WikiCacheWriter,
+    structure: WikiStructure,
+    pages: Record<string, WikiPage>,
+    commitSha?: string,
+    branch?: string
+  ): Promise<void> {
+    if (this.cancelled) return;
+    await cacheWriter.flush();
+    const complete = findMissingPages(structure, pages).length === 0;
+    try {
+      await saveWikiCache(this.cacheMetadata(commitSha, branch), structure, pages, complete, this.cacheEndpoint);
+    } catch (err) {
+      console.error('Error saving to server cache:', err);
+    }
+  }
+
+  private cacheMetadata(commitSha?: string, branch?: string): WikiCacheMetadata {
+    return {
+      repo: this.request.repo,
+      language: this.request.language,
+      comprehensive: this.request.isComprehensive,
+      provider: this.state.provider,
+      model: this.request.model.model,
+      commit_sha: commitSha,
+      branch
+    };
+  }
+
+  private get cacheEndpoint(): string {
+    return `${this.serverBaseUrl}/api/wiki_cache`;
+  }
+
+  private emit(event: WikiJobEvent): void {
+    if (this.status !== 'running') return;
+    this.state = applyWikiJobEvent(this.state, event);
+    this.listeners.forEach(listener => listener(event));
+  }
+}
+
+export class WikiJobManager {
+  private readonly jobs = new Map<string, WikiJob>();
+
+  /**
+   * @param serverBaseUrl Base URL of the Python backend the jobs call
+   */
+  constructor(private readonly serverBaseUrl: string = process.env.SERVER_BASE_URL || 'http://localhost:8001') {}
+
+  /**
+   * Starts generating a wiki, unless a job for the same wiki is running already.
+   * @returns The new or the running job, and whether it was running already
+   * @throws WikiJobConflictError when the running job uses other settings
+   */
+  start(request: WikiJobRequest): { job: WikiJob; attached: boolean } {
+    const running = this.findRunning(request.repo, request.language);
+    if (running) {
+      const { isComprehensive, provider, model } = running.snapshot;
+      if (isComprehensive !== request.isComprehensive || provider !== request.model.provider || model !== getModelName(request.model)) {
+        throw new WikiJobConflictError(running.snapshot);
+      }
+      return { job: running, attached: true };
+    }
+
+    const job = new WikiJob(request, this.serverBaseUrl);
+    this.jobs.set(job.id, job);
+    const unsubscribe = job.subscribe(event => {
+      if (event.type === 'done') {
+        unsubscribe();
+        setTimeout(() => this.jobs.delete(job.id), FINISHED_JOB_RETENTION_MS).unref?.();
+      }
+    });
+    job.run();
+    return { job, attached: false };
+  }
+
+  get(jobId: string): WikiJob | undefined {
+    return this.jobs.get(jobId);
+  }
+
+  /** The running job generating the wiki of a repository, ref and language, if any */
+  findRunning(repo: Pick<RepoInfo, 'type' | 'owner' | 'repo' | 'ref'>, language: string): WikiJob | undefined {
+    const key = getWikiJobKey(repo, language);
+    return [...this.jobs.values()].find(job => job.key === key && job.status === 'running');
+  }
+}
+
+// Route handlers may be bundled separately, so the jobs are shared through the global object
+const globalForJobs = globalThis as unknown as { wikiJobManager?: WikiJobManager };
+
+/**
+ * The job manager of this server process.
+ */
+export function getWikiJobManager(): WikiJobManager {
+  globalForJobs.wikiJobManager ??= new WikiJobManager();
+  return globalForJobs.wikiJobManager;
+}
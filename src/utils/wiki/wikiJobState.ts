@@ -0,0 +1,69 @@
+/**
+ * Applies the events of a wiki generation job to its state. The job on the server and every
+ * page attached to it keep their state with the same function, so both always agree.
+ */
+
+import { WikiJobEvent, WikiJobSnapshot } from '@/types/wiki/wikijob';
+import { WikiPage } from '@/types/wiki/wikipage';
+import { getPageErrorContent, PAGE_LOADING_CONTENT } from './pagePlaceholders';
+
+const withoutPage = (pageIds: string[], pageId: string): string[] => pageIds.filter(id => id !== pageId);
+
+const structurePage = (job: WikiJobSnapshot, pageId: string): WikiPage | undefined =>
+  job.structure?.pages.find(page => page.id === pageId);
+
+/**
+ * @returns The state after the event; the given state is not modified
+ */
+export function applyWikiJobEvent(job: WikiJobSnapshot, event: WikiJobEvent): WikiJobSnapshot {
+  switch (event.type) {
+    case 'snapshot':
+      return event.job;
+    case 'stage':
+      return { ...job, stage: event.stage };
+    case 'structure':
+      return {
+        ...job,
+        structure: event.structure,
+        filePathCorrections: event.filePathCorrections,
+        commitSha: event.commitSha,
+        branch: event.branch,
+        pages: event.pages ?? job.pages
+      };
+    case 'pagesScheduled':
+      return { ...job, stage: 'generatingPages', pagesInProgress: event.pageIds };
+    case 'pageStart': {
+      const page = structurePage(job, event.pageId);
+      // Placeholder until the content arrives
+      return page ? { ...job, pages: { ...job.pages, [page.id]: { ...page, content: PAGE_LOADING_CONTENT } } } : job;
+    }
+    case 'pageComplete':
+    case 'pageCancelled':
+      return {
+        ...job,
+        pages: { ...job.pages, [event.page.id]: event.page },
+        pagesInProgress: withoutPage(job.pagesInProgress, event.page.id)
+      };
+    case 'pageError': {
+      const page = structurePage(job, event.pageId);
+      return {
+        ...job,
+        pages: page ? { ...job.pages, [page.id]: { ...page, content: getPageErrorContent(event.message) } } : job.pages,
+        pagesInProgress: withoutPage(job.pagesInProgress, event.pageId)
+      };
+    }
+    case 'pageRetry':
+      return { ...job, pageRetries: { ...job.pageRetries, [event.pageId]: event.attempt } };
+    case 'queue':
+      return { ...job, queuedPageIds: event.pageIds };
+    case 'done':
+      return {
+        ...job,
+        status: event.status,
+        error: event.error,
+        embeddingError: event.embeddingError,
+        pagesInProgress: [],
+        queuedPageIds: []
+      };
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * Citation Verifier Test Suite
+ * Tests for checking the source citations of generated pages against the repository
+ */
+
+import { findCitationIssue, getCitationAccuracy, verifyCitations } from '../src/utils/wiki/citationVerifier';
+import { SourceFileReader } from '../src/utils/repository/sourceFileReader';
+
+const FILE_URL = 'https://github.com/owner/repo/blob/main/';
+
+const FILES = {
+  'src/app.ts': 'line 1\nline 2\nline 3\nline 4\nline 5\n',
+  'src/db.ts': 'a\nb\n'
+};
+
+function createProvider(files = FILES) {
+  return {
+    listTree: jest.fn().mockResolvedValue(Object.keys(files)),
+    getFileContent: jest.fn((ref, filePath) => filePath in files
+      ? Promise.resolve(files[filePath])
+      : Promise.reject(new Error(`Failed to fetch ${filePath}`)))
+  };
+}
+
+const cite = (path, lines) => `[${path}${lines ? `:L${lines}` : ''}](${FILE_URL}${path}${lines ? `#L${lines}` : ''})`;
+
+describe('verifyCitations', () => {
+  test('accepts citations of existing files and lines', async () => {
+    const content = `See ${cite('src/app.ts', '1-5')}, ${cite('src/db.ts', '2')} and ${cite('src/db.ts')}.`;
+
+    const check = await verifyCitations(content, new SourceFileReader(createProvider(), 'main'), FILE_URL);
+
+    expect(check).toMatchObject({ total: 3, valid: 3, issues: [] });
+    expect(getCitationAccuracy(check)).toBe(1);
+  });
+
+  test('reports citations of missing files and lines past the end of a file', async () => {
+    const content = `Sources: ${cite('src/app.ts', '4-9')}, ${cite('src/gone.ts', '1')} and ${cite('src/db.ts', '1-2')}`;
+
+    const check = await verifyCitations(content, new SourceFileReader(createProvider(), 'main'), FILE_URL);
+
+    expect(check.total).toBe(3);
+    expect(check.valid).toBe(1);
+    expect(check.issues).toEqual([
+      expect.objectContaining({ filePath: 'src/app.ts', startLine: 4, endLine: 9, problem: 'invalidLines', lineCount: 5 }),
+      expect.objectContaining({ filePath: 'src/gone.ts', problem: 'missingFile' })
+    ]);
+    expect(getCitationAccuracy(check)).toBeCloseTo(1 / 3);
+  });
+
+  test('ignores links that are not citations', async () => {
+    const content = '[Overview](#overview), [Docs](https://example.com/docs) and `[x](src/gone.ts)`';
+
+    const check = await verifyCitations(content, new SourceFileReader(createProvider(), 'main'), FILE_URL);
+
+    expect(check).toMatchObject({ total: 0, valid: 0, issues: [] });
+    expect(getCitationAccuracy(check)).toBe(1);
+  });
+
+  test('does not check the lines of files that cannot be read', async () => {
+    const provider = createProvider();
+    provider.listTree.mockResolvedValue([...Object.keys(FILES), 'src/big.bin']);
+
+    const check = await verifyCitations(cite('src/big.bin', '100'), new SourceFileReader(provider, 'main'), FILE_URL);
+
+    expect(check).toMatchObject({ total: 1, valid: 1, issues: [] });
+  });
+
+  test('fails when the files of the repository cannot be listed', async () => {
+    const provider = createProvider();
+    provider.listTree.mockRejectedValue(new Error('Not found'));
+
+    await expect(verifyCitations(cite('src/app.ts'), new SourceFileReader(provider, 'main'), FILE_URL))
+      .rejects.toThrow('Not found');
+  });
+
+  test('reads the file list and each file once', async () => {
+    const provider = createProvider();
+    const files = new SourceFileReader(provider, 'abc123');
+
+    await verifyCitations(`${cite('src/app.ts', '1')} ${cite('src/app.ts', '2')}`, files, FILE_URL);
+    await verifyCitations(cite('src/app.ts', '3'), files, FILE_URL);
+
+    expect(provider.listTree).toHaveBeenCalledTimes(1);
+    expect(provider.listTree).toHaveBeenCalledWith('abc123');
+    expect(provider.getFileContent).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('findCitationIssue', () => {
+  test('finds the issue of a citation link', async () => {
+    const href = `${FILE_URL}src/gone.ts`;
+    const check = await verifyCitations(`[gone.ts](${href})`, new SourceFileReader(createProvider(), 'main'), FILE_URL);
+
+    expect(findCitationIssue(check, href)).toMatchObject({ problem: 'missingFile' });
+    expect(findCitationIssue(check, `${FILE_URL}src/app.ts`)).toBeUndefined();
+    expect(findCitationIssue(undefined, href)).toBeUndefined();
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * Citations Test Suite
+ * Tests for reading the source files and lines cited by wiki pages
+ */
+
+import { getCitedLines, getSourceLanguage, parseCitation } from '../src/utils/wiki/citations';
+
+const GITHUB = { fileUrl: 'https://github.com/owner/repo/blob/main/', filePaths: ['src/app.ts', 'app.ts'] };
+
+describe('parseCitation', () => {
+  test('reads the file and lines of host URLs', () => {
+    expect(parseCitation('app.ts:L10-L20', 'https://github.com/owner/repo/blob/main/src/app.ts#L10-L20', GITHUB))
+      .toEqual({ filePath: 'src/app.ts', startLine: 10, endLine: 20 });
+    expect(parseCitation('app.ts:L5', 'https://github.com/owner/repo/blob/feature/x/src/app.ts', GITHUB))
+      .toEqual({ filePath: 'src/app.ts', startLine: 5, endLine: 5 });
+    expect(parseCitation('lib.ts', 'https://github.com/owner/repo/blob/main/src/lib.ts', GITHUB))
+      .toEqual({ filePath: 'src/lib.ts' });
+  });
+
+  test('reads the URL formats of GitLab, Bitbucket and Azure DevOps', () => {
+    const gitlab = { fileUrl: 'https://gitlab.com/group/repo/-/blob/main/', filePaths: ['src/app.ts'] };
+    const bitbucket = { fileUrl: 'https://bitbucket.org/owner/repo/src/main/', filePaths: [] };
+    const azure = { fileUrl: 'https://dev.azure.com/org/project/_git/repo?path=%2F&version=GBmain', filePaths: [] };
+
+    expect(parseCitation('x', 'https://gitlab.com/group/repo/-/blob/dev/src/app.ts#L3-12', gitlab))
+      .toEqual({ filePath: 'src/app.ts', startLine: 3, endLine: 12 });
+    expect(parseCitation('x', 'https://bitbucket.org/owner/repo/src/main/lib/db.py#lines-7:9', bitbucket))
+      .toEqual({ filePath: 'lib/db.py', startLine: 7, endLine: 9 });
+    expect(parseCitation('db.py:L4', 'https://dev.azure.com/org/project/_git/repo?path=%2Flib%2Fdb.py&version=GBmain', azure))
+      .toEqual({ filePath: 'lib/db.py', startLine: 4, endLine: 4 });
+  });
+
+  test('reads plain paths of local repositories', () => {
+    const local = { fileUrl: '', filePaths: ['src/app.ts'] };
+
+    expect(parseCitation('src/app.ts', 'src/app.ts', local)).toEqual({ filePath: 'src/app.ts' });
+    expect(parseCitation('util.py:L2-L4', './lib/util.py', local)).toEqual({ filePath: 'lib/util.py', startLine: 2, endLine: 4 });
+    expect(parseCitation('Guide', 'docs/guide', local)).toBeUndefined();
+  });
+
+  test('ignores links outside the repository and links to pages', () => {
+    expect(parseCitation('app.ts:L1', 'https://github.com/other/repo/blob/main/src/app.ts#L1', GITHUB)).toBeUndefined();
+    expect(parseCitation('Docs', 'https://example.com/docs', GITHUB)).toBeUndefined();
+    expect(parseCitation('Setup', '#setup', GITHUB)).toBeUndefined();
+  });
+});
+
+describe('getCitedLines', () => {
+  const content = Array.from({ length: 40 }, (_, i) => `line ${i + 1}`).join('\n');
+
+  test('returns the cited lines, at most 15 of them', () => {
+    expect(getCitedLines(content, { filePath: 'a', startLine: 3, endLine: 5 }))
+      .toEqual({ lines: ['line 3', 'line 4', 'line 5'], firstLine: 3 });
+    expect(getCitedLines(content, { filePath: 'a', startLine: 10, endLine: 40 }).lines).toHaveLength(15);
+  });
+
+  test('returns the beginning of the file without cited lines', () => {
+    expect(getCitedLines(content, { filePath: 'a' }).lines[0]).toBe('line 1');
+  });
+});
+
+describe('getSourceLanguage', () => {
+  test('picks the language by extension', () => {
+    expect(getSourceLanguage('src/App.TSX')).toBe('tsx');
+    expect(getSourceLanguage('Dockerfile')).toBe('docker');
+    expect(getSourceLanguage('LICENSE')).toBe('text');
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * CLI Test Suite
+ * Tests for the arguments and exit codes of the headless DeepWiki CLI
+ */
+
+import { EXIT_GENERATION_FAILED, EXIT_USAGE, main, parseCommandLine, UsageError } from '../src/cli/deepwiki';
+
+describe('parseCommandLine', () => {
+  test('fills in the defaults', () => {
+    const args = parseCommandLine(['generate', 'o/r']);
+
+    expect(args).toMatchObject({
+      repository: 'o/r',
+      lang: 'en',
+      out: './wiki',
+      isComprehensive: true,
+      structureFormat: 'xml',
+      formats: ['markdown', 'json'],
+      concurrency: undefined,
+      maxUnverifiedIdentifiers: undefined,
+      'retry-invalid': false,
+      verbose: false
+    });
+  });
+
+  test('reads the options', () => {
+    const args = parseCommandLine([
+      'generate', 'https://gitlab.com/o/r', '--concise', '--lang', 'ja', '--format', 'markdown',
+      '--server', 'http://backend:8001/', '--concurrency', '3', '--max-unverified', '0.5', '--retry-invalid'
+    ]);
+
+    expect(args).toMatchObject({
+      repository: 'https://gitlab.com/o/r',
+      lang: 'ja',
+      isComprehensive: false,
+      formats: ['markdown'],
+      server: 'http://backend:8001',
+      concurrency: 3,
+      maxUnverifiedIdentifiers: 0.5,
+      'retry-invalid': true
+    });
+  });
+
+  test('returns null for the help', () => {
+    expect(parseCommandLine(['-h'])).toBeNull();
+    expect(parseCommandLine(['generate', 'o/r', '--help'])).toBeNull();
+  });
+
+  test('rejects invalid arguments', () => {
+    expect(() => parseCommandLine([])).toThrow(UsageError);
+    expect(() => parseCommandLine(['export', 'o/r'])).toThrow('Expected: deepwiki generate <repo>');
+    expect(() => parseCommandLine(['generate', 'o/r', 'extra'])).toThrow(UsageError);
+    expect(() => parseCommandLine(['generate', 'o/r', '--comprehensive', '--concise'])).toThrow('cannot be combined');
+    expect(() => parseCommandLine(['generate', 'o/r', '--format', 'pdf'])).toThrow('Unknown format: pdf');
+    expect(() => parseCommandLine(['generate', 'o/r', '--type', 'svn'])).toThrow('Unknown repository type: svn');
+    expect(() => parseCommandLine(['generate', 'o/r', '--concurrency', '0'])).toThrow('Invalid concurrency: 0');
+    expect(() => parseCommandLine(['generate', 'o/r', '--max-unverified', '2'])).toThrow(UsageError);
+    expect(() => parseCommandLine(['generate', 'o/r', '--unknown'])).toThrow();
+  });
+});
+
+describe('main', () => {
+  let stderr;
+
+  beforeEach(() => {
+    stderr = jest.spyOn(process.stderr, 'write').mockImplementation(() => true);
+    global.fetch = jest.fn();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const output = () => stderr.mock.calls.map(([text]) => text).join('');
+
+  test('prints the help and exits with 0', async () => {
+    expect(await main(['--help'])).toBe(0);
+    expect(output()).toContain('Usage: deepwiki generate <repo> [options]');
+  });
+
+  test('exits with the usage code for invalid arguments', async () => {
+    expect(await main(['generate'])).toBe(EXIT_USAGE);
+    expect(output()).toContain('Expected: deepwiki generate <repo>');
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+
+  test('exits with the usage code for an unknown provider', async () => {
+    global.fetch.mockResolvedValue({
+      ok: true,
+      json: async () => ({ providers: [{ id: 'openai', models: [{ id: 'gpt-4o' }] }], defaultProvider: 'openai' })
+    });
+
+    expect(await main(['generate', 'o/r', '--server', 'http://backend', '--provider', 'nope'])).toBe(EXIT_USAGE);
+    expect(output()).toContain('Unknown provider: nope. Available providers: openai');
+    expect(global.fetch).toHaveBeenCalledWith('http://backend/models/config');
+  });
+
+  test('exits with the failure code when the backend cannot be reached', async () => {
+    global.fetch.mockRejectedValue(new Error('offline'));
+
+    expect(await main(['generate', 'o/r', '--server', 'http://backend'])).toBe(EXIT_GENERATION_FAILED);
+    expect(output()).toContain('Wiki generation failed: offline');
+  });
+});
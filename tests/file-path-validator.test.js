@@ -0,0 +1,150 @@
+/**
+ * File Path Validator Test Suite
+ * Tests for checking the file paths of wiki pages against the repository tree
+ */
+
+import { validateFilePaths } from '../src/utils/wiki/filePathValidator';
+
+const FILE_TREE = [
+  'README.md',
+  'package.json',
+  'yarn.lock',
+  'api/api.py',
+  'api/rag.py',
+  'api/websocket_wiki.py',
+  'src/app/page.tsx',
+  'src/app/[owner]/[repo]/page.tsx',
+  'src/components/Ask.tsx',
+  'src/components/Mermaid.tsx',
+  'src/components/WikiTreeView.tsx',
+  'src/utils/promptTemplate.ts',
+  'src/utils/wiki/wikiGenerator.ts',
+  'src/utils/wiki/jobScheduler.ts',
+  'packages/a/src/index.ts',
+  'packages/b/src/index.ts'
+].join('\n');
+
+const createStructure = (...pages) => ({
+  id: 'wiki',
+  title: 'Wiki',
+  description: '',
+  pages: pages.map(([id, title, filePaths]) => ({
+    id,
+    title,
+    content: '',
+    filePaths,
+    importance: 'medium',
+    relatedPages: []
+  })),
+  sections: [],
+  rootSections: []
+});
+
+const validate = (filePaths, title = 'Page') =>
+  validateFilePaths(createStructure(['page-1', title, filePaths]), FILE_TREE, { minFilesPerPage: 0 });
+
+describe('validateFilePaths', () => {
+  describe('Path resolution', () => {
+    test('should keep existing files and directories', () => {
+      const { structure, corrections } = validate(['README.md', 'src/components']);
+
+      expect(corrections).toEqual([]);
+      expect(structure.pages[0].filePaths).toEqual(['README.md', 'src/components']);
+    });
+
+    test('should normalize leading slashes, backslashes and case', () => {
+      const { structure, corrections } = validate(['./api/api.py', 'src\\utils\\promptTemplate.ts', 'readme.md']);
+
+      expect(structure.pages[0].filePaths).toEqual(['api/api.py', 'src/utils/promptTemplate.ts', 'README.md']);
+      expect(corrections).toEqual([{ pageId: 'page-1', type: 'corrected', originalPath: 'readme.md', path: 'README.md' }]);
+    });
+
+    test('should not report formatting changes as corrections', () => {
+      const { structure, corrections } = validate(['/src/components/', './package.json']);
+
+      expect(structure.pages[0].filePaths).toEqual(['src/components', 'package.json']);
+      expect(corrections).toEqual([]);
+    });
+
+    test('should strip extra leading directories', () => {
+      const { structure } = validate(['deepwiki/src/components/Ask.tsx']);
+
+      expect(structure.pages[0].filePaths).toEqual(['src/components/Ask.tsx']);
+    });
+
+    test('should find files whose leading directories are missing or wrong', () => {
+      const { structure } = validate(['components/Mermaid.tsx', 'lib/wiki/wikiGenerator.ts']);
+
+      expect(structure.pages[0].filePaths).toEqual(['src/components/Mermaid.tsx', 'src/utils/wiki/wikiGenerator.ts']);
+    });
+
+    test('should correct misspelled names and wrong extensions', () => {
+      const { structure, corrections } = validate(['src/utils/promtTemplate.ts', 'api/rag.ts']);
+
+      expect(structure.pages[0].filePaths).toEqual(['src/utils/promptTemplate.ts', 'api/rag.py']);
+      expect(corrections).toEqual([
+        { pageId: 'page-1', type: 'corrected', originalPath: 'src/utils/promtTemplate.ts', path: 'src/utils/promptTemplate.ts' },
+        { pageId: 'page-1', type: 'corrected', originalPath: 'api/rag.ts', path: 'api/rag.py' }
+      ]);
+    });
+
+    test('should drop invented and ambiguous paths', () => {
+      const { structure, corrections } = validate(['src/services/auth.ts', 'src/index.ts', 'api/api.py']);
+
+      expect(structure.pages[0].filePaths).toEqual(['api/api.py']);
+      expect(corrections).toEqual([
+        { pageId: 'page-1', type: 'dropped', originalPath: 'src/services/auth.ts' },
+        { pageId: 'page-1', type: 'dropped', originalPath: 'src/index.ts' }
+      ]);
+    });
+
+    test('should remove duplicates created by corrections', () => {
+      const { structure } = validate(['api/api.py', './api/api.py']);
+
+      expect(structure.pages[0].filePaths).toEqual(['api/api.py']);
+    });
+  });
+
+  describe('Topping up pages', () => {
+    test('should add files matching the page title', () => {
+      const structure = createStructure(['page-1', 'Wiki Generator and Job Scheduler', ['README.md']]);
+
+      const { structure: validated, corrections } = validateFilePaths(structure, FILE_TREE, { minFilesPerPage: 3 });
+
+      expect(validated.pages[0].filePaths).toEqual([
+        'README.md',
+        'src/utils/wiki/jobScheduler.ts',
+        'src/utils/wiki/wikiGenerator.ts'
+      ]);
+      expect(corrections.filter(c => c.type === 'added').map(c => c.path)).toEqual([
+        'src/utils/wiki/jobScheduler.ts',
+        'src/utils/wiki/wikiGenerator.ts'
+      ]);
+    });
+
+    test('should prefer files next to the page files and skip lock files and covered directories', () => {
+      const structure = createStructure(['page-1', 'Frontend', ['src/components/Ask.tsx', 'src/app']]);
+
+      const { structure: validated } = validateFilePaths(structure, FILE_TREE, { minFilesPerPage: 4 });
+
+      expect(validated.pages[0].filePaths).toEqual([
+        'src/components/Ask.tsx',
+        'src/app',
+        'src/components/Mermaid.tsx',
+        'src/components/WikiTreeView.tsx'
+      ]);
+    });
+
+    test('should add nothing when no file is related', () => {
+      const structure = createStructure(['page-1', 'Deployment', []]);
+
+      expect(validateFilePaths(structure, FILE_TREE).corrections).toEqual([]);
+    });
+  });
+
+  test('should leave the structure unchanged without a file tree', () => {
+    const structure = createStructure(['page-1', 'Page', ['missing.ts']]);
+
+    expect(validateFilePaths(structure, '')).toEqual({ structure, corrections: [] });
+  });
+});
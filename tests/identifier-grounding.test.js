@@ -0,0 +1,190 @@
+/**
+ * Identifier Grounding Test Suite
+ * Tests for looking up the code identifiers of generated pages in their source files
+ */
+
+import {
+  checkIdentifiers,
+  findCodeIdentifiers,
+  getCodeIdentifier,
+  getUnverifiedShare,
+  groundIdentifiers,
+  isUnverifiedShare
+} from '../src/utils/wiki/identifierGrounding';
+import { SourceFileReader } from '../src/utils/repository/sourceFileReader';
+import { WikiGenerator } from '../src/utils/wiki/wikiGenerator';
+import { streamChatCompletion } from '../src/utils/chatStream';
+
+jest.mock('../src/utils/chatStream', () => ({
+  ...jest.requireActual('../src/utils/chatStream'),
+  streamChatCompletion: jest.fn()
+}));
+
+const SOURCE = `export class SessionStore {
+  async loadSession(session_id: string) {
+    return this.cache.get(session_id);
+  }
+}
+`;
+
+const createFiles = (files = { 'src/session.ts': SOURCE }) => new SourceFileReader({
+  listTree: jest.fn().mockResolvedValue(Object.keys(files)),
+  getFileContent: jest.fn((ref, filePath) => filePath in files
+    ? Promise.resolve(files[filePath])
+    : Promise.reject(new Error(`Failed to fetch ${filePath}`)))
+}, 'main');
+
+const PAGE = {
+  id: 'sessions',
+  title: 'Sessions',
+  content: '',
+  filePaths: ['src/session.ts'],
+  importance: 'high',
+  relatedPages: []
+};
+
+describe('getCodeIdentifier', () => {
+  test('reads names that look like code', () => {
+    expect(getCodeIdentifier('loadSession')).toBe('loadSession');
+    expect(getCodeIdentifier('SessionStore')).toBe('SessionStore');
+    expect(getCodeIdentifier('session_id')).toBe('session_id');
+    expect(getCodeIdentifier('load()')).toBe('load');
+    expect(getCodeIdentifier('store.loadSession(id)')).toBe('loadSession');
+    expect(getCodeIdentifier('Auth::TokenCache')).toBe('TokenCache');
+  });
+
+  test('leaves out plain words, file names and expressions', () => {
+    expect(getCodeIdentifier('true')).toBeUndefined();
+    expect(getCodeIdentifier('Session')).toBeUndefined();
+    expect(getCodeIdentifier('config.json')).toBeUndefined();
+    expect(getCodeIdentifier('src/session.ts')).toBeUndefined();
+    expect(getCodeIdentifier('npm run dev')).toBeUndefined();
+    expect(getCodeIdentifier('a + b')).toBeUndefined();
+  });
+});
+
+describe('findCodeIdentifiers', () => {
+  test('lists the distinct identifiers of inline code outside of code blocks', () => {
+    const content = 'Call `loadSession()` on the `SessionStore`.\n\n```ts\nconst fakeName = 1;\n```\n\nSee `loadSession` again.';
+
+    expect(findCodeIdentifiers(content)).toEqual(['loadSession', 'SessionStore']);
+  });
+});
+
+describe('checkIdentifiers', () => {
+  test('reports identifiers found in none of the sources', () => {
+    const check = checkIdentifiers('`SessionStore` uses `loadSession()`, `session_id` and `refreshToken()`.', [SOURCE]);
+
+    expect(check).toMatchObject({ total: 4, unverified: ['refreshToken'] });
+    expect(getUnverifiedShare(check)).toBe(0.25);
+  });
+
+  test('matches whole names only', () => {
+    expect(checkIdentifiers('`loadSess()`', [SOURCE]).unverified).toEqual(['loadSess']);
+  });
+
+  test('counts pages without identifiers as grounded', () => {
+    const check = checkIdentifiers('No code here.', [SOURCE]);
+
+    expect(check).toMatchObject({ total: 0, unverified: [] });
+    expect(getUnverifiedShare(check)).toBe(0);
+  });
+});
+
+describe('groundIdentifiers', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('looks up the identifiers in the readable source files of the page', async () => {
+    const page = { ...PAGE, content: '`SessionStore` and `purgeAll()`', filePaths: ['src/session.ts', 'src/gone.ts'] };
+
+    const check = await groundIdentifiers(page, createFiles());
+
+    expect(check).toMatchObject({ total: 2, unverified: ['purgeAll'] });
+  });
+
+  test('gives no result when no source file can be read', async () => {
+    const page = { ...PAGE, content: '`SessionStore`', filePaths: ['src/gone.ts'] };
+
+    expect(await groundIdentifiers(page, createFiles())).toBeUndefined();
+  });
+});
+
+describe('isUnverifiedShare', () => {
+  test('accepts shares from 0 to 1 only', () => {
+    expect([0, 0.5, 1].every(isUnverifiedShare)).toBe(true);
+    expect([-0.1, 1.5, NaN, '0.5', undefined].some(isUnverifiedShare)).toBe(false);
+  });
+});
+
+describe('WikiGenerator.generatePages', () => {
+  const GROUNDED = '# Sessions\n\n`SessionStore` provides `loadSession()`.';
+  const UNGROUNDED = '# Sessions\n\n`SessionStore` provides `fetchSession()` and `purgeAll()`.';
+
+  const createGenerator = (options = {}, events = {}) => new WikiGenerator({
+    repoInfo: { owner: 'o', repo: 'r', type: 'github', token: null, localPath: null, repoUrl: null },
+    model: { provider: 'google', model: 'gemini', isCustomModel: false, customModel: '' },
+    language: 'en',
+    isComprehensive: true,
+    sourceFiles: createFiles(),
+    ...options
+  }, events);
+
+  beforeEach(() => {
+    streamChatCompletion.mockReset();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('generates a page once more when too many identifiers are unverified', async () => {
+    streamChatCompletion.mockResolvedValueOnce(UNGROUNDED).mockResolvedValueOnce(GROUNDED);
+    const onPageStart = jest.fn();
+    const onPageComplete = jest.fn();
+
+    const { pages } = await createGenerator({}, { onPageStart, onPageComplete }).generatePages([PAGE]);
+
+    expect(streamChatCompletion).toHaveBeenCalledTimes(2);
+    expect(streamChatCompletion.mock.calls[1][0].messages[0].content).toContain('`fetchSession`, `purgeAll`');
+    expect(pages.sessions.content).toBe(GROUNDED);
+    expect(pages.sessions.identifierCheck).toMatchObject({ total: 2, unverified: [] });
+    expect(onPageStart).toHaveBeenCalledTimes(1);
+    expect(onPageComplete).toHaveBeenCalledTimes(2);
+  });
+
+  test('keeps the first version when the second is not better', async () => {
+    streamChatCompletion.mockResolvedValue(UNGROUNDED);
+
+    const { pages } = await createGenerator().generatePages([PAGE]);
+
+    expect(streamChatCompletion).toHaveBeenCalledTimes(2);
+    expect(pages.sessions.content).toBe(UNGROUNDED);
+    expect(pages.sessions.generation.instructions).toBeUndefined();
+  });
+
+  test('keeps pages within the configured share of unverified identifiers', async () => {
+    streamChatCompletion.mockResolvedValue(UNGROUNDED);
+
+    const { pages } = await createGenerator({ maxUnverifiedIdentifiers: 0.7 }).generatePages([PAGE]);
+
+    expect(streamChatCompletion).toHaveBeenCalledTimes(1);
+    expect(pages.sessions.identifierCheck.unverified).toEqual(['fetchSession', 'purgeAll']);
+  });
+
+  test('keeps the first version when generating it once more fails', async () => {
+    streamChatCompletion.mockResolvedValueOnce(UNGROUNDED).mockRejectedValueOnce(new Error('Rate limited'));
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const { pages, failedPages } = await createGenerator().generatePages([PAGE]);
+
+    expect(failedPages).toEqual([]);
+    expect(pages.sessions.content).toBe(UNGROUNDED);
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * Incremental Update Test Suite
+ * Tests for detecting new commits and mapping the files changed since a wiki was generated to the pages to regenerate
+ */
+
+import { findNewerCommit, planIncrementalUpdate, selectPagesToRegenerate } from '../src/utils/wiki/incrementalUpdate';
+import { WikiGenerator } from '../src/utils/wiki/wikiGenerator';
+import { streamChatCompletion } from '../src/utils/chatStream';
+
+jest.mock('../src/utils/chatStream', () => ({
+  ...jest.requireActual('../src/utils/chatStream'),
+  streamChatCompletion: jest.fn()
+}));
+
+const page = (id, filePaths, content = '') => ({
+  id,
+  title: id,
+  content,
+  filePaths,
+  importance: 'medium',
+  relatedPages: []
+});
+
+const structure = (pages) => ({
+  id: 'wiki',
+  title: 'Wiki',
+  description: '',
+  pages,
+  sections: [],
+  rootSections: []
+});
+
+const STRUCTURE = structure([
+  page('overview', ['README.md']),
+  page('auth', ['src/auth/']),
+  page('api', ['./src/api.ts', 'src/routes.ts'])
+]);
+
+const PAGES = Object.fromEntries(STRUCTURE.pages.map(p => [p.id, { ...p, content: `# ${p.id}` }]));
+
+describe('planIncrementalUpdate', () => {
+  test('selects the pages referencing modified files, also inside directories', () => {
+    const plan = planIncrementalUpdate(STRUCTURE, [
+      { path: 'src/api.ts', status: 'modified' },
+      { path: 'src/auth/token.ts', status: 'modified' }
+    ]);
+
+    expect(plan.affectedPageIds).toEqual(['auth', 'api']);
+    expect(plan.structureChanged).toBe(false);
+  });
+
+  test('ignores files no page references', () => {
+    const plan = planIncrementalUpdate(STRUCTURE, [
+      { path: 'docs/guide.md', status: 'modified' },
+      { path: 'src/authentication.ts', status: 'modified' }
+    ]);
+
+    expect(plan.affectedPageIds).toEqual([]);
+    expect(plan.structureChanged).toBe(false);
+  });
+
+  test('marks the structure as changed for added and removed files', () => {
+    expect(planIncrementalUpdate(STRUCTURE, [{ path: 'src/cli.ts', status: 'added' }]))
+      .toMatchObject({ affectedPageIds: [], structureChanged: true });
+    expect(planIncrementalUpdate(STRUCTURE, [{ path: 'src/routes.ts', status: 'removed' }]))
+      .toMatchObject({ affectedPageIds: ['api'], structureChanged: true });
+  });
+
+  test('selects the pages referencing the old or the new path of renamed files', () => {
+    const plan = planIncrementalUpdate(STRUCTURE, [
+      { path: 'src/http/routes.ts', previousPath: 'src/routes.ts', status: 'renamed' },
+      { path: 'src/auth/session.ts', previousPath: 'src/session.ts', status: 'renamed' }
+    ]);
+
+    expect(plan.affectedPageIds).toEqual(['auth', 'api']);
+    expect(plan.structureChanged).toBe(true);
+  });
+});
+
+describe('selectPagesToRegenerate', () => {
+  const plan = (affectedPageIds) => ({ changedFiles: [], affectedPageIds, structureChanged: true });
+
+  test('selects affected pages only when the structure stays the same', () => {
+    const pages = selectPagesToRegenerate(STRUCTURE, STRUCTURE, PAGES, plan(['api']));
+
+    expect(pages.map(p => p.id)).toEqual(['api']);
+  });
+
+  test('matches pages of the new structure by id', () => {
+    const newStructure = structure([
+      page('api', ['src/routes.ts', './src/api.ts']),
+      page('auth', ['src/auth/', 'src/session.ts']),
+      page('cli', ['src/cli.ts']),
+      page('overview', ['README.md'])
+    ]);
+
+    const pages = selectPagesToRegenerate(newStructure, STRUCTURE, PAGES, plan([]));
+
+    expect(pages.map(p => p.id)).toEqual(['auth', 'cli']);
+  });
+
+  test('selects pages without cached content', () => {
+    const previousPages = { auth: PAGES.auth, api: { ...PAGES.api, content: '' } };
+
+    const pages = selectPagesToRegenerate(STRUCTURE, STRUCTURE, previousPages, plan([]));
+
+    expect(pages.map(p => p.id)).toEqual(['overview', 'api']);
+  });
+});
+
+describe('findNewerCommit', () => {
+  const provider = (latestCommitSha) => ({ getLatestCommit: jest.fn().mockResolvedValue(latestCommitSha) });
+
+  test('returns the latest commit of the ref when it differs from the commit of the wiki', async () => {
+    const repository = provider('def456');
+
+    expect(await findNewerCommit(repository, 'release/1.x', 'abc123')).toBe('def456');
+    expect(repository.getLatestCommit).toHaveBeenCalledWith('release/1.x');
+  });
+
+  test('does not flag a wiki generated from the latest commit', async () => {
+    expect(await findNewerCommit(provider('abc123'), 'main', 'abc123')).toBeUndefined();
+  });
+
+  test('does not flag a wiki when either commit is unknown', async () => {
+    const repository = provider('def456');
+
+    expect(await findNewerCommit(repository, 'main', undefined)).toBeUndefined();
+    expect(repository.getLatestCommit).not.toHaveBeenCalled();
+    expect(await findNewerCommit(provider(undefined), 'main', 'abc123')).toBeUndefined();
+  });
+});
+
+describe('WikiGenerator.update', () => {
+  const GENERATION = { generatedAt: '2026-01-01T00:00:00.000Z', provider: 'openai', model: 'gpt-4o', commitSha: 'abc', promptHash: 'hash' };
+
+  const previousPages = {
+    overview: {
+      ...PAGES.overview,
+      generation: GENERATION,
+      editedAt: '2026-01-02T00:00:00.000Z',
+      lockedSections: ['Install'],
+      validation: { passed: true, errors: [], warnings: [] }
+    },
+    auth: { ...PAGES.auth, generation: GENERATION },
+    api: { ...PAGES.api, content: '# API, written by hand', generation: GENERATION, locked: true }
+  };
+
+  beforeEach(() => {
+    streamChatCompletion.mockReset();
+    streamChatCompletion.mockResolvedValue('# auth regenerated');
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('regenerates only the affected pages and keeps the others as they are', async () => {
+    const generator = new WikiGenerator({
+      repoInfo: { owner: 'o', repo: 'r', type: 'github', token: null, localPath: null, repoUrl: null },
+      model: { provider: 'openai', model: 'gpt-4o', isCustomModel: false, customModel: '' },
+      language: 'en',
+      isComprehensive: true
+    });
+
+    const result = await generator.update('README.md\nsrc/api.ts', '', { structure: STRUCTURE, pages: previousPages }, [
+      { path: 'src/api.ts', status: 'modified' },
+      { path: 'src/auth/token.ts', status: 'modified' }
+    ]);
+
+    expect(streamChatCompletion).toHaveBeenCalledTimes(1);
+    expect(streamChatCompletion.mock.calls[0][1].label).toBe('page: auth');
+    expect(result.structure).toBe(STRUCTURE);
+    expect(result.plan.affectedPageIds).toEqual(['auth', 'api']);
+    expect(result.regeneratedPages).toEqual(['auth']);
+    expect(result.pages.auth.content).toBe('# auth regenerated');
+    expect(result.pages.overview).toEqual(previousPages.overview);
+    expect(result.pages.api).toMatchObject({ content: '# API, written by hand', generation: GENERATION, locked: true });
+  });
+});
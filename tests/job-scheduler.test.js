@@ -0,0 +1,137 @@
+/**
+ * Job Scheduler Test Suite
+ * Tests for priority ordering, concurrency limits, retries and cancellation of page generation jobs
+ */
+
+import { JobScheduler } from '../src/utils/wiki/jobScheduler';
+
+const deferred = () => {
+  let resolve = () => {};
+  const promise = new Promise(r => { resolve = r; });
+  return { promise, resolve };
+};
+
+describe('JobScheduler', () => {
+  test('should run higher priority jobs first', async () => {
+    const order = [];
+    const scheduler = new JobScheduler({ concurrency: 1 }, {
+      onStart: id => order.push(id)
+    });
+    const gate = deferred();
+
+    scheduler.add({ id: 'first', priority: 0, run: () => gate.promise });
+    scheduler.add({ id: 'low', priority: 0, run: async () => {} });
+    scheduler.add({ id: 'high', priority: 2, run: async () => {} });
+    scheduler.add({ id: 'medium', priority: 1, run: async () => {} });
+    gate.resolve();
+    await scheduler.onIdle();
+
+    expect(order).toEqual(['first', 'high', 'medium', 'low']);
+  });
+
+  test('should never run more jobs than the concurrency limit', async () => {
+    let running = 0;
+    let maxRunning = 0;
+    const scheduler = new JobScheduler({ concurrency: 2 });
+
+    for (let i = 0; i < 6; i++) {
+      scheduler.add({
+        id: `job-${i}`,
+        priority: 0,
+        run: async () => {
+          running++;
+          maxRunning = Math.max(maxRunning, running);
+          await new Promise(resolve => setTimeout(resolve, 5));
+          running--;
+        }
+      });
+    }
+    await scheduler.onIdle();
+
+    expect(maxRunning).toBe(2);
+  });
+
+  test('should retry failed jobs until they succeed', async () => {
+    const onRetry = jest.fn();
+    const onSuccess = jest.fn();
+    const scheduler = new JobScheduler({ concurrency: 1, maxRetries: 2, retryDelayMs: 1 }, { onRetry, onSuccess });
+
+    scheduler.add({
+      id: 'flaky',
+      priority: 0,
+      run: async (_signal, attempt) => {
+        if (attempt < 3) throw new Error(`attempt ${attempt} failed`);
+        return 'done';
+      }
+    });
+    await scheduler.onIdle();
+
+    expect(onRetry).toHaveBeenCalledTimes(2);
+    expect(onRetry).toHaveBeenLastCalledWith('flaky', 2, 2, expect.any(Error));
+    expect(onSuccess).toHaveBeenCalledWith('flaky', 'done');
+  });
+
+  test('should report a failure once the retries are exhausted', async () => {
+    const onFailure = jest.fn();
+    const scheduler = new JobScheduler({ concurrency: 1, maxRetries: 1, retryDelayMs: 1 }, { onFailure });
+
+    scheduler.add({ id: 'broken', priority: 0, run: async () => { throw new Error('boom'); } });
+    await scheduler.onIdle();
+
+    expect(onFailure).toHaveBeenCalledWith('broken', new Error('boom'));
+  });
+
+  test('should fall back to the default retry settings when they are undefined', async () => {
+    jest.useFakeTimers();
+    const onFailure = jest.fn();
+    const onRetry = jest.fn();
+    const scheduler = new JobScheduler({ concurrency: 1, maxRetries: undefined, retryDelayMs: undefined }, { onRetry, onFailure });
+
+    scheduler.add({ id: 'broken', priority: 0, run: async () => { throw new Error('boom'); } });
+    await jest.runAllTimersAsync();
+    await scheduler.onIdle();
+    jest.useRealTimers();
+
+    expect(onRetry.mock.calls.map(call => call[2])).toEqual([2000, 4000]);
+    expect(onFailure).toHaveBeenCalledTimes(1);
+  });
+
+  test('should move a prioritized job to the front of the queue', async () => {
+    const order = [];
+    const scheduler = new JobScheduler({ concurrency: 1 }, { onStart: id => order.push(id) });
+    const gate = deferred();
+
+    scheduler.add({ id: 'running', priority: 0, run: () => gate.promise });
+    scheduler.add({ id: 'a', priority: 1, run: async () => {} });
+    scheduler.add({ id: 'b', priority: 0, run: async () => {} });
+    expect(scheduler.prioritize('b')).toBe(true);
+    expect(scheduler.queuedIds).toEqual(['b', 'a']);
+    gate.resolve();
+    await scheduler.onIdle();
+
+    expect(order).toEqual(['running', 'b', 'a']);
+  });
+
+  test('should cancel queued and running jobs', async () => {
+    const onCancel = jest.fn();
+    const onSuccess = jest.fn();
+    const scheduler = new JobScheduler({ concurrency: 1 }, { onCancel, onSuccess });
+
+    scheduler.add({
+      id: 'running',
+      priority: 0,
+      run: signal => new Promise((_resolve, reject) => {
+        signal.addEventListener('abort', () => reject(new Error('aborted')));
+      })
+    });
+    scheduler.add({ id: 'queued', priority: 0, run: async () => {} });
+
+    expect(scheduler.cancel('queued')).toBe(true);
+    expect(scheduler.cancel('running')).toBe(true);
+    await scheduler.onIdle();
+
+    expect(onCancel).toHaveBeenCalledWith('queued');
+    expect(onCancel).toHaveBeenCalledWith('running');
+    expect(onSuccess).not.toHaveBeenCalled();
+  });
+});
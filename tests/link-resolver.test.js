@@ -0,0 +1,60 @@
+/**
+ * Link Resolver Test Suite
+ * Tests for resolving the links the model writes between wiki pages and reporting broken ones
+ */
+
+import { findBrokenLinks, getHeadingAnchors, resolvePageLink } from '../src/utils/wiki/linkResolver';
+
+const page = (id, title, content = '') => ({
+  id,
+  title,
+  content,
+  filePaths: [],
+  importance: 'medium',
+  relatedPages: []
+});
+
+const PAGES = [
+  page('page-1', 'Overview', '# Overview\n\nSee [auth](#authentication-flow) and [setup](#page-3).\n\n## Usage\n\n## Usage'),
+  page('page-2', 'Authentication Flow', '# Authentication\n\nBack to [the overview](#Overview) or [usage](#usage).'),
+  page('page-3', 'Setup & Configuration', '# Setup\n\n```markdown\n[example](#missing-in-code)\n```\n\n`[inline](#inline-code)` ![diagram](#diagram)')
+];
+
+describe('resolvePageLink', () => {
+  test('resolves links by page id and by title', () => {
+    expect(resolvePageLink('#page-3', PAGES)).toEqual({ pageId: 'page-3' });
+    expect(resolvePageLink('#authentication-flow', PAGES)).toEqual({ pageId: 'page-2' });
+    expect(resolvePageLink('#Overview', PAGES)).toEqual({ pageId: 'page-1' });
+    expect(resolvePageLink('#setup-%26-configuration', PAGES)).toEqual({ pageId: 'page-3' });
+  });
+
+  test('resolves headings of the current page', () => {
+    expect(resolvePageLink('#usage-1', PAGES, PAGES[0])).toEqual({ pageId: 'page-1', anchor: 'usage-1' });
+    expect(resolvePageLink('#usage', PAGES, PAGES[1])).toBeUndefined();
+  });
+
+  test('ignores links that are not page links', () => {
+    expect(resolvePageLink('https://example.com/#page-1', PAGES)).toBeUndefined();
+    expect(resolvePageLink('#', PAGES)).toBeUndefined();
+  });
+});
+
+describe('getHeadingAnchors', () => {
+  test('numbers repeated headings like the rendered page', () => {
+    expect(getHeadingAnchors(PAGES[0].content)).toEqual(['overview', 'usage', 'usage-1']);
+  });
+});
+
+describe('findBrokenLinks', () => {
+  test('reports unresolved links, skipping code and images', () => {
+    const generatedPages = Object.fromEntries(PAGES.map(p => [p.id, p]));
+
+    expect(findBrokenLinks(PAGES, generatedPages)).toEqual([
+      { pageId: 'page-2', text: 'usage', href: '#usage' }
+    ]);
+  });
+
+  test('skips pages that are not generated yet', () => {
+    expect(findBrokenLinks(PAGES, {})).toEqual([]);
+  });
+});
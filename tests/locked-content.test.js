@@ -0,0 +1,134 @@
+/**
+ * Locked Content Test Suite
+ * Tests for keeping locked pages and sections when a wiki is generated again
+ */
+
+import {
+  applyLockedContent,
+  collectLockedPages,
+  findLockedPage,
+  getSectionHeadings,
+  mergeLockedSections
+} from '../src/utils/wiki/lockedContent';
+import { WikiGenerator } from '../src/utils/wiki/wikiGenerator';
+
+const page = (id, content = '', extra = {}) => ({
+  id,
+  title: id,
+  content,
+  filePaths: [],
+  importance: 'medium',
+  relatedPages: [],
+  ...extra
+});
+
+const EDITED = [
+  '# Setup',
+  '',
+  '## Install',
+  'Run `npm ci`, not `npm install`.',
+  '',
+  '### Windows',
+  'Use WSL.',
+  '',
+  '## Configure',
+  'Edited configuration notes.',
+].join('\n');
+
+const REGENERATED = [
+  '# Setup',
+  '',
+  '## Install',
+  'Run `npm install`.',
+  '',
+  '## Configure',
+  'Generated configuration notes.',
+  '',
+  '## Deploy',
+  'Deploy with Docker.',
+].join('\n');
+
+describe('getSectionHeadings', () => {
+  test('lists headings outside of code blocks', () => {
+    const content = '# Title\n\n```markdown\n# Not a heading\n```\n\n## Usage ##\ntext';
+    expect(getSectionHeadings(content)).toEqual(['Title', 'Usage']);
+  });
+});
+
+describe('mergeLockedSections', () => {
+  test('replaces locked sections including their subsections', () => {
+    const merged = mergeLockedSections(EDITED, REGENERATED, ['Install']);
+
+    expect(merged).toContain('Run `npm ci`, not `npm install`.');
+    expect(merged).toContain('### Windows\nUse WSL.');
+    expect(merged).toContain('Generated configuration notes.');
+    expect(merged).toContain('## Deploy');
+    expect(merged.indexOf('## Install')).toBeLessThan(merged.indexOf('## Configure'));
+  });
+
+  test('appends locked sections the regenerated page no longer has', () => {
+    const merged = mergeLockedSections(EDITED, '# Setup\n\nShort page.', ['configure']);
+    expect(merged).toBe('# Setup\n\nShort page.\n\n## Configure\nEdited configuration notes.');
+  });
+
+  test('ignores locked sections that were removed from the page', () => {
+    expect(mergeLockedSections(EDITED, REGENERATED, ['Troubleshooting'])).toBe(REGENERATED);
+  });
+});
+
+describe('applyLockedContent', () => {
+  test('keeps the content of a locked page', () => {
+    const locked = page('setup', EDITED, { locked: true, editedAt: '2026-01-02T00:00:00.000Z' });
+    const result = applyLockedContent(page('setup', REGENERATED, { filePaths: ['README.md'] }), locked);
+
+    expect(result.content).toBe(EDITED);
+    expect(result.filePaths).toEqual(['README.md']);
+    expect(result.locked).toBe(true);
+    expect(result.editedAt).toBe('2026-01-02T00:00:00.000Z');
+  });
+
+  test('merges locked sections into the generated content', () => {
+    const locked = page('setup', EDITED, { lockedSections: ['Configure'] });
+    const result = applyLockedContent(page('setup', REGENERATED), locked);
+
+    expect(result.content).toContain('Edited configuration notes.');
+    expect(result.content).toContain('Run `npm install`.');
+    expect(result.lockedSections).toEqual(['Configure']);
+  });
+});
+
+describe('findLockedPage', () => {
+  test('matches by id, then by title', () => {
+    const lockedPages = collectLockedPages({
+      'page-1': page('page-1', '', { title: 'Getting Started', locked: true }),
+      'page-2': page('page-2', '', { title: 'API' }),
+    });
+
+    expect(lockedPages.map(p => p.id)).toEqual(['page-1']);
+    expect(findLockedPage(page('page-1', '', { title: 'Intro' }), lockedPages)?.id).toBe('page-1');
+    expect(findLockedPage(page('page-7', '', { title: 'getting started' }), lockedPages)?.id).toBe('page-1');
+    expect(findLockedPage(page('page-2', '', { title: 'API' }), lockedPages)).toBeUndefined();
+  });
+});
+
+describe('WikiGenerator with locked pages', () => {
+  test('keeps locked pages without generating them', async () => {
+    const generator = new WikiGenerator({
+      repoInfo: { owner: 'o', repo: 'r', type: 'github', token: null, localPath: null, repoUrl: null },
+      model: { provider: 'openai', model: 'gpt-4o', isCustomModel: false, customModel: '' },
+      language: 'en',
+      isComprehensive: true,
+      lockedPages: [page('setup', EDITED, { locked: true })]
+    });
+    const generatePage = jest.spyOn(generator, 'generatePage').mockImplementation(async (p) => ({ ...p, content: REGENERATED }));
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+
+    const { pages } = await generator.generatePages([page('setup'), page('api')]);
+
+    expect(generatePage).toHaveBeenCalledTimes(1);
+    expect(generatePage.mock.calls[0][0].id).toBe('api');
+    expect(pages.setup.content).toBe(EDITED);
+    expect(pages.api.content).toBe(REGENERATED);
+    jest.restoreAllMocks();
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Mermaid Repair Test Suite
+ * Tests for repairing Mermaid diagrams that fail to render with the help of the model
+ */
+
+import { extractMermaidDiagram, repairMermaidDiagram, replaceMermaidDiagram } from '../src/utils/wiki/mermaidRepair';
+import { WikiGenerator } from '../src/utils/wiki/wikiGenerator';
+import { streamChatCompletion } from '../src/utils/chatStream';
+
+jest.mock('../src/utils/chatStream', () => ({
+  ...jest.requireActual('../src/utils/chatStream'),
+  streamChatCompletion: jest.fn()
+}));
+
+const BROKEN = 'flowchart TD\n  A[Start (now)] --> B';
+const FIXED = 'flowchart TD\n  A["Start (now)"] --> B';
+
+// Accepts the fixed diagram only
+const validate = jest.fn(async (chart) => chart === FIXED ? undefined : 'Parse error on line 2');
+
+describe('extractMermaidDiagram', () => {
+  test('removes code fences around the diagram', () => {
+    expect(extractMermaidDiagram(`\`\`\`mermaid\n${FIXED}\n\`\`\``)).toBe(FIXED);
+    expect(extractMermaidDiagram(`Here it is:\n\`\`\`\n${FIXED}\n\`\`\``)).toBe(FIXED);
+    expect(extractMermaidDiagram(`\n${FIXED}\n`)).toBe(FIXED);
+  });
+});
+
+describe('repairMermaidDiagram', () => {
+  beforeEach(() => {
+    validate.mockClear();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('sends the diagram and the parser error with a fix-only prompt', async () => {
+    const requestFix = jest.fn().mockResolvedValue(FIXED);
+
+    const fixed = await repairMermaidDiagram(BROKEN, 'Expecting SQE, got PS', { requestFix, validate });
+
+    expect(fixed).toBe(FIXED);
+    const [prompt] = requestFix.mock.calls[0];
+    expect(prompt).toContain('Return ONLY the fixed diagram source');
+    expect(prompt).toContain('Expecting SQE, got PS');
+    expect(prompt).toContain(BROKEN);
+  });
+
+  test('sends a failing candidate back with its own error', async () => {
+    const candidate = 'flowchart TD\n  A[Start] --> B(';
+    const requestFix = jest.fn().mockResolvedValueOnce(candidate).mockResolvedValueOnce(FIXED);
+
+    const fixed = await repairMermaidDiagram(BROKEN, 'Expecting SQE', { requestFix, validate });
+
+    expect(fixed).toBe(FIXED);
+    expect(requestFix).toHaveBeenCalledTimes(2);
+    expect(requestFix.mock.calls[1][0]).toContain(candidate);
+    expect(requestFix.mock.calls[1][0]).toContain('Parse error on line 2');
+  });
+
+  test('gives up after the given number of attempts', async () => {
+    const requestFix = jest.fn().mockResolvedValue('');
+
+    const fixed = await repairMermaidDiagram(BROKEN, 'Expecting SQE', { requestFix, validate, maxAttempts: 2 });
+
+    expect(fixed).toBeUndefined();
+    expect(requestFix).toHaveBeenCalledTimes(2);
+    expect(requestFix.mock.calls[1][0]).toContain(BROKEN);
+    expect(validate).not.toHaveBeenCalled();
+  });
+});
+
+describe('replaceMermaidDiagram', () => {
+  test('replaces the failing diagram only', () => {
+    const other = 'sequenceDiagram\n  A->>B: Hi';
+    const content = `# Page\n\n\`\`\`mermaid\n${other}\n\`\`\`\n\nText\n\n\`\`\`mermaid\n${BROKEN}\n\`\`\`\n`;
+
+    expect(replaceMermaidDiagram(content, BROKEN, FIXED))
+      .toBe(`# Page\n\n\`\`\`mermaid\n${other}\n\`\`\`\n\nText\n\n\`\`\`mermaid\n${FIXED}\n\`\`\`\n`);
+  });
+
+  test('leaves content without the diagram as it is', () => {
+    const content = '# Page\n\n```mermaid\ngraph TD\n  A --> B\n```\n';
+
+    expect(replaceMermaidDiagram(content, BROKEN, FIXED)).toBe(content);
+  });
+});
+
+describe('WikiGenerator.repairDiagram', () => {
+  beforeEach(() => {
+    streamChatCompletion.mockReset();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('asks the configured model for the fix', async () => {
+    streamChatCompletion.mockResolvedValue(`\`\`\`mermaid\n${FIXED}\n\`\`\``);
+    const generator = new WikiGenerator({
+      repoInfo: { owner: 'o', repo: 'r', type: 'github', token: null, localPath: null, repoUrl: null },
+      model: { provider: 'ollama', model: 'qwen3:8b', isCustomModel: false, customModel: '' },
+      language: 'en',
+      isComprehensive: true
+    });
+
+    const fixed = await generator.repairDiagram(BROKEN, 'Expecting SQE', validate);
+
+    expect(fixed).toBe(FIXED);
+    const [requestBody, options] = streamChatCompletion.mock.calls[0];
+    expect(requestBody.provider).toBe('ollama');
+    expect(requestBody.model).toBe('qwen3:8b');
+    expect(options.label).toBe('mermaid repair');
+  });
+
+  test('logs through the given logger instead of the console', async () => {
+    streamChatCompletion.mockResolvedValue(FIXED);
+    const logger = { log: jest.fn(), warn: jest.fn(), error: jest.fn() };
+    const generator = new WikiGenerator({
+      repoInfo: { owner: 'o', repo: 'r', type: 'github', token: null, localPath: null, repoUrl: null },
+      model: { provider: 'ollama', model: 'qwen3:8b', isCustomModel: false, customModel: '' },
+      language: 'en',
+      isComprehensive: true,
+      logger
+    });
+
+    await generator.repairDiagram(BROKEN, 'Expecting SQE', validate);
+
+    expect(streamChatCompletion.mock.calls[0][1].logger).toBe(logger);
+    expect(logger.log).toHaveBeenCalledWith('Repaired a Mermaid diagram (attempt 1)');
+    expect(console.log).not.toHaveBeenCalled();
+  });
+});
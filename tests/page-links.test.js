@@ -0,0 +1,59 @@
+/**
+ * Page Links Test Suite
+ * Tests for linking to wiki pages by the slugs of their titles and to headings within them
+ */
+
+import { createHeadingSlugger, findPageBySlug, getPageSlugs, slugify } from '../src/utils/wiki/pageLinks';
+
+const page = (id, title) => ({
+  id,
+  title,
+  content: '',
+  filePaths: [],
+  importance: 'medium',
+  relatedPages: []
+});
+
+describe('slugify', () => {
+  test('joins lowercased words with dashes and drops punctuation', () => {
+    expect(slugify('Authentication Flow')).toBe('authentication-flow');
+    expect(slugify('  API: `fetch()` & Errors!  ')).toBe('api-fetch-errors');
+    expect(slugify('Setup -- Docker')).toBe('setup-docker');
+  });
+
+  test('keeps letters of other scripts', () => {
+    expect(slugify('認証 フロー')).toBe('認証-フロー');
+  });
+});
+
+describe('getPageSlugs', () => {
+  test('numbers pages with the same title and falls back to the id', () => {
+    const slugs = getPageSlugs([page('page-1', 'Overview'), page('page-2', 'Overview'), page('page-3', '!!')]);
+
+    expect([...slugs.values()]).toEqual(['overview', 'overview-2', 'page-3']);
+  });
+});
+
+describe('findPageBySlug', () => {
+  const pages = [page('page-1', 'Overview'), page('page-2', 'Authentication Flow')];
+
+  test('finds pages by slug, even when their ids changed', () => {
+    const regenerated = [page('page-7', 'Authentication Flow'), page('page-8', 'Overview')];
+
+    expect(findPageBySlug(pages, 'authentication-flow').id).toBe('page-2');
+    expect(findPageBySlug(regenerated, 'authentication-flow').id).toBe('page-7');
+  });
+
+  test('finds pages by id and ignores unknown slugs', () => {
+    expect(findPageBySlug(pages, 'page-1').title).toBe('Overview');
+    expect(findPageBySlug(pages, 'deployment')).toBeUndefined();
+  });
+});
+
+describe('createHeadingSlugger', () => {
+  test('numbers repeated headings', () => {
+    const slug = createHeadingSlugger();
+
+    expect(['Usage', 'Options', 'Usage', 'Usage'].map(slug)).toEqual(['usage', 'options', 'usage-1', 'usage-2']);
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Page Provenance Test Suite
+ * Tests for the generation info recorded with every wiki page and the prompt template hash
+ */
+
+import { getPromptTemplateHash } from '../src/utils/promptTemplate';
+import { WikiGenerator } from '../src/utils/wiki/wikiGenerator';
+import { streamChatCompletion } from '../src/utils/chatStream';
+
+jest.mock('../src/utils/chatStream', () => ({
+  ...jest.requireActual('../src/utils/chatStream'),
+  streamChatCompletion: jest.fn()
+}));
+
+const PAGE = {
+  id: 'auth',
+  title: 'Authentication',
+  content: '',
+  filePaths: ['src/auth.ts'],
+  importance: 'high',
+  relatedPages: []
+};
+
+const createGenerator = (model, commitSha) => new WikiGenerator({
+  repoInfo: { owner: 'o', repo: 'r', type: 'github', token: null, localPath: null, repoUrl: null },
+  model,
+  language: 'en',
+  isComprehensive: true,
+  commitSha
+});
+
+describe('generation info', () => {
+  beforeEach(() => {
+    streamChatCompletion.mockReset().mockResolvedValue('# Authentication');
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('records the provider, model, commit and prompt hash of a page', async () => {
+    const model = { provider: 'openai', model: 'gpt-4o', isCustomModel: false, customModel: '' };
+
+    const page = await createGenerator(model, 'abc123').generatePage(PAGE);
+
+    expect(page.generation).toEqual({
+      generatedAt: expect.any(String),
+      provider: 'openai',
+      model: 'gpt-4o',
+      commitSha: 'abc123',
+      promptHash: getPromptTemplateHash(),
+      instructions: undefined
+    });
+    expect(Number.isNaN(Date.parse(page.generation.generatedAt))).toBe(false);
+  });
+
+  test('records the custom model instead of the selected one', async () => {
+    const model = { provider: 'openrouter', model: 'openai/gpt-4o', isCustomModel: true, customModel: 'my/fine-tune' };
+
+    const page = await createGenerator(model, 'abc123').generatePage(PAGE);
+
+    expect(streamChatCompletion.mock.calls[0][0].custom_model).toBe('my/fine-tune');
+    expect(page.generation).toMatchObject({ provider: 'openrouter', model: 'my/fine-tune' });
+  });
+
+  test('leaves the commit out when it is unknown', async () => {
+    const model = { provider: 'ollama', model: 'qwen3:8b', isCustomModel: false, customModel: '' };
+
+    const page = await createGenerator(model).generatePage(PAGE);
+
+    expect(page.generation.commitSha).toBeUndefined();
+  });
+});
+
+describe('getPromptTemplateHash', () => {
+  afterEach(() => {
+    jest.resetModules();
+  });
+
+  test('returns the same hash on every call', () => {
+    expect(getPromptTemplateHash()).toMatch(/^[0-9a-f]{8}$/);
+    expect(getPromptTemplateHash()).toBe(getPromptTemplateHash());
+  });
+
+  test('changes when a template changes', () => {
+    let changedHash;
+    jest.isolateModules(() => {
+      // The JSON structure prompt embeds the schema of the wiki structure
+      jest.doMock('../src/utils/wiki/structureSchema', () => ({
+        getWikiStructureJsonSchema: () => ({ type: 'object', required: ['title'] })
+      }));
+      changedHash = require('../src/utils/promptTemplate').getPromptTemplateHash();
+    });
+
+    expect(changedHash).toMatch(/^[0-9a-f]{8}$/);
+    expect(changedHash).not.toBe(getPromptTemplateHash());
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Page Regeneration Test Suite
+ * Tests for regenerating single wiki pages with custom instructions and models
+ */
+
+import { generatePromptContent, getPromptTemplateHash } from '../src/utils/promptTemplate';
+import { WikiGenerator } from '../src/utils/wiki/wikiGenerator';
+import { streamChatCompletion } from '../src/utils/chatStream';
+
+jest.mock('../src/utils/chatStream', () => ({
+  ...jest.requireActual('../src/utils/chatStream'),
+  streamChatCompletion: jest.fn()
+}));
+
+const PAGE = {
+  id: 'auth',
+  title: 'Authentication',
+  content: '',
+  filePaths: ['src/auth.ts'],
+  importance: 'high',
+  relatedPages: []
+};
+
+const createGenerator = (model) => new WikiGenerator({
+  repoInfo: { owner: 'o', repo: 'r', type: 'github', token: null, localPath: null, repoUrl: null },
+  model,
+  language: 'en',
+  isComprehensive: true,
+  commitSha: 'abc123'
+});
+
+describe('generatePromptContent', () => {
+  test('adds the instructions for the page', () => {
+    const prompt = generatePromptContent('Authentication', ['src/auth.ts'], 'en', p => p, 'Add a sequence diagram of the login');
+    expect(prompt).toContain('ADDITIONAL INSTRUCTIONS FOR THIS PAGE');
+    expect(prompt).toContain('Add a sequence diagram of the login');
+  });
+
+  test('leaves the prompt unchanged without instructions', () => {
+    const prompt = generatePromptContent('Authentication', ['src/auth.ts'], 'en', p => p);
+    expect(prompt).not.toContain('ADDITIONAL INSTRUCTIONS');
+    expect(prompt).toBe(generatePromptContent('Authentication', ['src/auth.ts'], 'en', p => p, ''));
+  });
+});
+
+describe('WikiGenerator.generatePage', () => {
+  beforeEach(() => {
+    streamChatCompletion.mockReset().mockResolvedValue('# Authentication\n\nRegenerated.');
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('sends the instructions and the chosen model, and records both', async () => {
+    const model = { provider: 'ollama', model: 'qwen3:8b', isCustomModel: false, customModel: '' };
+    const page = await createGenerator(model).generatePage(PAGE, undefined, 'Focus on error handling');
+
+    const [requestBody] = streamChatCompletion.mock.calls[0];
+    expect(requestBody.provider).toBe('ollama');
+    expect(requestBody.model).toBe('qwen3:8b');
+    expect(requestBody.messages[0].content).toContain('Focus on error handling');
+    expect(page.content).toBe('# Authentication\n\nRegenerated.');
+    expect(page.generation).toMatchObject({
+      provider: 'ollama',
+      model: 'qwen3:8b',
+      commitSha: 'abc123',
+      instructions: 'Focus on error handling',
+      promptHash: getPromptTemplateHash()
+    });
+  });
+});
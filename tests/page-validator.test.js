@@ -0,0 +1,142 @@
+/**
+ * Page Validator Test Suite
+ * Tests for checking generated pages against the rules of the page prompt
+ */
+
+import { validateWikiContent } from '../src/utils/wiki/pageValidator';
+import { WikiGenerator } from '../src/utils/wiki/wikiGenerator';
+import { streamChatCompletion } from '../src/utils/chatStream';
+
+jest.mock('../src/utils/chatStream', () => ({
+  ...jest.requireActual('../src/utils/chatStream'),
+  streamChatCompletion: jest.fn()
+}));
+
+const sources = (count) => Array.from({ length: count }, (_, i) =>
+  `- [src/file${i}.ts](https://github.com/o/r/blob/main/src/file${i}.ts)`).join('\n');
+
+const createPage = ({ sourceCount = 5, diagram = 'flowchart TD\n  A@{ shape: rect, label: "Start" } --> B@{ shape: rect, label: "End" }' } = {}) => `<details>
+<summary>Relevant source files</summary>
+
+${sources(sourceCount)}
+</details>
+
+# Authentication
+
+Tokens are checked on every request.
+
+\`\`\`mermaid
+${diagram}
+\`\`\`
+
+Sources: [src/file0.ts:L10-L20](https://github.com/o/r/blob/main/src/file0.ts#L10-L20)
+`;
+
+describe('validateWikiContent', () => {
+  test('passes pages that follow the prompt', () => {
+    const result = validateWikiContent(createPage());
+
+    expect(result.passed).toBe(true);
+    expect(result.errors).toEqual([]);
+    expect(result.warnings).toEqual([]);
+    expect(result.stats).toEqual({
+      hasSummaryBlock: true,
+      sourceFileCount: 5,
+      hasMermaidDiagrams: true,
+      usesNewSyntax: true,
+      hasProperCitations: true,
+      hasTitle: true
+    });
+  });
+
+  test('fails pages with too few source files', () => {
+    const result = validateWikiContent(createPage({ sourceCount: 3 }));
+
+    expect(result.passed).toBe(false);
+    expect(result.errors).toEqual(['Must cite at least 5 source files (found 3)']);
+  });
+
+  test('fails pages without the details block, title or citations', () => {
+    const result = validateWikiContent('Some preface.\n\nNo title and no sources.');
+
+    expect(result.passed).toBe(false);
+    expect(result.errors).toEqual([
+      'Wiki must start with <details> block',
+      'Missing H1 title after details block',
+      'Missing proper source citations with line numbers'
+    ]);
+    expect(result.warnings).toEqual(['No Mermaid diagrams found']);
+  });
+
+  test('fails horizontal diagrams and diagrams without the @{} syntax', () => {
+    const result = validateWikiContent(createPage({ diagram: 'graph LR\n  A[Start] --> B[End]' }));
+
+    expect(result.passed).toBe(false);
+    expect(result.errors).toEqual([
+      'Mermaid diagrams must use @{} syntax',
+      'Found horizontal diagram (graph/flowchart LR) - must use TD'
+    ]);
+    expect(result.warnings).toEqual(['Old bracket syntax detected in Mermaid diagrams']);
+  });
+});
+
+describe('WikiGenerator page validation', () => {
+  const PAGE = {
+    id: 'auth',
+    title: 'Authentication',
+    content: '',
+    filePaths: ['src/auth.ts'],
+    importance: 'high',
+    relatedPages: []
+  };
+
+  const createGenerator = (options = {}) => new WikiGenerator({
+    repoInfo: { owner: 'o', repo: 'r', type: 'github', token: null, localPath: null, repoUrl: null },
+    model: { provider: 'google', model: 'gemini', isCustomModel: false, customModel: '' },
+    language: 'en',
+    isComprehensive: true,
+    ...options
+  });
+
+  beforeEach(() => {
+    streamChatCompletion.mockReset();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('records the validation of every generated page', async () => {
+    streamChatCompletion.mockResolvedValue(createPage({ sourceCount: 2 }));
+
+    const { pages } = await createGenerator().generatePages([PAGE]);
+
+    expect(streamChatCompletion).toHaveBeenCalledTimes(1);
+    expect(pages.auth.validation).toMatchObject({ passed: false, errors: ['Must cite at least 5 source files (found 2)'] });
+  });
+
+  test('generates pages failing validation once more when asked to', async () => {
+    streamChatCompletion
+      .mockResolvedValueOnce(createPage({ sourceCount: 2 }))
+      .mockResolvedValueOnce(createPage());
+
+    const { pages } = await createGenerator({ retryInvalidPages: true }).generatePages([PAGE]);
+
+    expect(streamChatCompletion).toHaveBeenCalledTimes(2);
+    expect(streamChatCompletion.mock.calls[1][0].messages[0].content)
+      .toContain('Fix these problems of the previous version of this page: Must cite at least 5 source files (found 2).');
+    expect(pages.auth.validation.passed).toBe(true);
+    expect(pages.auth.generation.instructions).toContain('Fix these problems');
+  });
+
+  test('keeps the version with fewer errors', async () => {
+    streamChatCompletion
+      .mockResolvedValueOnce(createPage({ sourceCount: 2 }))
+      .mockResolvedValueOnce('No details, title or citations.');
+
+    const { pages } = await createGenerator({ retryInvalidPages: true }).generatePages([PAGE]);
+
+    expect(pages.auth.content).toBe(createPage({ sourceCount: 2 }));
+  });
+});
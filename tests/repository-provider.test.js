@@ -0,0 +1,197 @@
+/**
+ * Repository Provider Test Suite
+ * Tests for picking the provider of a repository host and building its file URLs
+ */
+
+import { createRepositoryProvider } from '../src/utils/repository/createRepositoryProvider';
+import { parseRepositoryInput } from '../src/utils/parseRepositoryInput';
+
+const repoInfo = (type, repoUrl, extra = {}) => ({
+  owner: 'owner',
+  repo: 'repo',
+  type,
+  token: null,
+  localPath: null,
+  repoUrl,
+  ...extra
+});
+
+describe('createRepositoryProvider', () => {
+  test('builds file URLs in the format of each host', () => {
+    const github = createRepositoryProvider(repoInfo('github', 'https://github.com/owner/repo'), '');
+    const gitlab = createRepositoryProvider(repoInfo('gitlab', 'https://gitlab.com/owner/repo'), '');
+    const bitbucket = createRepositoryProvider(repoInfo('bitbucket', 'https://bitbucket.org/owner/repo'), '');
+
+    expect(github.fileUrl('main', 'src/index.ts')).toBe('https://github.com/owner/repo/blob/main/src/index.ts');
+    expect(gitlab.fileUrl('dev', 'src/index.ts')).toBe('https://gitlab.com/owner/repo/-/blob/dev/src/index.ts');
+    expect(bitbucket.fileUrl('main', 'src/index.ts')).toBe('https://bitbucket.org/owner/repo/src/main/src/index.ts');
+  });
+
+  test('builds file URLs for Azure DevOps and Gitea', () => {
+    const azure = createRepositoryProvider(repoInfo('azure', 'https://org@dev.azure.com/org/project/_git/repo'), '');
+    const gitea = createRepositoryProvider(repoInfo('gitea', 'https://codeberg.org/owner/repo'), '');
+
+    expect(azure.fileUrl('main', 'src/index.ts'))
+      .toBe('https://dev.azure.com/org/project/_git/repo?path=%2Fsrc%2Findex.ts&version=GBmain');
+    expect(gitea.fileUrl('main', 'src/index.ts')).toBe('https://codeberg.org/owner/repo/src/main/src/index.ts');
+  });
+
+  test('uses the file path for local repositories', () => {
+    const local = createRepositoryProvider(repoInfo('local', null, { localPath: '/tmp/repo' }), '');
+    expect(local.fileUrl('main', 'src/index.ts')).toBe('src/index.ts');
+  });
+
+  test('returns null for repository types without a provider', () => {
+    expect(createRepositoryProvider(repoInfo('web', 'https://example.com/owner/repo'), '')).toBeNull();
+    expect(createRepositoryProvider(repoInfo('local', null), '')).toBeNull();
+  });
+
+  test('authenticates with the header each host expects', () => {
+    expect(createRepositoryProvider(repoInfo('github', 'https://github.com/owner/repo'), 'abc').authHeaders())
+      .toMatchObject({ Authorization: 'Bearer abc' });
+    expect(createRepositoryProvider(repoInfo('gitlab', 'https://gitlab.com/owner/repo'), 'abc').authHeaders())
+      .toMatchObject({ 'PRIVATE-TOKEN': 'abc' });
+    expect(createRepositoryProvider(repoInfo('azure', 'https://dev.azure.com/org/project/_git/repo'), 'abc').authHeaders())
+      .toMatchObject({ Authorization: `Basic ${btoa(':abc')}` });
+    expect(createRepositoryProvider(repoInfo('gitea', 'https://codeberg.org/owner/repo'), 'abc').authHeaders())
+      .toMatchObject({ Authorization: 'token abc' });
+    expect(createRepositoryProvider(repoInfo('github', 'https://github.com/owner/repo'), '').authHeaders())
+      .not.toHaveProperty('Authorization');
+  });
+
+  test('lists the Azure DevOps tree through the project API', async () => {
+    const fetchMock = jest.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        value: [
+          { path: '/', isFolder: true },
+          { path: '/src', isFolder: true },
+          { path: '/src/index.ts' },
+          { path: '/README.md' }
+        ]
+      })
+    });
+    global.fetch = fetchMock;
+
+    const azure = createRepositoryProvider(repoInfo('azure', 'https://dev.azure.com/org/project/_git/repo'), '');
+
+    expect(await azure.listTree('main')).toEqual(['src/index.ts', 'README.md']);
+    expect(fetchMock.mock.calls[1][0]).toMatch(/^https:\/\/dev\.azure\.com\/org\/project\/_apis\/git\/repositories\/repo\/items\?recursionLevel=Full/);
+    expect(fetchMock.mock.calls[1][0]).toContain('versionDescriptor.versionType=branch');
+  });
+
+  test('reads Azure DevOps tags as tags', async () => {
+    const fetchMock = jest.fn()
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          value: [
+            { name: 'refs/tags/v1.0', objectId: 'tag-object', peeledObjectId: 'abc123' },
+            { name: 'refs/tags/v1.0.1', objectId: 'other', peeledObjectId: 'def456' }
+          ]
+        })
+      })
+      .mockResolvedValue({ ok: true, json: async () => ({ value: [{ path: '/README.md' }] }) });
+    global.fetch = fetchMock;
+
+    const azure = createRepositoryProvider(repoInfo('azure', 'https://dev.azure.com/org/project/_git/repo'), '');
+
+    expect(await azure.getLatestCommit('v1.0')).toBe('abc123');
+    await azure.listTree('v1.0');
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(fetchMock.mock.calls[1][0]).toContain('versionDescriptor.versionType=tag');
+    expect(azure.fileUrl('v1.0', 'README.md')).toContain('&version=GTv1.0');
+  });
+
+  test('resolves an Azure DevOps ref again after a failed lookup', async () => {
+    const fetchMock = jest.fn()
+      .mockRejectedValueOnce(new Error('offline'))
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ value: [{ name: 'refs/tags/v1.0', objectId: 'abc123' }] }) })
+      .mockResolvedValue({ ok: true, json: async () => ({ value: [{ path: '/README.md' }] }) });
+    global.fetch = fetchMock;
+
+    const azure = createRepositoryProvider(repoInfo('azure', 'https://dev.azure.com/org/project/_git/repo'), '');
+
+    await expect(azure.listTree('v1.0')).rejects.toThrow('offline');
+    expect(await azure.listTree('v1.0')).toEqual(['README.md']);
+    expect(fetchMock.mock.calls[2][0]).toContain('versionDescriptor.versionType=tag');
+  });
+
+  test('keeps files added within the compared Gitea range as added', async () => {
+    global.fetch = jest.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        commits: [
+          { files: [{ filename: 'new.ts', status: 'added' }, { filename: 'old.ts', status: 'modified' }] },
+          { files: [{ filename: 'new.ts', status: 'modified' }, { filename: 'old.ts', status: 'deleted' }] }
+        ]
+      })
+    });
+
+    const gitea = createRepositoryProvider(repoInfo('gitea', 'https://codeberg.org/owner/repo'), '');
+
+    expect(await gitea.compareCommits('a', 'b')).toEqual([
+      { path: 'new.ts', status: 'added' },
+      { path: 'old.ts', status: 'removed' }
+    ]);
+  });
+
+  test('reads the local structure once for the tree, README and commit', async () => {
+    const fetchMock = jest.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({ file_tree: 'README.md\nsrc/index.ts\n', readme: '# Repo', commit_sha: 'abc123' })
+    });
+    global.fetch = fetchMock;
+
+    const local = createRepositoryProvider(repoInfo('local', null, { localPath: '/tmp/repo' }), '', {
+      localStructureEndpoint: 'http://localhost:8001/local_repo/structure'
+    });
+
+    expect(await local.listTree('main')).toEqual(['README.md', 'src/index.ts']);
+    expect(await local.getReadme('main')).toBe('# Repo');
+    expect(await local.getLatestCommit('main')).toBe('abc123');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock.mock.calls[0][0]).toBe('http://localhost:8001/local_repo/structure?path=%2Ftmp%2Frepo');
+  });
+
+  test('reads files through the host API or the local backend', async () => {
+    const fetchMock = jest.fn().mockResolvedValue({
+      ok: true,
+      text: async () => 'export {};',
+      json: async () => ({ content: 'print()' })
+    });
+    global.fetch = fetchMock;
+
+    const github = createRepositoryProvider(repoInfo('github', 'https://github.com/owner/repo'), '');
+    const local = createRepositoryProvider(repoInfo('local', null, { localPath: '/tmp/repo' }), '');
+
+    expect(await github.getFileContent('v1.0', 'src/a b.ts')).toBe('export {};');
+    expect(fetchMock.mock.calls[0][0]).toBe('https://api.github.com/repos/owner/repo/contents/src/a%20b.ts?ref=v1.0');
+    expect(fetchMock.mock.calls[0][1].headers).toMatchObject({ Accept: 'application/vnd.github.raw' });
+    expect(await local.getFileContent('main', 'main.py')).toBe('print()');
+    expect(fetchMock.mock.calls[1][0]).toBe('/local_repo/file?path=%2Ftmp%2Frepo&file_path=main.py');
+  });
+
+  test('fails when a file cannot be read', async () => {
+    global.fetch = jest.fn().mockResolvedValue({ ok: false, status: 404, text: async () => 'Not Found' });
+    const gitlab = createRepositoryProvider(repoInfo('gitlab', 'https://gitlab.com/owner/repo'), '');
+
+    await expect(gitlab.getFileContent('main', 'missing.ts')).rejects.toThrow('Status: 404');
+  });
+});
+
+describe('parseRepositoryInput', () => {
+  test('recognises Azure DevOps URLs', () => {
+    expect(parseRepositoryInput('https://dev.azure.com/org/project/_git/repo')).toMatchObject({
+      owner: 'project', repo: 'repo', type: 'azure'
+    });
+    expect(parseRepositoryInput('https://org.visualstudio.com/project/_git/repo')).toMatchObject({
+      owner: 'project', repo: 'repo', type: 'azure'
+    });
+  });
+
+  test('recognises Gitea and Forgejo URLs', () => {
+    expect(parseRepositoryInput('https://codeberg.org/owner/repo')).toMatchObject({ owner: 'owner', repo: 'repo', type: 'gitea' });
+    expect(parseRepositoryInput('https://gitea.example.com/owner/repo.git')).toMatchObject({ owner: 'owner', repo: 'repo', type: 'gitea' });
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Structure Editor Test Suite
+ * Tests for editing the structure of a wiki: moving, renaming, adding and removing pages
+ */
+
+import {
+  addPage,
+  addSection,
+  applyStructureToPages,
+  movePage,
+  removePage,
+  removeSection,
+  renamePage,
+  renameSection
+} from '../src/utils/wiki/structureEditor';
+
+const page = (id, extra = {}) => ({
+  id,
+  title: id,
+  content: '',
+  filePaths: [],
+  importance: 'medium',
+  relatedPages: [],
+  ...extra
+});
+
+const STRUCTURE = {
+  id: 'wiki',
+  title: 'Wiki',
+  description: '',
+  pages: [
+    page('page-1', { parentId: 'section-1' }),
+    page('page-2', { parentId: 'section-1', relatedPages: ['page-3'] }),
+    page('page-3', { parentId: 'section-2' }),
+  ],
+  sections: [
+    { id: 'section-1', title: 'Overview', pages: ['page-1', 'page-2'] },
+    { id: 'section-2', title: 'API', pages: ['page-3'] },
+  ],
+  rootSections: ['section-1', 'section-2']
+};
+
+const FLAT = { ...STRUCTURE, sections: [], rootSections: [] };
+
+describe('movePage', () => {
+  test('moves a page before another page of a different section', () => {
+    const moved = movePage(STRUCTURE, 'page-2', 'section-2', 'page-3');
+
+    expect(moved.sections[0].pages).toEqual(['page-1']);
+    expect(moved.sections[1].pages).toEqual(['page-2', 'page-3']);
+    expect(moved.pages.find(p => p.id === 'page-2').parentId).toBe('section-2');
+    expect(STRUCTURE.sections[0].pages).toEqual(['page-1', 'page-2']);
+  });
+
+  test('reorders pages within a section and appends without a target page', () => {
+    expect(movePage(STRUCTURE, 'page-2', 'section-1', 'page-1').sections[0].pages).toEqual(['page-2', 'page-1']);
+    expect(movePage(STRUCTURE, 'page-1', 'section-1').sections[0].pages).toEqual(['page-2', 'page-1']);
+  });
+
+  test('reorders the pages of a wiki without sections', () => {
+    expect(movePage(FLAT, 'page-3', undefined, 'page-1').pages.map(p => p.id)).toEqual(['page-3', 'page-1', 'page-2']);
+  });
+
+  test('ignores unknown pages and sections', () => {
+    expect(movePage(STRUCTURE, 'page-9', 'section-1')).toBe(STRUCTURE);
+    expect(movePage(STRUCTURE, 'page-1', 'section-9')).toBe(STRUCTURE);
+  });
+});
+
+describe('renaming', () => {
+  test('renames pages and sections', () => {
+    const renamed = renameSection(renamePage(STRUCTURE, 'page-1', 'Introduction'), 'section-2', 'Reference');
+
+    expect(renamed.pages[0].title).toBe('Introduction');
+    expect(renamed.sections[1].title).toBe('Reference');
+  });
+});
+
+describe('removePage', () => {
+  test('removes the page from its section and from related pages', () => {
+    const removed = removePage(STRUCTURE, 'page-3');
+
+    expect(removed.pages.map(p => p.id)).toEqual(['page-1', 'page-2']);
+    expect(removed.pages[1].relatedPages).toEqual([]);
+    expect(removed.sections[1].pages).toEqual([]);
+  });
+});
+
+describe('sections', () => {
+  test('adds root sections and removes only empty ones', () => {
+    const { structure, section } = addSection(STRUCTURE, 'Guides');
+
+    expect(section.id).toBe('section-3');
+    expect(structure.rootSections).toEqual(['section-1', 'section-2', 'section-3']);
+    expect(removeSection(structure, 'section-3').sections.map(s => s.id)).toEqual(['section-1', 'section-2']);
+    expect(removeSection(structure, 'section-1')).toBe(structure);
+  });
+});
+
+describe('addPage', () => {
+  test('adds a page with a new id to the chosen section', () => {
+    const { structure, page: added } = addPage(STRUCTURE, {
+      title: 'Authentication',
+      filePaths: ['src/auth.ts'],
+      importance: 'high',
+      sectionId: 'section-2'
+    });
+
+    expect(added).toMatchObject({ id: 'page-4', title: 'Authentication', content: '', parentId: 'section-2' });
+    expect(structure.sections[1].pages).toEqual(['page-3', 'page-4']);
+  });
+
+  test('falls back to the first section, or no section in a flat wiki', () => {
+    expect(addPage(STRUCTURE, { title: 'A', filePaths: [], importance: 'low', sectionId: 'gone' }).page.parentId).toBe('section-1');
+    expect(addPage(FLAT, { title: 'A', filePaths: [], importance: 'low' }).page.parentId).toBeUndefined();
+  });
+});
+
+describe('applyStructureToPages', () => {
+  test('drops removed pages and takes titles from the structure', () => {
+    const pages = {
+      'page-1': page('page-1', { content: '# One' }),
+      'page-3': page('page-3', { content: '# Three' }),
+    };
+    const structure = renamePage(removePage(STRUCTURE, 'page-3'), 'page-1', 'Introduction');
+
+    expect(applyStructureToPages(structure, pages)).toEqual({
+      'page-1': { ...pages['page-1'], title: 'Introduction', parentId: 'section-1' }
+    });
+  });
+});
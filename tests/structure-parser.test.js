@@ -0,0 +1,349 @@
+/**
+ * Wiki Structure Parser Test Suite
+ * Tests for parsing, repairing and validating the <wiki_structure> XML returned by the model
+ */
+
+import {
+  parseWikiStructure,
+  WikiStructureParseError
+} from '../src/utils/wiki/structureParser';
+import { getWikiStructureJsonSchema } from '../src/utils/wiki/structureSchema';
+
+const COMPREHENSIVE_XML = `<wiki_structure>
+  <title>Example Wiki</title>
+  <description>An example repository</description>
+  <sections>
+    <section id="section-1">
+      <title>Overview</title>
+      <pages>
+        <page_ref>page-1</page_ref>
+      </pages>
+      <subsections>
+        <section_ref>section-2</section_ref>
+      </subsections>
+    </section>
+    <section id="section-2">
+      <title>Backend</title>
+      <pages>
+        <page_ref>page-2</page_ref>
+      </pages>
+    </section>
+  </sections>
+  <pages>
+    <page id="page-1">
+      <title>Introduction</title>
+      <description>What the project does</description>
+      <importance>high</importance>
+      <relevant_files>
+        <file_path>README.md</file_path>
+      </relevant_files>
+      <related_pages>
+        <related>page-2</related>
+      </related_pages>
+      <parent_section>section-1</parent_section>
+    </page>
+    <page id="page-2">
+      <title>API Server</title>
+      <importance>medium</importance>
+      <relevant_files>
+        <file_path>api/api.py</file_path>
+        <file_path>api/main.py</file_path>
+      </relevant_files>
+      <parent_section>section-2</parent_section>
+    </page>
+  </pages>
+</wiki_structure>`;
+
+describe('parseWikiStructure', () => {
+  describe('Valid structures', () => {
+    test('should parse pages, sections and root sections', () => {
+      const { structure, errors, repairs } = parseWikiStructure(COMPREHENSIVE_XML, true);
+
+      expect(errors).toEqual([]);
+      expect(repairs).toEqual([]);
+      expect(structure.title).toBe('Example Wiki');
+      expect(structure.description).toBe('An example repository');
+      expect(structure.pages).toEqual([
+        {
+          id: 'page-1',
+          title: 'Introduction',
+          content: '',
+          filePaths: ['README.md'],
+          importance: 'high',
+          relatedPages: ['page-2'],
+          parentId: 'section-1'
+        },
+        {
+          id: 'page-2',
+          title: 'API Server',
+          content: '',
+          filePaths: ['api/api.py', 'api/main.py'],
+          importance: 'medium',
+          relatedPages: [],
+          parentId: 'section-2'
+        }
+      ]);
+      expect(structure.sections).toEqual([
+        { id: 'section-1', title: 'Overview', pages: ['page-1'], subsections: ['section-2'] },
+        { id: 'section-2', title: 'Backend', pages: ['page-2'], subsections: undefined }
+      ]);
+      expect(structure.rootSections).toEqual(['section-1']);
+    });
+
+    test('should ignore sections for concise wikis', () => {
+      const { structure } = parseWikiStructure(COMPREHENSIVE_XML, false);
+
+      expect(structure.sections).toEqual([]);
+      expect(structure.rootSections).toEqual([]);
+      expect(structure.pages[0].parentId).toBeUndefined();
+    });
+
+    test('should ignore text around the structure and decode entities', () => {
+      const response = `Here is the structure:\n<wiki_structure><title>A &amp; B &lt;3</title>
+        <pages><page id="p1"><title>Tom &quot;&#65;&quot;</title></page></pages></wiki_structure>\nDone.`;
+
+      const { structure, repairs } = parseWikiStructure(response, false);
+
+      expect(repairs).toEqual([]);
+      expect(structure.title).toBe('A & B <3');
+      expect(structure.pages[0].title).toBe('Tom "A"');
+    });
+
+    test('should keep numeric entities outside the Unicode range', () => {
+      const response = '<wiki_structure><title>Big &#x110000; &#9999999; &#x1F600;</title><pages>' +
+        '<page id="p1"><title>Page</title></page></pages></wiki_structure>';
+
+      const { structure } = parseWikiStructure(response, false);
+
+      expect(structure.title).toBe('Big &#x110000; &#9999999; \u{1F600}');
+    });
+  });
+
+  describe('Repairs', () => {
+    test('should remove markdown code fences', () => {
+      const { structure, repairs } = parseWikiStructure('```xml\n' + COMPREHENSIVE_XML + '\n```', true);
+
+      expect(repairs).toEqual(['Removed markdown code fences']);
+      expect(structure.pages).toHaveLength(2);
+    });
+
+    test('should escape unescaped ampersands', () => {
+      const response = '<wiki_structure><title>Build & Deploy</title><pages>' +
+        '<page id="p1"><title>CI & CD</title></page></pages></wiki_structure>';
+
+      const { structure, repairs } = parseWikiStructure(response, false);
+
+      expect(repairs).toEqual(['Escaped unescaped "&" characters']);
+      expect(structure.title).toBe('Build & Deploy');
+      expect(structure.pages[0].title).toBe('CI & CD');
+    });
+
+    test('should keep a "<" that does not start a tag as text', () => {
+      const response = '<wiki_structure><title>a < b</title><pages>' +
+        '<page id="p1"><title>Page</title></page></pages></wiki_structure>';
+
+      expect(parseWikiStructure(response, false).structure.title).toBe('a < b');
+    });
+
+    test('should recover the pages of a truncated response', () => {
+      const response = COMPREHENSIVE_XML.slice(0, COMPREHENSIVE_XML.indexOf('<file_path>api/main.py') + 8);
+
+      const { structure, repairs } = parseWikiStructure(response, true);
+
+      expect(repairs).toEqual([
+        'Response was truncated before </wiki_structure>',
+        'Dropped truncated tag <file_pa',
+        'Closed unclosed <relevant_files>',
+        'Closed unclosed <page>',
+        'Closed unclosed <pages>',
+        'Closed unclosed <wiki_structure>'
+      ]);
+      expect(structure.pages.map(page => page.id)).toEqual(['page-1', 'page-2']);
+      expect(structure.pages[1].filePaths).toEqual(['api/api.py']);
+    });
+
+    test('should close unclosed elements and ignore stray closing tags', () => {
+      const response = '<wiki_structure><title>Wiki</title></description><pages>' +
+        '<page id="p1"><title>Page<importance>low</page></pages></wiki_structure>';
+
+      const { structure, repairs } = parseWikiStructure(response, false);
+
+      expect(repairs).toEqual(['Ignored stray </description>', 'Closed unclosed <importance>', 'Closed unclosed <title>']);
+      expect(structure.pages).toHaveLength(1);
+    });
+  });
+
+  describe('Validation', () => {
+    test('should report invalid values with their location', () => {
+      const response = `<wiki_structure>
+        <pages>
+          <page id="p1"><title>One</title><importance>critical</importance><related>p9</related></page>
+          <page><title>Two</title><related>p1</related></page>
+          <page id="p1"><title>Three</title></page>
+          <page id="p4"><importance>low</importance></page>
+        </pages>
+      </wiki_structure>`;
+
+      const { structure, errors } = parseWikiStructure(response, false);
+
+      expect(errors).toEqual([
+        { path: 'title', message: 'Missing title' },
+        { path: 'pages[0].importance', message: 'Invalid importance "critical", expected one of high, medium, low' },
+        { path: 'pages[1].id', message: 'Missing id, using "page-2"' },
+        { path: 'pages[2].id', message: 'Duplicate id "p1", renamed to "p1-2"' },
+        { path: 'pages[3].title', message: 'Missing title, page dropped' },
+        { path: 'pages[0].relatedPages', message: 'Unknown related page "p9"' }
+      ]);
+      expect(structure.pages.map(page => [page.id, page.importance, page.relatedPages])).toEqual([
+        ['p1', 'medium', []],
+        ['page-2', 'medium', ['p1']],
+        ['p1-2', 'medium', []]
+      ]);
+    });
+
+    test('should drop references to unknown pages and sections', () => {
+      const response = `<wiki_structure><title>Wiki</title>
+        <sections>
+          <section id="s1"><title>One</title><page_ref>p1</page_ref><page_ref>p2</page_ref>
+            <section_ref>s9</section_ref></section>
+        </sections>
+        <pages>
+          <page id="p1"><title>Page</title><parent_section>s2</parent_section></page>
+        </pages>
+      </wiki_structure>`;
+
+      const { structure, errors } = parseWikiStructure(response, true);
+
+      expect(errors).toEqual([
+        { path: 'sections[0].pages', message: 'Unknown page "p2"' },
+        { path: 'sections[0].subsections', message: 'Unknown subsection "s9"' },
+        { path: 'pages[0].parentId', message: 'Unknown section "s2"' }
+      ]);
+      expect(structure.sections).toEqual([{ id: 's1', title: 'One', pages: ['p1'], subsections: undefined }]);
+      expect(structure.rootSections).toEqual(['s1']);
+    });
+
+    test('should add pages to the section named by parent_section', () => {
+      const response = `<wiki_structure><title>Wiki</title>
+        <sections><section id="s1"><title>One</title></section></sections>
+        <pages><page id="p1"><title>Page</title><parent_section>s1</parent_section></page></pages>
+      </wiki_structure>`;
+
+      const { structure } = parseWikiStructure(response, true);
+
+      expect(structure.sections[0].pages).toEqual(['p1']);
+      expect(structure.pages[0].parentId).toBe('s1');
+    });
+
+    test('should throw when the response contains no structure', () => {
+      expect(() => parseWikiStructure('Sorry, I cannot help with that.', false)).toThrow(WikiStructureParseError);
+    });
+
+    test('should throw with the validation errors when no page is valid', () => {
+      const response = '<wiki_structure><title>Wiki</title><pages><page id="p1"></page></pages></wiki_structure>';
+
+      try {
+        parseWikiStructure(response, false);
+        throw new Error('Expected parseWikiStructure to throw');
+      } catch (error) {
+        expect(error).toBeInstanceOf(WikiStructureParseError);
+        expect(error.errors).toEqual([{ path: 'pages[0].title', message: 'Missing title, page dropped' }]);
+      }
+    });
+  });
+
+  describe('JSON format', () => {
+    const JSON_STRUCTURE = {
+      title: 'Example Wiki',
+      description: 'An example repository',
+      sections: [
+        { id: 'section-1', title: 'Overview', pages: ['page-1'], subsections: [] }
+      ],
+      pages: [
+        { id: 'page-1', title: 'Introduction', importance: 'high', filePaths: ['README.md'], relatedPages: [], parentId: 'section-1' },
+        { id: 'page-2', title: 'Setup', importance: 'low', filePaths: [], relatedPages: ['page-1'], parentId: null }
+      ]
+    };
+
+    test('should map a schema-conforming object onto the structure types', () => {
+      const { structure, errors, repairs } = parseWikiStructure(JSON.stringify(JSON_STRUCTURE), true, 'json');
+
+      expect(errors).toEqual([]);
+      expect(repairs).toEqual([]);
+      expect(structure.pages[0]).toEqual({
+        id: 'page-1',
+        title: 'Introduction',
+        content: '',
+        filePaths: ['README.md'],
+        importance: 'high',
+        relatedPages: [],
+        parentId: 'section-1'
+      });
+      expect(structure.pages[1].relatedPages).toEqual(['page-1']);
+      expect(structure.sections).toEqual([{ id: 'section-1', title: 'Overview', pages: ['page-1'], subsections: undefined }]);
+      expect(structure.rootSections).toEqual(['section-1']);
+    });
+
+    test('should remove fences and trailing commas', () => {
+      const response = '```json\n{"title": "Wiki", "pages": [{"id": "p1", "title": "Page",},],}\n```';
+
+      const { structure, repairs } = parseWikiStructure(response, false, 'json');
+
+      expect(repairs).toEqual(['Removed markdown code fences', 'Removed trailing commas']);
+      expect(structure.pages.map(page => page.id)).toEqual(['p1']);
+    });
+
+    test('should recover the pages of a truncated response', () => {
+      const text = JSON.stringify(JSON_STRUCTURE);
+      const response = text.slice(0, text.indexOf('"relatedPages":["page-1"]') + 18);
+
+      const { structure, repairs } = parseWikiStructure(response, false, 'json');
+
+      expect(repairs).toEqual(['Closed truncated JSON']);
+      expect(structure.pages.map(page => [page.id, page.relatedPages])).toEqual([
+        ['page-1', []],
+        ['page-2', []]
+      ]);
+    });
+
+    test('should report values of the wrong type', () => {
+      const response = JSON.stringify({
+        title: 42,
+        pages: [{ id: 'p1', title: 'Page', filePaths: 'README.md', relatedPages: ['p1', 7] }]
+      });
+
+      const { structure, errors } = parseWikiStructure(response, false, 'json');
+
+      expect(errors).toEqual([
+        { path: 'title', message: 'Expected a string' },
+        { path: 'pages[0].filePaths', message: 'Expected an array of strings' },
+        { path: 'pages[0].relatedPages[1]', message: 'Expected a string' },
+        { path: 'title', message: 'Missing title' },
+        { path: 'pages[0].relatedPages', message: 'Unknown related page "p1"' }
+      ]);
+      expect(structure.pages[0].filePaths).toEqual([]);
+    });
+
+    test('should throw when the response contains no JSON object', () => {
+      expect(() => parseWikiStructure('<wiki_structure></wiki_structure>', false, 'json')).toThrow('No JSON object found in response');
+      expect(() => parseWikiStructure('{"title": [}', false, 'json')).toThrow(WikiStructureParseError);
+    });
+
+    test('should publish a schema that requires every property', () => {
+      const collectObjects = (schema) => [
+        ...(schema.type === 'object' ? [schema] : []),
+        ...Object.values(schema.properties ?? {}).flatMap(collectObjects),
+        ...(schema.items ? collectObjects(schema.items) : [])
+      ];
+
+      [true, false].forEach(isComprehensive => {
+        const schema = getWikiStructureJsonSchema(isComprehensive);
+        expect('sections' in schema.properties).toBe(isComprehensive);
+        collectObjects(schema).forEach(object => {
+          expect(object.required).toEqual(Object.keys(object.properties));
+          expect(object.additionalProperties).toBe(false);
+        });
+      });
+    });
+  });
+});
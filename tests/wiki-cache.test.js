@@ -0,0 +1,124 @@
+/**
+ * Wiki Cache Test Suite
+ * Tests for persisting wikis page by page and resuming interrupted generations
+ */
+
+import { getPageErrorContent, PAGE_CANCELLED_CONTENT, PAGE_LOADING_CONTENT } from '../src/utils/wiki/pagePlaceholders';
+import { findMissingPages, WikiCacheWriter } from '../src/utils/wiki/wikiCache';
+
+const page = (id, content, generation) => ({
+  id,
+  title: id,
+  content,
+  filePaths: [],
+  importance: 'medium',
+  relatedPages: [],
+  generation
+});
+
+const GENERATION = { generatedAt: '2026-01-01T00:00:00.000Z', provider: 'openai', model: 'gpt-4o', promptHash: 'abc' };
+
+const STRUCTURE = {
+  id: 'wiki',
+  title: 'Wiki',
+  description: '',
+  pages: [page('overview', ''), page('api', ''), page('cli', ''), page('setup', '')],
+  sections: [],
+  rootSections: []
+};
+
+const METADATA = {
+  repo: { owner: 'o', repo: 'r', type: 'github', token: null, localPath: null, repoUrl: null, ref: 'v1.0.0' },
+  language: 'en',
+  comprehensive: true,
+  provider: 'openai',
+  model: 'gpt-4o'
+};
+
+describe('findMissingPages', () => {
+  test('selects pages without content, failed and cancelled pages', () => {
+    const missing = findMissingPages(STRUCTURE, {
+      overview: page('overview', '# Overview', GENERATION),
+      api: page('api', getPageErrorContent('timeout')),
+      cli: page('cli', PAGE_CANCELLED_CONTENT)
+    });
+
+    expect(missing.map(p => p.id)).toEqual(['api', 'cli', 'setup']);
+  });
+
+  test('keeps pages written by hand in the editor', () => {
+    const missing = findMissingPages(STRUCTURE, {
+      overview: page('overview', '# Overview', GENERATION),
+      api: { ...page('api', '# API, written by hand'), editedAt: '2026-01-02T00:00:00.000Z' }
+    });
+
+    expect(missing.map(p => p.id)).toEqual(['cli', 'setup']);
+  });
+
+  test('keeps pages cached before generation info was recorded', () => {
+    const missing = findMissingPages(STRUCTURE, {
+      overview: page('overview', '# Overview'),
+      api: page('api', '# API'),
+      cli: page('cli', PAGE_LOADING_CONTENT)
+    });
+
+    expect(missing.map(p => p.id)).toEqual(['cli', 'setup']);
+  });
+
+  test('returns no pages for a complete wiki', () => {
+    const pages = Object.fromEntries(STRUCTURE.pages.map(p => [p.id, page(p.id, 'Content', GENERATION)]));
+    expect(findMissingPages(STRUCTURE, pages)).toEqual([]);
+  });
+});
+
+describe('WikiCacheWriter', () => {
+  beforeEach(() => {
+    global.fetch = jest.fn();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    console.error.mockRestore();
+  });
+
+  test('stores the structure as incomplete before the pages', async () => {
+    let resolveStructure;
+    global.fetch
+      .mockImplementationOnce(() => new Promise(resolve => { resolveStructure = resolve; }))
+      .mockResolvedValue({ ok: true });
+
+    const writer = new WikiCacheWriter(METADATA);
+    writer.saveStructure(STRUCTURE);
+    const pageSaved = writer.savePage(page('overview', '# Overview', GENERATION));
+
+    // The page waits for the structure to be stored
+    await Promise.resolve();
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+    resolveStructure({ ok: true });
+    await pageSaved;
+
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+    const [structureUrl, structureInit] = global.fetch.mock.calls[0];
+    expect(structureUrl).toBe('/api/wiki_cache');
+    expect(JSON.parse(structureInit.body)).toMatchObject({ complete: false, generated_pages: {}, repo: { ref: 'v1.0.0' } });
+
+    const [pageUrl, pageInit] = global.fetch.mock.calls[1];
+    expect(pageUrl).toBe('/api/wiki_cache/page');
+    expect(pageInit.method).toBe('PUT');
+    expect(JSON.parse(pageInit.body)).toMatchObject({ language: 'en', page: { id: 'overview', content: '# Overview' } });
+  });
+
+  test('keeps storing pages after a failed write', async () => {
+    global.fetch
+      .mockResolvedValueOnce({ ok: false, status: 500, text: async () => 'disk full' })
+      .mockResolvedValue({ ok: true });
+
+    const writer = new WikiCacheWriter(METADATA);
+    writer.savePage(page('overview', '# Overview', GENERATION));
+    writer.savePage(page('api', '# API', GENERATION));
+    await writer.flush();
+
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+    expect(console.error).toHaveBeenCalledWith('Error saving to server cache:', expect.any(Error));
+  });
+});
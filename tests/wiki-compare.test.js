@@ -0,0 +1,154 @@
+/**
+ * Wiki Compare Test Suite
+ * Tests for aligning the pages of two wiki versions and diffing their Markdown
+ */
+
+import { compareWikis, diffMarkdown, parseWikiJsonExport, splitMarkdownBlocks } from '../src/utils/wiki/wikiCompare';
+
+const page = (id, title, content, extra = {}) => ({
+  id,
+  title,
+  content,
+  filePaths: [],
+  importance: 'medium',
+  relatedPages: [],
+  ...extra
+});
+
+const createWiki = (pages, sections = []) => ({
+  structure: {
+    id: 'wiki',
+    title: 'Wiki',
+    description: '',
+    pages: pages.map(p => ({ ...p, content: '' })),
+    sections,
+    rootSections: sections.map(s => s.id)
+  },
+  pages: Object.fromEntries(pages.map(p => [p.id, p]))
+});
+
+describe('splitMarkdownBlocks', () => {
+  test('splits on blank lines', () => {
+    expect(splitMarkdownBlocks('# Title\n\nFirst paragraph\nstill first\n\n\n- item')).toEqual([
+      '# Title',
+      'First paragraph\nstill first',
+      '- item'
+    ]);
+  });
+
+  test('keeps fenced code blocks with blank lines in one block', () => {
+    const markdown = 'Intro\n```mermaid\ngraph TD\n\n  A --> B\n```\nAfter';
+    expect(splitMarkdownBlocks(markdown)).toEqual([
+      'Intro',
+      '```mermaid\ngraph TD\n\n  A --> B\n```',
+      'After'
+    ]);
+  });
+
+  test('keeps HTML blocks with blank lines in one block', () => {
+    const markdown = '<details>\n<summary>Relevant source files</summary>\n\n- [a.ts](a.ts)\n- [b.ts](b.ts)\n</details>\n\n# Title';
+    expect(splitMarkdownBlocks(markdown)).toEqual([
+      '<details>\n<summary>Relevant source files</summary>\n\n- [a.ts](a.ts)\n- [b.ts](b.ts)\n</details>',
+      '# Title'
+    ]);
+  });
+
+  test('keeps nested HTML elements and splits after single-line elements', () => {
+    const markdown = '<div>\n<div>\n\nInner\n</div>\n\nOuter\n</div>\n\n<br>\n\nText';
+    expect(splitMarkdownBlocks(markdown)).toEqual([
+      '<div>\n<div>\n\nInner\n</div>\n\nOuter\n</div>',
+      '<br>',
+      'Text'
+    ]);
+  });
+});
+
+describe('diffMarkdown', () => {
+  test('marks identical documents as unchanged', () => {
+    expect(diffMarkdown('A\n\nB', 'A\n\nB').every(block => block.type === 'unchanged')).toBe(true);
+  });
+
+  test('reports a changed block as removed followed by added', () => {
+    expect(diffMarkdown('A\n\nB\n\nC', 'A\n\nB2\n\nC\n\nD')).toEqual([
+      { type: 'unchanged', content: 'A' },
+      { type: 'removed', content: 'B' },
+      { type: 'added', content: 'B2' },
+      { type: 'unchanged', content: 'C' },
+      { type: 'added', content: 'D' }
+    ]);
+  });
+});
+
+describe('compareWikis', () => {
+  test('detects added, removed and changed pages', () => {
+    const base = createWiki([page('overview', 'Overview', 'Old'), page('legacy', 'Legacy API', 'Gone')]);
+    const head = createWiki([page('overview', 'Overview', 'New'), page('plugins', 'Plugins', 'Fresh')]);
+
+    const comparison = compareWikis(base, head);
+
+    expect(comparison.pages.map(p => [p.id, p.status])).toEqual([
+      ['overview', 'changed'],
+      ['plugins', 'added'],
+      ['legacy', 'removed']
+    ]);
+    expect(comparison.added.map(p => p.id)).toEqual(['plugins']);
+    expect(comparison.removed.map(p => p.id)).toEqual(['legacy']);
+  });
+
+  test('aligns pages whose id changed by title', () => {
+    const base = createWiki([page('page-1', 'Architecture', 'Same')]);
+    const head = createWiki([page('architecture', 'Architecture', 'Same')]);
+
+    const comparison = compareWikis(base, head);
+
+    expect(comparison.pages).toHaveLength(1);
+    expect(comparison.pages[0].status).toBe('unchanged');
+    expect(comparison.pages[0].basePage.id).toBe('page-1');
+  });
+
+  test('prefers the page with the same title when an id was reused', () => {
+    const base = createWiki([page('page-1', 'Setup', 'Setup'), page('page-2', 'Architecture', 'Arch')]);
+    const head = createWiki([page('page-1', 'Architecture', 'Arch')]);
+
+    const comparison = compareWikis(base, head);
+
+    expect(comparison.pages.map(p => [p.id, p.status])).toEqual([
+      ['page-1', 'unchanged'],
+      ['page-1', 'removed']
+    ]);
+    expect(comparison.pages[1].title).toBe('Setup');
+  });
+
+  test('detects pages moved to another section', () => {
+    const pages = [page('overview', 'Overview', 'Same'), page('cache', 'Cache', 'Same')];
+    const base = createWiki(pages, [
+      { id: 's1', title: 'Getting Started', pages: ['overview', 'cache'] }
+    ]);
+    const head = createWiki(pages, [
+      { id: 's1', title: 'Getting Started', pages: ['overview'] },
+      { id: 's2', title: 'Storage', pages: ['cache'] }
+    ]);
+
+    const comparison = compareWikis(base, head);
+
+    expect(comparison.moved.map(p => p.id)).toEqual(['cache']);
+    expect(comparison.moved[0].moved).toEqual({ from: 'Getting Started', to: 'Storage' });
+    expect(comparison.changed).toHaveLength(0);
+  });
+});
+
+describe('parseWikiJsonExport', () => {
+  test('reads the pages of a JSON export', () => {
+    const wiki = parseWikiJsonExport(JSON.stringify({
+      metadata: { repository: 'https://github.com/o/r', page_count: 1 },
+      pages: [page('overview', 'Overview', 'Content')]
+    }));
+
+    expect(wiki.structure.pages.map(p => p.id)).toEqual(['overview']);
+    expect(wiki.pages.overview.content).toBe('Content');
+  });
+
+  test('rejects files without pages', () => {
+    expect(() => parseWikiJsonExport('{"metadata": {}}')).toThrow('Not a JSON wiki export');
+  });
+});
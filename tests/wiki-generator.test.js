@@ -0,0 +1,177 @@
+/**
+ * Wiki Generator Test Suite
+ * Tests for determining the wiki structure and generating its pages with the generation engine
+ */
+
+import { getPageErrorContent } from '../src/utils/wiki/pagePlaceholders';
+import { EmbeddingConfigurationError, WikiGenerator } from '../src/utils/wiki/wikiGenerator';
+import { streamChatCompletion } from '../src/utils/chatStream';
+
+jest.mock('../src/utils/chatStream', () => ({
+  ...jest.requireActual('../src/utils/chatStream'),
+  streamChatCompletion: jest.fn()
+}));
+
+const FILE_TREE = 'README.md\napi/api.py\nsrc/app.ts';
+
+const STRUCTURE_XML = `<wiki_structure>
+  <title>Example Wiki</title>
+  <description>An example repository</description>
+  <pages>
+    <page id="page-1">
+      <title>Introduction</title>
+      <importance>medium</importance>
+      <relevant_files>
+        <file_path>README.md</file_path>
+      </relevant_files>
+    </page>
+    <page id="page-2">
+      <title>API Server</title>
+      <importance>high</importance>
+      <relevant_files>
+        <file_path>./api/api.py</file_path>
+        <file_path>api/routes.py</file_path>
+      </relevant_files>
+    </page>
+  </pages>
+</wiki_structure>`;
+
+const page = (id, title = id) => ({
+  id,
+  title,
+  content: '',
+  filePaths: ['README.md'],
+  importance: 'medium',
+  relatedPages: []
+});
+
+const createGenerator = (options = {}, events = {}) => new WikiGenerator({
+  repoInfo: { owner: 'o', repo: 'r', type: 'github', token: null, localPath: null, repoUrl: 'https://github.com/o/r' },
+  model: { provider: 'openai', model: 'gpt-4o', isCustomModel: false, customModel: '' },
+  language: 'en',
+  isComprehensive: false,
+  maxRetries: 0,
+  retryDelayMs: 0,
+  ...options
+}, events);
+
+// Answers the structure request with the structure and page requests with their label
+const answerRequests = () => streamChatCompletion.mockImplementation(async (_body, { label }) =>
+  label === 'wiki structure' ? STRUCTURE_XML : `# ${label}`);
+
+describe('WikiGenerator', () => {
+  beforeEach(() => {
+    streamChatCompletion.mockReset();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('determineStructure', () => {
+    test('parses the structure and corrects its file paths against the file tree', async () => {
+      streamChatCompletion.mockResolvedValue(STRUCTURE_XML);
+      const events = { onStructureStart: jest.fn(), onStructure: jest.fn(), onFilePathCorrections: jest.fn() };
+
+      const structure = await createGenerator({}, events).determineStructure(FILE_TREE, '# Readme');
+
+      expect(structure.title).toBe('Example Wiki');
+      expect(structure.pages.map(p => p.filePaths)).toEqual([['README.md'], ['api/api.py']]);
+      expect(events.onStructureStart).toHaveBeenCalledTimes(1);
+      expect(events.onFilePathCorrections).toHaveBeenCalledWith([
+        { pageId: 'page-2', type: 'dropped', originalPath: 'api/routes.py' }
+      ]);
+      expect(events.onStructure).toHaveBeenCalledWith(structure);
+
+      const [requestBody, options] = streamChatCompletion.mock.calls[0];
+      expect(requestBody.repo_url).toBe('https://github.com/o/r');
+      expect(requestBody.provider).toBe('openai');
+      expect(requestBody.messages[0].content).toContain('src/app.ts');
+      expect(options.label).toBe('wiki structure');
+    });
+
+    test('reports a misconfigured embedder', async () => {
+      streamChatCompletion.mockResolvedValue('Error preparing retriever: Environment variable OPENAI_API_KEY must be set');
+
+      await expect(createGenerator().determineStructure(FILE_TREE, '')).rejects.toThrow(EmbeddingConfigurationError);
+    });
+
+    test('requires the owner and name of the repository', async () => {
+      const generator = createGenerator({ repoInfo: { owner: '', repo: 'r', type: 'github', token: null, localPath: null, repoUrl: null } });
+
+      await expect(generator.determineStructure(FILE_TREE, '')).rejects.toThrow('Owner and repo name are required');
+      expect(streamChatCompletion).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('generate', () => {
+    test('generates every page of the structure with its generation info', async () => {
+      answerRequests();
+      const onPageComplete = jest.fn();
+
+      const { structure, pages, failedPages, cancelledPages } =
+        await createGenerator({ commitSha: 'abc123' }, { onPageComplete }).generate(FILE_TREE, '');
+
+      expect(Object.keys(pages).sort()).toEqual(structure.pages.map(p => p.id).sort());
+      expect(pages['page-1'].content).toBe('# page: Introduction');
+      expect(pages['page-2'].generation).toMatchObject({ provider: 'openai', model: 'gpt-4o', commitSha: 'abc123' });
+      expect(failedPages).toEqual([]);
+      expect(cancelledPages).toEqual([]);
+      expect(streamChatCompletion.mock.calls.map(([, options]) => options.label).sort())
+        .toEqual(['page: API Server', 'page: Introduction', 'wiki structure']);
+      expect(onPageComplete).toHaveBeenCalledTimes(2);
+    });
+
+    test('stores a placeholder for pages that could not be generated', async () => {
+      streamChatCompletion.mockImplementation(async (_body, { label }) => {
+        if (label === 'wiki structure') return STRUCTURE_XML;
+        if (label === 'page: API Server') throw new Error('rate limited');
+        return '# Introduction';
+      });
+      const onPageError = jest.fn();
+
+      const { pages, failedPages } = await createGenerator({}, { onPageError }).generate(FILE_TREE, '');
+
+      expect(failedPages).toEqual(['page-2']);
+      expect(pages['page-2'].content).toBe(getPageErrorContent('rate limited'));
+      expect(pages['page-1'].content).toBe('# Introduction');
+      expect(onPageError).toHaveBeenCalledWith(expect.objectContaining({ id: 'page-2' }), expect.any(Error));
+    });
+  });
+
+  describe('cancel', () => {
+    test('stops the running pages and emits no further events', async () => {
+      // Requests only end when they are aborted
+      streamChatCompletion.mockImplementation((_body, { signal }) => new Promise((_resolve, reject) => {
+        const abort = () => reject(Object.assign(new Error('Aborted'), { name: 'AbortError' }));
+        if (signal.aborted) abort();
+        signal.addEventListener('abort', abort);
+      }));
+      const events = {
+        onPageStart: jest.fn(),
+        onPageComplete: jest.fn(),
+        onPageError: jest.fn(),
+        onPageCancelled: jest.fn(),
+        onQueueChange: jest.fn(),
+        onComplete: jest.fn()
+      };
+      const generator = createGenerator({}, events);
+      events.onPageStart.mockImplementation(() => generator.cancel());
+
+      const { pages, failedPages } = await generator.generatePages([page('a'), page('b')]);
+
+      expect(generator.isCancelled).toBe(true);
+      expect(events.onPageStart).toHaveBeenCalledTimes(1);
+      expect(streamChatCompletion).toHaveBeenCalledTimes(1);
+      expect(events.onPageComplete).not.toHaveBeenCalled();
+      expect(events.onPageError).not.toHaveBeenCalled();
+      expect(events.onPageCancelled).not.toHaveBeenCalled();
+      expect(events.onComplete).not.toHaveBeenCalled();
+      expect(failedPages).toEqual([]);
+      expect(pages).toEqual({});
+    });
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * Wiki Job Test Suite
+ * Tests for server-side wiki generation jobs and the state pages keep while following them
+ */
+
+import { getPageErrorContent, PAGE_LOADING_CONTENT } from '../src/utils/wiki/pagePlaceholders';
+import { getWikiJobKey, WikiJobConflictError, WikiJobManager } from '../src/utils/wiki/wikiJobManager';
+import { applyWikiJobEvent } from '../src/utils/wiki/wikiJobState';
+
+const page = (id, content = '') => ({
+  id,
+  title: id,
+  content,
+  filePaths: [],
+  importance: 'medium',
+  relatedPages: []
+});
+
+const STRUCTURE = {
+  id: 'wiki',
+  title: 'Wiki',
+  description: '',
+  pages: [page('overview'), page('api')],
+  sections: [],
+  rootSections: []
+};
+
+const JOB = {
+  id: 'job-1',
+  status: 'running',
+  repo: { owner: 'o', repo: 'r', type: 'github', localPath: null, repoUrl: null },
+  language: 'en',
+  isComprehensive: true,
+  provider: 'openai',
+  model: 'gpt-4o',
+  startedAt: '2026-01-01T00:00:00.000Z',
+  stage: 'fetchingStructure',
+  pages: {},
+  pagesInProgress: [],
+  queuedPageIds: [],
+  pageRetries: {},
+  filePathCorrections: []
+};
+
+const request = (overrides = {}) => ({
+  repo: { owner: 'o', repo: 'r', type: 'github', token: 'secret', localPath: null, repoUrl: null },
+  language: 'en',
+  isComprehensive: true,
+  model: { provider: 'openai', model: 'gpt-4o', isCustomModel: false, customModel: '' },
+  ...overrides
+});
+
+const applyEvents = (events) => events.reduce(applyWikiJobEvent, JOB);
+
+describe('applyWikiJobEvent', () => {
+  test('follows the pages of a job from scheduling to completion', () => {
+    const job = applyEvents([
+      { type: 'structure', structure: STRUCTURE, filePathCorrections: [], commitSha: 'abc', branch: 'main' },
+      { type: 'pagesScheduled', pageIds: ['overview', 'api'] },
+      { type: 'queue', pageIds: ['api'] },
+      { type: 'pageStart', pageId: 'overview' },
+    ]);
+
+    expect(job.stage).toBe('generatingPages');
+    expect(job.commitSha).toBe('abc');
+    expect(job.pages.overview.content).toBe(PAGE_LOADING_CONTENT);
+    expect(job.pagesInProgress).toEqual(['overview', 'api']);
+    expect(job.queuedPageIds).toEqual(['api']);
+
+    const done = [
+      { type: 'pageComplete', page: page('overview', '# Overview') },
+      { type: 'pageError', pageId: 'api', message: 'timeout' },
+      { type: 'done', status: 'failed', error: 'Failed to generate content for api.' },
+    ].reduce(applyWikiJobEvent, job);
+
+    expect(done.pages.overview.content).toBe('# Overview');
+    expect(done.pages.api.content).toBe(getPageErrorContent('timeout'));
+    expect(done.pagesInProgress).toEqual([]);
+    expect(done.queuedPageIds).toEqual([]);
+    expect(done.status).toBe('failed');
+  });
+
+  test('keeps the cached pages of a resumed job', () => {
+    const cachedPages = { overview: page('overview', '# Overview') };
+    const job = applyEvents([
+      { type: 'structure', structure: STRUCTURE, filePathCorrections: [], pages: cachedPages },
+      { type: 'pageRetry', pageId: 'api', attempt: 2 },
+    ]);
+
+    expect(job.pages).toEqual(cachedPages);
+    expect(job.pageRetries).toEqual({ api: 2 });
+  });
+
+  test('replaces the state with a snapshot and leaves the given state untouched', () => {
+    const snapshot = { ...JOB, status: 'completed' };
+    expect(applyWikiJobEvent(JOB, { type: 'snapshot', job: snapshot })).toBe(snapshot);
+
+    applyWikiJobEvent(JOB, { type: 'stage', stage: 'determiningStructure' });
+    expect(JOB.stage).toBe('fetchingStructure');
+  });
+});
+
+describe('getWikiJobKey', () => {
+  test('distinguishes wikis by repository, ref and language', () => {
+    const repo = { type: 'github', owner: 'o', repo: 'r' };
+
+    expect(getWikiJobKey(repo, 'en')).toBe(getWikiJobKey({ ...repo, ref: '' }, 'en'));
+    expect(getWikiJobKey(repo, 'en')).not.toBe(getWikiJobKey({ ...repo, ref: 'v1.0.0' }, 'en'));
+    expect(getWikiJobKey(repo, 'en')).not.toBe(getWikiJobKey(repo, 'ja'));
+  });
+});
+
+describe('WikiJobManager', () => {
+  beforeEach(() => {
+    // Repository access fails, so every job ends right after starting
+    global.fetch = jest.fn().mockRejectedValue(new Error('offline'));
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('attaches to the running job of the same wiki', () => {
+    const manager = new WikiJobManager('http://backend');
+
+    const first = manager.start(request());
+    const second = manager.start(request());
+    const otherLanguage = manager.start(request({ language: 'ja' }));
+
+    expect(first.attached).toBe(false);
+    expect(second).toEqual({ job: first.job, attached: true });
+    expect(otherLanguage.attached).toBe(false);
+    expect(manager.findRunning(request().repo, 'en')).toBe(first.job);
+
+    first.job.cancel();
+    otherLanguage.job.cancel();
+  });
+
+  test('rejects the same wiki with other settings while it is generated', () => {
+    const manager = new WikiJobManager('http://backend');
+    const { job } = manager.start(request());
+
+    expect(() => manager.start(request({ isComprehensive: false }))).toThrow(WikiJobConflictError);
+    expect(() => manager.start(request({ model: { provider: 'google', model: 'gemini', isCustomModel: false, customModel: '' } })))
+      .toThrow('This wiki is being generated already (comprehensive, openai/gpt-4o)');
+    expect(manager.start(request()).job).toBe(job);
+
+    job.cancel();
+  });
+
+  test('reports failures through the done event and starts a new job afterwards', async () => {
+    const manager = new WikiJobManager('http://backend');
+    const { job } = manager.start(request());
+    const events = [];
+    job.subscribe(event => events.push(event));
+
+    await new Promise(resolve => job.subscribe(event => event.type === 'done' && resolve()));
+
+    expect(events[events.length - 1]).toMatchObject({ type: 'done', status: 'failed' });
+    expect(job.snapshot.repo.token).toBeUndefined();
+    expect(manager.get(job.id)).toBe(job);
+    expect(manager.start(request()).attached).toBe(false);
+  });
+
+  test('cancels a running job once', () => {
+    const manager = new WikiJobManager('http://backend');
+    const { job } = manager.start(request());
+    const listener = jest.fn();
+    job.subscribe(listener);
+
+    job.cancel();
+    job.cancel();
+
+    expect(job.status).toBe('cancelled');
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(manager.findRunning(request().repo, 'en')).toBeUndefined();
+  });
+});